@@ -181,6 +181,83 @@ describe('CLI', () => {
     }).toThrow()
   })
 
+  it('generates every project from a config file', () => {
+    fs.writeFileSync(
+      path.join(tmpDir, 'auto-api-hooks.config.json'),
+      JSON.stringify({
+        zod: true,
+        projects: [
+          { name: 'pets', spec: specPath, fetcher: 'react-query', output: './pets' },
+          { name: 'graphql', spec: path.resolve(__dirname, '../fixtures/schema.graphql'), output: './graphql', zod: false },
+        ],
+      }),
+    )
+
+    execSync(`npx tsx ${cliPath} generate`, { cwd: tmpDir, encoding: 'utf-8' })
+
+    expect(fs.existsSync(path.join(tmpDir, 'pets/query-keys.ts'))).toBe(true)
+    expect(fs.existsSync(path.join(tmpDir, 'pets/schemas.ts'))).toBe(true)
+    expect(fs.existsSync(path.join(tmpDir, 'graphql/client.ts'))).toBe(true)
+    expect(fs.existsSync(path.join(tmpDir, 'graphql/schemas.ts'))).toBe(false)
+  })
+
+  it('generates a single config project with --project', () => {
+    const configPath = path.join(tmpDir, 'hooks.config.json')
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({
+        projects: [
+          { name: 'pets', spec: specPath, output: './pets' },
+          { name: 'graphql', spec: path.resolve(__dirname, '../fixtures/schema.graphql'), output: './graphql' },
+        ],
+      }),
+    )
+
+    execSync(`npx tsx ${cliPath} generate --config ${configPath} --project graphql`, { cwd, encoding: 'utf-8' })
+
+    expect(fs.existsSync(path.join(tmpDir, 'graphql/client.ts'))).toBe(true)
+    expect(fs.existsSync(path.join(tmpDir, 'pets'))).toBe(false)
+  })
+
+  it('applies --zod and --mock on top of config projects', () => {
+    fs.writeFileSync(
+      path.join(tmpDir, 'auto-api-hooks.config.json'),
+      JSON.stringify({ projects: [{ name: 'pets', spec: specPath, output: './pets' }] }),
+    )
+
+    execSync(`npx tsx ${cliPath} generate --zod --mock`, { cwd: tmpDir, encoding: 'utf-8' })
+
+    expect(fs.existsSync(path.join(tmpDir, 'pets/schemas.ts'))).toBe(true)
+    expect(fs.existsSync(path.join(tmpDir, 'pets/mocks'))).toBe(true)
+  })
+
+  it('resolves --documents against the config directory', () => {
+    fs.mkdirSync(path.join(tmpDir, 'docs'))
+    fs.copyFileSync(path.resolve(__dirname, '../fixtures/documents/pets.graphql'), path.join(tmpDir, 'docs/pets.graphql'))
+    const configPath = path.join(tmpDir, 'hooks.config.json')
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({ projects: [{ spec: path.resolve(__dirname, '../fixtures/schema.graphql'), output: './graphql' }] }),
+    )
+
+    execSync(`npx tsx ${cliPath} generate --config ${configPath} --documents "docs/*.graphql"`, { cwd, encoding: 'utf-8' })
+
+    const files = fs.readdirSync(path.join(tmpDir, 'graphql'), { recursive: true }).map(String)
+    expect(files.some((f) => f.endsWith('get-pet.ts'))).toBe(true)
+  })
+
+  it('rejects per-project flags with a config file', () => {
+    fs.writeFileSync(
+      path.join(tmpDir, 'auto-api-hooks.config.json'),
+      JSON.stringify({ projects: [{ name: 'pets', spec: specPath, output: './pets' }] }),
+    )
+
+    expect(() => {
+      execSync(`npx tsx ${cliPath} generate --fetcher swr --output ./other`, { cwd: tmpDir, encoding: 'utf-8', stdio: 'pipe' })
+    }).toThrow(/--fetcher.*--output.*cannot be used with a config file/)
+    expect(fs.existsSync(path.join(tmpDir, 'pets'))).toBe(false)
+  })
+
   it('fails with invalid spec file path', () => {
     expect(() => {
       execSync(
@@ -0,0 +1,136 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { defineConfig, findConfigFile, loadConfig, resolveProjects } from '../../src/config/index'
+import { ConfigError } from '../../src/utils/errors'
+
+describe('defineConfig', () => {
+  it('returns the config unchanged', () => {
+    const config = { spec: './openapi.yaml', fetcher: 'swr' as const }
+    expect(defineConfig(config)).toBe(config)
+  })
+})
+
+describe('resolveProjects', () => {
+  const configDir = '/repo'
+
+  it('resolves a single-project config with defaults', () => {
+    const [project] = resolveProjects({ spec: './openapi.yaml' }, configDir)
+    expect(project).toEqual({
+      name: undefined,
+      spec: '/repo/openapi.yaml',
+      fetcher: 'fetch',
+      output: '/repo/src/hooks',
+      baseUrl: undefined,
+      tags: undefined,
+      zod: false,
+      mock: false,
+      infiniteQueries: true,
+      preserveRefs: false,
+      prettier: false,
+      clean: false,
+      plugins: [],
+    })
+  })
+
+  it('applies top-level options to every project, letting projects override them', () => {
+    const projects = resolveProjects(
+      {
+        zod: true,
+        fetcher: 'react-query',
+        projects: [
+          { name: 'users', spec: 'specs/users.yaml', output: 'src/api/users' },
+          { name: 'billing', spec: 'specs/billing.yaml', output: 'src/api/billing', fetcher: 'swr', zod: false },
+        ],
+      },
+      configDir,
+    )
+    expect(projects.map((p) => [p.name, p.fetcher, p.zod, p.output])).toEqual([
+      ['users', 'react-query', true, '/repo/src/api/users'],
+      ['billing', 'swr', false, '/repo/src/api/billing'],
+    ])
+  })
+
+  it('picks a project by name', () => {
+    const config = {
+      projects: [
+        { name: 'users', spec: 'users.yaml' },
+        { name: 'billing', spec: 'billing.yaml' },
+      ],
+    }
+    expect(resolveProjects(config, configDir, 'billing').map((p) => p.spec)).toEqual(['/repo/billing.yaml'])
+    expect(() => resolveProjects(config, configDir, 'orders')).toThrow(
+      'No project named "orders" in config. Available projects: users, billing.',
+    )
+  })
+
+  it('resolves GraphQL document globs against the config directory', () => {
+    const [project] = resolveProjects({ spec: 'schema.graphql', documents: ['src/**/*.graphql'] }, configDir)
+    expect(project.documents).toEqual(['/repo/src/**/*.graphql'])
+  })
+
+  it('accepts fetchers registered by the project plugins', () => {
+    const plugin = { name: 'company', generators: { 'company-query': () => ({ generate: () => [] }) } }
+    const [project] = resolveProjects({ spec: 'a.yaml', fetcher: 'company-query', plugins: [plugin] }, configDir)
+    expect(project.fetcher).toBe('company-query')
+    expect(project.plugins).toEqual([plugin])
+  })
+
+  it('rejects invalid projects', () => {
+    expect(() => resolveProjects({ projects: [] }, configDir)).toThrow(ConfigError)
+    expect(() => resolveProjects({ projects: [{ name: 'users' } as never] }, configDir)).toThrow(
+      'Project "users" is missing a `spec` path.',
+    )
+    expect(() => resolveProjects({ spec: 'a.yaml', fetcher: 'ky' as never }, configDir)).toThrow(
+      'Project #1 has an invalid fetcher "ky".',
+    )
+    expect(() => resolveProjects({ spec: 'a.graphql', selectionDepth: 0 }, configDir)).toThrow(
+      'Project #1 has an invalid selectionDepth "0". Expected a positive integer.',
+    )
+    expect(() => resolveProjects({ spec: 'a.graphql', scalars: { DateTime: { type: 'date' as never } } }, configDir)).toThrow(
+      'Project #1 maps scalar "DateTime" to an invalid type "date". Valid types: string, number, integer, boolean, unknown.',
+    )
+  })
+})
+
+describe('loadConfig', () => {
+  let tmpDir: string
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'auto-api-hooks-config-test-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  it('returns null when there is no config file', async () => {
+    expect(await findConfigFile(tmpDir)).toBeUndefined()
+    expect(await loadConfig({ cwd: tmpDir })).toBeNull()
+  })
+
+  it('finds and loads a JSON config', async () => {
+    fs.writeFileSync(
+      path.join(tmpDir, 'auto-api-hooks.config.json'),
+      JSON.stringify({ spec: './openapi.yaml', fetcher: 'axios' }),
+    )
+    const loaded = await loadConfig({ cwd: tmpDir })
+    expect(loaded!.configPath).toBe(path.join(tmpDir, 'auto-api-hooks.config.json'))
+    expect(loaded!.projects[0].spec).toBe(path.join(tmpDir, 'openapi.yaml'))
+    expect(loaded!.projects[0].fetcher).toBe('axios')
+  })
+
+  it('loads the default export of a JavaScript config', async () => {
+    fs.writeFileSync(
+      path.join(tmpDir, 'hooks.config.mjs'),
+      `export default { projects: [{ name: 'users', spec: './users.yaml' }] }\n`,
+    )
+    const loaded = await loadConfig({ cwd: tmpDir, config: 'hooks.config.mjs' })
+    expect(loaded!.projects.map((p) => p.name)).toEqual(['users'])
+  })
+
+  it('reports unreadable config files', async () => {
+    fs.writeFileSync(path.join(tmpDir, 'auto-api-hooks.config.json'), '{ not json')
+    await expect(loadConfig({ cwd: tmpDir })).rejects.toThrow(ConfigError)
+  })
+})
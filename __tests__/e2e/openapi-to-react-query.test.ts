@@ -56,7 +56,7 @@ describe('E2E: OpenAPI 3.x -> React Query', () => {
     expect(getHook!.content).toContain("@tanstack/react-query")
     expect(getHook!.content).toContain('queryKey')
     expect(getHook!.content).toContain('queryFn')
-    expect(getHook!.content).toContain('getClientConfig')
+    expect(getHook!.content).toContain("from '../sdk'")
 
     // Check a useMutation hook (POST/PUT/DELETE -> useMutation)
     const mutationHook = hookFiles.find(f => f.content.includes('useMutation'))
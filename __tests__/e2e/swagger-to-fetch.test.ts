@@ -127,17 +127,23 @@ describe('E2E: Swagger 2.0 -> Fetch', () => {
     // POST hook
     const createHook = files.find(f => f.content.includes('function useCreatePet'))
     expect(createHook).toBeDefined()
-    expect(createHook!.content).toContain("method: 'POST'")
+    expect(createHook!.content).toContain('await createPet(')
 
     // PUT hook
     const updateHook = files.find(f => f.content.includes('function useUpdatePet'))
     expect(updateHook).toBeDefined()
-    expect(updateHook!.content).toContain("method: 'PUT'")
+    expect(updateHook!.content).toContain('await updatePet(')
 
     // DELETE hook
     const deleteHook = files.find(f => f.content.includes('function useDeletePet'))
     expect(deleteHook).toBeDefined()
-    expect(deleteHook!.content).toContain("method: 'DELETE'")
+    expect(deleteHook!.content).toContain('await deletePet(')
+
+    // The SDK functions they call send the matching methods
+    const sdk = files.filter(f => f.path.startsWith('sdk/')).map(f => f.content).join('\n')
+    expect(sdk).toContain("method: 'POST'")
+    expect(sdk).toContain("method: 'PUT'")
+    expect(sdk).toContain("method: 'DELETE'")
   })
 
   it('generates with Zod validation for Swagger specs', async () => {
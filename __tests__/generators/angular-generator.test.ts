@@ -0,0 +1,148 @@
+import { createGenerator, generateHooks } from '../../src/generators/index'
+import { AngularGenerator } from '../../src/generators/angular-generator'
+import type { GeneratorOptions } from '../../src/generators/types'
+import {
+  createMockSpec,
+  createGetOperation,
+  createPostOperation,
+  createDetailOperation,
+  createPaginatedOperation,
+  createGraphQLQueryOperation,
+  createSubscriptionOperation,
+  createSubscriptionWithArgsOperation,
+} from '../helpers'
+
+const defaultOptions: GeneratorOptions = {
+  fetcher: 'angular',
+  zod: false,
+  mock: false,
+  outputDir: './out',
+  infiniteQueries: false,
+}
+
+function findFile(spec: ReturnType<typeof createMockSpec>, path: string, options = defaultOptions): string {
+  const file = generateHooks(spec, options).find((f) => f.path === path)
+  expect(file).toBeDefined()
+  return file!.content
+}
+
+describe('AngularGenerator', () => {
+  describe('createGenerator', () => {
+    it('returns an AngularGenerator instance for "angular" strategy', () => {
+      expect(createGenerator('angular')).toBeInstanceOf(AngularGenerator)
+    })
+  })
+
+  describe('client', () => {
+    it('provides the config through an InjectionToken', () => {
+      const content = findFile(createMockSpec(), 'client.ts')
+      expect(content).toContain("export const API_CLIENT_CONFIG = new InjectionToken<ClientConfig>('API_CLIENT_CONFIG', {")
+      expect(content).toContain('factory: () => ({ baseUrl: API_BASE_URL }),')
+      expect(content).toContain('export function provideApiClient(config: Partial<ClientConfig>): EnvironmentProviders {')
+      expect(content).not.toContain('let _config')
+    })
+
+    it('sends requests through HttpClient', () => {
+      const content = findFile(createMockSpec(), 'client.ts')
+      expect(content).toContain('export class ApiClient {')
+      expect(content).toContain('private readonly http = inject(HttpClient)')
+      expect(content).toContain('request<T>(req: ApiRequest): Observable<T> {')
+      expect(content).toContain('return res.pipe(catchError((error: unknown) => throwError(() => toApiError(error))))')
+    })
+
+    it('adds a graphql method for GraphQL operations', () => {
+      const content = findFile(createMockSpec([createGraphQLQueryOperation()]), 'client.ts')
+      expect(content).toContain('graphql<TData>(request: GraphQLRequest): Observable<TData> {')
+      expect(content).toContain("observe: 'response',")
+    })
+
+    it('tracks write helpers in signals', () => {
+      const content = findFile(createMockSpec([createPostOperation()]), 'client.ts')
+      expect(content).toContain('export interface MutationResource<TVars, TData> {')
+      expect(content).toContain('export function mutationResource<TVars, TData>(send: (vars: TVars) => Observable<TData>): MutationResource<TVars, TData> {')
+    })
+  })
+
+  describe('services', () => {
+    it('emits an injectable service per tag', () => {
+      const content = findFile(createMockSpec([createGetOperation(), createPostOperation()]), 'sdk/pets.service.ts')
+      expect(content).toContain("@Injectable({ providedIn: 'root' })")
+      expect(content).toContain('export class PetsService {')
+      expect(content).toContain('private readonly client = inject(ApiClient)')
+      expect(content).toContain('listPets(params: ListPetsParams, options?: RequestOptions): Observable<ListPetsResponse> {')
+      expect(content).toContain('createPet(body: CreatePetBody, options?: RequestOptions): Observable<CreatePetResponse> {')
+    })
+
+    it('fills in path params', () => {
+      const content = findFile(createMockSpec([createDetailOperation()]), 'sdk/pets.service.ts')
+      expect(content).toContain('path: `/pets/${params.petId}`,')
+    })
+
+    it('exports the services from the sdk barrel', () => {
+      const content = findFile(createMockSpec([createGetOperation(), createGraphQLQueryOperation()]), 'sdk/index.ts')
+      expect(content).toContain("export * from './pets.service'")
+      expect(content).toContain("export * from './queries.service'")
+    })
+
+    it('sends GraphQL documents through the client', () => {
+      const content = findFile(createMockSpec([createGraphQLQueryOperation()]), 'sdk/queries.service.ts')
+      expect(content).toContain('const petDocument = /* GraphQL */ `')
+      expect(content).toContain("return this.client.graphql<{ pet: PetResponse }>({ query: petDocument, operationName: 'Pet', variables: params, ...options }).pipe(")
+      expect(content).toContain('map((data) => data.pet),')
+    })
+
+    it('wraps subscriptions in an Observable without the client', () => {
+      const content = findFile(createMockSpec([createSubscriptionWithArgsOperation()]), 'sdk/subscriptions.service.ts')
+      expect(content).toContain('return new Observable<OnMessageResponse>((subscriber) => {')
+      expect(content).not.toContain('inject(ApiClient)')
+    })
+
+    it('connects subscriptions to the base URL of the injected config', () => {
+      const spec = createMockSpec([createSubscriptionWithArgsOperation()])
+      const service = findFile(spec, 'sdk/subscriptions.service.ts')
+      expect(service).toContain('private readonly config = inject(API_CLIENT_CONFIG)')
+      expect(service).toContain('setSubscriptionBaseUrl(this.config.baseUrl)')
+      const client = findFile(spec, 'client.ts')
+      expect(client).toContain('const base = _subscriptionBaseUrl')
+      expect(client).toContain('export function setSubscriptionBaseUrl(baseUrl: string): void {')
+    })
+  })
+
+  describe('resource helpers', () => {
+    it('loads reads with rxResource', () => {
+      const content = findFile(createMockSpec([createGetOperation()]), 'pets/list-pets.ts')
+      expect(content).toContain("import { rxResource } from '@angular/core/rxjs-interop'")
+      expect(content).toContain('export function injectListPets(params: () => ListPetsParams | undefined) {')
+      expect(content).toContain('const service = inject(PetsService)')
+      expect(content).toContain('stream: ({ params }) => service.listPets(params),')
+    })
+
+    it('tracks writes with mutationResource', () => {
+      const content = findFile(createMockSpec([createPostOperation()]), 'pets/create-pet.ts')
+      expect(content).toContain("import { mutationResource } from '../client'")
+      expect(content).toContain('return mutationResource((vars: { body: CreatePetBody }) => service.createPet(vars.body))')
+    })
+
+    it('subscribes with rxResource', () => {
+      const content = findFile(createMockSpec([createSubscriptionOperation()]), 'subscriptions/pet-created.ts')
+      expect(content).toContain('export function injectPetCreated() {')
+      expect(content).toContain('stream: () => service.petCreated(),')
+    })
+
+    it('collects stream events', () => {
+      const op = createDetailOperation({
+        operationId: 'tailLogs',
+        streaming: true,
+        response: { statusCode: 200, contentType: 'text/event-stream', type: { kind: 'primitive', type: 'string' } },
+      })
+      const content = findFile(createMockSpec([op]), 'pets/tail-logs-stream.ts')
+      expect(content).toContain('export function injectTailLogsStream(params: () => TailLogsParams | undefined) {')
+      expect(content).toContain('.pipe(scan((events, event) => [...events, event], [] as TailLogsResponse[]))')
+    })
+
+    it('does not generate infinite queries', () => {
+      const files = generateHooks(createMockSpec([createPaginatedOperation()]), { ...defaultOptions, infiniteQueries: true })
+      expect(files.some((f) => f.path.endsWith('-infinite.ts'))).toBe(false)
+    })
+  })
+})
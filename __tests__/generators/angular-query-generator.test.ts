@@ -0,0 +1,88 @@
+import { createGenerator, generateHooks } from '../../src/generators/index'
+import { AngularQueryGenerator } from '../../src/generators/angular-query-generator'
+import type { GeneratorOptions } from '../../src/generators/types'
+import {
+  createMockSpec,
+  createGetOperation,
+  createPostOperation,
+  createDetailOperation,
+  createDeleteOperation,
+  createSubscriptionOperation,
+} from '../helpers'
+
+const defaultOptions: GeneratorOptions = {
+  fetcher: 'angular-query',
+  zod: false,
+  mock: false,
+  outputDir: './out',
+  infiniteQueries: false,
+}
+
+function findFile(spec: ReturnType<typeof createMockSpec>, path: string, options = defaultOptions): string {
+  const file = generateHooks(spec, options).find((f) => f.path === path)
+  expect(file).toBeDefined()
+  return file!.content
+}
+
+describe('AngularQueryGenerator', () => {
+  describe('createGenerator', () => {
+    it('returns an AngularQueryGenerator instance for "angular-query" strategy', () => {
+      expect(createGenerator('angular-query')).toBeInstanceOf(AngularQueryGenerator)
+    })
+  })
+
+  it('generates the query keys and exports them from the barrel', () => {
+    const spec = createMockSpec([createGetOperation()])
+    expect(findFile(spec, 'query-keys.ts')).toContain('export const petsKeys = {')
+    expect(findFile(spec, 'index.ts')).toContain("export * from './query-keys'")
+  })
+
+  it('generates the services and leaves out mutationResource', () => {
+    const spec = createMockSpec([createGetOperation(), createPostOperation()])
+    expect(findFile(spec, 'sdk/pets.service.ts')).toContain('export class PetsService {')
+    expect(findFile(spec, 'client.ts')).not.toContain('mutationResource')
+  })
+
+  describe('injectQuery', () => {
+    it('wraps reads in injectQuery', () => {
+      const content = findFile(createMockSpec([createGetOperation()]), 'pets/list-pets.ts')
+      expect(content).toContain("import { injectQuery } from '@tanstack/angular-query-experimental'")
+      expect(content).toContain('export function injectListPets(params: () => ListPetsParams, options?: () => Partial<CreateQueryOptions<ListPetsResponse, Error>>) {')
+      expect(content).toContain('queryKey: petsKeys.list(params()),')
+      expect(content).toContain("import { fromEvent, lastValueFrom, takeUntil } from 'rxjs'")
+      expect(content).toContain('queryFn: ({ signal }) => lastValueFrom(')
+      expect(content).toContain("service.listPets(params()).pipe(takeUntil(fromEvent(signal, 'abort'))),")
+      expect(content).toContain('...options?.(),')
+    })
+
+    it('keys detail reads by id', () => {
+      const content = findFile(createMockSpec([createDetailOperation()]), 'pets/get-pet.ts')
+      expect(content).toContain('queryKey: petsKeys.detail(params().petId),')
+    })
+
+    it('resolves reads of 204 responses to null', () => {
+      const op = createDetailOperation({ response: { statusCode: 204, contentType: '', type: { kind: 'primitive', type: 'unknown' } } })
+      const content = findFile(createMockSpec([op]), 'pets/get-pet.ts')
+      expect(content).toContain('injectQuery<GetPetResponse | null, Error>')
+      expect(content).toContain("service.getPet(params()).pipe(map(() => null), takeUntil(fromEvent(signal, 'abort'))),")
+    })
+  })
+
+  describe('injectMutation', () => {
+    it('wraps writes in injectMutation', () => {
+      const content = findFile(createMockSpec([createPostOperation()]), 'pets/create-pet.ts')
+      expect(content).toContain('return injectMutation<CreatePetResponse, Error, { body: CreatePetBody }>(() => ({')
+      expect(content).toContain('mutationFn: (vars) => lastValueFrom(service.createPet(vars.body)),')
+    })
+
+    it('passes path params', () => {
+      const content = findFile(createMockSpec([createDeleteOperation()]), 'pets/delete-pet.ts')
+      expect(content).toContain('mutationFn: (vars) => lastValueFrom(service.deletePet(vars.params)),')
+    })
+  })
+
+  it('keeps the resource helper for subscriptions', () => {
+    const content = findFile(createMockSpec([createSubscriptionOperation()]), 'subscriptions/pet-created.ts')
+    expect(content).toContain('return rxResource({')
+  })
+})
@@ -0,0 +1,110 @@
+import { createGenerator, generateHooks } from '../../src/generators/index'
+import { ApolloGenerator } from '../../src/generators/apollo-generator'
+import type { GeneratorOptions } from '../../src/generators/types'
+import {
+  createMockSpec,
+  createGetOperation,
+  createGraphQLQueryOperation,
+  createGraphQLMutationOperation,
+  createSubscriptionOperation,
+  createSubscriptionWithArgsOperation,
+} from '../helpers'
+
+const defaultOptions: GeneratorOptions = {
+  fetcher: 'apollo',
+  zod: false,
+  mock: false,
+  outputDir: './out',
+  infiniteQueries: false,
+}
+
+function findFile(spec: ReturnType<typeof createMockSpec>, path: string, options = defaultOptions): string {
+  const file = generateHooks(spec, options).find((f) => f.path === path)
+  expect(file).toBeDefined()
+  return file!.content
+}
+
+describe('ApolloGenerator', () => {
+  describe('createGenerator', () => {
+    it('returns an ApolloGenerator instance for "apollo" strategy', () => {
+      expect(createGenerator('apollo')).toBeInstanceOf(ApolloGenerator)
+    })
+  })
+
+  describe('documents', () => {
+    it('declares typed gql documents', () => {
+      const spec = createMockSpec([createGraphQLQueryOperation(), createGraphQLMutationOperation()])
+      const content = findFile(spec, 'documents.ts')
+      expect(content).toContain("import { gql } from '@apollo/client'")
+      expect(content).toContain("import type { TypedDocumentNode } from '@apollo/client'")
+      expect(content).toContain('export const PetDocument: TypedDocumentNode<{ pet: PetResponse }, PetParams> = gql`')
+      expect(content).toContain('export const CreatePetDocument: TypedDocumentNode<{ createPet: CreatePetResponse }, CreatePetBody> = gql`')
+      expect(content).toContain('  query Pet($id: ID!) {')
+    })
+
+    it('types operations without variables with an empty record', () => {
+      const content = findFile(createMockSpec([createSubscriptionOperation()]), 'documents.ts')
+      expect(content).toContain('TypedDocumentNode<{ petCreated: PetCreatedResponse }, Record<string, never>>')
+    })
+
+    it('exports the documents from the barrel', () => {
+      const content = findFile(createMockSpec([createGraphQLQueryOperation()]), 'index.ts')
+      expect(content).toContain("export * from './documents'")
+      expect(content).not.toContain("export * from './sdk'")
+    })
+  })
+
+  describe('client', () => {
+    it('only holds the endpoint', () => {
+      const content = findFile(createMockSpec([createGraphQLQueryOperation()]), 'client.ts')
+      expect(content).toContain("export const API_BASE_URL = 'http://localhost:3000/api'")
+      expect(content).not.toContain('configureClient')
+      expect(content).not.toContain('graphqlRequest')
+    })
+  })
+
+  describe('hooks', () => {
+    it('wraps useQuery with the document and variables', () => {
+      const content = findFile(createMockSpec([createGraphQLQueryOperation()]), 'queries/pet.ts')
+      expect(content).toContain("import { useQuery } from '@apollo/client/react'")
+      expect(content).toContain("import { PetDocument } from '../documents'")
+      expect(content).toContain("export function usePet(variables: PetParams, options?: Omit<QueryHookOptions<{ pet: PetResponse }, PetParams>, 'variables'>) {")
+      expect(content).toContain('return useQuery(PetDocument, { ...options, variables })')
+    })
+
+    it('wraps useMutation with the document', () => {
+      const content = findFile(createMockSpec([createGraphQLMutationOperation()]), 'mutations/create-pet.ts')
+      expect(content).toContain('export function useCreatePet(options?: MutationHookOptions<{ createPet: CreatePetResponse }, CreatePetBody>) {')
+      expect(content).toContain('return useMutation(CreatePetDocument, options)')
+      expect(content).toContain("import type { MutationHookOptions } from '@apollo/client/react'")
+    })
+
+    it('wraps useSubscription with the document', () => {
+      const content = findFile(createMockSpec([createSubscriptionWithArgsOperation()]), 'subscriptions/on-message.ts')
+      expect(content).toContain('return useSubscription(OnMessageDocument, { ...options, variables })')
+    })
+
+    it('passes only options without variables', () => {
+      const content = findFile(createMockSpec([createSubscriptionOperation()]), 'subscriptions/pet-created.ts')
+      expect(content).toContain('export function usePetCreated(options?: SubscriptionHookOptions<{ petCreated: PetCreatedResponse }, Record<string, never>>) {')
+      expect(content).toContain('return useSubscription(PetCreatedDocument, options)')
+    })
+  })
+
+  describe('REST operations', () => {
+    it('skips them with a warning', () => {
+      const warnSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+
+      const files = generateHooks(createMockSpec([createGetOperation(), createGraphQLQueryOperation()]), defaultOptions)
+
+      expect(files.some((f) => f.path.startsWith('pets/'))).toBe(false)
+      expect(files.some((f) => f.path === 'queries/pet.ts')).toBe(true)
+      const warningCalls = warnSpy.mock.calls
+        .map((args) => args.join(' '))
+        .filter((msg) => msg.includes('skipping 1 REST operation.'))
+      expect(warningCalls.length).toBe(1)
+
+      warnSpy.mockRestore()
+    })
+  })
+})
@@ -5,6 +5,9 @@ import {
   createMockSpec,
   createGetOperation,
   createPostOperation,
+  createGraphQLQueryOperation,
+  createGraphQLMutationOperation,
+  createSubscriptionOperation,
 } from '../helpers'
 
 const defaultOptions: GeneratorOptions = {
@@ -57,20 +60,28 @@ describe('AxiosGenerator', () => {
   })
 
   describe('GET operation hooks', () => {
-    it('generates hooks that use apiClient instead of raw fetch', () => {
+    it('generates hooks that call the SDK function instead of raw fetch', () => {
       const spec = createMockSpec([createGetOperation()])
       const files = generateHooks(spec, defaultOptions)
       const hookFile = files.find((f) => f.path.startsWith('pets/') && f.path !== 'pets/index.ts')
       expect(hookFile).toBeDefined()
-      expect(hookFile!.content).toContain('apiClient')
-      expect(hookFile!.content).toContain("import { apiClient } from '../client'")
+      expect(hookFile!.content).toContain("import { listPets } from '../sdk'")
+      expect(hookFile!.content).toContain('const result = await listPets(params, { signal: source.signal })')
+      expect(hookFile!.content).not.toContain('fetch(')
     })
 
-    it('uses apiClient.get for GET operations', () => {
+    it('sends requests through apiClient', () => {
       const spec = createMockSpec([createGetOperation()])
       const files = generateHooks(spec, defaultOptions)
-      const hookFile = files.find((f) => f.path.startsWith('pets/') && f.path !== 'pets/index.ts')
-      expect(hookFile!.content).toContain('apiClient.get')
+      const client = files.find((f) => f.path === 'client.ts')!.content
+      expect(client).toContain('export async function request<T = unknown>(req: ApiRequest): Promise<T> {')
+      expect(client).toContain('const res = await apiClient.request<T>({')
+      expect(client).toContain('params: req.query,')
+
+      const sdkFile = files.find((f) => f.path === 'sdk/pets.ts')!.content
+      expect(sdkFile).toContain('return request<ListPetsResponse>({')
+      expect(sdkFile).toContain("method: 'GET',")
+      expect(sdkFile).toContain('query: { limit: params.limit },')
     })
 
     it('includes useState and useEffect imports', () => {
@@ -100,11 +111,13 @@ describe('AxiosGenerator', () => {
       expect(hookFile!.content).toContain('reset')
     })
 
-    it('uses apiClient.post for POST operations', () => {
+    it('sends POST requests with the body as-is', () => {
       const spec = createMockSpec([createPostOperation()])
       const files = generateHooks(spec, defaultOptions)
-      const hookFile = files.find((f) => f.path.startsWith('pets/') && f.path !== 'pets/index.ts')
-      expect(hookFile!.content).toContain('apiClient.post')
+      const sdkFile = files.find((f) => f.path === 'sdk/pets.ts')!.content
+      expect(sdkFile).toContain("method: 'POST',")
+      expect(sdkFile).toContain('    body,\n')
+      expect(sdkFile).not.toContain('JSON.stringify')
     })
 
     it('passes body to axios call', () => {
@@ -133,4 +146,139 @@ describe('AxiosGenerator', () => {
       expect(petFiles.length).toBeGreaterThan(0)
     })
   })
+
+  describe('typed errors', () => {
+    it('rejects non-2xx responses with ApiError via an interceptor', () => {
+      const files = generateHooks(createMockSpec(), defaultOptions)
+      const client = files.find((f) => f.path === 'client.ts')
+      expect(client!.content).toContain('export class ApiError')
+      expect(client!.content).toContain('apiClient.interceptors.response.use')
+    })
+
+    it('types the result error with the operation error union or a plain Error', () => {
+      const spec = createMockSpec([
+        createGetOperation({
+          errors: [{ statusCode: 422, contentType: 'application/json', type: { kind: 'primitive', type: 'unknown' } }],
+        }),
+      ])
+      const files = generateHooks(spec, defaultOptions)
+      const hookFile = files.find((f) => f.path === 'pets/list-pets.ts')
+      expect(hookFile!.content).toContain('error: ListPetsError | Error | null')
+      expect(hookFile!.content).not.toContain('as ListPetsError')
+    })
+  })
+
+  describe('authentication', () => {
+    const authSpec = () => ({
+      ...createMockSpec([
+        createGetOperation({ security: [['apiKeyAuth']] }),
+        createPostOperation({ security: [['basicAuth']] }),
+      ]),
+      securitySchemes: [
+        { name: 'basicAuth', type: 'basic' as const },
+        { name: 'apiKeyAuth', type: 'apiKey' as const, in: 'query' as const, paramName: 'api_key' },
+      ],
+    })
+
+    it('generates setAuth in client.ts', () => {
+      const files = generateHooks(authSpec(), defaultOptions)
+      const clientFile = files.find((f) => f.path === 'client.ts')!
+      expect(clientFile.content).toContain('export function setAuth(auth: AuthConfig): void')
+      expect(clientFile.content).toContain('basic?: { username: string; password: string }')
+    })
+
+    it('passes resolved credentials as request config', () => {
+      const files = generateHooks(authSpec(), defaultOptions)
+      const sdkFile = files.find((f) => f.path === 'sdk/pets.ts')!.content
+      expect(sdkFile).toContain("security: [['apiKeyAuth']],")
+      expect(sdkFile).toContain("security: [['basicAuth']],")
+
+      const client = files.find((f) => f.path === 'client.ts')!.content
+      expect(client).toContain('const auth = req.security ? await resolveAuth(req.security) : undefined')
+      expect(client).toContain('params: { ...req.query, ...auth?.query },')
+      expect(client).toContain('...auth?.headers,')
+    })
+  })
+
+  describe('form request bodies', () => {
+    it('sends multipart bodies as FormData with upload progress', () => {
+      const spec = createMockSpec([
+        createPostOperation({
+          operationId: 'uploadAvatar',
+          requestBody: {
+            required: true,
+            contentType: 'multipart/form-data',
+            type: {
+              kind: 'object',
+              properties: [{ name: 'file', type: { kind: 'primitive', type: 'string', format: 'binary' }, required: true }],
+            },
+          },
+        }),
+      ])
+      const files = generateHooks(spec, defaultOptions)
+      const hookFile = files.find((f) => f.path === 'pets/upload-avatar.ts')!
+      expect(hookFile.content).toContain("import type { AxiosProgressEvent } from 'axios'")
+      expect(hookFile.content).toContain('options?: { onUploadProgress?: (event: AxiosProgressEvent) => void }')
+      expect(hookFile.content).toContain('const result = await uploadAvatar(body, options)')
+      expect(files.find((f) => f.path === 'sdk/pets.ts')!.content).toContain('body: toFormData(body),')
+
+      const client = files.find((f) => f.path === 'client.ts')!.content
+      expect(client).toContain('onUploadProgress?: (event: AxiosProgressEvent) => void')
+      expect(client).toContain("? 'multipart/form-data'")
+      expect(client).toContain('onUploadProgress: req.onUploadProgress,')
+    })
+
+    it('does not add upload progress to JSON mutations', () => {
+      const files = generateHooks(createMockSpec([createPostOperation()]), defaultOptions)
+      const hookFile = files.find((f) => f.path === 'pets/create-pet.ts')!
+      expect(hookFile.content).not.toContain('onUploadProgress')
+      expect(hookFile.content).toContain('const result = await createPet(body)')
+    })
+  })
+
+  describe('response decoding', () => {
+    it('requests text and binary responses with a matching responseType', () => {
+      const spec = createMockSpec([
+        createGetOperation({ response: { statusCode: 200, contentType: 'text/csv', type: { kind: 'primitive', type: 'string' } } }),
+        createPostOperation({ response: { statusCode: 201, contentType: 'application/zip', type: { kind: 'primitive', type: 'string' } } }),
+      ])
+      const files = generateHooks(spec, defaultOptions)
+      const sdkFile = files.find((f) => f.path === 'sdk/pets.ts')!.content
+      expect(sdkFile).toContain(`responseType: 'text',`)
+      expect(sdkFile).toContain(`responseType: 'blob',`)
+    })
+  })
+
+  describe('GraphQL operations', () => {
+    it('posts documents through apiClient', () => {
+      const spec = createMockSpec([createGraphQLQueryOperation(), createGraphQLMutationOperation()])
+      const files = generateHooks(spec, defaultOptions)
+      const client = files.find((f) => f.path === 'client.ts')!.content
+      expect(client).toContain('const res = await apiClient.post<GraphQLResponse<TData>>(')
+      expect(client).toContain('validateStatus: () => true,')
+      expect(client).toContain('export class GraphQLRequestError extends Error {')
+
+      const query = files.find((f) => f.path === 'sdk/queries.ts')!.content
+      expect(query).toContain("import { graphqlRequest } from '../client'")
+      expect(query).toContain("variables: params, ...options })).pet")
+      expect(query).not.toContain('apiClient')
+      expect(files.find((f) => f.path === 'queries/pet.ts')!.content).toContain(
+        'const result = await pet(params, { signal: source.signal })',
+      )
+
+      const mutation = files.find((f) => f.path === 'sdk/mutations.ts')!.content
+      expect(mutation).toContain("operationName: 'CreatePet', variables: body, ...options })).createPet")
+    })
+
+    it('derives the subscription URL from the axios base URL', () => {
+      const spec = createMockSpec([createSubscriptionOperation()])
+      const files = generateHooks(spec, defaultOptions)
+      const client = files.find((f) => f.path === 'client.ts')!.content
+      expect(client).toContain("const base = apiClient.defaults.baseURL ?? ''")
+      expect(client).not.toContain('getClientConfig')
+
+      const hook = files.find((f) => f.path === 'subscriptions/pet-created.ts')!.content
+      expect(hook).toContain("import { subscribe } from '../client'")
+    })
+  })
 })
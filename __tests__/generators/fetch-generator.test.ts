@@ -8,6 +8,8 @@ import {
   createDetailOperation,
   createSubscriptionOperation,
   createSubscriptionWithArgsOperation,
+  createGraphQLQueryOperation,
+  createGraphQLMutationOperation,
 } from '../helpers'
 
 const defaultOptions: GeneratorOptions = {
@@ -100,11 +102,13 @@ describe('FetchGenerator', () => {
       expect(hookFile!.content).toContain("import { useState, useEffect, useCallback, useRef } from 'react'")
     })
 
-    it('imports getClientConfig from client module', () => {
+    it('fetches through the SDK function with the abort signal', () => {
       const spec = createMockSpec([createGetOperation()])
       const files = generateHooks(spec, defaultOptions)
       const hookFile = files.find((f) => f.path.startsWith('pets/') && f.path !== 'pets/index.ts')
-      expect(hookFile!.content).toContain("import { getClientConfig } from '../client'")
+      expect(hookFile!.content).toContain("import { listPets } from '../sdk'")
+      expect(hookFile!.content).toContain('const result = await listPets(params, { signal: controller.signal })')
+      expect(hookFile!.content).not.toContain("from '../client'")
     })
 
     it('includes data, error, isLoading, and refetch in the result', () => {
@@ -117,12 +121,13 @@ describe('FetchGenerator', () => {
       expect(hookFile!.content).toContain('refetch')
     })
 
-    it('generates a buildUrl function for query parameters', () => {
+    it('passes query parameters to request()', () => {
       const spec = createMockSpec([createGetOperation()])
       const files = generateHooks(spec, defaultOptions)
-      const hookFile = files.find((f) => f.path.startsWith('pets/') && f.path !== 'pets/index.ts')
-      expect(hookFile!.content).toContain('buildUrl')
-      expect(hookFile!.content).toContain('URLSearchParams')
+      const sdkFile = files.find((f) => f.path === 'sdk/pets.ts')!
+      expect(sdkFile.content).toContain("path: '/pets',")
+      expect(sdkFile.content).toContain('query: { limit: params.limit },')
+      expect(files.find((f) => f.path === 'pets/list-pets.ts')!.content).not.toContain('buildUrl')
     })
   })
 
@@ -148,14 +153,15 @@ describe('FetchGenerator', () => {
       const files = generateHooks(spec, defaultOptions)
       const hookFile = files.find((f) => f.path.startsWith('pets/') && f.path !== 'pets/index.ts')
       expect(hookFile!.content).toContain('body: CreatePetBody')
-      expect(hookFile!.content).toContain('JSON.stringify(body)')
+      expect(hookFile!.content).toContain('const result = await createPet(body)')
     })
 
-    it('uses POST method in fetch call', () => {
+    it('uses POST method in the SDK request', () => {
       const spec = createMockSpec([createPostOperation()])
       const files = generateHooks(spec, defaultOptions)
-      const hookFile = files.find((f) => f.path.startsWith('pets/') && f.path !== 'pets/index.ts')
-      expect(hookFile!.content).toContain("method: 'POST'")
+      const sdkFile = files.find((f) => f.path === 'sdk/pets.ts')!
+      expect(sdkFile.content).toContain("method: 'POST'")
+      expect(sdkFile.content).toContain('body: JSON.stringify(body),')
     })
   })
 
@@ -261,14 +267,57 @@ describe('FetchGenerator', () => {
       )
       expect(hookFile!.content).not.toContain('mutate')
     })
+
+    it('sends the operation document with its variables', () => {
+      const spec = createMockSpec([createSubscriptionWithArgsOperation()])
+      const files = generateHooks(spec, defaultOptions)
+      const hookFile = files.find(
+        (f) => f.path.startsWith('subscriptions/') && f.path !== 'subscriptions/index.ts',
+      )
+      expect(hookFile!.content).toContain('subscription OnMessage($channel: String!) {')
+      expect(hookFile!.content).toContain('query: document,')
+      expect(hookFile!.content).toContain("operationName: 'OnMessage',")
+      expect(hookFile!.content).not.toContain('__typename')
+    })
+
+    it('subscribes through the shared client', () => {
+      const spec = createMockSpec([createSubscriptionOperation(), createSubscriptionWithArgsOperation()])
+      const files = generateHooks(spec, defaultOptions)
+      const hookFile = files.find((f) => f.path === 'subscriptions/pet-created.ts')!
+      expect(hookFile.content).toContain("import { subscribe } from '../client'")
+      expect(hookFile.content).toContain("const stop = subscribe<{ petCreated: PetCreatedResponse }>(")
+      expect(hookFile.content).not.toContain('new WebSocket')
+    })
+
+    it('generates a graphql-transport-ws client with reconnects', () => {
+      const spec = createMockSpec([createSubscriptionOperation()])
+      const client = generateHooks(spec, defaultOptions).find((f) => f.path === 'client.ts')!.content
+      expect(client).toContain("export type SubscriptionProtocol = 'graphql-transport-ws' | 'graphql-ws'")
+      expect(client).toContain('export function configureSubscriptions(')
+      expect(client).toContain('export function subscribe<TData>(')
+      expect(client).toContain("sendMessage({ type: 'connection_init', payload })")
+      expect(client).toContain("const type = _subscriptionConfig.protocol === 'graphql-transport-ws' ? 'subscribe' : 'start'")
+      expect(client).toContain("sendMessage({ type: 'pong', payload: message.payload })")
+      expect(client).toContain('const retry = _acknowledged ? 0 : attempt')
+      expect(client).toContain('_retryTimer = setTimeout(() => connectSubscriptions(retry + 1), config.retryDelay(retry))')
+      expect(client).not.toContain('_attempt')
+    })
+
+    it('omits the subscription client without subscriptions', () => {
+      const spec = createMockSpec([createGraphQLQueryOperation()])
+      const client = generateHooks(spec, defaultOptions).find((f) => f.path === 'client.ts')!.content
+      expect(client).not.toContain('subscribe')
+      expect(client).not.toContain('WebSocket')
+    })
   })
 
   describe('zod integration', () => {
-    it('imports from schemas when zod is enabled', () => {
+    it('validates responses in the SDK function when zod is enabled', () => {
       const spec = createMockSpec([createGetOperation()])
       const files = generateHooks(spec, { ...defaultOptions, zod: true })
-      const hookFile = files.find((f) => f.path.startsWith('pets/') && f.path !== 'pets/index.ts')
-      expect(hookFile!.content).toContain("from '../schemas'")
+      const sdkFile = files.find((f) => f.path === 'sdk/pets.ts')!
+      expect(sdkFile.content).toContain("import { listPetsResponseSchema } from '../schemas'")
+      expect(sdkFile.content).toContain('return listPetsResponseSchema.parse(data) as ListPetsResponse')
     })
 
     it('generates schemas.ts file when zod is enabled', () => {
@@ -285,4 +334,229 @@ describe('FetchGenerator', () => {
       expect(indexFile!.content).toContain("export * from './schemas'")
     })
   })
+
+  describe('authentication', () => {
+    const authSpec = () => ({
+      ...createMockSpec([
+        createGetOperation({ security: [['apiKeyAuth'], ['bearerAuth']] }),
+        createPostOperation({ security: [['bearerAuth']] }),
+        createDetailOperation(),
+      ]),
+      securitySchemes: [
+        { name: 'bearerAuth', type: 'bearer' as const },
+        { name: 'apiKeyAuth', type: 'apiKey' as const, in: 'query' as const, paramName: 'api_key' },
+      ],
+    })
+
+    it('generates setAuth and resolveAuth in client.ts', () => {
+      const files = generateHooks(authSpec(), defaultOptions)
+      const clientFile = files.find((f) => f.path === 'client.ts')!
+      expect(clientFile.content).toContain('export function setAuth(auth: AuthConfig): void')
+      expect(clientFile.content).toContain('export async function resolveAuth(')
+      expect(clientFile.content).toContain('bearer?: Credential')
+      expect(clientFile.content).toContain("apiKey?: Credential | Partial<Record<'apiKeyAuth', Credential>>")
+      expect(clientFile.content).not.toContain('basic?:')
+      expect(clientFile.content).toContain('export function appendQuery(')
+    })
+
+    it('omits the auth layer when the spec has no security schemes', () => {
+      const files = generateHooks(createMockSpec(), defaultOptions)
+      const clientFile = files.find((f) => f.path === 'client.ts')!
+      expect(clientFile.content).not.toContain('setAuth')
+    })
+
+    it('resolves only the credentials the operation requires', () => {
+      const files = generateHooks(authSpec(), defaultOptions)
+      const sdkFile = files.find((f) => f.path === 'sdk/pets.ts')!.content
+      expect(sdkFile).toContain("security: [['apiKeyAuth'], ['bearerAuth']],")
+      expect(sdkFile).toContain("security: [['bearerAuth']],")
+
+      const client = files.find((f) => f.path === 'client.ts')!.content
+      expect(client).toContain('security?: ReadonlyArray<ReadonlyArray<SecuritySchemeName>>')
+      expect(client).toContain('const auth = req.security ? await resolveAuth(req.security) : undefined')
+      expect(client).toContain('for (const [key, value] of Object.entries(auth?.query ?? {})) query.set(key, value)')
+      expect(client).toContain('...auth?.headers,')
+    })
+
+    it('tries requirements with credentials before an empty one', () => {
+      const spec = { ...authSpec(), operations: [createGetOperation({ security: [[], ['bearerAuth']] })] }
+      const files = generateHooks(spec, defaultOptions)
+      expect(files.find((f) => f.path === 'sdk/pets.ts')!.content).toContain("security: [['bearerAuth'], []],")
+      expect(files.find((f) => f.path === 'client.ts')!.content).toContain(
+        '  requirements: for (const requirement of security) {\n    if (requirement.length === 0) continue\n',
+      )
+    })
+
+    it('sets the Cookie header for cookie API keys outside the browser only', () => {
+      const spec = {
+        ...authSpec(),
+        securitySchemes: [{ name: 'sessionKey', type: 'apiKey' as const, in: 'cookie' as const, paramName: 'session' }],
+        operations: [createGetOperation({ security: [['sessionKey']] })],
+      }
+      const client = generateHooks(spec, defaultOptions).find((f) => f.path === 'client.ts')!.content
+      expect(client).toContain("          if (!('document' in globalThis)) {\n            const cookie = `${scheme.name}=${encodeURIComponent(key)}`")
+    })
+
+    it('sends no credentials to public operations', () => {
+      const files = generateHooks(authSpec(), defaultOptions)
+      const detailFile = files.find((f) => f.path === 'pets/get-pet.ts')!
+      expect(detailFile.content).not.toContain('resolveAuth')
+      const sdkFile = files.find((f) => f.path === 'sdk/pets.ts')!.content
+      expect(sdkFile.slice(sdkFile.indexOf('function getPet'))).not.toContain('security')
+    })
+
+    it('leaves security out of requests without security schemes', () => {
+      const client = generateHooks(createMockSpec(), defaultOptions).find((f) => f.path === 'client.ts')!.content
+      expect(client).toContain('export async function request(req: ApiRequest): Promise<Response>')
+      expect(client).not.toContain('security')
+      expect(client).not.toContain('auth')
+    })
+  })
+
+  describe('form request bodies', () => {
+    it('sends multipart bodies as FormData without a JSON Content-Type', () => {
+      const spec = createMockSpec([
+        createPostOperation({
+          operationId: 'uploadAvatar',
+          requestBody: {
+            required: true,
+            contentType: 'multipart/form-data',
+            type: {
+              kind: 'object',
+              properties: [{ name: 'file', type: { kind: 'primitive', type: 'string', format: 'binary' }, required: true }],
+            },
+          },
+        }),
+      ])
+      const files = generateHooks(spec, defaultOptions)
+      const sdkFile = files.find((f) => f.path === 'sdk/pets.ts')!
+      expect(sdkFile.content).toContain("import { request, toFormData } from '../client'")
+      expect(sdkFile.content).toContain('body: toFormData(body),')
+
+      const clientFile = files.find((f) => f.path === 'client.ts')!
+      expect(clientFile.content).toContain('const form = req.body instanceof FormData || req.body instanceof URLSearchParams')
+      expect(clientFile.content).toContain("...(form ? {} : { 'Content-Type': 'application/json' }),")
+      expect(clientFile.content).toContain('export function toFormData(body: object): FormData')
+      expect(clientFile.content).not.toContain('toUrlEncoded')
+    })
+
+    it('sends URL-encoded bodies as URLSearchParams', () => {
+      const spec = createMockSpec([
+        createPostOperation({
+          requestBody: {
+            required: true,
+            contentType: 'application/x-www-form-urlencoded',
+            type: { kind: 'object', properties: [{ name: 'name', type: { kind: 'primitive', type: 'string' }, required: true }] },
+          },
+        }),
+      ])
+      const files = generateHooks(spec, defaultOptions)
+      const sdkFile = files.find((f) => f.path === 'sdk/pets.ts')!
+      expect(sdkFile.content).toContain('body: toUrlEncoded(body),')
+      expect(files.find((f) => f.path === 'client.ts')!.content).toContain('export function toUrlEncoded(')
+    })
+  })
+  describe('streaming operations', () => {
+    it('generates only a stream hook reading Server-Sent Events', () => {
+      const spec = createMockSpec([
+        createGetOperation({
+          operationId: 'tailLogs',
+          path: '/logs/tail',
+          tags: ['logs'],
+          streaming: true,
+          response: { statusCode: 200, contentType: 'text/event-stream', type: { kind: 'primitive', type: 'string' } },
+        }),
+      ])
+      const files = generateHooks(spec, defaultOptions)
+      expect(files.find((f) => f.path === 'logs/tail-logs.ts')).toBeUndefined()
+
+      const hookFile = files.find((f) => f.path === 'logs/tail-logs-stream.ts')!
+      expect(hookFile.content).toContain('export function useTailLogsStream(params: TailLogsParams, options?: useTailLogsStreamOptions)')
+      expect(hookFile.content).toContain("Accept: 'text/event-stream'")
+      expect(hookFile.content).toContain('for await (const raw of readEventStream(res))')
+      expect(hookFile.content).toContain('return event.data as TailLogsResponse')
+      expect(hookFile.content).toContain('status: StreamStatus')
+      expect(hookFile.content).toContain('abort: () => void')
+      expect(files.find((f) => f.path === 'logs/index.ts')!.content).toContain(
+        "export { useTailLogsStream } from './tail-logs-stream'",
+      )
+      expect(files.find((f) => f.path === 'client.ts')!.content).toContain(
+        'export async function* readEventStream(res: Response): AsyncGenerator<ServerSentEvent>',
+      )
+    })
+
+    it('JSON-parses and validates structured events', () => {
+      const spec = createMockSpec([
+        createPostOperation({
+          operationId: 'streamCompletion',
+          streaming: true,
+          response: {
+            statusCode: 200,
+            contentType: 'text/event-stream',
+            type: { kind: 'object', properties: [{ name: 'delta', type: { kind: 'primitive', type: 'string' }, required: true }] },
+          },
+        }),
+      ])
+      const files = generateHooks(spec, { ...defaultOptions, zod: true })
+      const hookFile = files.find((f) => f.path === 'pets/stream-completion-stream.ts')!
+      expect(hookFile.content).toContain('body: JSON.stringify(body),')
+      expect(hookFile.content).toContain(
+        'return streamCompletionResponseSchema.parse(JSON.parse(event.data)) as StreamCompletionResponse',
+      )
+    })
+
+    it('leaves readEventStream out of clients without streaming operations', () => {
+      const files = generateHooks(createMockSpec([createGetOperation()]), defaultOptions)
+      expect(files.find((f) => f.path === 'client.ts')!.content).not.toContain('readEventStream')
+    })
+  })
+
+  describe('GraphQL operations', () => {
+    it('POSTs the query document with params as variables', () => {
+      const spec = createMockSpec([createGraphQLQueryOperation()])
+      const files = generateHooks(spec, defaultOptions)
+      const sdkFile = files.find((f) => f.path === 'sdk/queries.ts')!
+      expect(sdkFile.content).toContain("import { graphqlRequest } from '../client'")
+      expect(sdkFile.content).toContain('const petDocument = /* GraphQL */ `\n  query Pet($id: ID!) {')
+      expect(sdkFile.content).toContain(
+        "return (await graphqlRequest<{ pet: PetResponse }>({ query: petDocument, operationName: 'Pet', variables: params, ...options })).pet",
+      )
+
+      const hookFile = files.find((f) => f.path === 'queries/pet.ts')!
+      expect(hookFile.content).toContain('const result = await pet(params, { signal: controller.signal })')
+      expect(hookFile.content).not.toContain('buildUrl')
+    })
+
+    it('sends mutation bodies as variables', () => {
+      const spec = createMockSpec([createGraphQLMutationOperation()])
+      const files = generateHooks(spec, defaultOptions)
+      const hookFile = files.find((f) => f.path === 'mutations/create-pet.ts')!
+      expect(hookFile.content).toContain('mutate: (body: CreatePetBody) => Promise<CreatePetResponse>')
+      expect(hookFile.content).not.toContain('CreatePetParams')
+      expect(files.find((f) => f.path === 'sdk/mutations.ts')!.content).toContain(
+        "operationName: 'CreatePet', variables: body, ...options })).createPet",
+      )
+    })
+
+    it('returns the whole data for operations from documents', () => {
+      const op = createGraphQLQueryOperation()
+      const spec = createMockSpec([{ ...op, graphql: { ...op.graphql!, field: undefined } }])
+      const sdkFile = generateHooks(spec, defaultOptions).find((f) => f.path === 'sdk/queries.ts')!
+      expect(sdkFile.content).toContain(
+        "return await graphqlRequest<PetResponse>({ query: petDocument, operationName: 'Pet', variables: params, ...options })",
+      )
+    })
+
+    it('adds graphqlRequest and GraphQLRequestError to the client', () => {
+      const files = generateHooks(createMockSpec([createGraphQLQueryOperation()]), defaultOptions)
+      const client = files.find((f) => f.path === 'client.ts')!.content
+      expect(client).toContain('export class GraphQLRequestError extends Error {')
+      expect(client).toContain('export async function graphqlRequest<TData>(request: GraphQLRequest): Promise<TData> {')
+      expect(client).toContain('throw new GraphQLRequestError(result.errors,')
+
+      const restClient = generateHooks(createMockSpec([createGetOperation()]), defaultOptions)
+        .find((f) => f.path === 'client.ts')!.content
+      expect(restClient).not.toContain('graphqlRequest')
+    })
+  })
 })
@@ -6,9 +6,12 @@ import {
   createGetOperation,
   createPostOperation,
   createDetailOperation,
+  createDeleteOperation,
   createPaginatedOperation,
   createSubscriptionOperation,
   createSubscriptionWithArgsOperation,
+  createGraphQLQueryOperation,
+  createGraphQLMutationOperation,
 } from '../helpers'
 
 const defaultOptions: GeneratorOptions = {
@@ -85,13 +88,13 @@ describe('ReactQueryGenerator', () => {
       expect(hookFile!.content).toContain("'pets'")
     })
 
-    it('generates queryFn with fetch logic', () => {
+    it('generates a queryFn calling the SDK function with the query signal', () => {
       const spec = createMockSpec([createGetOperation()])
       const files = generateHooks(spec, defaultOptions)
       const hookFile = files.find((f) => f.path.startsWith('pets/') && f.path !== 'pets/index.ts')
-      expect(hookFile!.content).toContain('queryFn:')
-      expect(hookFile!.content).toContain('getClientConfig')
-      expect(hookFile!.content).toContain('fetch')
+      expect(hookFile!.content).toContain("import { listPets } from '../sdk'")
+      expect(hookFile!.content).toContain('queryFn: ({ signal }) => listPets(params, { signal }),')
+      expect(hookFile!.content).not.toContain('fetch(')
     })
   })
 
@@ -128,6 +131,54 @@ describe('ReactQueryGenerator', () => {
     })
   })
 
+  describe('cache invalidation', () => {
+    function findHook(spec: ReturnType<typeof createMockSpec>, path: string): string {
+      return generateHooks(spec, defaultOptions).find((f) => f.path === path)!.content
+    }
+
+    it('invalidates the resource lists after a create', () => {
+      const content = findHook(createMockSpec([createGetOperation(), createPostOperation()]), 'pets/create-pet.ts')
+      expect(content).toContain("import { petsKeys } from '../query-keys'")
+      expect(content).toContain('const queryClient = useQueryClient()')
+      expect(content).toContain('const queryKeys = invalidate ? invalidate(vars) : [petsKeys.lists()]')
+      expect(content).toContain('await Promise.all(queryKeys.map((queryKey) => queryClient.invalidateQueries({ queryKey })))')
+      expect(content).toContain('return mutationOptions.onSuccess?.(data, vars, ...rest)')
+    })
+
+    it('invalidates the entity and the lists after a delete', () => {
+      const spec = createMockSpec([createGetOperation(), createDetailOperation(), createDeleteOperation()])
+      const content = findHook(spec, 'pets/delete-pet.ts')
+      expect(content).toContain('[petsKeys.detail(vars.params.petId), petsKeys.lists()]')
+    })
+
+    it('takes an invalidate option replacing or turning off the defaults', () => {
+      const content = findHook(createMockSpec([createGetOperation(), createPostOperation()]), 'pets/create-pet.ts')
+      expect(content).toContain('& { invalidate?: false | ((vars: { body: CreatePetBody }) => QueryKey[]) }')
+      expect(content).toContain('if (invalidate !== false) {')
+    })
+
+    it('invalidates the paths of x-invalidates', () => {
+      const spec = createMockSpec([
+        createGetOperation(),
+        createDetailOperation(),
+        createPostOperation({ invalidates: ['/pets/{petId}'] }),
+      ])
+      const content = findHook(spec, 'pets/create-pet.ts')
+      expect(content).toContain('[petsKeys.details()]')
+    })
+
+    it('only invalidates through the option without a key factory', () => {
+      const content = findHook(createMockSpec([createPostOperation()]), 'pets/create-pet.ts')
+      expect(content).not.toContain('query-keys')
+      expect(content).toContain('await Promise.all(invalidate(vars).map((queryKey) => queryClient.invalidateQueries({ queryKey })))')
+    })
+
+    it('keys detail queries by the path params in params', () => {
+      const content = findHook(createMockSpec([createDetailOperation()]), 'pets/get-pet.ts')
+      expect(content).toContain("queryKey: ['pets', 'detail', params.petId] as const,")
+    })
+  })
+
   describe('query key factories', () => {
     it('generates key factories for GET resources', () => {
       const spec = createMockSpec([createGetOperation(), createDetailOperation()])
@@ -156,18 +207,19 @@ describe('ReactQueryGenerator', () => {
   })
 
   describe('zod integration', () => {
-    it('imports from schemas when zod option is true', () => {
+    it('imports from schemas in the SDK when zod option is true', () => {
       const spec = createMockSpec([createGetOperation()])
       const files = generateHooks(spec, { ...defaultOptions, zod: true })
-      const hookFile = files.find((f) => f.path.startsWith('pets/') && f.path !== 'pets/index.ts')
-      expect(hookFile!.content).toContain("from '../schemas'")
+      const sdkFile = files.find((f) => f.path === 'sdk/pets.ts')
+      expect(sdkFile!.content).toContain("from '../schemas'")
+      expect(files.find((f) => f.path === 'pets/list-pets.ts')!.content).not.toContain("from '../schemas'")
     })
 
-    it('uses schema.parse in queryFn when zod is enabled', () => {
+    it('uses schema.parse in the SDK function when zod is enabled', () => {
       const spec = createMockSpec([createGetOperation()])
       const files = generateHooks(spec, { ...defaultOptions, zod: true })
-      const hookFile = files.find((f) => f.path.startsWith('pets/') && f.path !== 'pets/index.ts')
-      expect(hookFile!.content).toContain('ResponseSchema.parse')
+      const sdkFile = files.find((f) => f.path === 'sdk/pets.ts')
+      expect(sdkFile!.content).toContain('ResponseSchema.parse')
     })
   })
 
@@ -192,6 +244,176 @@ describe('ReactQueryGenerator', () => {
       expect(infiniteFile!.content).toContain('getNextPageParam')
     })
 
+    it('stops paging when hasNextPagePath is false', () => {
+      const op = createPaginatedOperation({
+        pagination: {
+          strategy: 'cursor',
+          pageParam: 'after',
+          nextPagePath: ['pageInfo', 'endCursor'],
+          itemsPath: ['edges'],
+          hasNextPagePath: ['pageInfo', 'hasNextPage'],
+          nodePath: ['node'],
+          direction: 'forward',
+        },
+      })
+      const files = generateHooks(createMockSpec([op]), { ...defaultOptions, infiniteQueries: true })
+      const infiniteFile = files.find((f) => f.path === 'pets/list-pets-paginated-infinite.ts')!
+      const pageInfo = '((lastPage as Record<string, unknown>)?.pageInfo as Record<string, unknown> | undefined)'
+      expect(infiniteFile.content).toContain(`if (!${pageInfo}?.hasNextPage) return undefined`)
+      expect(infiniteFile.content).toContain(`const cursor = ${pageInfo}?.endCursor as string | null | undefined`)
+      expect(infiniteFile.content).not.toContain('getPreviousPageParam')
+    })
+
+    it('pages Relay connections both ways and flattens the edge nodes', () => {
+      const op = createPaginatedOperation({
+        queryParams: ['first', 'after', 'last', 'before'].map((name) => ({
+          name,
+          required: false,
+          type: { kind: 'primitive', type: name === 'first' || name === 'last' ? 'integer' : 'string' } as const,
+          in: 'query' as const,
+        })),
+        pagination: {
+          strategy: 'cursor',
+          pageParam: 'after',
+          nextPagePath: ['pageInfo', 'endCursor'],
+          itemsPath: ['edges'],
+          hasNextPagePath: ['pageInfo', 'hasNextPage'],
+          nodePath: ['node'],
+          direction: 'forward',
+          previousPageParam: 'before',
+          previousPagePath: ['pageInfo', 'startCursor'],
+          hasPreviousPagePath: ['pageInfo', 'hasPreviousPage'],
+        },
+      })
+      const files = generateHooks(createMockSpec([op]), { ...defaultOptions, infiniteQueries: true })
+      const content = files.find((f) => f.path === 'pets/list-pets-paginated-infinite.ts')!.content
+      const pageInfo = '((firstPage as Record<string, unknown>)?.pageInfo as Record<string, unknown> | undefined)'
+      expect(content).toContain(`params: Omit<ListPetsPaginatedParams, 'after' | 'before'>`)
+      expect(content).toContain(`initialPageParam: {} as Partial<Pick<ListPetsPaginatedParams, 'after' | 'before' | 'first' | 'last'>>,`)
+      expect(content).toContain('return { after: cursor }')
+      expect(content).toContain(`if (!${pageInfo}?.hasPreviousPage) return undefined`)
+      expect(content).toContain(`const cursor = ${pageInfo}?.startCursor as string | null | undefined`)
+      expect(content).toContain('return cursor ? { before: cursor, first: undefined, last: params.first } : undefined')
+      expect(content).toContain(`import type { InfiniteData, UseInfiniteQueryOptions } from '@tanstack/react-query'`)
+      expect(content).toContain('nodes: data.pages.flatMap((page) =>')
+      expect(content).toContain(`NonNullable<NonNullable<NonNullable<ListPetsPaginatedResponse>['edges']>[number]>['node']`)
+    })
+
+    it('advances offsets by the limit until the total count is reached', () => {
+      const op = createPaginatedOperation({
+        queryParams: [
+          { name: 'offset', required: false, type: { kind: 'primitive', type: 'integer' }, in: 'query' },
+          { name: 'limit', required: false, type: { kind: 'primitive', type: 'integer' }, in: 'query' },
+        ],
+        pagination: {
+          strategy: 'offset-limit',
+          pageParam: 'offset',
+          nextPagePath: ['offset'],
+          itemsPath: ['items'],
+          limitParam: 'limit',
+          totalCountPath: ['total'],
+        },
+      })
+      const files = generateHooks(createMockSpec([op]), { ...defaultOptions, infiniteQueries: true })
+      const infiniteFile = files.find((f) => f.path === 'pets/list-pets-paginated-infinite.ts')!
+      expect(infiniteFile.content).toContain('getNextPageParam: (lastPage, _allPages, lastPageParam) => {')
+      expect(infiniteFile.content).toContain('const limit = Number(params.limit ?? items?.length ?? 0)')
+      expect(infiniteFile.content).toContain('if (total != null && current + limit >= total) return undefined')
+      expect(infiniteFile.content).toContain('return current + limit')
+      expect(infiniteFile.content).toContain('return current > 0 && limit > 0 ? Math.max(current - limit, 0) : undefined')
+    })
+
+    it('advances page numbers until the total pages are reached', () => {
+      const op = createPaginatedOperation({
+        queryParams: [{ name: 'page', required: false, type: { kind: 'primitive', type: 'integer' }, in: 'query' }],
+        pagination: {
+          strategy: 'page-number',
+          pageParam: 'page',
+          nextPagePath: ['totalPages'],
+          itemsPath: ['items'],
+          totalPagesPath: ['totalPages'],
+        },
+      })
+      const files = generateHooks(createMockSpec([op]), { ...defaultOptions, infiniteQueries: true })
+      const infiniteFile = files.find((f) => f.path === 'pets/list-pets-paginated-infinite.ts')!
+      expect(infiniteFile.content).toContain('initialPageParam: 1 as number,')
+      expect(infiniteFile.content).toContain('if (!items?.length) return undefined')
+      expect(infiniteFile.content).toContain('if (totalPages != null && current >= totalPages) return undefined')
+      expect(infiniteFile.content).toContain('return current + 1')
+      expect(infiniteFile.content).toContain(
+        'getPreviousPageParam: (_firstPage, _allPages, firstPageParam) => (firstPageParam as number) > 1 ? (firstPageParam as number) - 1 : undefined,',
+      )
+    })
+
+    it('pages through a Link header', () => {
+      const op = createPaginatedOperation({
+        queryParams: [
+          { name: 'page', required: false, type: { kind: 'primitive', type: 'integer' }, in: 'query' },
+          { name: 'per_page', required: false, type: { kind: 'primitive', type: 'integer' }, in: 'query' },
+        ],
+        pagination: { strategy: 'page-number', pageParam: 'page', nextPagePath: [], itemsPath: [], nextPageHeader: 'Link' },
+      })
+      const files = generateHooks(createMockSpec([op]), { ...defaultOptions, infiniteQueries: true })
+      const infiniteFile = files.find((f) => f.path === 'pets/list-pets-paginated-infinite.ts')!
+      expect(infiniteFile.content).toContain("import { readPageHeader } from '../client'")
+      expect(infiniteFile.content).toContain("import type { PageWithHeaders } from '../client'")
+      expect(infiniteFile.content).toContain("import { listPetsPaginatedPage } from '../sdk'")
+      expect(infiniteFile.content).toContain('useInfiniteQuery<PageWithHeaders<ListPetsPaginatedResponse>, Error>({')
+      expect(infiniteFile.content).toContain(
+        "queryFn: ({ pageParam, signal }) => listPetsPaginatedPage({ ...params, page: pageParam as ListPetsPaginatedParams['page'] }, { signal }),",
+      )
+      const sdkFile = files.find((f) => f.path === 'sdk/pets.ts')!.content
+      expect(sdkFile).toContain(
+        'export async function listPetsPaginatedPage(params: ListPetsPaginatedParams, options?: RequestOptions): Promise<PageWithHeaders<ListPetsPaginatedResponse>> {',
+      )
+      expect(sdkFile).toContain('return { data, headers: res.headers }')
+      expect(infiniteFile.content).toContain("const next = readPageHeader(lastPage.headers, 'Link', 'page')")
+      expect(infiniteFile.content).toContain('return Number(next)')
+      expect(infiniteFile.content).toContain("const previous = readPageHeader(firstPage.headers, 'Link', 'page', 'prev')")
+      expect(infiniteFile.content).not.toContain('lastPageParam')
+      expect(files.find((f) => f.path === 'client.ts')!.content).toContain(
+        "export function readPageHeader(headers: Headers, name: string, param: string, rel = 'next'): string | undefined {",
+      )
+    })
+
+    it('reads the total count from a response header', () => {
+      const op = createPaginatedOperation({
+        queryParams: [
+          { name: 'offset', required: false, type: { kind: 'primitive', type: 'integer' }, in: 'query' },
+          { name: 'limit', required: false, type: { kind: 'primitive', type: 'integer' }, in: 'query' },
+        ],
+        pagination: {
+          strategy: 'offset-limit',
+          pageParam: 'offset',
+          nextPagePath: [],
+          itemsPath: ['items'],
+          limitParam: 'limit',
+          totalCountHeader: 'X-Total-Count',
+        },
+      })
+      const files = generateHooks(createMockSpec([op]), { ...defaultOptions, infiniteQueries: true })
+      const infiniteFile = files.find((f) => f.path === 'pets/list-pets-paginated-infinite.ts')!
+      expect(infiniteFile.content).toContain('const items = (lastPage.data as Record<string, unknown>)?.items as unknown[] | undefined')
+      expect(infiniteFile.content).toContain(
+        "const total = lastPage.headers.has('X-Total-Count') ? Number(lastPage.headers.get('X-Total-Count')) : undefined",
+      )
+      expect(infiniteFile.content).not.toContain('readPageHeader')
+      expect(files.find((f) => f.path === 'client.ts')!.content).toContain('export interface PageWithHeaders<T> {')
+    })
+
+    it('stops on a short page without totals or a more-pages flag', () => {
+      const op = createPaginatedOperation({
+        queryParams: [
+          { name: 'offset', required: false, type: { kind: 'primitive', type: 'integer' }, in: 'query' },
+          { name: 'limit', required: false, type: { kind: 'primitive', type: 'integer' }, in: 'query' },
+        ],
+        pagination: { strategy: 'offset-limit', pageParam: 'offset', nextPagePath: ['offset'], itemsPath: ['items'], limitParam: 'limit' },
+      })
+      const files = generateHooks(createMockSpec([op]), { ...defaultOptions, infiniteQueries: true })
+      const infiniteFile = files.find((f) => f.path === 'pets/list-pets-paginated-infinite.ts')!
+      expect(infiniteFile.content).toContain('if (!items?.length || items.length < limit) return undefined')
+    })
+
     it('includes initialPageParam in infinite query', () => {
       const spec = createMockSpec([createPaginatedOperation()])
       const files = generateHooks(spec, { ...defaultOptions, infiniteQueries: true })
@@ -280,6 +502,18 @@ describe('ReactQueryGenerator', () => {
       )
       expect(hookFile!.content).not.toContain('useMutation')
     })
+
+    it('sends the operation document with its variables', () => {
+      const spec = createMockSpec([createSubscriptionWithArgsOperation()])
+      const files = generateHooks(spec, defaultOptions)
+      const hookFile = files.find(
+        (f) => f.path.startsWith('subscriptions/') && f.path !== 'subscriptions/index.ts',
+      )
+      expect(hookFile!.content).toContain('subscription OnMessage($channel: String!) {')
+      expect(hookFile!.content).toContain('query: document,')
+      expect(hookFile!.content).toContain("operationName: 'OnMessage',")
+      expect(hookFile!.content).not.toContain('__typename')
+    })
   })
 
   describe('deprecated operations', () => {
@@ -290,4 +524,163 @@ describe('ReactQueryGenerator', () => {
       expect(hookFile!.content).toContain('@deprecated')
     })
   })
+
+  describe('typed errors', () => {
+    const notFound = {
+      statusCode: 404 as const,
+      contentType: 'application/json',
+      type: { kind: 'primitive' as const, type: 'unknown' as const },
+    }
+
+    it('throws ApiError built by createApiError on non-2xx responses', () => {
+      const spec = createMockSpec([createGetOperation()])
+      const files = generateHooks(spec, defaultOptions)
+      const hookFile = files.find((f) => f.path === 'pets/list-pets.ts')
+      expect(files.find((f) => f.path === 'client.ts')!.content).toContain('if (!res.ok) throw await createApiError(res)')
+      expect(hookFile!.content).toContain('useQuery<ListPetsResponse, Error>')
+    })
+
+    it('uses the operation error union for queries', () => {
+      const spec = createMockSpec([createDetailOperation({ errors: [notFound] })])
+      const files = generateHooks(spec, defaultOptions)
+      const hookFile = files.find((f) => f.path === 'pets/get-pet.ts')
+      expect(hookFile!.content).toContain('useQuery<GetPetResponse, GetPetError | Error>')
+      expect(hookFile!.content).toContain('GetPetError } from \'../types\'')
+    })
+
+    it('uses the operation error union for mutations', () => {
+      const spec = createMockSpec([createPostOperation({ errors: [notFound] })])
+      const files = generateHooks(spec, defaultOptions)
+      const hookFile = files.find((f) => f.path === 'pets/create-pet.ts')
+      expect(hookFile!.content).toContain('useMutation<CreatePetResponse, CreatePetError | Error,')
+    })
+
+    it('generates the ApiError class in client.ts', () => {
+      const files = generateHooks(createMockSpec(), defaultOptions)
+      const client = files.find((f) => f.path === 'client.ts')
+      expect(client!.content).toContain('export class ApiError<TStatus extends number = number, TBody = unknown> extends Error')
+      expect(client!.content).toContain('export async function createApiError(res: Response): Promise<ApiError>')
+    })
+  })
+
+  describe('response decoding', () => {
+    it('reads binary responses as a Blob', () => {
+      const spec = createMockSpec([
+        createGetOperation({
+          response: { statusCode: 200, contentType: 'application/pdf', type: { kind: 'primitive', type: 'string', format: 'binary' } },
+        }),
+      ])
+      const files = generateHooks(spec, defaultOptions)
+      const sdkFile = files.find((f) => f.path === 'sdk/pets.ts')!
+      expect(sdkFile.content).toContain('return (await res.blob()) as ListPetsResponse')
+      expect(sdkFile.content).not.toContain('res.json()')
+    })
+
+    it('does not read the body of 204 responses', () => {
+      const spec = createMockSpec([createDeleteOperation()])
+      const files = generateHooks(spec, { ...defaultOptions, zod: true })
+      const hookFile = files.find((f) => f.path === 'pets/delete-pet.ts')!
+      expect(hookFile.content).not.toContain('res.json()')
+      expect(hookFile.content).not.toContain('ResponseSchema')
+      expect(files.find((f) => f.path === 'types.ts')!.content).toContain('export type DeletePetResponse = void')
+    })
+
+    it('resolves queries for 204 responses to null', () => {
+      const spec = createMockSpec([
+        createDetailOperation({ response: { statusCode: 204, contentType: '', type: { kind: 'primitive', type: 'unknown' } } }),
+      ])
+      const hookFile = generateHooks(spec, defaultOptions).find((f) => f.path === 'pets/get-pet.ts')!
+      expect(hookFile.content).toContain('useQuery<GetPetResponse | null, Error>')
+      expect(hookFile.content).toContain('queryFn: ({ signal }) => getPet(params, { signal }).then(() => null),')
+    })
+  })
+  describe('streaming operations', () => {
+    it('streams events into the query cache', () => {
+      const spec = createMockSpec([
+        createGetOperation({
+          operationId: 'tailLogs',
+          path: '/logs/tail',
+          tags: ['logs'],
+          streaming: true,
+          response: { statusCode: 200, contentType: 'text/event-stream', type: { kind: 'primitive', type: 'string' } },
+        }),
+      ])
+      const files = generateHooks(spec, defaultOptions)
+      const hookFile = files.find((f) => f.path === 'logs/tail-logs-stream.ts')!
+      expect(hookFile.content).toContain("const queryKey = ['tailLogs', 'stream', params] as const")
+      expect(hookFile.content).toContain('useQuery<TailLogsResponse[], Error>')
+      expect(hookFile.content).toContain('queryClient.setQueryData(queryKey, [...events])')
+      expect(hookFile.content).toContain('return { ...query, abort }')
+    })
+
+    it('opens the stream through request(), with the query-string credentials', () => {
+      const spec = {
+        ...createMockSpec([
+          createGetOperation({
+            operationId: 'tailLogs',
+            path: '/logs/tail',
+            tags: ['logs'],
+            streaming: true,
+            security: [['apiKeyAuth']],
+            response: { statusCode: 200, contentType: 'text/event-stream', type: { kind: 'primitive', type: 'string' } },
+          }),
+        ]),
+        securitySchemes: [{ name: 'apiKeyAuth', type: 'apiKey' as const, in: 'query' as const, paramName: 'api_key' }],
+      }
+      const files = generateHooks(spec, defaultOptions)
+      const hookFile = files.find((f) => f.path === 'logs/tail-logs-stream.ts')!.content
+      expect(hookFile).toContain("import { request, readEventStream } from '../client'")
+      expect(hookFile).toContain(
+        "        const res = await request({\n          method: 'GET',\n          path: '/logs/tail',\n          query: { limit: params.limit },\n          security: [['apiKeyAuth']],\n          headers: { Accept: 'text/event-stream' },\n          signal: controller.signal,\n        })",
+      )
+      expect(hookFile).not.toContain('function buildUrl(')
+      expect(files.find((f) => f.path === 'client.ts')!.content).toContain(
+        'for (const [key, value] of Object.entries(auth?.query ?? {})) query.set(key, value)',
+      )
+    })
+  })
+
+  describe('GraphQL operations', () => {
+    it('executes queries through graphqlRequest with the query signal', () => {
+      const spec = createMockSpec([createGraphQLQueryOperation()])
+      const files = generateHooks(spec, defaultOptions)
+      const hookFile = files.find((f) => f.path === 'queries/pet.ts')!
+      expect(hookFile.content).toContain('queryFn: ({ signal }) => pet(params, { signal }),')
+      expect(files.find((f) => f.path === 'sdk/queries.ts')!.content).toContain(
+        "return (await graphqlRequest<{ pet: PetResponse }>({ query: petDocument, operationName: 'Pet', variables: params, ...options })).pet",
+      )
+    })
+
+    it('validates the unwrapped field when Zod is enabled', () => {
+      const spec = createMockSpec([createGraphQLMutationOperation()])
+      const files = generateHooks(spec, { ...defaultOptions, zod: true })
+      const hookFile = files.find((f) => f.path === 'mutations/create-pet.ts')!
+      expect(hookFile.content).toContain('UseMutationOptions<CreatePetResponse, Error, { body: CreatePetBody }>')
+      expect(hookFile.content).toContain('mutationFn: (vars) => createPet(vars.body),')
+      const sdkFile = files.find((f) => f.path === 'sdk/mutations.ts')!
+      expect(sdkFile.content).toContain(
+        "const data = (await graphqlRequest<{ createPet: CreatePetResponse }>({ query: createPetDocument, operationName: 'CreatePet', variables: body, ...options })).createPet",
+      )
+      expect(sdkFile.content).toContain('return createPetResponseSchema.parse(data) as CreatePetResponse')
+    })
+
+    it('passes the page param as a variable in infinite queries', () => {
+      const spec = createMockSpec([
+        createGraphQLQueryOperation({
+          operationId: 'pets',
+          queryParams: [
+            { name: 'limit', required: false, type: { kind: 'primitive', type: 'integer' }, in: 'query' },
+            { name: 'offset', required: false, type: { kind: 'primitive', type: 'integer' }, in: 'query' },
+          ],
+          pagination: { strategy: 'offset-limit', pageParam: 'offset', nextPagePath: ['offset'], itemsPath: ['items'] },
+          graphql: { operationType: 'query', operationName: 'Pets', field: 'pets', document: 'query Pets { pets { id } }' },
+        }),
+      ])
+      const hookFile = generateHooks(spec, { ...defaultOptions, infiniteQueries: true })
+        .find((f) => f.path === 'queries/pets-infinite.ts')!
+      expect(hookFile.content).toContain(
+        "queryFn: ({ pageParam, signal }) => pets({ ...params, offset: pageParam as PetsParams['offset'] }, { signal }),",
+      )
+    })
+  })
 })
@@ -0,0 +1,166 @@
+import { createGenerator, generateHooks } from '../../src/generators/index'
+import { RtkQueryGenerator } from '../../src/generators/rtk-query-generator'
+import type { GeneratorOptions } from '../../src/generators/types'
+import {
+  createMockSpec,
+  createGetOperation,
+  createPostOperation,
+  createDetailOperation,
+  createDeleteOperation,
+  createPaginatedOperation,
+  createSubscriptionOperation,
+  createSubscriptionWithArgsOperation,
+} from '../helpers'
+
+const defaultOptions: GeneratorOptions = {
+  fetcher: 'rtk-query',
+  zod: false,
+  mock: false,
+  outputDir: './out',
+  infiniteQueries: false,
+}
+
+function findFile(spec: ReturnType<typeof createMockSpec>, path: string, options = defaultOptions): string {
+  const file = generateHooks(spec, options).find((f) => f.path === path)
+  expect(file).toBeDefined()
+  return file!.content
+}
+
+describe('RtkQueryGenerator', () => {
+  describe('createGenerator', () => {
+    it('returns a RtkQueryGenerator instance for "rtk-query" strategy', () => {
+      expect(createGenerator('rtk-query')).toBeInstanceOf(RtkQueryGenerator)
+    })
+  })
+
+  describe('api slice', () => {
+    it('creates the slice with a tag type per resource', () => {
+      const spec = createMockSpec([createGetOperation(), createPostOperation(), createDetailOperation()])
+      const content = findFile(spec, 'api.ts')
+      expect(content).toContain("import { createApi, fakeBaseQuery } from '@reduxjs/toolkit/query/react'")
+      expect(content).toContain('baseQuery: fakeBaseQuery<ApiSliceError>(),')
+      expect(content).toContain("tagTypes: ['Pet'],")
+      expect(content).toContain('endpoints: () => ({}),')
+    })
+
+    it('names the reducer path after the API', () => {
+      expect(findFile(createMockSpec(), 'api.ts')).toContain("reducerPath: 'testApi',")
+      expect(findFile({ ...createMockSpec(), title: 'Swagger Petstore' }, 'api.ts')).toContain("reducerPath: 'swaggerPetstoreApi',")
+      expect(findFile({ ...createMockSpec(), title: '' }, 'api.ts')).toContain("reducerPath: 'api',")
+    })
+
+    it('settles SDK calls into serializable errors', () => {
+      const content = findFile(createMockSpec(), 'api.ts')
+      expect(content).toContain('export async function settleRequest<T>(request: Promise<T>): Promise<{ data: T } | { error: ApiSliceError }> {')
+      expect(content).toContain('if (error instanceof ApiError) return { status: error.status, data: error.body }')
+      expect(content).toContain('return { error: toApiSliceError(error) }')
+    })
+
+    it('exports the slice from the barrel', () => {
+      const content = findFile(createMockSpec(), 'index.ts')
+      expect(content).toContain("export * from './api'")
+    })
+  })
+
+  describe('query endpoints', () => {
+    it('injects a build.query endpoint providing the list tag', () => {
+      const content = findFile(createMockSpec([createGetOperation()]), 'pets/list-pets.ts')
+      expect(content).toContain('export const listPetsApi = api.injectEndpoints({')
+      expect(content).toContain('listPets: build.query<ListPetsResponse, ListPetsParams>({')
+      expect(content).toContain('queryFn: (params, { signal }) => settleRequest(listPets(params, { signal })),')
+      expect(content).toContain("providesTags: [{ type: 'Pet', id: 'LIST' }],")
+      expect(content).toContain('export const { useListPetsQuery, useLazyListPetsQuery } = listPetsApi')
+    })
+
+    it('takes no arg without params', () => {
+      const content = findFile(createMockSpec([createGetOperation({ queryParams: [] })]), 'pets/list-pets.ts')
+      expect(content).toContain('listPets: build.query<ListPetsResponse, void>({')
+      expect(content).toContain('queryFn: (_arg, { signal }) => settleRequest(listPets({ signal })),')
+    })
+
+    it('provides the entity tag for detail endpoints', () => {
+      const content = findFile(createMockSpec([createDetailOperation()]), 'pets/get-pet.ts')
+      expect(content).toContain("providesTags: (_result, _error, params) => [{ type: 'Pet', id: params.petId }],")
+    })
+
+    it('exports the query and lazy hooks from the group barrel', () => {
+      const content = findFile(createMockSpec([createGetOperation(), createPostOperation()]), 'pets/index.ts')
+      expect(content).toContain("export { useListPetsQuery, useLazyListPetsQuery } from './list-pets'")
+      expect(content).toContain("export { useCreatePetMutation } from './create-pet'")
+    })
+
+    it('does not generate infinite queries', () => {
+      const files = generateHooks(createMockSpec([createPaginatedOperation()]), { ...defaultOptions, infiniteQueries: true })
+      expect(files.some((f) => f.path.endsWith('-infinite.ts'))).toBe(false)
+    })
+  })
+
+  describe('mutation endpoints', () => {
+    it('injects a build.mutation endpoint invalidating the list tag', () => {
+      const content = findFile(createMockSpec([createPostOperation()]), 'pets/create-pet.ts')
+      expect(content).toContain('createPet: build.mutation<CreatePetResponse, { body: CreatePetBody }>({')
+      expect(content).toContain('queryFn: (vars) => settleRequest(createPet(vars.body)),')
+      expect(content).toContain("invalidatesTags: [{ type: 'Pet', id: 'LIST' }],")
+      expect(content).toContain('export const { useCreatePetMutation } = createPetApi')
+    })
+
+    it('invalidates the entity and list tags for detail endpoints', () => {
+      const content = findFile(createMockSpec([createDeleteOperation()]), 'pets/delete-pet.ts')
+      expect(content).toContain('deletePet: build.mutation<DeletePetResponse, { params: DeletePetParams }>({')
+      expect(content).toContain("invalidatesTags: (_result, _error, vars) => [{ type: 'Pet', id: vars.params.petId }, { type: 'Pet', id: 'LIST' }],")
+    })
+  })
+
+  describe('subscriptions', () => {
+    it('feeds the cache entry from the subscription', () => {
+      const content = findFile(createMockSpec([createSubscriptionWithArgsOperation()]), 'subscriptions/on-message.ts')
+      expect(content).toContain('onMessage: build.query<LiveData<OnMessageResponse | null>, OnMessageParams>({')
+      expect(content).toContain('queryFn: () => ({ data: { data: null, error: null } }),')
+      expect(content).toContain('async onCacheEntryAdded(variables, { updateCachedData, cacheDataLoaded, cacheEntryRemoved }) {')
+      expect(content).toContain("{ query: document, operationName: 'OnMessage', variables },")
+      expect(content).toContain('export const { useOnMessageQuery } = onMessageApi')
+      expect(content).not.toContain("from 'react'")
+    })
+
+    it('takes no arg without arguments', () => {
+      const content = findFile(createMockSpec([createSubscriptionOperation()]), 'subscriptions/pet-created.ts')
+      expect(content).toContain('petCreated: build.query<LiveData<PetCreatedResponse | null>, void>({')
+      expect(content).toContain('async onCacheEntryAdded(_arg, {')
+    })
+
+    it('records a failed subscription in the cache entry', () => {
+      const content = findFile(createMockSpec([createSubscriptionOperation()]), 'subscriptions/pet-created.ts')
+      expect(content).toContain('error: (err) => updateCachedData((entry) => {')
+      expect(content).toContain('entry.error = toApiSliceError(err)')
+      expect(content).not.toContain('console.error')
+    })
+  })
+
+  describe('streams', () => {
+    it('appends events to the cache entry', () => {
+      const op = createDetailOperation({
+        operationId: 'tailLogs',
+        streaming: true,
+        response: { statusCode: 200, contentType: 'text/event-stream', type: { kind: 'primitive', type: 'string' } },
+      })
+      const content = findFile(createMockSpec([op]), 'pets/tail-logs-stream.ts')
+      expect(content).toContain('tailLogsStream: build.query<LiveData<TailLogsResponse[]>, TailLogsParams>({')
+      expect(content).toContain('entry.data.push(event)')
+      expect(content).toContain('const res = await openStream(params, controller.signal)')
+      expect(content).toContain('cacheEntryRemoved.then(() => controller.abort())')
+      expect(content).toContain('export const { useTailLogsStreamQuery: useTailLogsStream } = tailLogsStreamApi')
+    })
+
+    it('records a failed stream in the cache entry unless it was aborted', () => {
+      const op = createDetailOperation({
+        operationId: 'tailLogs',
+        streaming: true,
+        response: { statusCode: 200, contentType: 'text/event-stream', type: { kind: 'primitive', type: 'string' } },
+      })
+      const content = findFile(createMockSpec([op]), 'pets/tail-logs-stream.ts')
+      expect(content).toContain('if (!controller.signal.aborted) {')
+      expect(content).toContain('entry.error = toApiSliceError(err)')
+      expect(content).not.toContain('console.error')
+    })
+  })
+})
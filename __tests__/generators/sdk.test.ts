@@ -0,0 +1,75 @@
+import { generateHooks } from '../../src/generators/index'
+import type { GeneratorOptions } from '../../src/generators/types'
+import {
+  createMockSpec,
+  createGetOperation,
+  createPostOperation,
+  createDetailOperation,
+  createDeleteOperation,
+  createSubscriptionOperation,
+} from '../helpers'
+
+const defaultOptions: GeneratorOptions = {
+  fetcher: 'react-query',
+  zod: false,
+  mock: false,
+  outputDir: './out',
+  infiniteQueries: false,
+}
+
+describe('SDK functions', () => {
+  it('generates one file per tag and an sdk barrel', () => {
+    const spec = createMockSpec([createGetOperation(), createGetOperation({ operationId: 'listUsers', path: '/users', tags: ['users'] })])
+    const files = generateHooks(spec, defaultOptions)
+    expect(files.find((f) => f.path === 'sdk/pets.ts')).toBeDefined()
+    expect(files.find((f) => f.path === 'sdk/users.ts')).toBeDefined()
+    expect(files.find((f) => f.path === 'sdk/index.ts')!.content).toBe("export * from './pets'\nexport * from './users'\n")
+    expect(files.find((f) => f.path === 'index.ts')!.content).toContain("export * from './sdk'")
+  })
+
+  it('takes params, body and request options in that order', () => {
+    const spec = createMockSpec([createGetOperation(), createPostOperation(), createDetailOperation()])
+    const sdk = generateHooks(spec, defaultOptions).find((f) => f.path === 'sdk/pets.ts')!.content
+    expect(sdk).toContain("import type { RequestOptions } from '../client'")
+    expect(sdk).toContain('export async function listPets(params: ListPetsParams, options?: RequestOptions): Promise<ListPetsResponse> {')
+    expect(sdk).toContain('export async function createPet(body: CreatePetBody, options?: RequestOptions): Promise<CreatePetResponse> {')
+    expect(sdk).toContain('export async function getPet(params: GetPetParams, options?: RequestOptions): Promise<GetPetResponse> {')
+    expect(sdk).toContain('path: `/pets/${params.petId}`,')
+    expect(sdk).toContain('    ...options,\n  })')
+  })
+
+  it('returns nothing for responses without a body', () => {
+    const sdk = generateHooks(createMockSpec([createDeleteOperation()]), { ...defaultOptions, zod: true })
+      .find((f) => f.path === 'sdk/pets.ts')!.content
+    expect(sdk).toContain('): Promise<DeletePetResponse> {\n  await request({')
+    expect(sdk).not.toContain('res.json()')
+    expect(sdk).not.toContain("from '../schemas'")
+  })
+
+  it('marks deprecated operations', () => {
+    const sdk = generateHooks(createMockSpec([createGetOperation({ deprecated: true })]), defaultOptions)
+      .find((f) => f.path === 'sdk/pets.ts')!.content
+    expect(sdk).toContain(' * `GET /pets`\n * @deprecated\n */\nexport async function listPets(')
+  })
+
+  it('leaves out streaming and subscription operations', () => {
+    const spec = createMockSpec([
+      createGetOperation({
+        operationId: 'tailLogs',
+        streaming: true,
+        response: { statusCode: 200, contentType: 'text/event-stream', type: { kind: 'primitive', type: 'string' } },
+      }),
+      createSubscriptionOperation(),
+    ])
+    const files = generateHooks(spec, defaultOptions)
+    expect(files.some((f) => f.path.startsWith('sdk/'))).toBe(false)
+    expect(files.find((f) => f.path === 'index.ts')!.content).not.toContain('./sdk')
+  })
+
+  it('merges per-request headers last in request()', () => {
+    const client = generateHooks(createMockSpec(), defaultOptions).find((f) => f.path === 'client.ts')!.content
+    expect(client).toContain('export interface RequestOptions {')
+    expect(client).toContain('const res = await fetch(`${config.baseUrl}${req.path}${qs ? `?${qs}` : \'\'}`, {')
+    expect(client).toContain('      ...config.headers,\n      ...req.headers,\n')
+  })
+})
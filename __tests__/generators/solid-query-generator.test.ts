@@ -0,0 +1,93 @@
+import path from 'node:path'
+import { generate } from '../../src/index'
+import { createGenerator, generateHooks } from '../../src/generators/index'
+import { SolidQueryGenerator } from '../../src/generators/solid-query-generator'
+import type { GeneratorOptions } from '../../src/generators/types'
+import {
+  createMockSpec,
+  createGetOperation,
+  createPostOperation,
+  createDetailOperation,
+  createSubscriptionOperation,
+  createSubscriptionWithArgsOperation,
+} from '../helpers'
+import { typeCheckFiles } from '../typecheck'
+
+const defaultOptions: GeneratorOptions = {
+  fetcher: 'solid-query',
+  zod: false,
+  mock: false,
+  outputDir: './out',
+  infiniteQueries: false,
+}
+
+function findFile(spec: ReturnType<typeof createMockSpec>, path: string): string {
+  const file = generateHooks(spec, defaultOptions).find((f) => f.path === path)
+  expect(file).toBeDefined()
+  return file!.content
+}
+
+describe('SolidQueryGenerator', () => {
+  describe('createGenerator', () => {
+    it('returns a SolidQueryGenerator instance for "solid-query" strategy', () => {
+      expect(createGenerator('solid-query')).toBeInstanceOf(SolidQueryGenerator)
+    })
+  })
+
+  it('generates query keys for TanStack Solid Query', () => {
+    const content = findFile(createMockSpec(), 'query-keys.ts')
+    expect(content).toContain('Query key factories for TanStack Solid Query.')
+  })
+
+  it('generates createQuery wrappers with Solid option types', () => {
+    const content = findFile(createMockSpec([createGetOperation()]), 'pets/list-pets.ts')
+    expect(content).toContain("import { createQuery } from '@tanstack/solid-query'")
+    expect(content).toContain('export function createListPets(params: () => ListPetsParams, options?: () => Partial<QueryOptions<ListPetsResponse, Error>> & { initialData?: undefined }) {')
+    expect(content).toContain('queryKey: petsKeys.list(params()),')
+  })
+
+  it('generates createQuery wrappers without params', () => {
+    const content = findFile(createMockSpec([createGetOperation({ queryParams: [] })]), 'pets/list-pets.ts')
+    expect(content).toContain('export function createListPets(options?: () => Partial<QueryOptions<ListPetsResponse, Error>> & { initialData?: undefined }) {')
+    expect(content).toContain('queryKey: petsKeys.lists(),')
+    expect(content).toContain('queryFn: ({ signal }) => listPets({ signal }),')
+  })
+
+  it('generates createMutation wrappers with Solid option types', () => {
+    const content = findFile(createMockSpec([createPostOperation(), createDetailOperation()]), 'pets/create-pet.ts')
+    expect(content).toContain("import type { MutationOptions } from '@tanstack/solid-query'")
+    expect(content).toContain('return createMutation<CreatePetResponse, Error, { body: CreatePetBody }>(() => ({')
+  })
+
+  describe('subscriptions', () => {
+    it('subscribes in an effect and exposes signals', () => {
+      const content = findFile(createMockSpec([createSubscriptionWithArgsOperation()]), 'subscriptions/on-message.ts')
+      expect(content).toContain("import { createEffect, createSignal, onCleanup } from 'solid-js'")
+      expect(content).toContain('export function createOnMessage(variables: Accessor<OnMessageParams>, options?:')
+      expect(content).toContain('    const currentVariables = variables()\n')
+      expect(content).toContain("{ query: document, operationName: 'OnMessage', variables: currentVariables },")
+      expect(content).toContain('    onCleanup(unsubscribe)\n')
+    })
+
+    it('skips the variables without arguments', () => {
+      const content = findFile(createMockSpec([createSubscriptionOperation()]), 'subscriptions/pet-created.ts')
+      expect(content).toContain('    if (options?.enabled?.() === false) return\n\n    setStatus(\'connecting\')')
+      expect(content).not.toContain('currentVariables')
+    })
+
+    it('invalidates nothing unless the invalidate option returns keys', () => {
+      const content = findFile(createMockSpec([createGetOperation(), createSubscriptionOperation()]), 'subscriptions/pet-created.ts')
+      expect(content).toContain('invalidate?: false | ((data: PetCreatedResponse) => QueryKey[])')
+      expect(content).toContain('options.invalidate(value).forEach((queryKey) => queryClient.invalidateQueries({ queryKey }))')
+      expect(content).not.toContain('queryClient.invalidateQueries()')
+      expect(content).not.toContain('../query-keys')
+    })
+  })
+
+  describe('generated project', () => {
+    it.each(['paginated-api.yaml', 'petstore-openapi3.yaml', 'schema.graphql'])('type-checks %s against @tanstack/solid-query', async (fixture) => {
+      const files = await generate({ spec: path.resolve(__dirname, '../fixtures', fixture), fetcher: 'solid-query' })
+      expect(typeCheckFiles(files)).toEqual([])
+    }, 60000)
+  })
+})
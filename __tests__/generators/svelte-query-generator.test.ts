@@ -0,0 +1,160 @@
+import path from 'node:path'
+import { generate } from '../../src/index'
+import { createGenerator, generateHooks } from '../../src/generators/index'
+import { SvelteQueryGenerator } from '../../src/generators/svelte-query-generator'
+import type { GeneratorOptions } from '../../src/generators/types'
+import {
+  createMockSpec,
+  createGetOperation,
+  createPostOperation,
+  createDetailOperation,
+  createPaginatedOperation,
+  createSubscriptionWithArgsOperation,
+} from '../helpers'
+import { typeCheckFiles } from '../typecheck'
+
+const defaultOptions: GeneratorOptions = {
+  fetcher: 'svelte-query',
+  zod: false,
+  mock: false,
+  outputDir: './out',
+  infiniteQueries: false,
+}
+
+function findFile(spec: ReturnType<typeof createMockSpec>, path: string, options = defaultOptions): string {
+  const file = generateHooks(spec, options).find((f) => f.path === path)
+  expect(file).toBeDefined()
+  return file!.content
+}
+
+describe('SvelteQueryGenerator', () => {
+  describe('createGenerator', () => {
+    it('returns a SvelteQueryGenerator instance for "svelte-query" strategy', () => {
+      expect(createGenerator('svelte-query')).toBeInstanceOf(SvelteQueryGenerator)
+    })
+  })
+
+  describe('generated files', () => {
+    it('shares types, client, SDK and query keys with the other strategies', () => {
+      const files = generateHooks(createMockSpec(), defaultOptions)
+      for (const path of ['types.ts', 'client.ts', 'sdk/pets.ts', 'query-keys.ts']) {
+        expect(files.find((f) => f.path === path)).toBeDefined()
+      }
+      expect(files.find((f) => f.path === 'query-keys.ts')!.content).toContain('Query key factories for TanStack Svelte Query.')
+      expect(files.find((f) => f.path === 'index.ts')!.content).toContain("export * from './query-keys'")
+    })
+
+    it('leaves the SDK out of the barrel, where create-prefixed wrappers would clash with it', () => {
+      const spec = createMockSpec([createDetailOperation({ operationId: 'pet' }), createPostOperation()])
+      const files = generateHooks(spec, defaultOptions)
+      expect(files.find((f) => f.path === 'pets/index.ts')!.content).toContain("export { createPet } from './pet'")
+      expect(files.find((f) => f.path === 'sdk/pets.ts')!.content).toContain('export async function createPet(')
+      expect(files.find((f) => f.path === 'index.ts')!.content).not.toContain("export * from './sdk'")
+    })
+
+    it('names wrappers with a create prefix', () => {
+      const files = generateHooks(createMockSpec([createGetOperation()]), defaultOptions)
+      expect(files.find((f) => f.path === 'pets/index.ts')!.content).toBe("export { createListPets } from './list-pets'\n")
+    })
+  })
+
+  describe('createQuery wrappers', () => {
+    it('reads params through an accessor inside the options accessor', () => {
+      const content = findFile(createMockSpec([createGetOperation()]), 'pets/list-pets.ts')
+      expect(content).toContain("import { createQuery } from '@tanstack/svelte-query'")
+      expect(content).toContain("import type { CreateQueryOptions } from '@tanstack/svelte-query'")
+      expect(content).toContain('export function createListPets(params: () => ListPetsParams, options?: () => Partial<CreateQueryOptions<ListPetsResponse, Error>>) {')
+      expect(content).toContain('return createQuery<ListPetsResponse, Error>(() => ({')
+      expect(content).toContain('queryKey: petsKeys.list(params()),')
+      expect(content).toContain('queryFn: ({ signal }) => listPets(params(), { signal }),')
+      expect(content).toContain('...options?.(),')
+    })
+
+    it('keys detail queries on the path param', () => {
+      const content = findFile(createMockSpec([createDetailOperation()]), 'pets/get-pet.ts')
+      expect(content).toContain('queryKey: petsKeys.detail(params().petId),')
+    })
+
+    it('resolves queries for 204 responses to null', () => {
+      const op = createDetailOperation({ response: { statusCode: 204, contentType: '', type: { kind: 'primitive', type: 'unknown' } } })
+      const content = findFile(createMockSpec([op]), 'pets/get-pet.ts')
+      expect(content).toContain('createQuery<GetPetResponse | null, Error>')
+      expect(content).toContain('queryFn: ({ signal }) => getPet(params(), { signal }).then(() => null),')
+    })
+  })
+
+  describe('createMutation wrappers', () => {
+    it('calls the SDK function with the mutation variables', () => {
+      const content = findFile(createMockSpec([createPostOperation()]), 'pets/create-pet.ts')
+      expect(content).toContain('export function createCreatePet(options?: () => CreateMutationOptions<CreatePetResponse, Error, { body: CreatePetBody }>) {')
+      expect(content).toContain('mutationFn: (vars) => createPet(vars.body),')
+    })
+  })
+
+  describe('createInfiniteQuery wrappers', () => {
+    it('pages with the current params', () => {
+      const op = createPaginatedOperation({
+        pagination: { strategy: 'cursor', pageParam: 'cursor', nextPagePath: ['nextCursor'], itemsPath: ['items'] },
+      })
+      const content = findFile(createMockSpec([op]), 'pets/list-pets-paginated-infinite.ts', { ...defaultOptions, infiniteQueries: true })
+      expect(content).toContain("import type { InfiniteData, CreateInfiniteQueryOptions } from '@tanstack/svelte-query'")
+      expect(content).toContain('options?: () => Partial<CreateInfiniteQueryOptions<ListPetsPaginatedResponse, Error, InfiniteData<ListPetsPaginatedResponse>>>')
+      expect(content).toContain("queryKey: [...petsKeys.list(params()), 'infinite'] as const,")
+      expect(content).toContain("listPetsPaginated({ ...params(), cursor: pageParam as ListPetsPaginatedParams['cursor'] }, { signal })")
+    })
+
+    it('pages Relay connections both ways and flattens the edge nodes', () => {
+      const op = createPaginatedOperation({
+        queryParams: ['first', 'after', 'last', 'before'].map((name) => ({
+          name,
+          required: false,
+          type: { kind: 'primitive', type: name === 'first' || name === 'last' ? 'integer' : 'string' } as const,
+          in: 'query' as const,
+        })),
+        pagination: {
+          strategy: 'cursor',
+          pageParam: 'after',
+          nextPagePath: ['pageInfo', 'endCursor'],
+          itemsPath: ['edges'],
+          hasNextPagePath: ['pageInfo', 'hasNextPage'],
+          nodePath: ['node'],
+          direction: 'forward',
+          previousPageParam: 'before',
+          previousPagePath: ['pageInfo', 'startCursor'],
+          hasPreviousPagePath: ['pageInfo', 'hasPreviousPage'],
+        },
+      })
+      const content = findFile(createMockSpec([op]), 'pets/list-pets-paginated-infinite.ts', { ...defaultOptions, infiniteQueries: true })
+      expect(content).toContain("params: () => Omit<ListPetsPaginatedParams, 'after' | 'before'>")
+      expect(content).toContain('return cursor ? { before: cursor, first: undefined, last: params().first } : undefined')
+      expect(content).toContain("import type { InfiniteData, CreateInfiniteQueryOptions } from '@tanstack/svelte-query'")
+      expect(content).toContain('nodes: data.pages.flatMap((page) =>')
+    })
+  })
+
+  describe('subscriptions', () => {
+    it('returns a readable store that subscribes while it has subscribers', () => {
+      const content = findFile(createMockSpec([createSubscriptionWithArgsOperation()]), 'subscriptions/on-message.ts')
+      expect(content).toContain("import { readable } from 'svelte/store'")
+      expect(content).toContain('export function createOnMessage(variables: OnMessageParams, options?:')
+      expect(content).toContain('): Readable<createOnMessageState> {')
+      expect(content).toContain("return readable<createOnMessageState>({ data: null, error: null, status: 'disconnected' }, (_set, update) => {")
+      expect(content).not.toContain("from 'react'")
+    })
+
+    it('invalidates only the queries the subscription makes stale', () => {
+      const op = createSubscriptionWithArgsOperation({ invalidates: ['/pets'] })
+      const content = findFile(createMockSpec([createGetOperation(), op]), 'subscriptions/on-message.ts')
+      expect(content).toContain("import { petsKeys } from '../query-keys'")
+      expect(content).toContain('const queryKeys = options?.invalidate ? options.invalidate(value) : [petsKeys.lists()]')
+      expect(content).not.toContain('queryClient.invalidateQueries()')
+    })
+  })
+
+  describe('generated project', () => {
+    it.each(['paginated-api.yaml', 'petstore-openapi3.yaml', 'schema.graphql'])('type-checks %s against @tanstack/svelte-query', async (fixture) => {
+      const files = await generate({ spec: path.resolve(__dirname, '../fixtures', fixture), fetcher: 'svelte-query' })
+      expect(typeCheckFiles(files)).toEqual([])
+    }, 60000)
+  })
+})
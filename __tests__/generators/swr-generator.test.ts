@@ -5,9 +5,13 @@ import {
   createMockSpec,
   createGetOperation,
   createPostOperation,
+  createDetailOperation,
+  createDeleteOperation,
   createPaginatedOperation,
   createSubscriptionOperation,
   createSubscriptionWithArgsOperation,
+  createGraphQLQueryOperation,
+  createGraphQLMutationOperation,
 } from '../helpers'
 
 const defaultOptions: GeneratorOptions = {
@@ -57,11 +61,12 @@ describe('SwrGenerator', () => {
       expect(hookFile!.content).toContain('null')
     })
 
-    it('uses getClientConfig in the fetcher', () => {
+    it('fetches through the SDK function', () => {
       const spec = createMockSpec([createGetOperation()])
       const files = generateHooks(spec, defaultOptions)
       const hookFile = files.find((f) => f.path.startsWith('pets/') && f.path !== 'pets/index.ts')
-      expect(hookFile!.content).toContain('getClientConfig')
+      expect(hookFile!.content).toContain("import { listPets } from '../sdk'")
+      expect(hookFile!.content).toContain('return useSWR<ListPetsResponse, Error>(key, () => listPets(params))')
     })
   })
 
@@ -96,6 +101,61 @@ describe('SwrGenerator', () => {
     })
   })
 
+  describe('cache invalidation', () => {
+    function findHook(spec: ReturnType<typeof createMockSpec>, path: string): string {
+      return generateHooks(spec, defaultOptions).find((f) => f.path === path)!.content
+    }
+
+    it('revalidates the resource list keys after a create', () => {
+      const content = findHook(createMockSpec([createPostOperation()]), 'pets/create-pet.ts')
+      expect(content).toContain('const { mutate } = useSWRConfig()')
+      expect(content).toContain('const data = await createPet(arg.body)')
+      expect(content).toContain('const matches = options?.invalidate?.(arg) ?? ((key: Arguments) => {')
+      expect(content).toContain("return pathname === '/pets'")
+      expect(content).toContain('return data')
+    })
+
+    it('revalidates the entity and list keys after a delete', () => {
+      const content = findHook(createMockSpec([createDeleteOperation()]), 'pets/delete-pet.ts')
+      expect(content).toContain("return pathname === `/pets/${arg.params.petId}` || pathname === '/pets'")
+    })
+
+    it('takes an invalidate option replacing or turning off the matcher', () => {
+      const content = findHook(createMockSpec([createPostOperation()]), 'pets/create-pet.ts')
+      expect(content).toContain('options?: { invalidate?: false | ((arg: { body: CreatePetBody }) => (key: Arguments) => boolean) }')
+      expect(content).toContain('if (options?.invalidate === false) return data')
+    })
+
+    it('matches x-invalidates paths with unknown path params by pattern', () => {
+      const spec = createMockSpec([createPostOperation({ invalidates: ['/pets/{petId}'] })])
+      const content = findHook(spec, 'pets/create-pet.ts')
+      expect(content).toContain('return /^\\/pets\\/[^/]+$/.test(pathname)')
+    })
+
+    it('only revalidates through the option with an empty x-invalidates', () => {
+      const spec = createMockSpec([createPostOperation({ invalidates: [] })])
+      const content = findHook(spec, 'pets/create-pet.ts')
+      expect(content).toContain('const matches = options?.invalidate?.(arg)\n      if (!matches) return data')
+    })
+
+    it('revalidates the infinite lists of the matched paths from their first page key', () => {
+      const spec = createMockSpec([createPaginatedOperation(), createPostOperation()])
+      const files = generateHooks(spec, { ...defaultOptions, infiniteQueries: true })
+      const infinite = files.find((f) => f.path === 'pets/list-pets-paginated-infinite.ts')!.content
+      const mutation = files.find((f) => f.path === 'pets/create-pet.ts')!.content
+      expect(infinite).toContain("if (pageIndex === 0) return ['/pets', undefined, params] as const")
+      expect(mutation).toContain("import { unstable_serialize } from 'swr/infinite'")
+      expect(mutation).toContain("return pathname === '/pets'")
+      expect(mutation).toContain('        infiniteKeys.push(unstable_serialize(() => key))\n')
+      expect(mutation).toContain('      await Promise.all(infiniteKeys.map((key) => mutate(key)))\n')
+    })
+
+    it('keys detail queries by the path params in params', () => {
+      const content = findHook(createMockSpec([createDetailOperation()]), 'pets/get-pet.ts')
+      expect(content).toContain('`/pets/${params.petId}`')
+    })
+  })
+
   describe('infinite query hooks', () => {
     it('generates useSWRInfinite hooks for paginated operations', () => {
       const spec = createMockSpec([createPaginatedOperation()])
@@ -127,6 +187,63 @@ describe('SwrGenerator', () => {
       expect(infiniteFile!.content).toContain('previousPageData')
     })
 
+    it('stops paging when hasNextPagePath is false', () => {
+      const op = createPaginatedOperation({
+        pagination: {
+          strategy: 'cursor',
+          pageParam: 'after',
+          nextPagePath: ['pageInfo', 'endCursor'],
+          itemsPath: ['edges'],
+          hasNextPagePath: ['pageInfo', 'hasNextPage'],
+          nodePath: ['node'],
+          direction: 'forward',
+        },
+      })
+      const files = generateHooks(createMockSpec([op]), { ...defaultOptions, infiniteQueries: true })
+      const infiniteFile = files.find((f) => f.path === 'pets/list-pets-paginated-infinite.ts')!
+      const pageInfo = '((previousPageData as Record<string, unknown>)?.pageInfo as Record<string, unknown> | undefined)'
+      expect(infiniteFile.content).toContain(`if (!${pageInfo}?.hasNextPage) return null`)
+      expect(infiniteFile.content).toContain(`const cursor = ${pageInfo}?.endCursor as string | null | undefined`)
+      expect(infiniteFile.content).toContain("return ['/pets', cursor, params] as const")
+    })
+
+    it('reads the next cursor from a response header', () => {
+      const op = createPaginatedOperation({
+        pagination: { strategy: 'cursor', pageParam: 'cursor', nextPagePath: [], itemsPath: ['items'], nextPageHeader: 'X-Next-Cursor' },
+      })
+      const files = generateHooks(createMockSpec([op]), { ...defaultOptions, infiniteQueries: true })
+      const infiniteFile = files.find((f) => f.path === 'pets/list-pets-paginated-infinite.ts')!
+      expect(infiniteFile.content).toContain('previousPageData: PageWithHeaders<ListPetsPaginatedResponse> | null')
+      expect(infiniteFile.content).toContain("const next = readPageHeader(previousPageData.headers, 'X-Next-Cursor', 'cursor')")
+      expect(infiniteFile.content).toContain("return ['/pets', next, params] as const")
+      expect(infiniteFile.content).toContain(
+        "([_path, pageParam]) => listPetsPaginatedPage({ ...params, cursor: pageParam as ListPetsPaginatedParams['cursor'] })",
+      )
+    })
+
+    it('computes offsets from the page index', () => {
+      const op = createPaginatedOperation({
+        queryParams: [
+          { name: 'offset', required: false, type: { kind: 'primitive', type: 'integer' }, in: 'query' },
+          { name: 'limit', required: false, type: { kind: 'primitive', type: 'integer' }, in: 'query' },
+        ],
+        pagination: {
+          strategy: 'offset-limit',
+          pageParam: 'offset',
+          nextPagePath: ['offset'],
+          itemsPath: ['items'],
+          limitParam: 'limit',
+          hasNextPagePath: ['hasMore'],
+        },
+      })
+      const files = generateHooks(createMockSpec([op]), { ...defaultOptions, infiniteQueries: true })
+      const infiniteFile = files.find((f) => f.path === 'pets/list-pets-paginated-infinite.ts')!
+      expect(infiniteFile.content).toContain("if (pageIndex === 0) return ['/pets', 0, params] as const")
+      expect(infiniteFile.content).toContain('if (!(previousPageData as Record<string, unknown>)?.hasMore) return null')
+      expect(infiniteFile.content).toContain('if (!items?.length) return null')
+      expect(infiniteFile.content).toContain("return ['/pets', pageIndex * limit, params] as const")
+    })
+
     it('does not generate infinite hooks when option is disabled', () => {
       const spec = createMockSpec([createPaginatedOperation()])
       const files = generateHooks(spec, { ...defaultOptions, infiniteQueries: false })
@@ -205,13 +322,35 @@ describe('SwrGenerator', () => {
       expect(hookFile!.content).not.toContain('useSWRMutation')
     })
 
-    it('returns cleanup function for WebSocket close', () => {
+    it('returns the unsubscribe function from the shared client', () => {
       const spec = createMockSpec([createSubscriptionOperation()])
       const files = generateHooks(spec, defaultOptions)
       const hookFile = files.find(
         (f) => f.path.startsWith('subscriptions/') && f.path !== 'subscriptions/index.ts',
       )
-      expect(hookFile!.content).toContain('ws.close()')
+      expect(hookFile!.content).toContain("import { subscribe } from '../client'")
+      expect(hookFile!.content).toContain('=>\n      subscribe<')
+    })
+
+    it('keys the subscription by its variables', () => {
+      const spec = createMockSpec([createSubscriptionWithArgsOperation()])
+      const files = generateHooks(spec, defaultOptions)
+      const hookFile = files.find(
+        (f) => f.path.startsWith('subscriptions/') && f.path !== 'subscriptions/index.ts',
+      )
+      expect(hookFile!.content).toContain("['SUBSCRIPTION onMessage', variables] as const")
+    })
+
+    it('sends the operation document with its variables', () => {
+      const spec = createMockSpec([createSubscriptionWithArgsOperation()])
+      const files = generateHooks(spec, defaultOptions)
+      const hookFile = files.find(
+        (f) => f.path.startsWith('subscriptions/') && f.path !== 'subscriptions/index.ts',
+      )
+      expect(hookFile!.content).toContain('subscription OnMessage($channel: String!) {')
+      expect(hookFile!.content).toContain('query: document,')
+      expect(hookFile!.content).toContain("operationName: 'OnMessage',")
+      expect(hookFile!.content).not.toContain('__typename')
     })
   })
 
@@ -225,4 +364,19 @@ describe('SwrGenerator', () => {
       expect(files.find((f) => f.path === 'pets/index.ts')).toBeDefined()
     })
   })
+
+  describe('GraphQL operations', () => {
+    it('fetches queries and mutations through graphqlRequest', () => {
+      const spec = createMockSpec([createGraphQLQueryOperation(), createGraphQLMutationOperation()])
+      const files = generateHooks(spec, defaultOptions)
+      const query = files.find((f) => f.path === 'queries/pet.ts')!.content
+      expect(query).toContain('useSWR<PetResponse, Error>(key, () => pet(params))')
+      const mutation = files.find((f) => f.path === 'mutations/create-pet.ts')!.content
+      expect(mutation).toContain('async (_key: string, { arg }: { arg: { body: CreatePetBody } }) => {')
+      expect(mutation).toContain('const data = await createPet(arg.body)')
+      expect(files.find((f) => f.path === 'sdk/queries.ts')!.content).toContain(
+        "return (await graphqlRequest<{ pet: PetResponse }>({ query: petDocument, operationName: 'Pet', variables: params, ...options })).pet",
+      )
+    })
+  })
 })
@@ -0,0 +1,65 @@
+import { createGenerator, generateHooks } from '../../src/generators/index'
+import { UrqlGenerator } from '../../src/generators/urql-generator'
+import type { GeneratorOptions } from '../../src/generators/types'
+import {
+  createMockSpec,
+  createGraphQLQueryOperation,
+  createGraphQLMutationOperation,
+  createSubscriptionOperation,
+  createSubscriptionWithArgsOperation,
+} from '../helpers'
+
+const defaultOptions: GeneratorOptions = {
+  fetcher: 'urql',
+  zod: false,
+  mock: false,
+  outputDir: './out',
+  infiniteQueries: false,
+}
+
+function findFile(spec: ReturnType<typeof createMockSpec>, path: string, options = defaultOptions): string {
+  const file = generateHooks(spec, options).find((f) => f.path === path)
+  expect(file).toBeDefined()
+  return file!.content
+}
+
+describe('UrqlGenerator', () => {
+  describe('createGenerator', () => {
+    it('returns an UrqlGenerator instance for "urql" strategy', () => {
+      expect(createGenerator('urql')).toBeInstanceOf(UrqlGenerator)
+    })
+  })
+
+  it('declares typed gql documents', () => {
+    const content = findFile(createMockSpec([createGraphQLQueryOperation()]), 'documents.ts')
+    expect(content).toContain("import { gql } from 'urql'")
+    expect(content).toContain('export const PetDocument: TypedDocumentNode<{ pet: PetResponse }, PetParams> = gql`')
+  })
+
+  describe('hooks', () => {
+    it('wraps useQuery with the document and variables', () => {
+      const content = findFile(createMockSpec([createGraphQLQueryOperation()]), 'queries/pet.ts')
+      expect(content).toContain("import { useQuery } from 'urql'")
+      expect(content).toContain("export function usePet(variables: PetParams, options?: Omit<UseQueryArgs<PetParams, { pet: PetResponse }>, 'query' | 'variables'>) {")
+      expect(content).toContain('return useQuery({ ...options, query: PetDocument, variables })')
+    })
+
+    it('wraps useMutation with the document', () => {
+      const content = findFile(createMockSpec([createGraphQLMutationOperation()]), 'mutations/create-pet.ts')
+      expect(content).toContain('export function useCreatePet() {')
+      expect(content).toContain('return useMutation(CreatePetDocument)')
+      expect(content).not.toContain("from '../types'")
+    })
+
+    it('wraps useSubscription with the document', () => {
+      const content = findFile(createMockSpec([createSubscriptionWithArgsOperation()]), 'subscriptions/on-message.ts')
+      expect(content).toContain('return useSubscription({ ...options, query: OnMessageDocument, variables })')
+    })
+
+    it('passes only options without variables', () => {
+      const content = findFile(createMockSpec([createSubscriptionOperation()]), 'subscriptions/pet-created.ts')
+      expect(content).toContain("export function usePetCreated(options?: Omit<UseSubscriptionArgs<Record<string, never>, { petCreated: PetCreatedResponse }>, 'query' | 'variables'>) {")
+      expect(content).toContain('return useSubscription({ ...options, query: PetCreatedDocument })')
+    })
+  })
+})
@@ -0,0 +1,188 @@
+import path from 'node:path'
+import { generate } from '../../src/index'
+import { createGenerator, generateHooks } from '../../src/generators/index'
+import { VueQueryGenerator } from '../../src/generators/vue-query-generator'
+import type { GeneratorOptions } from '../../src/generators/types'
+import type { ApiOperation } from '../../src/ir/types'
+import {
+  createMockSpec,
+  createGetOperation,
+  createPostOperation,
+  createDetailOperation,
+  createPaginatedOperation,
+  createSubscriptionWithArgsOperation,
+} from '../helpers'
+import { typeCheckFiles } from '../typecheck'
+
+const defaultOptions: GeneratorOptions = {
+  fetcher: 'vue-query',
+  zod: false,
+  mock: false,
+  outputDir: './out',
+  infiniteQueries: false,
+}
+
+function findHook(spec: ReturnType<typeof createMockSpec>, path: string, options = defaultOptions): string {
+  const file = generateHooks(spec, options).find((f) => f.path === path)
+  expect(file).toBeDefined()
+  return file!.content
+}
+
+describe('VueQueryGenerator', () => {
+  describe('createGenerator', () => {
+    it('returns a VueQueryGenerator instance for "vue-query" strategy', () => {
+      expect(createGenerator('vue-query')).toBeInstanceOf(VueQueryGenerator)
+    })
+  })
+
+  describe('generated files', () => {
+    it('includes query-keys.ts and exports it from the barrel', () => {
+      const files = generateHooks(createMockSpec(), defaultOptions)
+      const queryKeys = files.find((f) => f.path === 'query-keys.ts')!.content
+      expect(queryKeys).toContain('Query key factories for TanStack Vue Query.')
+      expect(queryKeys).toContain('export const petsKeys = {')
+      expect(files.find((f) => f.path === 'index.ts')!.content).toContain("export * from './query-keys'")
+    })
+  })
+
+  describe('query composables', () => {
+    it('takes params as a MaybeRefOrGetter and keys on their current value', () => {
+      const content = findHook(createMockSpec([createGetOperation()]), 'pets/list-pets.ts')
+      expect(content).toContain("import { computed, toValue } from 'vue'")
+      expect(content).toContain("import { useQuery } from '@tanstack/vue-query'")
+      expect(content).toContain("import { petsKeys } from '../query-keys'")
+      expect(content).toContain('export function useListPets(params: MaybeRefOrGetter<ListPetsParams>, options?: Partial<UseQueryOptions<ListPetsResponse, Error>>) {')
+      expect(content).toContain('queryKey: computed(() => petsKeys.list(toValue(params))),')
+      expect(content).toContain('queryFn: ({ signal }) => listPets(toValue(params), { signal }),')
+    })
+
+    it('keys detail queries on the path param', () => {
+      const content = findHook(createMockSpec([createDetailOperation()]), 'pets/get-pet.ts')
+      expect(content).toContain('queryKey: computed(() => petsKeys.detail(toValue(params).petId)),')
+    })
+
+    it('uses a static key without params', () => {
+      const op = createGetOperation({ queryParams: [] })
+      const content = findHook(createMockSpec([op]), 'pets/list-pets.ts')
+      expect(content).toContain('queryKey: petsKeys.lists(),')
+      expect(content).not.toContain("from 'vue'")
+    })
+
+    it('resolves queries for 204 responses to null', () => {
+      const op = createDetailOperation({ response: { statusCode: 204, contentType: '', type: { kind: 'primitive', type: 'unknown' } } })
+      const content = findHook(createMockSpec([op]), 'pets/get-pet.ts')
+      expect(content).toContain('useQuery<GetPetResponse | null, Error>')
+      expect(content).toContain('queryFn: ({ signal }) => getPet(toValue(params), { signal }).then(() => null),')
+    })
+  })
+
+  describe('mutation composables', () => {
+    it('calls the SDK function with the mutation variables', () => {
+      const content = findHook(createMockSpec([createPostOperation()]), 'pets/create-pet.ts')
+      expect(content).toContain("import { useMutation } from '@tanstack/vue-query'")
+      expect(content).toContain('return useMutation<CreatePetResponse, Error, { body: CreatePetBody }>({')
+      expect(content).toContain('mutationFn: (vars) => createPet(vars.body),')
+    })
+  })
+
+  describe('infinite query composables', () => {
+    const options = { ...defaultOptions, infiniteQueries: true }
+    const paginated = (): ApiOperation => createPaginatedOperation({
+      pagination: { strategy: 'cursor', pageParam: 'cursor', nextPagePath: ['nextCursor'], itemsPath: ['items'] },
+    })
+
+    it('keys pages apart from the plain query', () => {
+      const content = findHook(createMockSpec([paginated()]), 'pets/list-pets-paginated-infinite.ts', options)
+      expect(content).toContain("import { useInfiniteQuery } from '@tanstack/vue-query'")
+      expect(content).toContain("params: MaybeRefOrGetter<Omit<ListPetsPaginatedParams, 'cursor'>>")
+      expect(content).toContain("queryKey: computed(() => [...petsKeys.list(toValue(params)), 'infinite'] as const),")
+      expect(content).toContain("listPetsPaginated({ ...toValue(params), cursor: pageParam as ListPetsPaginatedParams['cursor'] }, { signal })")
+      expect(content).toContain('options?: Partial<UseInfiniteQueryOptions<ListPetsPaginatedResponse, Error, InfiniteData<ListPetsPaginatedResponse>>>')
+      expect(content).toContain('return useInfiniteQuery<ListPetsPaginatedResponse, Error, InfiniteData<ListPetsPaginatedResponse>>({')
+    })
+
+    it('reads the limit from the current params', () => {
+      const op = createPaginatedOperation({
+        queryParams: [
+          { name: 'offset', required: false, type: { kind: 'primitive', type: 'integer' }, in: 'query' },
+          { name: 'limit', required: false, type: { kind: 'primitive', type: 'integer' }, in: 'query' },
+        ],
+        pagination: { strategy: 'offset-limit', pageParam: 'offset', limitParam: 'limit', nextPagePath: [], itemsPath: ['items'] },
+      })
+      const content = findHook(createMockSpec([op]), 'pets/list-pets-paginated-infinite.ts', options)
+      expect(content).toContain('const limit = Number(toValue(params).limit ?? items?.length ?? 0)')
+      expect(content).toContain('getPreviousPageParam: (firstPage, _allPages, firstPageParam) => {')
+    })
+
+    it('pages Relay connections both ways and flattens the edge nodes', () => {
+      const op = createPaginatedOperation({
+        queryParams: ['first', 'after', 'last', 'before'].map((name) => ({
+          name,
+          required: false,
+          type: { kind: 'primitive', type: name === 'first' || name === 'last' ? 'integer' : 'string' } as const,
+          in: 'query' as const,
+        })),
+        pagination: {
+          strategy: 'cursor',
+          pageParam: 'after',
+          nextPagePath: ['pageInfo', 'endCursor'],
+          itemsPath: ['edges'],
+          hasNextPagePath: ['pageInfo', 'hasNextPage'],
+          nodePath: ['node'],
+          direction: 'forward',
+          previousPageParam: 'before',
+          previousPagePath: ['pageInfo', 'startCursor'],
+          hasPreviousPagePath: ['pageInfo', 'hasPreviousPage'],
+        },
+      })
+      const content = findHook(createMockSpec([op]), 'pets/list-pets-paginated-infinite.ts', options)
+      expect(content).toContain("params: MaybeRefOrGetter<Omit<ListPetsPaginatedParams, 'after' | 'before'>>")
+      expect(content).toContain('return cursor ? { before: cursor, first: undefined, last: toValue(params).first } : undefined')
+      expect(content).toContain("import type { InfiniteData, UseInfiniteQueryOptions } from '@tanstack/vue-query'")
+      expect(content).toContain('nodes: data.pages.flatMap((page) =>')
+    })
+  })
+
+  describe('subscription composables', () => {
+    it('resubscribes when the variables change and stops with the scope', () => {
+      const content = findHook(createMockSpec([createSubscriptionWithArgsOperation()]), 'subscriptions/on-message.ts')
+      expect(content).toContain('export function useOnMessage(variables: MaybeRefOrGetter<OnMessageParams>, options?:')
+      expect(content).toContain('() => [toValue(options?.enabled) !== false, toValue(variables)] as const,')
+      expect(content).toContain("{ query: document, operationName: 'OnMessage', variables: currentVariables },")
+      expect(content).toContain('onScopeDispose(unsubscribe)')
+      expect(content).not.toContain("from 'react'")
+    })
+
+    it('invalidates only the queries the subscription makes stale', () => {
+      const op = createSubscriptionWithArgsOperation({ invalidates: ['/pets'] })
+      const content = findHook(createMockSpec([createGetOperation(), op]), 'subscriptions/on-message.ts')
+      expect(content).toContain("import { petsKeys } from '../query-keys'")
+      expect(content).toContain('const queryKeys = options?.invalidate ? options.invalidate(value) : [petsKeys.lists()]')
+      expect(content).toContain('queryKeys.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }))')
+      expect(content).not.toContain('queryClient.invalidateQueries()')
+    })
+  })
+
+  describe('stream composables', () => {
+    it('streams into the query cache, reopening when params change', () => {
+      const op = createDetailOperation({
+        operationId: 'tailLogs',
+        streaming: true,
+        response: { statusCode: 200, contentType: 'text/event-stream', type: { kind: 'primitive', type: 'string' } },
+      })
+      const content = findHook(createMockSpec([op]), 'pets/tail-logs-stream.ts')
+      expect(content).toContain('export function useTailLogsStream(params: MaybeRefOrGetter<TailLogsParams>, options?:')
+      expect(content).toContain("queryKey: computed(() => ['tailLogs', 'stream', toValue(params)] as const),")
+      expect(content).toContain('const res = await openStream(toValue(params), controller.signal)')
+      expect(content).toContain('async function openStream(params: TailLogsParams, signal: AbortSignal): Promise<Response> {')
+      expect(content).not.toContain("from 'react'")
+    })
+  })
+
+  describe('generated project', () => {
+    it.each(['paginated-api.yaml', 'petstore-openapi3.yaml', 'schema.graphql'])('type-checks %s against @tanstack/vue-query', async (fixture) => {
+      const files = await generate({ spec: path.resolve(__dirname, '../fixtures', fixture), fetcher: 'vue-query' })
+      expect(typeCheckFiles(files)).toEqual([])
+    }, 60000)
+  })
+})
@@ -226,6 +226,16 @@ export function createSubscriptionOperation(overrides?: Partial<ApiOperation>):
         ],
       },
     },
+    graphql: {
+      operationType: 'subscription',
+      operationName: 'PetCreated',
+      field: 'petCreated',
+      document: 'subscription PetCreated {\n  petCreated {\n    id\n    name\n  }\n}',
+      selectionSet: [
+        { kind: 'field', name: 'id' },
+        { kind: 'field', name: 'name' },
+      ],
+    },
     deprecated: false,
     ...overrides,
   }
@@ -258,6 +268,112 @@ export function createSubscriptionWithArgsOperation(overrides?: Partial<ApiOpera
         ],
       },
     },
+    graphql: {
+      operationType: 'subscription',
+      operationName: 'OnMessage',
+      field: 'onMessage',
+      document: 'subscription OnMessage($channel: String!) {\n  onMessage(channel: $channel) {\n    id\n    text\n  }\n}',
+      selectionSet: [
+        { kind: 'field', name: 'id' },
+        { kind: 'field', name: 'text' },
+      ],
+    },
+    deprecated: false,
+    ...overrides,
+  }
+}
+
+/**
+ * Create a GraphQL QUERY operation with an `id` argument.
+ */
+export function createGraphQLQueryOperation(overrides?: Partial<ApiOperation>): ApiOperation {
+  return {
+    operationId: 'pet',
+    method: 'QUERY',
+    path: 'pet',
+    tags: ['queries'],
+    pathParams: [],
+    queryParams: [
+      { name: 'id', required: true, type: { kind: 'primitive', type: 'string' }, in: 'query' },
+    ],
+    headerParams: [],
+    requestBody: undefined,
+    response: {
+      statusCode: 200,
+      contentType: 'application/json',
+      type: {
+        kind: 'object',
+        properties: [
+          { name: 'id', type: { kind: 'primitive', type: 'string' }, required: true },
+          { name: 'name', type: { kind: 'primitive', type: 'string' }, required: true },
+        ],
+      },
+    },
+    graphql: {
+      operationType: 'query',
+      operationName: 'Pet',
+      field: 'pet',
+      document: 'query Pet($id: ID!) {\n  pet(id: $id) {\n    id\n    name\n  }\n}',
+      selectionSet: [
+        { kind: 'field', name: 'id' },
+        { kind: 'field', name: 'name' },
+      ],
+    },
+    deprecated: false,
+    ...overrides,
+  }
+}
+
+/**
+ * Create a GraphQL MUTATION operation taking an `input` argument.
+ */
+export function createGraphQLMutationOperation(overrides?: Partial<ApiOperation>): ApiOperation {
+  return {
+    operationId: 'createPet',
+    method: 'MUTATION',
+    path: 'createPet',
+    tags: ['mutations'],
+    pathParams: [],
+    queryParams: [],
+    headerParams: [],
+    requestBody: {
+      required: true,
+      contentType: 'application/json',
+      type: {
+        kind: 'object',
+        properties: [
+          {
+            name: 'input',
+            type: {
+              kind: 'object',
+              properties: [{ name: 'name', type: { kind: 'primitive', type: 'string' }, required: true }],
+            },
+            required: true,
+          },
+        ],
+      },
+    },
+    response: {
+      statusCode: 200,
+      contentType: 'application/json',
+      type: {
+        kind: 'object',
+        properties: [
+          { name: 'id', type: { kind: 'primitive', type: 'string' }, required: true },
+          { name: 'name', type: { kind: 'primitive', type: 'string' }, required: true },
+        ],
+      },
+    },
+    graphql: {
+      operationType: 'mutation',
+      operationName: 'CreatePet',
+      field: 'createPet',
+      document: 'mutation CreatePet($input: CreatePetInput!) {\n  createPet(input: $input) {\n    id\n    name\n  }\n}',
+      selectionSet: [
+        { kind: 'field', name: 'id' },
+        { kind: 'field', name: 'name' },
+      ],
+    },
     deprecated: false,
     ...overrides,
   }
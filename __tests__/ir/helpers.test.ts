@@ -1,5 +1,5 @@
-import { applyPaginationDetection } from '../../src/ir/helpers'
-import type { ApiSpec, ApiOperation } from '../../src/ir/types'
+import { applyPaginationDetection, getBodyEncoding, getResponseDecoding, isTextEventStream } from '../../src/ir/helpers'
+import type { ApiSpec, ApiOperation, ApiType } from '../../src/ir/types'
 
 function createMockSpec(operations: ApiOperation[]): ApiSpec {
   return {
@@ -247,3 +247,68 @@ describe('applyPaginationDetection', () => {
     expect(result.operations[2].pagination).toBeUndefined()
   })
 })
+
+describe('getBodyEncoding', () => {
+  const body = (contentType: string) => ({
+    required: true,
+    contentType,
+    type: { kind: 'primitive' as const, type: 'unknown' as const },
+  })
+
+  it('detects form content types', () => {
+    expect(getBodyEncoding(body('multipart/form-data'))).toBe('form-data')
+    expect(getBodyEncoding(body('application/x-www-form-urlencoded; charset=UTF-8'))).toBe('url-encoded')
+  })
+
+  it('treats everything else as JSON', () => {
+    expect(getBodyEncoding(body('application/json'))).toBe('json')
+    expect(getBodyEncoding(body('application/merge-patch+json'))).toBe('json')
+  })
+})
+
+describe('getResponseDecoding', () => {
+  const response = (statusCode: number | 'default', contentType: string) => ({
+    statusCode,
+    contentType,
+    type: { kind: 'primitive' as const, type: 'unknown' as const },
+  })
+
+  it('parses JSON media types', () => {
+    expect(getResponseDecoding(response(200, 'application/json'))).toBe('json')
+    expect(getResponseDecoding(response(200, 'application/problem+json'))).toBe('json')
+  })
+
+  it('reads text and XML as text', () => {
+    expect(getResponseDecoding(response(200, 'text/csv'))).toBe('text')
+    expect(getResponseDecoding(response(200, 'application/xml'))).toBe('text')
+  })
+
+  it('reads other media types as a Blob', () => {
+    expect(getResponseDecoding(response(200, 'application/pdf'))).toBe('blob')
+    expect(getResponseDecoding(response(200, 'application/octet-stream'))).toBe('blob')
+  })
+
+  it('reads event streams incrementally', () => {
+    expect(getResponseDecoding(response(200, 'text/event-stream'))).toBe('stream')
+    expect(getResponseDecoding(response(200, 'text/event-stream; charset=utf-8'))).toBe('stream')
+  })
+
+  it('decodes nothing for 204 and bodiless responses', () => {
+    expect(getResponseDecoding(response(204, 'application/json'))).toBe('none')
+    expect(getResponseDecoding(response(200, ''))).toBe('none')
+  })
+})
+
+describe('isTextEventStream', () => {
+  const response = (type: ApiType) => ({ statusCode: 200, contentType: 'text/event-stream', type })
+
+  it('passes string and untyped event data through as text', () => {
+    expect(isTextEventStream(response({ kind: 'primitive', type: 'string' }))).toBe(true)
+    expect(isTextEventStream(response({ kind: 'primitive', type: 'unknown' }))).toBe(true)
+  })
+
+  it('parses structured event data as JSON', () => {
+    expect(isTextEventStream(response({ kind: 'ref', name: 'Chunk' }))).toBe(false)
+    expect(isTextEventStream(response({ kind: 'primitive', type: 'number' }))).toBe(false)
+  })
+})
@@ -295,6 +295,75 @@ describe('detectPagination', () => {
     })
   })
 
+  describe('page bounds', () => {
+    const items = {
+      name: 'items',
+      type: { kind: 'array', items: { kind: 'primitive', type: 'unknown' } },
+      required: true,
+    } as const
+
+    it('records the limit param and total count of offset pagination', () => {
+      const op = createMockOperation({
+        queryParams: [{ name: 'offset' }, { name: 'per_page' }],
+        responseType: {
+          kind: 'object',
+          properties: [items, { name: 'total', type: { kind: 'primitive', type: 'integer' }, required: true }],
+        },
+      })
+
+      const result = detectPagination(op)
+      expect(result!.limitParam).toBe('per_page')
+      expect(result!.totalCountPath).toEqual(['total'])
+      expect(result!.totalPagesPath).toBeUndefined()
+    })
+
+    it('separates total pages from total count', () => {
+      const op = createMockOperation({
+        queryParams: [{ name: 'page' }],
+        responseType: {
+          kind: 'object',
+          properties: [
+            items,
+            {
+              name: 'meta',
+              type: {
+                kind: 'object',
+                properties: [
+                  { name: 'totalCount', type: { kind: 'primitive', type: 'integer' }, required: true },
+                  { name: 'last_page', type: { kind: 'primitive', type: 'integer' }, required: true },
+                ],
+              },
+              required: true,
+            },
+          ],
+        },
+      })
+
+      const result = detectPagination(op)
+      expect(result!.totalPagesPath).toEqual(['meta', 'last_page'])
+      expect(result!.totalCountPath).toEqual(['meta', 'totalCount'])
+      expect(result!.limitParam).toBeUndefined()
+    })
+
+    it('stops on a hasMore flag rather than reading it as the cursor', () => {
+      const op = createMockOperation({
+        queryParams: [{ name: 'cursor' }],
+        responseType: {
+          kind: 'object',
+          properties: [
+            items,
+            { name: 'has_more', type: { kind: 'primitive', type: 'boolean' }, required: true },
+            { name: 'next_cursor', type: { kind: 'primitive', type: 'string' }, required: false },
+          ],
+        },
+      })
+
+      const result = detectPagination(op)
+      expect(result!.nextPagePath).toEqual(['next_cursor'])
+      expect(result!.hasNextPagePath).toEqual(['has_more'])
+    })
+  })
+
   describe('non-paginated endpoints', () => {
     it('returns undefined for operations with no pagination params', () => {
       const op = createMockOperation({
@@ -340,4 +409,174 @@ describe('detectPagination', () => {
       expect(result).toBeUndefined()
     })
   })
+
+  describe('Relay connections', () => {
+    const pageInfo: ApiObjectType = {
+      kind: 'object',
+      properties: [
+        { name: 'hasNextPage', type: { kind: 'primitive', type: 'boolean' }, required: true },
+        { name: 'hasPreviousPage', type: { kind: 'primitive', type: 'boolean' }, required: true },
+        { name: 'startCursor', type: { kind: 'primitive', type: 'string' }, required: false },
+        { name: 'endCursor', type: { kind: 'primitive', type: 'string' }, required: false },
+      ],
+    }
+    const connection: ApiObjectType = {
+      kind: 'object',
+      properties: [
+        {
+          name: 'edges',
+          type: {
+            kind: 'array',
+            items: {
+              kind: 'object',
+              properties: [
+                { name: 'node', type: { kind: 'ref', name: 'Repo' }, required: true },
+                { name: 'cursor', type: { kind: 'primitive', type: 'string' }, required: true },
+              ],
+            },
+          },
+          required: true,
+        },
+        { name: 'pageInfo', type: { kind: 'ref', name: 'PageInfo' }, required: true },
+      ],
+    }
+    const types = new Map<string, ApiType>([['PageInfo', pageInfo]])
+
+    it('pages forward with after, stopping on hasNextPage', () => {
+      const op = createMockOperation({
+        queryParams: [{ name: 'first' }, { name: 'after' }],
+        responseType: connection,
+      })
+
+      expect(detectPagination(op, types)).toEqual({
+        strategy: 'cursor',
+        pageParam: 'after',
+        nextPagePath: ['pageInfo', 'endCursor'],
+        itemsPath: ['edges'],
+        hasNextPagePath: ['pageInfo', 'hasNextPage'],
+        nodePath: ['node'],
+        direction: 'forward',
+      })
+    })
+
+    it('pages both ways when the operation takes after and before', () => {
+      const op = createMockOperation({
+        queryParams: [{ name: 'first' }, { name: 'after' }, { name: 'last' }, { name: 'before' }],
+        responseType: connection,
+      })
+
+      expect(detectPagination(op, types)).toEqual({
+        strategy: 'cursor',
+        pageParam: 'after',
+        nextPagePath: ['pageInfo', 'endCursor'],
+        itemsPath: ['edges'],
+        hasNextPagePath: ['pageInfo', 'hasNextPage'],
+        nodePath: ['node'],
+        direction: 'forward',
+        previousPageParam: 'before',
+        previousPagePath: ['pageInfo', 'startCursor'],
+        hasPreviousPagePath: ['pageInfo', 'hasPreviousPage'],
+      })
+    })
+
+    it('pages backward with before, stopping on hasPreviousPage', () => {
+      const op = createMockOperation({
+        queryParams: [{ name: 'last' }, { name: 'before' }],
+        responseType: connection,
+      })
+
+      expect(detectPagination(op, types)).toMatchObject({
+        pageParam: 'before',
+        nextPagePath: ['pageInfo', 'startCursor'],
+        hasNextPagePath: ['pageInfo', 'hasPreviousPage'],
+        direction: 'backward',
+      })
+    })
+
+    it('reads items from nodes when the connection has no edges', () => {
+      const op = createMockOperation({
+        queryParams: [{ name: 'first' }, { name: 'after' }],
+        responseType: {
+          kind: 'object',
+          properties: [
+            { name: 'nodes', type: { kind: 'array', items: { kind: 'ref', name: 'Repo' } }, required: true },
+            { name: 'pageInfo', type: { kind: 'ref', name: 'PageInfo' }, required: true },
+          ],
+        },
+      })
+
+      const result = detectPagination(op, types)
+      expect(result!.itemsPath).toEqual(['nodes'])
+      expect(result!.nodePath).toBeUndefined()
+    })
+
+    it('finds the connection under the root field of a GraphQL document', () => {
+      const op: ApiOperation = {
+        ...createMockOperation({
+          queryParams: [{ name: 'first' }, { name: 'after' }],
+          responseType: {
+            kind: 'object',
+            properties: [{ name: 'repos', type: connection, required: true }],
+          },
+        }),
+        method: 'QUERY',
+        graphql: { operationType: 'query', operationName: 'Repos', document: '', selectionSet: [] },
+      }
+
+      expect(detectPagination(op, types)).toMatchObject({
+        nextPagePath: ['repos', 'pageInfo', 'endCursor'],
+        itemsPath: ['repos', 'edges'],
+        hasNextPagePath: ['repos', 'pageInfo', 'hasNextPage'],
+      })
+    })
+
+    it('falls back to plain cursor detection without a pageInfo flag', () => {
+      const op = createMockOperation({
+        queryParams: [{ name: 'before' }],
+        responseType: {
+          kind: 'object',
+          properties: [
+            { name: 'items', type: { kind: 'array', items: { kind: 'primitive', type: 'unknown' } }, required: true },
+            { name: 'nextCursor', type: { kind: 'primitive', type: 'string' }, required: false },
+          ],
+        },
+      })
+
+      const result = detectPagination(op, types)
+      expect(result!.pageParam).toBe('before')
+      expect(result!.hasNextPagePath).toBeUndefined()
+    })
+  })
+
+  describe('named response types', () => {
+    it('resolves ref response types through the types map', () => {
+      const page: ApiObjectType = {
+        kind: 'object',
+        properties: [
+          { name: 'items', type: { kind: 'ref', name: 'PetList' }, required: true },
+          { name: 'meta', type: { kind: 'ref', name: 'PageMeta' }, required: true },
+        ],
+      }
+      const types = new Map<string, ApiType>([
+        ['PetPage', page],
+        ['PetList', { kind: 'array', items: { kind: 'ref', name: 'Pet' } }],
+        [
+          'PageMeta',
+          {
+            kind: 'object',
+            properties: [{ name: 'totalPages', type: { kind: 'primitive', type: 'integer' }, required: true }],
+          },
+        ],
+      ])
+      const op = createMockOperation({
+        queryParams: [{ name: 'page' }],
+        responseType: { kind: 'ref', name: 'PetPage' },
+      })
+
+      const result = detectPagination(op, types)
+      expect(result!.strategy).toBe('page-number')
+      expect(result!.itemsPath).toEqual(['items'])
+      expect(result!.nextPagePath).toEqual(['meta', 'totalPages'])
+    })
+  })
 })
@@ -59,6 +59,11 @@ describe('emitMockValue', () => {
       expect(emitMockValue(type, minimalSpec())).toBe("'00000000-0000-0000-0000-000000000001'")
     })
 
+    it('generates a Blob mock for binary format', () => {
+      const type: ApiType = { kind: 'primitive', type: 'string', format: 'binary' }
+      expect(emitMockValue(type, minimalSpec())).toMatch(/^new Blob\(\['string-value-\d+'\]\)$/)
+    })
+
     it('generates date-time mock for date-time format', () => {
       const type: ApiType = { kind: 'primitive', type: 'string', format: 'date-time' }
       expect(emitMockValue(type, minimalSpec())).toBe("'2024-01-01T00:00:00Z'")
@@ -178,6 +183,25 @@ describe('emitMockValue', () => {
       }
       expect(emitMockValue(type, minimalSpec())).toBe('null')
     })
+
+    it('sets the discriminator value on the mocked variant', () => {
+      const spec = minimalSpec()
+      spec.types.set('Card', {
+        kind: 'object',
+        properties: [
+          { name: 'type', type: { kind: 'primitive', type: 'string' }, required: true },
+          { name: 'last4', type: { kind: 'primitive', type: 'string' }, required: true },
+        ],
+      })
+      const type: ApiType = {
+        kind: 'union',
+        variants: [{ kind: 'ref', name: 'Card' }, { kind: 'ref', name: 'Bank' }],
+        discriminator: { propertyName: 'type', values: ['card', 'bank'] },
+      }
+      const result = emitMockValue(type, spec)
+      expect(result).toContain("type: 'card'")
+      expect(result).toContain('last4:')
+    })
   })
 
   describe('ref mock generation', () => {
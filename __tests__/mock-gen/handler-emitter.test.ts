@@ -71,6 +71,47 @@ describe('emitMswHandlers', () => {
     expect(result).toContain('status: 204')
   })
 
+  it('returns no body for 204 responses', () => {
+    const spec = createMockSpec([createDeleteOperation()])
+    const result = emitMswHandlers(spec)
+    expect(result).toContain('return new HttpResponse(null, { status: 204 })')
+  })
+
+  it('uses 200 for DELETE operations with a default response body', () => {
+    const spec = createMockSpec([
+      createDeleteOperation({
+        response: { statusCode: 'default', contentType: 'application/json', type: { kind: 'primitive', type: 'string' } },
+      }),
+    ])
+    expect(emitMswHandlers(spec)).toContain('HttpResponse.json(mocks.generateDeletePetMock(), { status: 200 })')
+  })
+
+  it('returns text and binary mocks with their content type', () => {
+    const spec = createMockSpec([
+      createGetOperation({ response: { statusCode: 200, contentType: 'text/csv', type: { kind: 'primitive', type: 'string' } } }),
+      createDetailOperation({ response: { statusCode: 200, contentType: 'image/png', type: { kind: 'primitive', type: 'string' } } }),
+    ])
+    const result = emitMswHandlers(spec)
+    expect(result).toContain(
+      "HttpResponse.text(mocks.generateListPetsMock(), { status: 200, headers: { 'Content-Type': 'text/csv' } })",
+    )
+    expect(result).toContain(
+      "new HttpResponse(mocks.generateGetPetMock(), { status: 200, headers: { 'Content-Type': 'image/png' } })",
+    )
+  })
+
+  it('returns event stream mocks as a single Server-Sent Event', () => {
+    const spec = createMockSpec([
+      createGetOperation({
+        streaming: true,
+        response: { statusCode: 200, contentType: 'text/event-stream', type: { kind: 'object', properties: [] } },
+      }),
+    ])
+    expect(emitMswHandlers(spec)).toContain(
+      "new HttpResponse(`data: ${JSON.stringify(mocks.generateListPetsMock())}\\n\\n`, { status: 200, headers: { 'Content-Type': 'text/event-stream' } })",
+    )
+  })
+
   it('calls mock data generator functions', () => {
     const spec = createMockSpec([createGetOperation()])
     const result = emitMswHandlers(spec)
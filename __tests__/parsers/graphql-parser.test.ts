@@ -1,7 +1,10 @@
 import path from 'node:path'
 import fs from 'node:fs'
+import os from 'node:os'
 import { parseSpec } from '../../src/parsers/index'
 import type { ApiSpec, ApiOperation } from '../../src/ir/types'
+import type { ScalarMapping } from '../../src/parsers/types'
+import { ParseError } from '../../src/utils/errors'
 
 describe('GraphQL Parser', () => {
   describe('SDL parsing', () => {
@@ -157,6 +160,48 @@ describe('GraphQL Parser', () => {
           expect(propNames).toContain('input')
         }
       })
+
+      it('takes its arguments only as a body', () => {
+        expect(op.queryParams).toHaveLength(0)
+      })
+
+      it('has a mutation document selecting the returned fields', () => {
+        expect(op.graphql).toEqual({
+          operationType: 'mutation',
+          operationName: 'CreatePet',
+          field: 'createPet',
+          document: [
+            'mutation CreatePet($input: CreatePetInput!) {',
+            '  createPet(input: $input) {',
+            '    id',
+            '    name',
+            '    tag',
+            '    status',
+            '  }',
+            '}',
+          ].join('\n'),
+          selectionSet: [
+            { kind: 'field', name: 'id' },
+            { kind: 'field', name: 'name' },
+            { kind: 'field', name: 'tag' },
+            { kind: 'field', name: 'status' },
+          ],
+        })
+      })
+    })
+
+    describe('GraphQL documents', () => {
+      it('passes query arguments as variables and has no body', () => {
+        const op = spec.operations.find((o) => o.operationId === 'pet')!
+        expect(op.requestBody).toBeUndefined()
+        expect(op.graphql!.operationType).toBe('query')
+        expect(op.graphql!.document).toContain('query Pet($id: ID!) {\n  pet(id: $id) {')
+      })
+
+      it('omits the selection set for scalar results', () => {
+        const op = spec.operations.find((o) => o.operationId === 'deletePet')!
+        expect(op.graphql!.document).toBe('mutation DeletePet($id: ID!) {\n  deletePet(id: $id)\n}')
+      })
     })
 
     describe('enum types', () => {
@@ -252,6 +297,366 @@ describe('GraphQL Parser', () => {
     })
   })
 
+  describe('selection sets', () => {
+    const sdl = `
+      type Query {
+        me: User!
+        search(term: String!): [SearchResult!]!
+      }
+      type User {
+        id: ID!
+        name: String
+        friends: [User!]!
+        posts(first: Int = 10): [Post!]!
+        feed(after: String!): [Post!]!
+      }
+      type Post {
+        id: ID!
+        title: String!
+        author: User!
+      }
+      union SearchResult = User | Post
+    `
+
+    function findOp(spec: ApiSpec, id: string): ApiOperation {
+      return spec.operations.find((o) => o.operationId === id)!
+    }
+
+    it('selects nested fields, skipping recursion and required arguments', async () => {
+      const op = findOp(await parseSpec(sdl), 'me')
+      expect(op.graphql!.document).toBe(
+        [
+          'query Me {',
+          '  me {',
+          '    id',
+          '    name',
+          '    posts {',
+          '      id',
+          '      title',
+          '    }',
+          '  }',
+          '}',
+        ].join('\n'),
+      )
+    })
+
+    it('limits nesting to selectionDepth', async () => {
+      const op = findOp(await parseSpec(sdl, { selectionDepth: 1 }), 'me')
+      expect(op.graphql!.selectionSet).toEqual([
+        { kind: 'field', name: 'id' },
+        { kind: 'field', name: 'name' },
+      ])
+    })
+
+    it('narrows the response type to the selected fields', async () => {
+      const op = findOp(await parseSpec(sdl), 'me')
+      expect(op.response.type).toMatchObject({
+        kind: 'object',
+        properties: [
+          { name: 'id', type: { kind: 'primitive', type: 'string' }, required: true },
+          { name: 'name', type: { kind: 'primitive', type: 'string' }, required: false },
+          {
+            name: 'posts',
+            type: {
+              kind: 'array',
+              items: {
+                kind: 'object',
+                properties: [
+                  { name: 'id', type: { kind: 'primitive', type: 'string' }, required: true },
+                  { name: 'title', type: { kind: 'primitive', type: 'string' }, required: true },
+                ],
+              },
+            },
+            required: true,
+          },
+        ],
+      })
+    })
+
+    it('selects union members through inline fragments tagged by __typename', async () => {
+      const op = findOp(await parseSpec(sdl), 'search')
+      expect(op.graphql!.document).toContain('    __typename\n    ... on User {\n      id\n')
+      expect(op.graphql!.document).toContain('    ... on Post {\n      id\n      title\n      author {\n        id\n')
+
+      const items = op.response.type.kind === 'array' ? op.response.type.items : undefined
+      expect(items).toMatchObject({
+        kind: 'union',
+        discriminator: { propertyName: '__typename', values: ['User', 'Post'] },
+      })
+      if (items?.kind === 'union') {
+        expect(items.variants[1]).toMatchObject({
+          kind: 'object',
+          properties: [
+            { name: '__typename', type: { kind: 'enum', values: ['Post'] }, required: true },
+            { name: 'id' },
+            { name: 'title' },
+            { name: 'author' },
+          ],
+        })
+      }
+    })
+  })
+
+  describe('interfaces, scalars and defaults', () => {
+    const sdl = `
+      scalar DateTime
+      scalar BigInt
+      scalar JSON
+      interface Node {
+        id: ID!
+      }
+      interface Actor {
+        login: String!
+      }
+      type User implements Node & Actor {
+        id: ID!
+        login: String!
+      }
+      type Bot implements Node & Actor {
+        id: ID!
+        login: String!
+      }
+      type Repo implements Node {
+        id: ID!
+        owner: Actor!
+        createdAt: DateTime!
+        stars: BigInt
+        meta: JSON
+      }
+      input RepoFilter {
+        first: Int! = 10
+        query: String
+      }
+      type Query {
+        node(id: ID!): Node
+        repos(filter: RepoFilter, first: Int! = 20): [Repo!]!
+      }
+    `
+
+    it('declares interfaces as unions of their implementations tagged by __typename', async () => {
+      const spec = await parseSpec(sdl)
+      expect(spec.types.get('Node')).toEqual({
+        kind: 'union',
+        variants: [
+          { kind: 'ref', name: 'User' },
+          { kind: 'ref', name: 'Bot' },
+          { kind: 'ref', name: 'Repo' },
+        ],
+        discriminator: { propertyName: '__typename', values: ['User', 'Bot', 'Repo'] },
+        description: undefined,
+      })
+      const repo = spec.types.get('Repo')
+      expect(repo?.kind === 'object' && repo.properties.find((p) => p.name === 'owner')?.type).toEqual({
+        kind: 'ref',
+        name: 'Actor',
+      })
+    })
+
+    it('selects __typename on interface-typed fields', async () => {
+      const spec = await parseSpec(sdl)
+      const node = spec.operations.find((o) => o.operationId === 'node')!
+      expect(node.graphql!.document).toContain('  node(id: $id) {\n    __typename\n    id\n  }')
+      expect(node.response.type).toMatchObject({
+        kind: 'object',
+        properties: [
+          { name: '__typename', type: { kind: 'primitive', type: 'string' }, required: true },
+          { name: 'id' },
+        ],
+      })
+      const repos = spec.operations.find((o) => o.operationId === 'repos')!
+      expect(repos.graphql!.document).toContain('    owner {\n      __typename\n      login\n    }')
+    })
+
+    it('maps custom scalars through the scalar map', async () => {
+      const propertyTypes = async (scalars?: Record<string, ScalarMapping>) => {
+        const repo = (await parseSpec(sdl, { scalars })).types.get('Repo')
+        return repo?.kind === 'object' ? repo.properties.slice(2).map((p) => p.type) : []
+      }
+
+      expect(await propertyTypes()).toMatchObject([
+        { kind: 'primitive', type: 'string', format: 'date-time' },
+        { kind: 'primitive', type: 'string', format: undefined },
+        { kind: 'primitive', type: 'unknown' },
+      ])
+      expect(await propertyTypes({ DateTime: { type: 'number', format: 'unix' }, BigInt: 'integer', JSON: 'string' })).toMatchObject([
+        { kind: 'primitive', type: 'number', format: 'unix' },
+        { kind: 'primitive', type: 'integer', format: undefined },
+        { kind: 'primitive', type: 'string', format: undefined },
+      ])
+    })
+
+    it('keeps scalar mappings separate across concurrent parses', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auto-api-hooks-scalars-'))
+      fs.writeFileSync(path.join(dir, 'repos.graphql'), 'query RepoDates { repos { createdAt } }')
+      const createdAt = async (scalars: Record<string, ScalarMapping>) => {
+        const repo = (await parseSpec(sdl, { scalars, documents: [path.join(dir, '*.graphql')] })).types.get('Repo')
+        return repo?.kind === 'object' ? repo.properties.find((p) => p.name === 'createdAt')?.type : undefined
+      }
+
+      try {
+        const [unix, iso] = await Promise.all([
+          createdAt({ DateTime: { type: 'number', format: 'unix' } }),
+          createdAt({ DateTime: { type: 'string', format: 'iso' } }),
+        ])
+        expect(unix).toMatchObject({ type: 'number', format: 'unix' })
+        expect(iso).toMatchObject({ type: 'string', format: 'iso' })
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true })
+      }
+    })
+
+    it('makes arguments and input fields with a default optional', async () => {
+      const spec = await parseSpec(sdl)
+      const repos = spec.operations.find((o) => o.operationId === 'repos')!
+      expect(repos.queryParams.map((p) => [p.name, p.required, p.default])).toEqual([
+        ['filter', false, undefined],
+        ['first', false, 20],
+      ])
+      expect(repos.graphql!.document).toContain('query Repos($filter: RepoFilter, $first: Int) {')
+
+      const filter = spec.types.get('RepoFilter')
+      expect(filter?.kind === 'object' && filter.properties[0]).toMatchObject({ name: 'first', required: false, default: 10 })
+    })
+  })
+
+  describe('connection pagination', () => {
+    it('pages Relay connections by cursor until hasNextPage is false', async () => {
+      const spec = await parseSpec(`
+        type Query {
+          repos(first: Int, after: String): RepoConnection!
+        }
+        type Repo {
+          id: ID!
+        }
+        type RepoEdge {
+          node: Repo!
+          cursor: String!
+        }
+        type PageInfo {
+          hasNextPage: Boolean!
+          endCursor: String
+        }
+        type RepoConnection {
+          edges: [RepoEdge!]!
+          pageInfo: PageInfo!
+        }
+      `)
+      expect(spec.operations[0].pagination).toEqual({
+        strategy: 'cursor',
+        pageParam: 'after',
+        nextPagePath: ['pageInfo', 'endCursor'],
+        itemsPath: ['edges'],
+        hasNextPagePath: ['pageInfo', 'hasNextPage'],
+        nodePath: ['node'],
+        direction: 'forward',
+      })
+    })
+  })
+
+  describe('operation documents', () => {
+    const schemaPath = path.resolve(__dirname, '../fixtures/schema.graphql')
+    const documents = [path.resolve(__dirname, '../fixtures/documents/*.graphql')]
+    let spec: ApiSpec
+
+    beforeAll(async () => {
+      spec = await parseSpec(schemaPath, { documents })
+    })
+
+    function findOp(id: string): ApiOperation {
+      return spec.operations.find((o) => o.operationId === id)!
+    }
+
+    it('generates one operation per named operation instead of per root field', () => {
+      expect(spec.operations.map((o) => [o.operationId, o.method, o.tags[0]])).toEqual([
+        ['addPet', 'MUTATION', 'mutations'],
+        ['getPet', 'QUERY', 'queries'],
+        ['petPage', 'QUERY', 'queries'],
+      ])
+      expect(findOp('getPet').graphql!.field).toBeUndefined()
+    })
+
+    it('types the whole result from the selection set, with aliases and fragments', () => {
+      expect(findOp('getPet').response.type).toMatchObject({
+        kind: 'object',
+        properties: [
+          {
+            name: 'pet',
+            required: false,
+            type: {
+              kind: 'object',
+              properties: [
+                { name: 'id', required: true },
+                { name: 'name', required: true },
+                { name: 'status', type: { kind: 'enum', values: ['AVAILABLE', 'PENDING', 'SOLD'] } },
+                { name: 'label', type: { kind: 'primitive', type: 'string' }, required: false },
+              ],
+            },
+          },
+        ],
+      })
+    })
+
+    it('takes variables as params, optional when they have a default', () => {
+      expect(findOp('getPet').queryParams.map((p) => [p.name, p.required])).toEqual([['id', true]])
+      expect(findOp('petPage').queryParams.map((p) => [p.name, p.required])).toEqual([['limit', false]])
+      expect(findOp('petPage').queryParams[0].default).toBe(10)
+      expect(findOp('addPet').requestBody!.type).toMatchObject({
+        kind: 'object',
+        properties: [{ name: 'input', required: true }],
+      })
+    })
+
+    it('sends the operation with the fragments it uses, across files', () => {
+      expect(findOp('addPet').graphql!.document).toBe(
+        [
+          'mutation AddPet($input: CreatePetInput!) {',
+          '  createPet(input: $input) {',
+          '    ...PetFields',
+          '  }',
+          '}',
+          '',
+          'fragment PetFields on Pet {',
+          '  id',
+          '  name',
+          '  status',
+          '}',
+        ].join('\n'),
+      )
+    })
+
+    describe('invalid documents', () => {
+      let tmpDir: string
+
+      beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'auto-api-hooks-documents-test-'))
+      })
+
+      afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true })
+      })
+
+      it('reports fields missing from the schema with their location', async () => {
+        fs.writeFileSync(path.join(tmpDir, 'bad.graphql'), 'query Bad {\n  pet(id: "1") { nope }\n}\n')
+        await expect(parseSpec(schemaPath, { documents: [path.join(tmpDir, '*.graphql')] })).rejects.toThrow(
+          /bad\.graphql:2:18 Cannot query field "nope" on type "Pet"/,
+        )
+      })
+
+      it('rejects anonymous operations', async () => {
+        fs.writeFileSync(path.join(tmpDir, 'anonymous.graphql'), '{ users { id } }\n')
+        await expect(parseSpec(schemaPath, { documents: [path.join(tmpDir, '*.graphql')] })).rejects.toThrow(
+          'Anonymous query needs a name to generate a hook.',
+        )
+      })
+
+      it('fails when no document matches', async () => {
+        await expect(parseSpec(schemaPath, { documents: [path.join(tmpDir, '*.graphql')] })).rejects.toThrow(
+          ParseError,
+        )
+      })
+    })
+  })
+
   describe('Introspection JSON parsing', () => {
     const introspectionPath = path.resolve(__dirname, '../fixtures/introspection.json')
     let spec: ApiSpec
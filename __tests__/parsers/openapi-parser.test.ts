@@ -1,6 +1,6 @@
 import path from 'node:path'
 import { parseSpec } from '../../src/parsers/index'
-import type { ApiSpec, ApiOperation } from '../../src/ir/types'
+import type { ApiSpec, ApiOperation, ApiObjectType, ApiUnionType } from '../../src/ir/types'
 
 describe('OpenAPI 3.x Parser', () => {
   const specPath = path.resolve(__dirname, '../../fixtures/petstore-openapi3.yaml')
@@ -305,5 +305,440 @@ describe('OpenAPI 3.x Parser', () => {
       expect(listItems!.pagination!.strategy).toBe('page-number')
       expect(listItems!.pagination!.pageParam).toBe('pg')
     })
+
+    it('parses pagination headers from x-pagination', async () => {
+      const specWithHeaders = {
+        openapi: '3.0.3',
+        info: { title: 'Test', version: '1.0.0' },
+        paths: {
+          '/repos': {
+            get: {
+              operationId: 'listRepos',
+              'x-pagination': {
+                strategy: 'page-number',
+                pageParam: 'page',
+                nextPageHeader: 'Link',
+                totalCountHeader: 'X-Total-Count',
+              },
+              parameters: [{ name: 'page', in: 'query', schema: { type: 'integer' } }],
+              responses: {
+                '200': {
+                  description: 'OK',
+                  content: { 'application/json': { schema: { type: 'array', items: { type: 'string' } } } },
+                },
+              },
+            },
+          },
+        },
+      }
+
+      const result = await parseSpec(specWithHeaders as any)
+      const listRepos = result.operations.find((o) => o.operationId === 'listRepos')
+      expect(listRepos!.pagination!.nextPageHeader).toBe('Link')
+      expect(listRepos!.pagination!.totalCountHeader).toBe('X-Total-Count')
+      expect(listRepos!.pagination!.nextPagePath).toEqual([])
+    })
+  })
+
+  describe('x-invalidates vendor extension', () => {
+    const specWithInvalidates = (xInvalidates: unknown) => ({
+      openapi: '3.0.3',
+      info: { title: 'Test', version: '1.0.0' },
+      paths: {
+        '/items/{id}/archive': {
+          post: {
+            operationId: 'archiveItem',
+            'x-invalidates': xInvalidates,
+            parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+            responses: { '204': { description: 'Archived' } },
+          },
+        },
+      },
+    })
+
+    it('parses x-invalidates into the invalidated paths', async () => {
+      const result = await parseSpec(specWithInvalidates(['/items', '/items/{id}']) as any)
+      const archiveItem = result.operations.find((o) => o.operationId === 'archiveItem')
+      expect(archiveItem!.invalidates).toEqual(['/items', '/items/{id}'])
+    })
+
+    it('keeps an empty x-invalidates, which turns invalidation off', async () => {
+      const result = await parseSpec(specWithInvalidates([]) as any)
+      expect(result.operations[0].invalidates).toEqual([])
+    })
+
+    it('leaves invalidates unset without x-invalidates', async () => {
+      const result = await parseSpec(specWithInvalidates(undefined) as any)
+      expect(result.operations[0].invalidates).toBeUndefined()
+    })
+  })
+})
+
+describe('OpenAPI 3.x error responses', () => {
+  const doc = {
+    openapi: '3.0.3',
+    info: { title: 'Errors API', version: '1.0.0' },
+    paths: {
+      '/users/{id}': {
+        get: {
+          operationId: 'getUser',
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: {
+            '200': {
+              description: 'OK',
+              content: { 'application/json': { schema: { type: 'object', properties: { id: { type: 'string' } } } } },
+            },
+            '404': {
+              description: 'Not found',
+              content: { 'application/json': { schema: { type: 'object', properties: { message: { type: 'string' } } } } },
+            },
+            '422': {
+              description: 'Validation failed',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: { errors: { type: 'array', items: { type: 'string' } } },
+                  },
+                },
+              },
+            },
+            default: { description: 'Unexpected error' },
+          },
+        },
+      },
+      '/users': {
+        get: {
+          operationId: 'listUsers',
+          responses: {
+            '200': { description: 'OK' },
+            '4XX': {
+              description: 'Client error',
+              content: { 'application/json': { schema: { type: 'object', properties: { message: { type: 'string' } } } } },
+            },
+            '5xx': { description: 'Server error' },
+          },
+        },
+      },
+      '/health': {
+        get: {
+          operationId: 'getHealth',
+          responses: {
+            default: {
+              description: 'Health status',
+              content: { 'application/json': { schema: { type: 'object', properties: { ok: { type: 'boolean' } } } } },
+            },
+          },
+        },
+      },
+    },
+  }
+
+  it('collects 4xx, 5xx and default responses into errors', async () => {
+    const spec = await parseSpec(doc as any)
+    const op = spec.operations.find((o) => o.operationId === 'getUser')!
+    expect(op.response.statusCode).toBe(200)
+    expect(op.errors!.map((e) => e.statusCode)).toEqual([404, 422, 'default'])
+    expect(op.errors![0].type.kind).toBe('object')
+    expect(op.errors![1].description).toBe('Validation failed')
+  })
+
+  it('collects 4XX and 5XX range responses into errors', async () => {
+    const spec = await parseSpec(doc as any)
+    const op = spec.operations.find((o) => o.operationId === 'listUsers')!
+    expect(op.errors!.map((e) => e.statusCode)).toEqual(['4XX', '5XX'])
+    expect(op.errors![0].type.kind).toBe('object')
+  })
+
+  it('does not repeat a default response used as the success response', async () => {
+    const spec = await parseSpec(doc as any)
+    const op = spec.operations.find((o) => o.operationId === 'getHealth')!
+    expect(op.response.statusCode).toBe('default')
+    expect(op.errors).toBeUndefined()
+  })
+})
+
+describe('OpenAPI 3.x preserveRefs', () => {
+  const specPath = path.resolve(__dirname, '../../fixtures/petstore-openapi3.yaml')
+  let spec: ApiSpec
+
+  beforeAll(async () => {
+    spec = await parseSpec(specPath, { preserveRefs: true })
+  })
+
+  it('keeps refs to components/schemas as ApiRefType', () => {
+    const getPet = spec.operations.find((o) => o.path === '/pets/{petId}' && o.method === 'GET')!
+    expect(getPet.response.type).toEqual({ kind: 'ref', name: 'Pet' })
+  })
+
+  it('keeps refs inside arrays and request bodies', () => {
+    const listPets = spec.operations.find((o) => o.operationId === 'listPets')!
+    expect(listPets.response.type).toEqual({ kind: 'array', items: { kind: 'ref', name: 'Pet' } })
+
+    const createPet = spec.operations.find((o) => o.operationId === 'createPet')!
+    expect(createPet.requestBody!.type).toEqual({ kind: 'ref', name: 'Pet' })
+  })
+
+  it('still extracts the named types themselves', () => {
+    const pet = spec.types.get('Pet')!
+    expect(pet.kind).toBe('object')
+  })
+
+  it('resolves refs to components/responses and components/parameters', async () => {
+    const refSpec = await parseSpec({
+      openapi: '3.0.3',
+      info: { title: 'Refs API', version: '1.0.0' },
+      paths: {
+        '/users/{id}': {
+          get: {
+            operationId: 'getUser',
+            parameters: [{ $ref: '#/components/parameters/UserId' }],
+            responses: {
+              '200': {
+                description: 'OK',
+                content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } },
+              },
+              '404': { $ref: '#/components/responses/NotFound' },
+            },
+          },
+        },
+      },
+      components: {
+        schemas: {
+          User: {
+            type: 'object',
+            properties: { id: { type: 'string' }, manager: { $ref: '#/components/schemas/User' } },
+          },
+          Problem: { type: 'object', properties: { detail: { type: 'string' } } },
+        },
+        parameters: {
+          UserId: { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        },
+        responses: {
+          NotFound: {
+            description: 'Not found',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Problem' } } },
+          },
+        },
+      },
+    } as any, { preserveRefs: true })
+
+    const op = refSpec.operations[0]
+    expect(op.pathParams.map((p) => p.name)).toEqual(['id'])
+    expect(op.errors![0].type).toEqual({ kind: 'ref', name: 'Problem' })
+
+    const user = refSpec.types.get('User') as ApiObjectType
+    expect(user.properties.find((p) => p.name === 'manager')!.type).toEqual({ kind: 'ref', name: 'User' })
+  })
+})
+
+describe('OpenAPI 3.x discriminators', () => {
+  const doc = () => ({
+    openapi: '3.0.3',
+    info: { title: 'Payments API', version: '1.0.0' },
+    paths: {
+      '/payment-methods/{id}': {
+        get: {
+          operationId: 'getPaymentMethod',
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: {
+            '200': {
+              description: 'OK',
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/PaymentMethod' } } },
+            },
+          },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        PaymentMethod: {
+          oneOf: [
+            { $ref: '#/components/schemas/Card' },
+            { $ref: '#/components/schemas/Bank' },
+            { $ref: '#/components/schemas/Wallet' },
+          ],
+          discriminator: {
+            propertyName: 'type',
+            mapping: { card: '#/components/schemas/Card' },
+          },
+        },
+        Card: { type: 'object', properties: { type: { type: 'string' }, last4: { type: 'string' } } },
+        Bank: { type: 'object', properties: { type: { type: 'string' }, iban: { type: 'string' } } },
+        Wallet: {
+          type: 'object',
+          properties: { type: { type: 'string', enum: ['wallet'] }, provider: { type: 'string' } },
+        },
+      },
+    },
+  })
+
+  it('derives tag values from mapping, single-value enums and schema names', async () => {
+    const spec = await parseSpec(doc() as any)
+    const union = spec.types.get('PaymentMethod') as ApiUnionType
+    expect(union.kind).toBe('union')
+    expect(union.variants).toHaveLength(3)
+    expect(union.discriminator).toEqual({ propertyName: 'type', values: ['card', 'Bank', 'wallet'] })
+  })
+
+  it('keeps ref variants with the discriminator in preserveRefs mode', async () => {
+    const spec = await parseSpec(doc() as any, { preserveRefs: true })
+    const union = spec.types.get('PaymentMethod') as ApiUnionType
+    expect(union.variants).toEqual([
+      { kind: 'ref', name: 'Card' },
+      { kind: 'ref', name: 'Bank' },
+      { kind: 'ref', name: 'Wallet' },
+    ])
+    expect(union.discriminator!.values).toEqual(['card', 'Bank', 'wallet'])
+  })
+
+  it('omits the discriminator when a variant tag cannot be determined', async () => {
+    const input = doc()
+    ;(input.components.schemas.PaymentMethod as any).oneOf.push({
+      type: 'object',
+      properties: { type: { type: 'string' } },
+    })
+    const spec = await parseSpec(input as any)
+    const union = spec.types.get('PaymentMethod') as ApiUnionType
+    expect(union.variants).toHaveLength(4)
+    expect(union.discriminator).toBeUndefined()
+  })
+})
+
+describe('OpenAPI 3.x security schemes', () => {
+  const ok = { '200': { description: 'OK' } }
+  const doc = {
+    openapi: '3.0.3',
+    info: { title: 'Secure API', version: '1.0.0' },
+    security: [{ bearerAuth: [] }],
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+        basicAuth: { type: 'http', scheme: 'basic' },
+        apiKeyAuth: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        oauth: { type: 'oauth2', flows: {} },
+      },
+    },
+    paths: {
+      '/me': { get: { operationId: 'getMe', responses: ok } },
+      '/health': { get: { operationId: 'getHealth', security: [], responses: ok } },
+      '/reports': {
+        get: { operationId: 'listReports', security: [{ apiKeyAuth: [] }, { basicAuth: [], oauth: [] }], responses: ok },
+      },
+      '/feed': { get: { operationId: 'getFeed', security: [{}, { unknownScheme: [] }], responses: ok } },
+    },
+  }
+
+  it('converts security schemes', async () => {
+    const spec = await parseSpec(doc as any)
+    expect(spec.securitySchemes).toEqual([
+      { name: 'bearerAuth', type: 'bearer' },
+      { name: 'basicAuth', type: 'basic' },
+      { name: 'apiKeyAuth', type: 'apiKey', in: 'header', paramName: 'X-API-Key' },
+      { name: 'oauth', type: 'bearer' },
+    ])
+  })
+
+  it('inherits the top-level security requirement', async () => {
+    const spec = await parseSpec(doc as any)
+    expect(spec.operations.find((o) => o.operationId === 'getMe')!.security).toEqual([['bearerAuth']])
+  })
+
+  it('lets operations override or clear the requirement', async () => {
+    const spec = await parseSpec(doc as any)
+    expect(spec.operations.find((o) => o.operationId === 'getHealth')!.security).toBeUndefined()
+    expect(spec.operations.find((o) => o.operationId === 'listReports')!.security).toEqual([
+      ['apiKeyAuth'],
+      ['basicAuth', 'oauth'],
+    ])
+  })
+
+  it('keeps optional requirements and drops unknown schemes', async () => {
+    const spec = await parseSpec(doc as any)
+    expect(spec.operations.find((o) => o.operationId === 'getFeed')!.security).toEqual([[]])
+  })
+})
+
+describe('OpenAPI 3.x form request bodies', () => {
+  it('keeps the multipart content type and binary properties', async () => {
+    const spec = await parseSpec({
+      openapi: '3.0.3',
+      info: { title: 'Forms API', version: '1.0.0' },
+      paths: {
+        '/avatar': {
+          put: {
+            operationId: 'uploadAvatar',
+            requestBody: {
+              content: {
+                'multipart/form-data': {
+                  schema: { type: 'object', properties: { file: { type: 'string', format: 'binary' } } },
+                },
+              },
+            },
+            responses: { '204': { description: 'Uploaded' } },
+          },
+        },
+      },
+    } as any)
+    const body = spec.operations[0].requestBody!
+    expect(body.contentType).toBe('multipart/form-data')
+    expect(body.type).toMatchObject({
+      properties: [{ name: 'file', type: { kind: 'primitive', type: 'string', format: 'binary' } }],
+    })
+  })
+})
+
+describe('OpenAPI 3.x response content types', () => {
+  it('records responses without content as bodiless', async () => {
+    const spec = await parseSpec({
+      openapi: '3.0.3',
+      info: { title: 'Files API', version: '1.0.0' },
+      paths: {
+        '/items/{id}': {
+          delete: {
+            operationId: 'deleteItem',
+            parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+            responses: { '204': { description: 'Deleted' } },
+          },
+        },
+        '/report': {
+          get: {
+            operationId: 'getReport',
+            responses: { '200': { description: 'PDF', content: { 'application/pdf': { schema: { type: 'string', format: 'binary' } } } } },
+          },
+        },
+      },
+    } as any)
+    const deleteItem = spec.operations.find((o) => o.operationId === 'deleteItem')!
+    expect(deleteItem.response.statusCode).toBe(204)
+    expect(deleteItem.response.contentType).toBe('')
+    expect(spec.operations.find((o) => o.operationId === 'getReport')!.response.contentType).toBe('application/pdf')
+  })
+})
+
+describe('OpenAPI 3.x streaming operations', () => {
+  it('flags text/event-stream responses as streaming', async () => {
+    const spec = await parseSpec({
+      openapi: '3.0.3',
+      info: { title: 'Logs API', version: '1.0.0' },
+      paths: {
+        '/logs/tail': {
+          get: {
+            operationId: 'tailLogs',
+            responses: { '200': { description: 'Log lines', content: { 'text/event-stream': { schema: { type: 'string' } } } } },
+          },
+        },
+        '/logs': {
+          get: {
+            operationId: 'listLogs',
+            responses: { '200': { description: 'Logs', content: { 'application/json': { schema: { type: 'array', items: { type: 'string' } } } } } },
+          },
+        },
+      },
+    } as any)
+    const tailLogs = spec.operations.find((o) => o.operationId === 'tailLogs')!
+    expect(tailLogs.streaming).toBe(true)
+    expect(tailLogs.response.type).toEqual({ kind: 'primitive', type: 'string' })
+    expect(spec.operations.find((o) => o.operationId === 'listLogs')!.streaming).toBeUndefined()
   })
 })
@@ -111,4 +111,19 @@ describe('Parser Factory (parseSpec)', () => {
       expect(spec.baseUrl).toBe('https://api.example.com/gql')
     })
   })
+  describe('documents option', () => {
+    it('warns that documents are ignored for REST specs', async () => {
+      const warnSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+
+      const specPath = path.resolve(__dirname, '../fixtures/petstore-openapi3.yaml')
+      const spec = await parseSpec(specPath, { documents: ['**/*.graphql'] })
+
+      expect(spec.operations.length).toBeGreaterThan(0)
+      const warnings = warnSpy.mock.calls
+        .map((args) => args.join(' '))
+        .filter((msg) => msg.includes('GraphQL documents only apply to GraphQL schemas'))
+      expect(warnings.length).toBe(1)
+      warnSpy.mockRestore()
+    })
+  })
 })
@@ -156,3 +156,137 @@ describe('Swagger 2.0 Parser', () => {
     })
   })
 })
+
+describe('Swagger 2.0 error responses', () => {
+  it('collects 4xx, 5xx and default responses into errors', async () => {
+    const spec = await parseSpec({
+      swagger: '2.0',
+      info: { title: 'Errors API', version: '1.0.0' },
+      paths: {
+        '/users/{id}': {
+          get: {
+            operationId: 'getUser',
+            parameters: [{ name: 'id', in: 'path', required: true, type: 'string' }],
+            responses: {
+              '200': { description: 'OK', schema: { type: 'object', properties: { id: { type: 'string' } } } },
+              '404': { description: 'Not found', schema: { type: 'object', properties: { message: { type: 'string' } } } },
+              '500': { description: 'Server error' },
+            },
+          },
+        },
+      },
+    } as any)
+    const op = spec.operations.find((o) => o.operationId === 'getUser')!
+    expect(op.errors!.map((e) => e.statusCode)).toEqual([404, 500])
+    expect(op.errors![0].type.kind).toBe('object')
+    expect(op.errors![1].type).toEqual({ kind: 'primitive', type: 'unknown' })
+  })
+})
+
+describe('Swagger 2.0 preserveRefs', () => {
+  it('keeps refs to definitions as ApiRefType', async () => {
+    const specPath = path.resolve(__dirname, '../../fixtures/petstore-swagger2.json')
+    const spec = await parseSpec(specPath, { preserveRefs: true })
+
+    const listPets = spec.operations.find((o) => o.operationId === 'listPets')!
+    expect(listPets.response.type).toEqual({ kind: 'array', items: { kind: 'ref', name: 'Pet' } })
+
+    const createPet = spec.operations.find((o) => o.operationId === 'createPet')!
+    expect(createPet.requestBody!.type).toEqual({ kind: 'ref', name: 'Pet' })
+    expect(spec.types.get('Pet')!.kind).toBe('object')
+  })
+})
+
+describe('Swagger 2.0 security definitions', () => {
+  it('converts security definitions and requirements', async () => {
+    const spec = await parseSpec({
+      swagger: '2.0',
+      info: { title: 'Secure API', version: '1.0.0' },
+      securityDefinitions: {
+        basicAuth: { type: 'basic' },
+        apiKeyAuth: { type: 'apiKey', in: 'query', name: 'api_key' },
+        oauth: { type: 'oauth2', flow: 'implicit', authorizationUrl: 'https://example.com/auth', scopes: {} },
+      },
+      security: [{ apiKeyAuth: [] }],
+      paths: {
+        '/me': { get: { operationId: 'getMe', responses: { '200': { description: 'OK' } } } },
+        '/admin': {
+          get: { operationId: 'getAdmin', security: [{ basicAuth: [] }, { oauth: [] }], responses: { '200': { description: 'OK' } } },
+        },
+      },
+    } as any)
+    expect(spec.securitySchemes).toEqual([
+      { name: 'basicAuth', type: 'basic' },
+      { name: 'apiKeyAuth', type: 'apiKey', in: 'query', paramName: 'api_key' },
+      { name: 'oauth', type: 'bearer' },
+    ])
+    expect(spec.operations.find((o) => o.operationId === 'getMe')!.security).toEqual([['apiKeyAuth']])
+    expect(spec.operations.find((o) => o.operationId === 'getAdmin')!.security).toEqual([['basicAuth'], ['oauth']])
+  })
+})
+
+describe('Swagger 2.0 formData parameters', () => {
+  const parseForm = (operation: Record<string, unknown>) =>
+    parseSpec({
+      swagger: '2.0',
+      info: { title: 'Forms API', version: '1.0.0' },
+      paths: { '/upload': { post: { operationId: 'upload', responses: { '200': { description: 'OK' } }, ...operation } } },
+    } as any)
+
+  it('collects formData parameters into a multipart body when a file is sent', async () => {
+    const spec = await parseForm({
+      consumes: ['multipart/form-data'],
+      parameters: [
+        { name: 'file', in: 'formData', type: 'file', required: true },
+        { name: 'caption', in: 'formData', type: 'string' },
+      ],
+    })
+    const body = spec.operations[0].requestBody!
+    expect(body.contentType).toBe('multipart/form-data')
+    expect(body.required).toBe(true)
+    expect(body.type).toMatchObject({
+      kind: 'object',
+      properties: [
+        { name: 'file', required: true, type: { kind: 'primitive', type: 'string', format: 'binary' } },
+        { name: 'caption', required: false, type: { kind: 'primitive', type: 'string' } },
+      ],
+    })
+  })
+
+  it('uses a URL-encoded body for formData parameters without files', async () => {
+    const spec = await parseForm({
+      consumes: ['application/x-www-form-urlencoded'],
+      parameters: [{ name: 'grant_type', in: 'formData', type: 'string', required: true }],
+    })
+    expect(spec.operations[0].requestBody!.contentType).toBe('application/x-www-form-urlencoded')
+    expect(spec.operations[0].queryParams).toEqual([])
+  })
+})
+
+describe('Swagger 2.0 x-invalidates vendor extension', () => {
+  const parseInvalidates = (xInvalidates: unknown) =>
+    parseSpec({
+      swagger: '2.0',
+      info: { title: 'Items API', version: '1.0.0' },
+      paths: {
+        '/items/{id}/archive': {
+          post: {
+            operationId: 'archiveItem',
+            'x-invalidates': xInvalidates,
+            parameters: [{ name: 'id', in: 'path', required: true, type: 'string' }],
+            responses: { '204': { description: 'Archived' } },
+          },
+        },
+      },
+    } as any)
+
+  it('parses x-invalidates into the invalidated paths', async () => {
+    const spec = await parseInvalidates(['/items', '/items/{id}', 42])
+    expect(spec.operations[0].invalidates).toEqual(['/items', '/items/{id}'])
+  })
+
+  it('leaves invalidates unset without x-invalidates', async () => {
+    const spec = await parseInvalidates(undefined)
+    expect(spec.operations[0].invalidates).toBeUndefined()
+  })
+})
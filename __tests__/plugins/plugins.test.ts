@@ -0,0 +1,171 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { generate } from '../../src/index'
+import { createGenerator } from '../../src/generators/index'
+import { applyEmitPlugins, applySpecPlugins, collectPluginGenerators, definePlugin, runAfterWrite } from '../../src/plugins/index'
+import type { PluginContext } from '../../src/plugins/index'
+import type { HookGenerator } from '../../src/generators/types'
+import { GeneratorError, PluginError } from '../../src/utils/errors'
+import { createMockSpec, createGetOperation, createPostOperation } from '../helpers'
+
+const context: PluginContext = {
+  fetcher: 'fetch',
+  options: { fetcher: 'fetch', zod: false, mock: false, outputDir: './out', infiniteQueries: false },
+}
+
+describe('applySpecPlugins', () => {
+  it('runs transformSpec, then transformOperation on every operation', async () => {
+    const spec = createMockSpec([createGetOperation(), createPostOperation()])
+    const result = await applySpecPlugins(
+      spec,
+      [
+        definePlugin({
+          name: 'rename',
+          transformSpec: (s) => ({ ...s, title: 'Renamed' }),
+        }),
+        definePlugin({
+          name: 'read-only',
+          transformOperation: (op) => (op.method === 'GET' ? { ...op, tags: ['tracked'] } : null),
+        }),
+      ],
+      context,
+    )
+    expect(result.title).toBe('Renamed')
+    expect(result.operations.map((op) => [op.operationId, op.tags])).toEqual([['listPets', ['tracked']]])
+  })
+
+  it('keeps the input when a hook returns nothing', async () => {
+    const spec = createMockSpec([createGetOperation()])
+    const seen: string[] = []
+    const result = await applySpecPlugins(
+      spec,
+      [{ name: 'observer', transformOperation: (op) => { seen.push(op.operationId) } }],
+      context,
+    )
+    expect(seen).toEqual(['listPets'])
+    expect(result.operations).toEqual(spec.operations)
+  })
+
+  it('names the failing plugin and hook', async () => {
+    const plugin = definePlugin({
+      name: 'broken',
+      transformSpec: () => {
+        throw new Error('boom')
+      },
+    })
+    await expect(applySpecPlugins(createMockSpec(), [plugin], context)).rejects.toThrow(
+      new PluginError('Plugin "broken" failed in transformSpec: boom'),
+    )
+  })
+})
+
+describe('applyEmitPlugins', () => {
+  it('adds generated files before running beforeEmit', async () => {
+    const files = await applyEmitPlugins(
+      [{ path: 'types.ts', content: '' }],
+      createMockSpec([createGetOperation()]),
+      [
+        {
+          name: 'feature-flags',
+          generateFiles: (spec) => [{ path: 'flags.ts', content: `// ${spec.operations.length} operations` }],
+        },
+        {
+          name: 'banner',
+          beforeEmit: (all) => all.map((f) => ({ ...f, content: `/* banner */\n${f.content}` })),
+        },
+      ],
+      context,
+    )
+    expect(files).toEqual([
+      { path: 'types.ts', content: '/* banner */\n' },
+      { path: 'flags.ts', content: '/* banner */\n// 1 operations' },
+    ])
+  })
+})
+
+describe('runAfterWrite', () => {
+  it('passes the written files to every plugin', async () => {
+    const afterWrite = vi.fn()
+    const files = [{ path: 'types.ts', content: '' }]
+    await runAfterWrite(files, [{ name: 'a', afterWrite }, { name: 'b' }], context)
+    expect(afterWrite).toHaveBeenCalledWith(files, context)
+  })
+})
+
+describe('collectPluginGenerators', () => {
+  const customGenerator: HookGenerator = {
+    generate: (spec) => [{ path: 'custom.ts', content: `// ${spec.title}` }],
+  }
+
+  it('makes custom generators available to createGenerator', () => {
+    const generators = collectPluginGenerators([{ name: 'a', generators: { custom: () => customGenerator } }])
+    expect(createGenerator('custom', generators)).toBe(customGenerator)
+  })
+
+  it('does not keep generators beyond the plugins they were collected from', () => {
+    collectPluginGenerators([{ name: 'a', generators: { custom: () => customGenerator } }])
+    expect(() => createGenerator('custom')).toThrow(GeneratorError)
+    expect(() => createGenerator('custom', collectPluginGenerators([]))).toThrow(GeneratorError)
+  })
+
+  it('refuses to replace built-in strategies', () => {
+    expect(() => collectPluginGenerators([{ name: 'a', generators: { swr: () => customGenerator } }])).toThrow(GeneratorError)
+  })
+})
+
+describe('generate() with plugins', () => {
+  const specPath = path.resolve(__dirname, '../fixtures/petstore-openapi3.yaml')
+  let tmpDir: string
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'auto-api-hooks-plugin-test-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  it('uses a generator registered by a plugin', async () => {
+    const files = await generate({
+      spec: specPath,
+      fetcher: 'telemetry-query',
+      plugins: [
+        {
+          name: 'telemetry',
+          generators: {
+            'telemetry-query': () => ({ generate: (spec) => [{ path: 'telemetry.ts', content: spec.title }] }),
+          },
+        },
+      ],
+    })
+    expect(files.map((f) => f.path)).toEqual(['telemetry.ts'])
+  })
+
+  it('does not leak plugin generators into later runs', async () => {
+    const plugin = definePlugin({
+      name: 'telemetry',
+      generators: { 'telemetry-query': () => ({ generate: () => [] }) },
+    })
+    await generate({ spec: specPath, fetcher: 'telemetry-query', plugins: [plugin] })
+    await expect(generate({ spec: specPath, fetcher: 'telemetry-query' })).rejects.toThrow(GeneratorError)
+  })
+
+  it('runs afterWrite once files are written', async () => {
+    let written: string[] = []
+    await generate({
+      spec: specPath,
+      fetcher: 'fetch',
+      outputDir: tmpDir,
+      plugins: [
+        {
+          name: 'check',
+          afterWrite: (files, ctx) => {
+            written = files.filter((f) => fs.existsSync(path.join(ctx.outputDir!, f.path))).map((f) => f.path)
+          },
+        },
+      ],
+    })
+    expect(written).toContain('client.ts')
+  })
+})
@@ -0,0 +1,131 @@
+import { generateHooks, getDefaultTemplates } from '../../src/generators/index'
+import { defineTemplates, renderTemplate } from '../../src/templates/index'
+import type { OperationView } from '../../src/templates/index'
+import type { GeneratorOptions } from '../../src/generators/types'
+import { TemplateError } from '../../src/utils/errors'
+import {
+  createMockSpec,
+  createGetOperation,
+  createPostOperation,
+  createPaginatedOperation,
+} from '../helpers'
+
+const baseOptions: GeneratorOptions = {
+  fetcher: 'react-query',
+  zod: false,
+  mock: false,
+  outputDir: './out',
+  infiniteQueries: true,
+}
+
+function findFile(files: { path: string; content: string }[], path: string): string {
+  const file = files.find((f) => f.path === path)
+  if (!file) throw new Error(`Missing ${path}`)
+  return file.content
+}
+
+describe('templates', () => {
+  it('leaves the built-in output unchanged without templates', () => {
+    const spec = createMockSpec([createGetOperation(), createPostOperation()])
+    const withEmpty = generateHooks(spec, { ...baseOptions, templates: {} })
+    expect(withEmpty).toEqual(generateHooks(spec, baseOptions))
+  })
+
+  it('renders the built-in output with the default templates', () => {
+    const spec = createMockSpec([createGetOperation(), createPostOperation(), createPaginatedOperation()])
+    const defaults = getDefaultTemplates('react-query')
+    const files = generateHooks(spec, { ...baseOptions, templates: defaults })
+    expect(files).toEqual(generateHooks(spec, baseOptions))
+  })
+
+  it('routes each hook kind to its template', () => {
+    const spec = createMockSpec([createGetOperation(), createPostOperation(), createPaginatedOperation()])
+    const seen: string[] = []
+    const record = (kind: string) => (view: OperationView) => {
+      seen.push(`${kind}:${view.hookName}`)
+      return ''
+    }
+    generateHooks(spec, {
+      ...baseOptions,
+      templates: {
+        queryHook: record('query'),
+        mutationHook: record('mutation'),
+        infiniteHook: record('infinite'),
+      },
+    })
+    expect(seen).toEqual([
+      'query:useListPets',
+      'mutation:useCreatePet',
+      'query:useListPetsPaginated',
+      'infinite:useListPetsPaginatedInfinite',
+    ])
+  })
+
+  it('passes a view-model derived from the operation', () => {
+    const spec = createMockSpec([createPostOperation()])
+    let view: OperationView | undefined
+    generateHooks(spec, {
+      ...baseOptions,
+      zod: true,
+      templates: {
+        mutationHook: (v) => {
+          view = v
+          return ''
+        },
+      },
+    })
+    expect(view).toMatchObject({
+      operationId: 'createPet',
+      hookName: 'useCreatePet',
+      filePath: 'pets/create-pet.ts',
+      tag: 'pets',
+      method: 'POST',
+      path: '/pets',
+      fetcher: 'react-query',
+      paramsType: null,
+      bodyType: 'CreatePetBody',
+      responseType: 'CreatePetResponse',
+      errorType: 'Error',
+      responseSchema: 'createPetResponseSchema',
+      authenticated: false,
+      sdkFunction: 'createPet',
+      sdkImport: '../sdk',
+      clientImport: '../client',
+      typesImport: '../types',
+    })
+    expect(view!.operation.operationId).toBe('createPet')
+    expect(view!.spec).toBe(spec)
+    expect(view!.options.zod).toBe(true)
+  })
+
+  it('writes the template output in place of the built-in file', () => {
+    const spec = createMockSpec([createGetOperation()])
+    const defaults = getDefaultTemplates('react-query')
+    const templates = defineTemplates({
+      queryHook: (view) =>
+        defaults.queryHook({ ...view, hookName: `${view.hookName}Base` }) +
+        `\nexport function ${view.hookName}(...args: Parameters<typeof ${view.hookName}Base>) {\n` +
+        `  return withErrorToast(${view.hookName}Base(...args))\n}\n`,
+      client: (view) => `// ${view.title} (${view.fetcher})\n${defaults.client(view)}`,
+      barrel: (view) => view.groups.map((g) => `export * from './${g}'`).join('\n'),
+    })
+    const files = generateHooks(spec, { ...baseOptions, templates })
+
+    const hook = findFile(files, 'pets/list-pets.ts')
+    expect(hook).toContain('export function useListPetsBase(')
+    expect(hook).toContain('return withErrorToast(useListPetsBase(...args))')
+    expect(findFile(files, 'client.ts')).toMatch(/^\/\/ Test API \(react-query\)\n/)
+    expect(findFile(files, 'index.ts')).toBe(`export * from './pets'`)
+  })
+
+  it('wraps template failures in a TemplateError', () => {
+    expect(() =>
+      renderTemplate('queryHook', () => {
+        throw new Error('boom')
+      }, {}),
+    ).toThrow(new TemplateError('Template "queryHook" failed: boom'))
+    expect(() =>
+      renderTemplate('barrel', (() => undefined) as unknown as () => string, {}),
+    ).toThrow(new TemplateError('Template "barrel" must return a string, got undefined.'))
+  })
+})
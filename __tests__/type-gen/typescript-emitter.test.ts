@@ -4,6 +4,7 @@ import {
   emitParamsInterface,
   emitRequestBodyType,
   emitResponseType,
+  emitErrorType,
 } from '../../src/type-gen/index'
 import type { ApiType, ApiOperation } from '../../src/ir/types'
 import {
@@ -45,6 +46,11 @@ describe('emitTypeString', () => {
       const type: ApiType = { kind: 'primitive', type: 'unknown' }
       expect(emitTypeString(type)).toBe('unknown')
     })
+
+    it('emits Blob | File for binary strings', () => {
+      const type: ApiType = { kind: 'primitive', type: 'string', format: 'binary' }
+      expect(emitTypeString(type)).toBe('Blob | File')
+    })
   })
 
   describe('object types', () => {
@@ -221,6 +227,41 @@ describe('emitTypeString', () => {
       }
       expect(emitTypeString(type)).toBe('never')
     })
+
+    it('narrows the tag property of inline variants to a literal', () => {
+      const type: ApiType = {
+        kind: 'union',
+        variants: [
+          {
+            kind: 'object',
+            properties: [
+              { name: 'type', type: { kind: 'primitive', type: 'string' }, required: false },
+              { name: 'last4', type: { kind: 'primitive', type: 'string' }, required: true },
+            ],
+          },
+          {
+            kind: 'object',
+            properties: [{ name: 'iban', type: { kind: 'primitive', type: 'string' }, required: true }],
+          },
+        ],
+        discriminator: { propertyName: 'type', values: ['card', 'bank'] },
+      }
+      const result = emitTypeString(type)
+      expect(result).toContain("type: 'card'\n  last4: string")
+      expect(result).toContain("type: 'bank'\n  iban: string")
+    })
+
+    it('intersects named variants with their tag', () => {
+      const type: ApiType = {
+        kind: 'union',
+        variants: [
+          { kind: 'ref', name: 'Card' },
+          { kind: 'ref', name: 'Bank' },
+        ],
+        discriminator: { propertyName: 'type', values: ['card', 'bank'] },
+      }
+      expect(emitTypeString(type)).toBe("Card & { type: 'card' } | Bank & { type: 'bank' }")
+    })
   })
 
   describe('ref types', () => {
@@ -302,6 +343,53 @@ describe('emitResponseType', () => {
     const result = emitResponseType(op)
     expect(result).toContain('export type CreatePetResponse')
   })
+
+  it('types binary, text and empty responses by how they are decoded', () => {
+    const response = (statusCode: number, contentType: string) => ({
+      statusCode,
+      contentType,
+      type: { kind: 'primitive' as const, type: 'string' as const, format: 'binary' },
+    })
+    expect(emitResponseType(createGetOperation({ response: response(200, 'application/pdf') })))
+      .toContain('export type ListPetsResponse = Blob')
+    expect(emitResponseType(createGetOperation({ response: response(200, 'text/csv') })))
+      .toContain('export type ListPetsResponse = string')
+    expect(emitResponseType(createGetOperation({ response: response(204, 'application/json') })))
+      .toContain('export type ListPetsResponse = void')
+  })
+})
+
+describe('emitErrorType', () => {
+  it('returns null when the operation declares no errors', () => {
+    expect(emitErrorType(createDetailOperation())).toBeNull()
+  })
+
+  it('emits an ApiError union keyed by status code', () => {
+    const op = createDetailOperation({
+      errors: [
+        {
+          statusCode: 404,
+          contentType: 'application/json',
+          type: {
+            kind: 'object',
+            properties: [{ name: 'message', type: { kind: 'primitive', type: 'string' }, required: true }],
+          },
+        },
+        { statusCode: 'default', contentType: 'application/json', type: { kind: 'ref', name: 'Error' } },
+      ],
+    })
+    const result = emitErrorType(op)!
+    expect(result).toContain('export type GetPetError =')
+    expect(result).toContain('| ApiError<404, {')
+    expect(result).toContain('| ApiError<number, Error>')
+  })
+
+  it('types 4XX and 5XX range responses with any status', () => {
+    const op = createDetailOperation({
+      errors: [{ statusCode: '5XX', contentType: 'application/json', type: { kind: 'ref', name: 'Problem' } }],
+    })
+    expect(emitErrorType(op)).toContain('| ApiError<number, Problem>')
+  })
 })
 
 describe('emitTypeScriptTypes', () => {
@@ -338,4 +426,17 @@ describe('emitTypeScriptTypes', () => {
     expect(result).toContain('/* eslint-disable */')
     expect(result).toContain('/* tslint:disable */')
   })
+
+  it('imports ApiError from the client only when an operation declares errors', () => {
+    expect(emitTypeScriptTypes(createMockSpec())).not.toContain('ApiError')
+
+    const spec = createMockSpec([
+      createDetailOperation({
+        errors: [{ statusCode: 404, contentType: 'application/json', type: { kind: 'primitive', type: 'unknown' } }],
+      }),
+    ])
+    const result = emitTypeScriptTypes(spec)
+    expect(result).toContain("import type { ApiError } from './client'")
+    expect(result).toContain('export type GetPetError =')
+  })
 })
@@ -67,9 +67,14 @@ describe('emitZodType', () => {
     })
 
     it('emits plain z.string() for unknown format', () => {
-      const type: ApiType = { kind: 'primitive', type: 'string', format: 'binary' }
+      const type: ApiType = { kind: 'primitive', type: 'string', format: 'byte' }
       expect(emitZodType(type)).toBe('z.string()')
     })
+
+    it('emits z.instanceof(Blob) for binary format', () => {
+      const type: ApiType = { kind: 'primitive', type: 'string', format: 'binary' }
+      expect(emitZodType(type)).toBe('z.instanceof(Blob)')
+    })
   })
 
   describe('object types', () => {
@@ -196,6 +201,38 @@ describe('emitZodType', () => {
       const type: ApiType = { kind: 'union', variants: [] }
       expect(emitZodType(type)).toBe('z.never()')
     })
+
+    it('emits z.discriminatedUnion for tagged inline objects', () => {
+      const type: ApiType = {
+        kind: 'union',
+        variants: [
+          {
+            kind: 'object',
+            properties: [{ name: 'last4', type: { kind: 'primitive', type: 'string' }, required: true }],
+          },
+          {
+            kind: 'object',
+            properties: [{ name: 'iban', type: { kind: 'primitive', type: 'string' }, required: true }],
+          },
+        ],
+        discriminator: { propertyName: 'type', values: ['card', 'bank'] },
+      }
+      const result = emitZodType(type)
+      expect(result).toMatch(/^z\.discriminatedUnion\('type', \[/)
+      expect(result).toContain("type: z.enum(['card'])")
+      expect(result).toContain("type: z.enum(['bank'])")
+    })
+
+    it('falls back to z.union with tagged variants when a ref target is unknown', () => {
+      const type: ApiType = {
+        kind: 'union',
+        variants: [{ kind: 'ref', name: 'Card' }],
+        discriminator: { propertyName: 'type', values: ['card'] },
+      }
+      expect(emitZodType(type)).toBe(
+        "z.union([cardSchema.and(z.object({ type: z.literal('card') }))])",
+      )
+    })
   })
 
   describe('ref types', () => {
@@ -336,5 +373,62 @@ describe('emitZodSchemas', () => {
       expect(result).toContain('addressSchema.optional()')
       expect(result).not.toContain('z.lazy')
     })
+
+    it('extends named object schemas in a discriminated union', () => {
+      const spec = createMockSpec()
+      const card = {
+        kind: 'object' as const,
+        properties: [{ name: 'last4', type: { kind: 'primitive' as const, type: 'string' as const }, required: true }],
+      }
+      spec.types = new Map<string, ApiType>([
+        [
+          'PaymentMethod',
+          {
+            kind: 'union',
+            variants: [{ kind: 'ref', name: 'Card' }],
+            discriminator: { propertyName: 'type', values: ['card'] },
+          },
+        ],
+        ['Card', card],
+      ])
+
+      const result = emitZodSchemas(spec)
+      expect(result).toContain(
+        "paymentMethodSchema = z.discriminatedUnion('type', [cardSchema.extend({ type: z.literal('card') })])",
+      )
+      expect(result.indexOf('export const cardSchema')).toBeLessThan(
+        result.indexOf('export const paymentMethodSchema'),
+      )
+    })
+
+    it('declares referenced schemas before the schemas that use them', () => {
+      // User is listed first but depends on Address
+      const spec = createMockSpec()
+      spec.types = new Map([
+        [
+          'User',
+          {
+            kind: 'object' as const,
+            properties: [
+              { name: 'address', type: { kind: 'ref' as const, name: 'Address' }, required: true },
+            ],
+          },
+        ],
+        [
+          'Address',
+          {
+            kind: 'object' as const,
+            properties: [
+              { name: 'street', type: { kind: 'primitive' as const, type: 'string' as const }, required: true },
+            ],
+          },
+        ],
+      ])
+
+      const result = emitZodSchemas(spec)
+      expect(result.indexOf('export const addressSchema')).toBeLessThan(
+        result.indexOf('export const userSchema'),
+      )
+    })
   })
 })
@@ -0,0 +1,54 @@
+/**
+ * Type-checks generated files against the framework packages installed as
+ * dev dependencies, for tests that compile generated output.
+ */
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { dirname, join, resolve } from 'node:path'
+import ts from 'typescript'
+import type { GeneratedFile } from '../src/utils/file-writer'
+
+// Inside node_modules, so the generated imports resolve to the installed packages
+const CACHE_DIR = resolve(__dirname, '../node_modules/.cache/auto-api-hooks-typecheck')
+
+/**
+ * Writes `files` to a temporary directory and type-checks them in strict mode.
+ *
+ * @returns The diagnostics, formatted as `path(line,col): message`.
+ */
+export function typeCheckFiles(files: GeneratedFile[]): string[] {
+  mkdirSync(CACHE_DIR, { recursive: true })
+  const dir = mkdtempSync(join(CACHE_DIR, 'project-'))
+
+  try {
+    const paths = files.map((file) => {
+      const path = join(dir, file.path)
+      mkdirSync(dirname(path), { recursive: true })
+      writeFileSync(path, file.content)
+      return path
+    })
+
+    const program = ts.createProgram(
+      paths.filter((path) => path.endsWith('.ts')),
+      {
+        target: ts.ScriptTarget.ES2022,
+        module: ts.ModuleKind.ESNext,
+        moduleResolution: ts.ModuleResolutionKind.Bundler,
+        lib: ['lib.es2022.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts', 'lib.dom.asynciterable.d.ts'],
+        strict: true,
+        noEmit: true,
+        skipLibCheck: true,
+        isolatedModules: true,
+        types: [],
+      },
+    )
+
+    return ts.getPreEmitDiagnostics(program).map((diagnostic) => {
+      const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')
+      if (!diagnostic.file || diagnostic.start === undefined) return message
+      const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+      return `${diagnostic.file.fileName.slice(dir.length + 1)}(${line + 1},${character + 1}): ${message}`
+    })
+  } finally {
+    rmSync(dir, { recursive: true, force: true })
+  }
+}
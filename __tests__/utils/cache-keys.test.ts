@@ -3,6 +3,11 @@ import {
   getQueryKey,
   getSwrKey,
   getCacheKeyForOperation,
+  getInvalidatedPaths,
+  getInvalidatedQueryKeys,
+  getInvalidatedSwrPaths,
+  deriveTagTypes,
+  getTagsForOperation,
 } from '../../src/utils/cache-keys'
 import type { ApiOperation } from '../../src/ir/types'
 
@@ -223,6 +228,43 @@ describe('getQueryKey', () => {
     const key = getQueryKey(op)
     expect(key).toBe("['posts', 'detail', userId, postId] as const")
   })
+
+  it('reads path params from the params expression', () => {
+    const op = createMockOperation({
+      operationId: 'getPetById',
+      method: 'GET',
+      path: '/pets/{petId}',
+      pathParams: [
+        {
+          name: 'petId',
+          required: true,
+          type: { kind: 'primitive', type: 'string' },
+          in: 'path',
+        },
+      ],
+    })
+
+    expect(getQueryKey(op, 'params')).toBe("['pets', 'detail', params.petId] as const")
+    expect(getQueryKey(op, 'vars.params')).toBe("['pets', 'detail', vars.params.petId] as const")
+  })
+
+  it('holds the params expression in list keys', () => {
+    const op = createMockOperation({
+      operationId: 'listPets',
+      method: 'GET',
+      path: '/pets',
+      queryParams: [
+        {
+          name: 'status',
+          required: false,
+          type: { kind: 'primitive', type: 'string' },
+          in: 'query',
+        },
+      ],
+    })
+
+    expect(getQueryKey(op, 'toValue(params)')).toBe("['pets', 'list', toValue(params)] as const")
+  })
 })
 
 describe('getSwrKey', () => {
@@ -303,6 +345,34 @@ describe('getSwrKey', () => {
     expect(key).toContain('${userId}')
     expect(key).toContain('URLSearchParams')
   })
+
+  it('reads path params and the query string from the params expression', () => {
+    const op = createMockOperation({
+      operationId: 'listUserPosts',
+      method: 'GET',
+      path: '/users/{userId}/posts',
+      pathParams: [
+        {
+          name: 'userId',
+          required: true,
+          type: { kind: 'primitive', type: 'string' },
+          in: 'path',
+        },
+      ],
+      queryParams: [
+        {
+          name: 'page',
+          required: false,
+          type: { kind: 'primitive', type: 'integer' },
+          in: 'query',
+        },
+      ],
+    })
+
+    expect(getSwrKey(op, 'arg.params')).toBe(
+      '`/users/${arg.params.userId}/posts?${new URLSearchParams(arg.params as Record<string, string>).toString()}`',
+    )
+  })
 })
 
 describe('getCacheKeyForOperation', () => {
@@ -366,4 +436,177 @@ describe('getCacheKeyForOperation', () => {
     const key = getCacheKeyForOperation(op)
     expect(key).toBe('petsKeys.details()')
   })
+  it('reads path params from a params expression', () => {
+    const op = createMockOperation({
+      operationId: 'getPetById',
+      method: 'GET',
+      path: '/pets/{petId}',
+      pathParams: [
+        {
+          name: 'petId',
+          required: true,
+          type: { kind: 'primitive', type: 'string' },
+          in: 'path',
+        },
+      ],
+    })
+
+    expect(getCacheKeyForOperation(op, 'toValue(params)')).toBe('petsKeys.detail(toValue(params).petId)')
+  })
+
+  it('keys nested lists on their params', () => {
+    const op = createMockOperation({
+      operationId: 'listUserPosts',
+      method: 'GET',
+      path: '/users/{userId}/posts',
+      pathParams: [
+        {
+          name: 'userId',
+          required: true,
+          type: { kind: 'primitive', type: 'string' },
+          in: 'path',
+        },
+      ],
+    })
+
+    expect(getCacheKeyForOperation(op, 'params')).toBe('postsKeys.list(params)')
+    expect(getCacheKeyForOperation(op)).toBe('postsKeys.lists()')
+  })
+})
+
+describe('deriveTagTypes', () => {
+  it('returns one singular tag type per resource', () => {
+    const ops = [
+      createMockOperation({ path: '/pets' }),
+      createMockOperation({ path: '/pets/{petId}', method: 'DELETE' }),
+      createMockOperation({ path: '/api/v1/categories' }),
+    ]
+
+    expect(deriveTagTypes(ops)).toEqual(['Pet', 'Category'])
+  })
+})
+
+describe('getTagsForOperation', () => {
+  const petId = {
+    name: 'petId',
+    required: true,
+    type: { kind: 'primitive' as const, type: 'string' as const },
+    in: 'path' as const,
+  }
+
+  it('tags the list for collection endpoints', () => {
+    const op = createMockOperation({ path: '/pets', method: 'POST' })
+
+    expect(getTagsForOperation(op, 'vars', 'vars.params')).toBe("[{ type: 'Pet', id: 'LIST' }]")
+  })
+
+  it('tags the entity for detail queries', () => {
+    const op = createMockOperation({ path: '/pets/{petId}', pathParams: [petId] })
+
+    expect(getTagsForOperation(op, 'params', 'params')).toBe(
+      "(_result, _error, params) => [{ type: 'Pet', id: params.petId }]",
+    )
+  })
+
+  it('also tags the list for detail mutations', () => {
+    const op = createMockOperation({ path: '/pets/{petId}', method: 'PATCH', pathParams: [petId] })
+
+    expect(getTagsForOperation(op, 'vars', 'vars.params')).toBe(
+      "(_result, _error, vars) => [{ type: 'Pet', id: vars.params.petId }, { type: 'Pet', id: 'LIST' }]",
+    )
+  })
+})
+
+describe('getInvalidatedPaths', () => {
+  const petId = {
+    name: 'petId',
+    required: true,
+    type: { kind: 'primitive' as const, type: 'string' as const },
+    in: 'path' as const,
+  }
+
+  it('invalidates the list after a create', () => {
+    const op = createMockOperation({ path: '/pets', method: 'POST' })
+
+    expect(getInvalidatedPaths(op)).toEqual(['/pets'])
+  })
+
+  it('invalidates the entity and the list after a detail mutation', () => {
+    const op = createMockOperation({ path: '/pets/{petId}', method: 'PUT', pathParams: [petId] })
+
+    expect(getInvalidatedPaths(op)).toEqual(['/pets/{petId}', '/pets'])
+  })
+
+  it('prefers x-invalidates', () => {
+    const op = createMockOperation({ path: '/pets', method: 'POST', invalidates: [] })
+
+    expect(getInvalidatedPaths(op)).toEqual([])
+  })
+
+  it('invalidates nothing for reads', () => {
+    expect(getInvalidatedPaths(createMockOperation({ path: '/pets' }))).toEqual([])
+  })
+})
+
+describe('getInvalidatedQueryKeys', () => {
+  const param = (name: string) => ({
+    name,
+    required: true,
+    type: { kind: 'primitive' as const, type: 'string' as const },
+    in: 'path' as const,
+  })
+  const factories = deriveCacheKeyFactories([
+    createMockOperation({ path: '/pets' }),
+    createMockOperation({ path: '/pets/{petId}', pathParams: [param('petId')] }),
+    createMockOperation({ path: '/users/{userId}/posts/{postId}', pathParams: [param('userId'), param('postId')] }),
+  ])
+
+  it('keys the entity by the mutation params', () => {
+    const op = createMockOperation({ path: '/pets/{petId}', method: 'DELETE', pathParams: [param('petId')] })
+
+    expect(getInvalidatedQueryKeys(op, factories, 'vars.params')).toEqual([
+      'petsKeys.detail(vars.params.petId)',
+      'petsKeys.lists()',
+    ])
+  })
+
+  it('invalidates every detail of entities under several path params', () => {
+    const op = createMockOperation({
+      path: '/users/{userId}/posts/{postId}',
+      method: 'DELETE',
+      pathParams: [param('userId'), param('postId')],
+    })
+
+    expect(getInvalidatedQueryKeys(op, factories, 'vars.params')).toEqual(['postsKeys.details()'])
+  })
+
+  it('skips paths without a key factory', () => {
+    const op = createMockOperation({ path: '/orders', method: 'POST' })
+
+    expect(getInvalidatedQueryKeys(op, factories, 'vars.params')).toEqual([])
+  })
+})
+
+describe('getInvalidatedSwrPaths', () => {
+  const petId = {
+    name: 'petId',
+    required: true,
+    type: { kind: 'primitive' as const, type: 'string' as const },
+    in: 'path' as const,
+  }
+
+  it('fills in the mutation path params', () => {
+    const op = createMockOperation({ path: '/pets/{petId}', method: 'PATCH', pathParams: [petId] })
+
+    expect(getInvalidatedSwrPaths(op, 'arg.params')).toEqual([
+      'pathname === `/pets/${arg.params.petId}`',
+      "pathname === '/pets'",
+    ])
+  })
+
+  it('matches other path params by pattern', () => {
+    const op = createMockOperation({ path: '/pets', method: 'POST', invalidates: ['/owners/{ownerId}/pets'] })
+
+    expect(getInvalidatedSwrPaths(op, 'arg.params')).toEqual(['/^\\/owners\\/[^/]+\\/pets$/.test(pathname)'])
+  })
 })
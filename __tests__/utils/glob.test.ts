@@ -0,0 +1,48 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { expandGlobs } from '../../src/utils/glob'
+
+describe('expandGlobs', () => {
+  let tmpDir: string
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'auto-api-hooks-glob-test-'))
+    for (const file of ['a.graphql', 'src/b.graphql', 'src/c.ts', 'src/query1.gql', 'node_modules/pkg/d.graphql']) {
+      fs.mkdirSync(path.dirname(path.join(tmpDir, file)), { recursive: true })
+      fs.writeFileSync(path.join(tmpDir, file), '')
+    }
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  it('returns sorted absolute matches, skipping node_modules', async () => {
+    expect(await expandGlobs(['**/*.graphql'], tmpDir)).toEqual([
+      path.join(tmpDir, 'a.graphql'),
+      path.join(tmpDir, 'src/b.graphql'),
+    ])
+  })
+
+  it('keeps plain paths and removes duplicates', async () => {
+    expect(await expandGlobs(['src/b.graphql', 'src/*.graphql', 'missing.graphql'], tmpDir)).toEqual([
+      path.join(tmpDir, 'missing.graphql'),
+      path.join(tmpDir, 'src/b.graphql'),
+    ])
+  })
+
+  it('matches ? and {a,b} alternatives', async () => {
+    expect(await expandGlobs(['src/?.{graphql,ts}', 'src/query?.gql'], tmpDir)).toEqual([
+      path.join(tmpDir, 'src/b.graphql'),
+      path.join(tmpDir, 'src/c.ts'),
+      path.join(tmpDir, 'src/query1.gql'),
+    ])
+  })
+
+  it('matches absolute patterns outside the working directory', async () => {
+    expect(await expandGlobs([path.join(tmpDir, 'src/*.graphql')], os.homedir())).toEqual([
+      path.join(tmpDir, 'src/b.graphql'),
+    ])
+  })
+})
@@ -3,15 +3,25 @@
  *
  * Usage:
  *   npx auto-api-hooks generate --spec openapi.yaml --fetcher react-query --output ./src/hooks
+ *   npx auto-api-hooks generate                    # uses auto-api-hooks.config.{ts,js,json}
  */
 import { Command } from 'commander'
 import pc from 'picocolors'
 import { logger, setVerbose, setSilent } from './utils/logger'
 import { parseSpec } from './parsers/index'
+import type { ScalarMapping, ScalarType } from './parsers/index'
+import { SCALAR_TYPES } from './parsers/graphql-parser'
 import { generateHooks } from './generators/index'
 import { generateMockFiles } from './mock-gen/index'
 import { writeFiles } from './utils/file-writer'
-import type { FetcherStrategy } from './generators/types'
+import { expandGlobs } from './utils/glob'
+import { loadConfig, CONFIG_FILE_NAMES } from './config/index'
+import type { ResolvedProject } from './config/index'
+import { applyEmitPlugins, applySpecPlugins, collectPluginGenerators, runAfterWrite } from './plugins/index'
+import type { Plugin, PluginContext } from './plugins/index'
+import { FETCHER_STRATEGIES } from './generators/types'
+import type { FetcherName, FetcherStrategy, GeneratorOptions } from './generators/types'
+import type { Templates } from './templates/index'
 
 const program = new Command()
 
@@ -23,8 +33,10 @@ program
 program
   .command('generate')
   .description('Generate React hooks from an API specification')
-  .requiredOption('--spec <path>', 'Path to API spec file (OpenAPI, Swagger, or GraphQL)')
-  .option('--fetcher <strategy>', 'Fetching strategy: fetch | axios | react-query | swr', 'fetch')
+  .option('--spec <path>', 'Path to API spec file (OpenAPI, Swagger, or GraphQL)')
+  .option('--config <path>', 'Path to a config file (default: auto-api-hooks.config.{ts,js,json})')
+  .option('--project <name>', 'Only generate the config project with this name')
+  .option('--fetcher <strategy>', `Fetching strategy: ${FETCHER_STRATEGIES.join(' | ')}`, 'fetch')
   .option('--output <dir>', 'Output directory', './src/hooks')
   .option('--base-url <url>', 'Override base URL from spec')
   .option('--zod', 'Generate Zod validation schemas', false)
@@ -37,9 +49,15 @@ program
   .option('--dry-run', 'Preview files that would be generated without writing to disk', false)
   .option('--clean', 'Remove stale files from output directory that are no longer generated', false)
   .option('--prettier', 'Format generated files with Prettier (uses your project config)', false)
-  .action(async (opts) => {
+  .option('--preserve-refs', 'Keep $ref schemas as named types instead of inlining them', false)
+  .option('--selection-depth <n>', 'Levels of nested fields selected in GraphQL documents (default: 3)')
+  .option('--documents <globs...>', 'Generate hooks from GraphQL operation documents matching these globs')
+  .option('--scalars <mappings...>', 'Types of custom GraphQL scalars, e.g. DateTime=string:date-time JSON=unknown')
+  .action(async (opts, cmd: Command) => {
     const {
       spec: specPath,
+      config: configPath,
+      project,
       fetcher,
       output,
       baseUrl,
@@ -53,36 +71,48 @@ program
       dryRun,
       clean,
       prettier,
+      preserveRefs,
+      selectionDepth,
+      documents,
+      scalars,
     } = opts
 
     if (silent) setSilent(true)
     if (verbose && !silent) setVerbose(true)
 
     // Validate fetcher strategy
-    const validStrategies: FetcherStrategy[] = ['fetch', 'axios', 'react-query', 'swr']
-    if (!validStrategies.includes(fetcher)) {
+    if (!(FETCHER_STRATEGIES as readonly string[]).includes(fetcher)) {
       logger.error(`Invalid fetcher strategy: ${pc.bold(fetcher)}`)
-      logger.info(`Valid options: ${validStrategies.join(', ')}`)
+      logger.info(`Valid options: ${FETCHER_STRATEGIES.join(', ')}`)
       process.exit(1)
     }
 
+    const depth = selectionDepth === undefined ? undefined : Number(selectionDepth)
+    if (depth !== undefined && !(Number.isInteger(depth) && depth > 0)) {
+      logger.error(`Invalid selection depth: ${pc.bold(selectionDepth)}`)
+      logger.info('Expected a positive integer.')
+      process.exit(1)
+    }
+
+    let scalarMappings: Record<string, ScalarMapping> | undefined
+    if (scalars) {
+      scalarMappings = {}
+      for (const value of scalars as string[]) {
+        const mapping = parseScalarFlag(value)
+        if (!mapping) {
+          logger.error(`Invalid scalar mapping: ${pc.bold(value)}`)
+          logger.info(`Expected Name=type or Name=type:format, where type is one of: ${SCALAR_TYPES.join(', ')}.`)
+          process.exit(1)
+        }
+        scalarMappings[mapping[0]] = mapping[1]
+      }
+    }
+
     try {
-      await runGenerate({
-        specPath,
-        fetcher: fetcher as FetcherStrategy,
-        outputDir: output,
-        baseUrl,
-        zod: !!zod,
-        mock: !!mock,
-        infiniteQueries: infinite !== false,
-        tags,
-        dryRun: !!dryRun,
-        clean: !!clean,
-        prettier: !!prettier,
-      })
+      let configs: GenerateConfig[]
 
-      if (watch) {
-        await startWatchMode(specPath, {
+      if (specPath) {
+        configs = [{
           specPath,
           fetcher: fetcher as FetcherStrategy,
           outputDir: output,
@@ -94,7 +124,53 @@ program
           dryRun: !!dryRun,
           clean: !!clean,
           prettier: !!prettier,
-        })
+          preserveRefs: !!preserveRefs,
+          selectionDepth: depth,
+          documents,
+          scalars: scalarMappings,
+          plugins: [],
+        }]
+      } else {
+        const loaded = await loadConfig({ config: configPath, project })
+        if (!loaded) {
+          logger.error(`Missing ${pc.bold('--spec')}, and no config file found.`)
+          logger.info(`Pass --spec, or add one of: ${CONFIG_FILE_NAMES.join(', ')}`)
+          process.exit(1)
+        }
+        logger.verbose(`Using config ${loaded.configPath}`)
+        // Per-project flags have no single project to apply to
+        const projectFlags = Object.entries(PROJECT_FLAGS)
+          .filter(([name]) => cmd.getOptionValueSource(name) === 'cli')
+          .map(([, flag]) => flag)
+        if (projectFlags.length > 0) {
+          logger.error(`${projectFlags.map((f) => pc.bold(f)).join(', ')} cannot be used with a config file.`)
+          logger.info(`Set them on the project in ${loaded.configPath}, or pass --spec instead.`)
+          process.exit(1)
+        }
+        // Run-wide flags apply on top of every project's own options
+        const { dirname, resolve } = await import('node:path')
+        const flags = {
+          zod: !!zod,
+          mock: !!mock,
+          infiniteQueries: infinite !== false,
+          preserveRefs: !!preserveRefs,
+          dryRun: !!dryRun,
+          clean: !!clean,
+          prettier: !!prettier,
+          selectionDepth: depth,
+          // Resolved like the config's own `documents`
+          documents: documents?.map((pattern: string) => resolve(dirname(loaded.configPath), pattern)),
+          scalars: scalarMappings,
+        }
+        configs = loaded.projects.map((p) => toGenerateConfig(p, flags))
+      }
+
+      for (const config of configs) {
+        await runGenerate(config)
+      }
+
+      if (watch) {
+        await startWatchMode(configs)
       }
     } catch (err) {
       logger.error(err instanceof Error ? err.message : String(err))
@@ -102,9 +178,19 @@ program
     }
   })
 
+/** Options of a single project, rejected when generating from a config file. */
+const PROJECT_FLAGS: Record<string, string> = {
+  fetcher: '--fetcher',
+  output: '--output',
+  baseUrl: '--base-url',
+  tag: '--tag',
+}
+
 interface GenerateConfig {
+  /** Config project name, when generating from a config file. */
+  name?: string
   specPath: string
-  fetcher: FetcherStrategy
+  fetcher: FetcherName
   outputDir: string
   baseUrl?: string
   zod: boolean
@@ -114,35 +200,93 @@ interface GenerateConfig {
   dryRun: boolean
   clean: boolean
   prettier: boolean
+  preserveRefs: boolean
+  selectionDepth?: number
+  documents?: string[]
+  scalars?: Record<string, ScalarMapping>
+  plugins: Plugin[]
+  templates?: Templates
+}
+
+function toGenerateConfig(
+  project: ResolvedProject,
+  flags: Pick<
+    GenerateConfig,
+    'zod' | 'mock' | 'infiniteQueries' | 'preserveRefs' | 'dryRun' | 'clean' | 'prettier' | 'selectionDepth' | 'documents' | 'scalars'
+  >,
+): GenerateConfig {
+  return {
+    name: project.name,
+    specPath: project.spec,
+    fetcher: project.fetcher,
+    outputDir: project.output,
+    baseUrl: project.baseUrl,
+    zod: project.zod || flags.zod,
+    mock: project.mock || flags.mock,
+    infiniteQueries: project.infiniteQueries && flags.infiniteQueries,
+    tags: project.tags,
+    dryRun: flags.dryRun,
+    clean: project.clean || flags.clean,
+    prettier: project.prettier || flags.prettier,
+    preserveRefs: project.preserveRefs || flags.preserveRefs,
+    selectionDepth: flags.selectionDepth ?? project.selectionDepth,
+    documents: flags.documents ?? project.documents,
+    scalars: flags.scalars ? { ...project.scalars, ...flags.scalars } : project.scalars,
+    plugins: project.plugins,
+    templates: project.templates,
+  }
+}
+
+/** Parses a `--scalars` value: `Name=type` or `Name=type:format`. */
+function parseScalarFlag(value: string): [string, ScalarMapping] | null {
+  const match = /^([_A-Za-z][_0-9A-Za-z]*)=([a-z]+)(?::(.+))?$/.exec(value)
+  if (!match) return null
+  const [, name, type, format] = match
+  if (!SCALAR_TYPES.includes(type as ScalarType)) return null
+  return [name, format ? { type: type as ScalarType, format } : (type as ScalarType)]
 }
 
 async function runGenerate(config: GenerateConfig): Promise<void> {
   const startTime = Date.now()
 
   // 1. Parse spec
+  if (config.name) logger.info(`${pc.cyan('▸')} Project ${pc.bold(config.name)}`)
   logger.info(`Parsing ${pc.bold(config.specPath)}...`)
-  const spec = await parseSpec(config.specPath, { baseUrl: config.baseUrl })
+  const parsed = await parseSpec(config.specPath, {
+    baseUrl: config.baseUrl,
+    preserveRefs: config.preserveRefs,
+    selectionDepth: config.selectionDepth,
+    documents: config.documents,
+    scalars: config.scalars,
+  })
 
   // Filter by tags if specified
   if (config.tags && config.tags.length > 0) {
     const tagSet = new Set(config.tags)
-    spec.operations = spec.operations.filter((op) =>
+    parsed.operations = parsed.operations.filter((op) =>
       op.tags.some((t) => tagSet.has(t)),
     )
   }
 
-  logger.verbose(`Found ${spec.operations.length} operations, ${spec.types.size} types`)
-
-  // 2. Generate hooks
-  logger.info(`Generating ${pc.bold(config.fetcher)} hooks...`)
-  const hookFiles = generateHooks(spec, {
+  // Apply plugin transforms
+  const generators = collectPluginGenerators(config.plugins)
+  const generatorOptions: GeneratorOptions = {
     fetcher: config.fetcher,
     zod: config.zod,
     mock: false, // Mock files are generated separately
     outputDir: config.outputDir,
     baseUrl: config.baseUrl,
     infiniteQueries: config.infiniteQueries,
-  })
+    templates: config.templates,
+  }
+  const context: PluginContext = { fetcher: config.fetcher, outputDir: config.outputDir, options: generatorOptions }
+  const spec = await applySpecPlugins(parsed, config.plugins, context)
+
+  logger.verbose(`Found ${spec.operations.length} operations, ${spec.types.size} types`)
+
+  // 2. Generate hooks
+  logger.info(`Generating ${pc.bold(config.fetcher)} hooks...`)
+  const hookFiles = generateHooks(spec, generatorOptions, generators)
 
   // 3. Generate mock files (if enabled)
   let mockFiles: { path: string; content: string }[] = []
@@ -151,8 +295,8 @@ async function runGenerate(config: GenerateConfig): Promise<void> {
     mockFiles = generateMockFiles(spec)
   }
 
-  // 4. Collect all files
-  const allFiles = [...hookFiles, ...mockFiles]
+  // 4. Collect all files, including those added by plugins
+  const allFiles = await applyEmitPlugins([...hookFiles, ...mockFiles], spec, config.plugins, context)
 
   // Dry run mode: show what would be generated without writing
   if (config.dryRun) {
@@ -179,6 +323,9 @@ async function runGenerate(config: GenerateConfig): Promise<void> {
     await formatWithPrettier(config.outputDir, allFiles)
   }
 
+  // 8. Let plugins act on the written files
+  await runAfterWrite(allFiles, config.plugins, context)
+
   const duration = Date.now() - startTime
   logger.success(
     `Generated ${pc.bold(String(allFiles.length))} files in ${pc.bold(config.outputDir)} (${duration}ms)`,
@@ -292,23 +439,40 @@ async function cleanStaleFiles(
   }
 }
 
-async function startWatchMode(specPath: string, config: GenerateConfig): Promise<void> {
+async function startWatchMode(configs: GenerateConfig[]): Promise<void> {
   // Dynamic import to avoid loading chokidar when not in watch mode
   const { watch } = await import('chokidar')
+  const { resolve } = await import('node:path')
 
-  logger.info(`\n${pc.yellow('👀 Watching')} ${pc.bold(specPath)} for changes...\n`)
+  // Each config regenerates when its spec or one of its GraphQL documents changes
+  const inputs = new Map<GenerateConfig, Set<string>>()
+  for (const config of configs) {
+    const documents = config.documents ? await expandGlobs(config.documents) : []
+    inputs.set(config, new Set([resolve(config.specPath), ...documents]))
+  }
 
-  const watcher = watch(specPath, {
+  const specPaths = [...new Set(configs.map((c) => resolve(c.specPath)))]
+  const watchPaths = [...new Set([...inputs.values()].flatMap((paths) => [...paths]))]
+  const documentCount = watchPaths.length - specPaths.length
+  logger.info(
+    `\n${pc.yellow('👀 Watching')} ${specPaths.map((p) => pc.bold(p)).join(', ')}` +
+      `${documentCount > 0 ? ` and ${documentCount} GraphQL document${documentCount === 1 ? '' : 's'}` : ''} for changes...\n`,
+  )
+
+  const watcher = watch(watchPaths, {
     ignoreInitial: true,
     awaitWriteFinish: { stabilityThreshold: 300, pollInterval: 100 },
   })
 
-  watcher.on('change', async () => {
+  watcher.on('change', async (changedPath) => {
     logger.info(`\n${pc.yellow('↻')} Spec changed, regenerating...`)
-    try {
-      await runGenerate(config)
-    } catch (err) {
-      logger.error(err instanceof Error ? err.message : String(err))
+    for (const config of configs) {
+      if (!inputs.get(config)!.has(resolve(changedPath))) continue
+      try {
+        await runGenerate(config)
+      } catch (err) {
+        logger.error(err instanceof Error ? err.message : String(err))
+      }
     }
   })
 
@@ -0,0 +1,249 @@
+/**
+ * Configuration file loading.
+ *
+ * Finds `auto-api-hooks.config.{ts,mts,js,mjs,cjs,json}`, loads it and
+ * resolves its projects into the options each generation run needs.
+ */
+import { access, readFile } from 'node:fs/promises'
+import { dirname, extname, join, resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { SCALAR_TYPES } from '../parsers/graphql-parser'
+import { FETCHER_STRATEGIES } from '../generators/types'
+import { ConfigError } from '../utils/errors'
+import type { ProjectConfig, ProjectOptions, ResolvedProject, UserConfig } from './types'
+
+export type { ProjectConfig, ProjectOptions, ResolvedProject, UserConfig } from './types'
+
+/** Config file names looked up in the working directory, in order. */
+export const CONFIG_FILE_NAMES = [
+  'auto-api-hooks.config.ts',
+  'auto-api-hooks.config.mts',
+  'auto-api-hooks.config.js',
+  'auto-api-hooks.config.mjs',
+  'auto-api-hooks.config.cjs',
+  'auto-api-hooks.config.json',
+]
+
+const TS_EXTENSIONS = new Set(['.ts', '.mts', '.cts'])
+
+/**
+ * Type helper for config files. Returns the config unchanged.
+ *
+ * @example
+ * ```ts
+ * // auto-api-hooks.config.ts
+ * import { defineConfig } from 'auto-api-hooks'
+ *
+ * export default defineConfig({
+ *   zod: true,
+ *   projects: [
+ *     { name: 'users', spec: './specs/users.yaml', fetcher: 'react-query', output: './src/api/users' },
+ *     { name: 'billing', spec: './specs/billing.yaml', fetcher: 'swr', output: './src/api/billing' },
+ *   ],
+ * })
+ * ```
+ */
+export function defineConfig(config: UserConfig): UserConfig {
+  return config
+}
+
+/**
+ * Returns the path of the first config file found in `cwd`, or `undefined`.
+ */
+export async function findConfigFile(cwd: string = process.cwd()): Promise<string | undefined> {
+  for (const name of CONFIG_FILE_NAMES) {
+    const candidate = join(cwd, name)
+    try {
+      await access(candidate)
+      return candidate
+    } catch {
+      // Not found — try the next name
+    }
+  }
+  return undefined
+}
+
+/**
+ * Loads a config file. JSON files are parsed; JavaScript and TypeScript files
+ * are imported and their default export is used.
+ *
+ * TypeScript configs are imported natively where the runtime supports it
+ * (Node 22.18+, `tsx`, Bun), otherwise through `jiti` when it is installed.
+ *
+ * @param configPath - Path to the config file.
+ * @returns The config, unvalidated.
+ * @throws {ConfigError} If the file cannot be read or has no default export.
+ */
+export async function loadConfigFile(configPath: string): Promise<UserConfig> {
+  const fullPath = resolve(configPath)
+  const ext = extname(fullPath).toLowerCase()
+
+  let loaded: unknown
+  try {
+    if (ext === '.json') {
+      loaded = JSON.parse(await readFile(fullPath, 'utf-8'))
+    } else if (TS_EXTENSIONS.has(ext)) {
+      loaded = await importTypeScript(fullPath)
+    } else {
+      loaded = await importDefault(fullPath)
+    }
+  } catch (err) {
+    if (err instanceof ConfigError) throw err
+    throw new ConfigError(
+      `Failed to load config file "${configPath}": ${err instanceof Error ? err.message : String(err)}`,
+    )
+  }
+
+  if (!loaded || typeof loaded !== 'object') {
+    throw new ConfigError(`Config file "${configPath}" must export a config object as its default export.`)
+  }
+  return loaded as UserConfig
+}
+
+async function importDefault(fullPath: string): Promise<unknown> {
+  const mod = await import(/* webpackIgnore: true */ pathToFileURL(fullPath).href)
+  return mod.default ?? mod
+}
+
+/** The part of jiti's `createJiti` used to load TypeScript configs. */
+type CreateJiti = (id: string) => {
+  import(id: string, opts: { default: true }): Promise<unknown>
+}
+
+async function importTypeScript(fullPath: string): Promise<unknown> {
+  try {
+    return await importDefault(fullPath)
+  } catch (err) {
+    if ((err as { code?: string }).code !== 'ERR_UNKNOWN_FILE_EXTENSION') throw err
+  }
+
+  let createJiti: CreateJiti
+  try {
+    // Dynamic import — jiti is an optional peer dependency
+    const mod = 'jiti'
+    const jiti = (await import(/* webpackIgnore: true */ mod)) as { createJiti: CreateJiti }
+    createJiti = jiti.createJiti
+  } catch {
+    throw new ConfigError(
+      `Cannot load TypeScript config "${fullPath}" on this Node version. ` +
+        'Install jiti (npm install -D jiti), run through tsx, or use a .js / .json config file.',
+    )
+  }
+  const loader = createJiti(fullPath)
+  return loader.import(fullPath, { default: true })
+}
+
+/**
+ * Validates a config and resolves its projects: top-level options are applied
+ * as defaults, defaults filled in, and `spec` / `output` resolved against the
+ * config file's directory.
+ *
+ * @param config - The loaded config.
+ * @param configDir - Directory relative paths are resolved against.
+ * @param projectName - Only return the project with this name.
+ * @returns The projects to generate, in config order.
+ * @throws {ConfigError} If the config is invalid or no project has `projectName`.
+ */
+export function resolveProjects(
+  config: UserConfig,
+  configDir: string,
+  projectName?: string,
+): ResolvedProject[] {
+  const { projects, ...shared }: ProjectOptions & { projects?: ProjectConfig[]; spec?: string } = config
+  const entries: ProjectConfig[] = projects ?? [shared as ProjectConfig]
+
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new ConfigError('Config must declare a `spec` or a non-empty `projects` array.')
+  }
+
+  let resolved = entries.map((project, index) =>
+    resolveProject(projects ? { ...shared, ...project } : project, configDir, index),
+  )
+
+  if (projectName !== undefined) {
+    resolved = resolved.filter((project) => project.name === projectName)
+    if (resolved.length === 0) {
+      const names = entries.map((p) => p.name).filter(Boolean)
+      throw new ConfigError(
+        `No project named "${projectName}" in config.` +
+          (names.length > 0 ? ` Available projects: ${names.join(', ')}.` : ' Projects need a `name` to be selected.'),
+      )
+    }
+  }
+
+  return resolved
+}
+
+function resolveProject(project: ProjectConfig, configDir: string, index: number): ResolvedProject {
+  const label = project.name ? `Project "${project.name}"` : `Project #${index + 1}`
+
+  if (typeof project.spec !== 'string' || !project.spec) {
+    throw new ConfigError(`${label} is missing a \`spec\` path.`)
+  }
+  const fetcher = project.fetcher ?? 'fetch'
+  const plugins = project.plugins ?? []
+  const fetchers = [...FETCHER_STRATEGIES, ...plugins.flatMap((p) => Object.keys(p.generators ?? {}))]
+  if (!fetchers.includes(fetcher)) {
+    throw new ConfigError(
+      `${label} has an invalid fetcher "${fetcher}". Valid options: ${fetchers.join(', ')}.`,
+    )
+  }
+
+  const { selectionDepth } = project
+  if (selectionDepth !== undefined && !(Number.isInteger(selectionDepth) && selectionDepth > 0)) {
+    throw new ConfigError(`${label} has an invalid selectionDepth "${selectionDepth}". Expected a positive integer.`)
+  }
+  for (const [name, mapping] of Object.entries(project.scalars ?? {})) {
+    const type = typeof mapping === 'string' ? mapping : mapping?.type
+    if (!SCALAR_TYPES.includes(type)) {
+      throw new ConfigError(
+        `${label} maps scalar "${name}" to an invalid type "${type}". Valid types: ${SCALAR_TYPES.join(', ')}.`,
+      )
+    }
+  }
+
+  return {
+    name: project.name,
+    spec: resolve(configDir, project.spec),
+    fetcher,
+    output: resolve(configDir, project.output ?? './src/hooks'),
+    baseUrl: project.baseUrl,
+    tags: project.tags,
+    zod: project.zod ?? false,
+    mock: project.mock ?? false,
+    infiniteQueries: project.infiniteQueries ?? true,
+    preserveRefs: project.preserveRefs ?? false,
+    selectionDepth,
+    documents: project.documents?.map((pattern) => resolve(configDir, pattern)),
+    scalars: project.scalars,
+    prettier: project.prettier ?? false,
+    clean: project.clean ?? false,
+    plugins,
+    templates: project.templates,
+  }
+}
+
+/**
+ * Finds and loads a config file, then resolves its projects.
+ *
+ * @param options.config - Explicit config file path; otherwise the working directory is searched.
+ * @param options.project - Only return the project with this name.
+ * @param options.cwd - Directory to search for a config file.
+ * @returns The config file path and its projects, or `null` when no config file exists.
+ * @throws {ConfigError} If the config file is invalid.
+ */
+export async function loadConfig(options: {
+  config?: string
+  project?: string
+  cwd?: string
+} = {}): Promise<{ configPath: string; projects: ResolvedProject[] } | null> {
+  const cwd = options.cwd ?? process.cwd()
+  const configPath = options.config ? resolve(cwd, options.config) : await findConfigFile(cwd)
+  if (!configPath) return null
+
+  const config = await loadConfigFile(configPath)
+  return {
+    configPath,
+    projects: resolveProjects(config, dirname(configPath), options.project),
+  }
+}
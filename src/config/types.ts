@@ -0,0 +1,82 @@
+/**
+ * Configuration file types.
+ */
+import type { FetcherName } from '../generators/types'
+import type { ScalarMapping } from '../parsers/types'
+import type { Plugin } from '../plugins/types'
+import type { Templates } from '../templates/types'
+
+/** Generation options shared by every project in a config file. */
+export interface ProjectOptions {
+  /** Fetching strategy, or a generator registered by a plugin. Defaults to `fetch`. */
+  fetcher?: FetcherName
+  /** Output directory, relative to the config file. Defaults to `./src/hooks`. */
+  output?: string
+  /** Override base URL from the spec. */
+  baseUrl?: string
+  /** Only generate hooks for operations with one of these tags. */
+  tags?: string[]
+  /** Generate Zod validation schemas. */
+  zod?: boolean
+  /** Generate MSW mock server handlers. */
+  mock?: boolean
+  /** Generate infinite query hooks for paginated endpoints. Defaults to `true`. */
+  infiniteQueries?: boolean
+  /** Keep `$ref`s to named schemas instead of inlining them (OpenAPI / Swagger). */
+  preserveRefs?: boolean
+  /** Levels of nested selection sets in default GraphQL documents. Defaults to 3. */
+  selectionDepth?: number
+  /**
+   * Glob patterns of `.graphql` operation documents, relative to the config
+   * file. Generates one hook per named operation (GraphQL).
+   */
+  documents?: string[]
+  /** Types of custom GraphQL scalars by name. */
+  scalars?: Record<string, ScalarMapping>
+  /** Format generated files with Prettier. */
+  prettier?: boolean
+  /** Remove stale generated files from the output directory. */
+  clean?: boolean
+  /** Plugins to run, in order. A project's list replaces the top-level one. */
+  plugins?: Plugin[]
+  /** Templates overriding the built-in output of individual files. */
+  templates?: Templates
+}
+
+/** One spec to generate hooks from. */
+export interface ProjectConfig extends ProjectOptions {
+  /** Name used to pick the project with `--project`. */
+  name?: string
+  /** Path to the API spec file, relative to the config file. */
+  spec: string
+}
+
+/**
+ * The contents of `auto-api-hooks.config.{ts,js,json}`: either a single
+ * project, or a list of `projects` that inherit the top-level options.
+ */
+export type UserConfig = ProjectConfig | (ProjectOptions & { projects: ProjectConfig[] })
+
+/** A project with defaults applied and paths resolved. */
+export interface ResolvedProject {
+  name?: string
+  /** Absolute path to the spec file. */
+  spec: string
+  fetcher: FetcherName
+  /** Absolute output directory. */
+  output: string
+  baseUrl?: string
+  tags?: string[]
+  zod: boolean
+  mock: boolean
+  infiniteQueries: boolean
+  preserveRefs: boolean
+  selectionDepth?: number
+  /** Absolute glob patterns of GraphQL operation documents. */
+  documents?: string[]
+  scalars?: Record<string, ScalarMapping>
+  prettier: boolean
+  clean: boolean
+  plugins: Plugin[]
+  templates?: Templates
+}
@@ -0,0 +1,780 @@
+/**
+ * Angular generator.
+ *
+ * Generates:
+ * - An injectable service per tag group, with a typed method per operation
+ *   returning an `Observable`, sent through Angular's `HttpClient`
+ * - `inject*` helpers per operation: `rxResource`s for GET operations,
+ *   subscriptions and streams, and signal-based mutation helpers for writes
+ *
+ * The client's base URL and headers come from the `API_CLIENT_CONFIG`
+ * injection token instead of a module-level config.
+ */
+import type { ApiOperation, ApiSpec } from '../ir/types'
+import { getBodyEncoding, getResponseDecoding, isTextEventStream } from '../ir/helpers'
+import type { GeneratorOptions } from './types'
+import type { GeneratedFile } from '../utils/file-writer'
+import { BaseHookGenerator, type OperationAuth } from './base-generator'
+import { toCamelCase, toKebabCase, toPascalCase } from '../utils/naming'
+
+/** How a helper takes an operation's params and body, as one accessor. */
+interface HelperArg {
+  /** Name of the accessor, e.g. `params`. */
+  name: string
+  type: string
+  /** Arguments passed to the service method, read from the accessor's value. */
+  call: string
+}
+
+export class AngularGenerator extends BaseHookGenerator {
+  protected getHookPrefix(): string {
+    return 'inject'
+  }
+
+  /** Whether `client.ts` declares `mutationResource()`, which the write helpers use. */
+  protected hasMutationResource(): boolean {
+    return true
+  }
+
+  protected generateClientConfig(spec: ApiSpec, options: GeneratorOptions): GeneratedFile {
+    const baseUrl = options.baseUrl || spec.baseUrl || ''
+    const hasAuth = (spec.securitySchemes ?? []).length > 0
+    const hasGraphQL = spec.operations.some((op) => op.graphql)
+    const hasStreams = spec.operations.some((op) => op.streaming)
+    const mutations = this.hasMutationResource()
+
+    const coreImports = ['Injectable', 'InjectionToken', 'inject', 'makeEnvironmentProviders']
+    if (mutations) coreImports.push('signal')
+    const httpImports = ['HttpClient', 'HttpErrorResponse', 'HttpParams']
+    if (hasGraphQL) httpImports.push('HttpResponse')
+    const rxjsImports = ['Observable', 'catchError', 'throwError']
+    if (hasAuth) rxjsImports.push('from', 'switchMap')
+    if (hasGraphQL) rxjsImports.push('map', 'of')
+    if (mutations) rxjsImports.push('lastValueFrom')
+
+    return {
+      path: 'client.ts',
+      content: [
+        `/**`,
+        ` * Angular API client configuration.`,
+        ` * Generated by auto-api-hooks — do not edit manually.`,
+        ` */`,
+        `import { ${coreImports.join(', ')} } from '@angular/core'`,
+        `import type { ${['EnvironmentProviders', ...(mutations ? ['Signal'] : [])].join(', ')} } from '@angular/core'`,
+        `import { ${httpImports.join(', ')} } from '@angular/common/http'`,
+        `import { ${rxjsImports.join(', ')} } from 'rxjs'`,
+        ``,
+        `export const API_BASE_URL = '${baseUrl}'`,
+        ``,
+        `export interface ClientConfig {`,
+        `  baseUrl: string`,
+        `  headers?: Record<string, string>`,
+        `}`,
+        ``,
+        `/**`,
+        ` * Base URL and headers the generated services send requests with.`,
+        ` * Defaults to \`API_BASE_URL\`; set it with \`provideApiClient()\`.`,
+        ` */`,
+        `export const API_CLIENT_CONFIG = new InjectionToken<ClientConfig>('API_CLIENT_CONFIG', {`,
+        `  providedIn: 'root',`,
+        `  factory: () => ({ baseUrl: API_BASE_URL }),`,
+        `})`,
+        ``,
+        `/**`,
+        ` * Configure the API client, e.g. in the providers of \`bootstrapApplication()\`.`,
+        ` */`,
+        `export function provideApiClient(config: Partial<ClientConfig>): EnvironmentProviders {`,
+        `  return makeEnvironmentProviders([`,
+        `    { provide: API_CLIENT_CONFIG, useValue: { baseUrl: API_BASE_URL, ...config } },`,
+        `  ])`,
+        `}`,
+        ``,
+        ...this.generateApiErrorClass(),
+        ``,
+        `/**`,
+        ` * Turn the \`HttpErrorResponse\` of a non-2xx response into an \`ApiError\``,
+        ` * carrying the decoded body. Other errors are passed through.`,
+        ` */`,
+        `export function toApiError(error: unknown): unknown {`,
+        `  if (error instanceof HttpErrorResponse && error.status !== 0) {`,
+        `    return new ApiError(error.status, error.error, \`HTTP \${error.status}: \${error.statusText}\`)`,
+        `  }`,
+        `  return error`,
+        `}`,
+        ``,
+        ...(hasStreams ? [...this.generateCreateApiError(), ``] : []),
+        ...this.generateBodyEncoders(spec),
+        ...this.generateAuthSection(spec),
+        ...this.generateRequestSection(spec),
+        ...(mutations ? this.generateMutationResource() : []),
+        ...this.generateStreamSection(spec),
+        ...this.generateGraphQLSection(spec),
+      ].join('\n'),
+    }
+  }
+
+  /**
+   * Declares `ApiClient`, the injectable the services send requests through.
+   * Requests go through `HttpClient`, so they pass through the app's
+   * interceptors; streams use `fetch`, which can read a body as it arrives.
+   */
+  protected generateRequestSection(spec: ApiSpec): string[] {
+    const hasAuth = (spec.securitySchemes ?? []).length > 0
+
+    const lines = [
+      `// ---------------------------------------------------------------------------`,
+      `// Requests`,
+      `// ---------------------------------------------------------------------------`,
+      ``,
+      `/** Per-request options every service method takes as its last argument. */`,
+      `export interface RequestOptions {`,
+      `  /** Headers sent with this request only, on top of the client's. */`,
+      `  headers?: Record<string, string>`,
+      `}`,
+      ``,
+      `export interface ApiRequest extends RequestOptions {`,
+      `  method: string`,
+      `  /** Path with its params filled in, relative to the base URL. */`,
+      `  path: string`,
+      `  /** Query params. \`undefined\` values are left out. */`,
+      `  query?: Record<string, unknown>`,
+      `  body?: unknown`,
+      `  /** Read binary and text responses as-is instead of parsing JSON. */`,
+      `  responseType?: 'blob' | 'text'`,
+    ]
+    if (hasAuth) {
+      lines.push(
+        `  /** Security requirements, passed to \`resolveAuth()\`. */`,
+        `  security?: ReadonlyArray<ReadonlyArray<SecuritySchemeName>>`,
+      )
+    }
+    lines.push(
+      `}`,
+      ``,
+      `/**`,
+      ` * Sends the generated services' requests with the base URL and headers of`,
+      ` * \`API_CLIENT_CONFIG\`. Non-2xx responses error with an \`ApiError\`.`,
+      ` */`,
+      `@Injectable({ providedIn: 'root' })`,
+      `export class ApiClient {`,
+      `  private readonly http = inject(HttpClient)`,
+      `  private readonly config = inject(API_CLIENT_CONFIG)`,
+      ``,
+      `  /**`,
+      `   * Send a request through \`HttpClient\` and emit the response body.`,
+      `   */`,
+      `  request<T>(req: ApiRequest): Observable<T> {`,
+    )
+    if (hasAuth) {
+      lines.push(
+        `    return from(req.security ? resolveAuth(req.security) : Promise.resolve(undefined)).pipe(`,
+        `      switchMap((auth) => this.send<T>(req, auth)),`,
+        `    )`,
+        `  }`,
+        ``,
+        `  private send<T>(req: ApiRequest, auth: ResolvedAuth | undefined): Observable<T> {`,
+      )
+    }
+    lines.push(
+      `    let params = new HttpParams()`,
+      `    for (const [key, value] of Object.entries(${hasAuth ? '{ ...req.query, ...auth?.query }' : 'req.query ?? {}'})) {`,
+      `      if (value !== undefined) params = params.set(key, String(value))`,
+      `    }`,
+      `    const res = this.http.request(req.method, \`\${this.config.baseUrl}\${req.path}\`, {`,
+      `      params,`,
+      `      headers: { ...this.config.headers,${hasAuth ? ' ...auth?.headers,' : ''} ...req.headers },`,
+      `      body: req.body,`,
+      `      responseType: (req.responseType ?? 'json') as 'json',`,
+      `    }) as Observable<T>`,
+      `    return res.pipe(catchError((error: unknown) => throwError(() => toApiError(error))))`,
+      `  }`,
+    )
+    if (spec.operations.some((op) => op.streaming)) lines.push(``, ...this.generateStreamMethod(hasAuth))
+    if (spec.operations.some((op) => op.graphql)) lines.push(``, ...this.generateGraphQLMethod())
+    lines.push(`}`, ``)
+    return lines
+  }
+
+  /** `ApiClient.stream()`, which opens a `text/event-stream` request. */
+  private generateStreamMethod(hasAuth: boolean): string[] {
+    return [
+      `  /**`,
+      `   * Open a \`text/event-stream\` request with \`fetch\` and emit each event as it`,
+      `   * arrives. Unsubscribing aborts the request.`,
+      `   */`,
+      `  stream(req: ApiRequest): Observable<ServerSentEvent> {`,
+      `    return new Observable<ServerSentEvent>((subscriber) => {`,
+      `      const controller = new AbortController()`,
+      `      const open = async () => {`,
+      ...(hasAuth ? [`        const auth = req.security ? await resolveAuth(req.security) : undefined`] : []),
+      `        const query = new URLSearchParams()`,
+      `        for (const [key, value] of Object.entries(${hasAuth ? '{ ...req.query, ...auth?.query }' : 'req.query ?? {}'})) {`,
+      `          if (value !== undefined) query.set(key, String(value))`,
+      `        }`,
+      `        const qs = query.toString()`,
+      `        // Form bodies get their Content-Type (and multipart boundary) from fetch`,
+      `        const form = req.body instanceof FormData || req.body instanceof URLSearchParams`,
+      `        const res = await fetch(\`\${this.config.baseUrl}\${req.path}\${qs ? \`?\${qs}\` : ''}\`, {`,
+      `          method: req.method,`,
+      `          headers: {`,
+      `            ...(form ? {} : { 'Content-Type': 'application/json' }),`,
+      `            ...this.config.headers,`,
+      ...(hasAuth ? [`            ...auth?.headers,`] : []),
+      `            ...req.headers,`,
+      `            Accept: 'text/event-stream',`,
+      `          },`,
+      `          body: form ? (req.body as BodyInit) : req.body === undefined ? undefined : JSON.stringify(req.body),`,
+      `          signal: controller.signal,`,
+      `        })`,
+      `        if (!res.ok) throw await createApiError(res)`,
+      `        for await (const event of readEventStream(res)) subscriber.next(event)`,
+      `        subscriber.complete()`,
+      `      }`,
+      `      open().catch((err: unknown) => {`,
+      `        if (!controller.signal.aborted) subscriber.error(err)`,
+      `      })`,
+      `      return () => controller.abort()`,
+      `    })`,
+      `  }`,
+    ]
+  }
+
+  /** `ApiClient.graphql()`, which POSTs a GraphQL document to the base URL. */
+  private generateGraphQLMethod(): string[] {
+    return [
+      `  /**`,
+      `   * POST a GraphQL document to the API and emit its \`data\`. Errors with a`,
+      `   * \`GraphQLRequestError\` when the response has \`errors\`, and an \`ApiError\``,
+      `   * for other failed responses.`,
+      `   */`,
+      `  graphql<TData>(request: GraphQLRequest): Observable<TData> {`,
+      `    const body = { query: request.query, variables: request.variables ?? {}, operationName: request.operationName }`,
+      `    return this.http.post<GraphQLResponse<TData>>(this.config.baseUrl, body, {`,
+      `      headers: { Accept: 'application/graphql-response+json, application/json', ...this.config.headers, ...request.headers },`,
+      `      observe: 'response',`,
+      `    }).pipe(`,
+      `      // GraphQL servers may answer with a non-2xx status and an \`errors\` body`,
+      `      catchError((error: unknown) => {`,
+      `        if (error instanceof HttpErrorResponse && error.error?.errors) {`,
+      `          return of(new HttpResponse<GraphQLResponse<TData>>({ body: error.error, status: error.status, statusText: error.statusText }))`,
+      `        }`,
+      `        return throwError(() => toApiError(error))`,
+      `      }),`,
+      `      map((res) => {`,
+      `        const result = res.body`,
+      `        if (result?.errors && result.errors.length > 0) {`,
+      `          throw new GraphQLRequestError(result.errors, (result.data ?? null) as Record<string, unknown> | null, res.status)`,
+      `        }`,
+      `        if (!res.ok || !result?.data) {`,
+      `          throw new ApiError(res.status, result, \`HTTP \${res.status}: \${res.statusText}\`)`,
+      `        }`,
+      `        return result.data`,
+      `      }),`,
+      `    )`,
+      `  }`,
+    ]
+  }
+
+  /** GraphQL requests are sent by `ApiClient.graphql()`. */
+  protected generateGraphQLRequestFunction(): string[] {
+    return []
+  }
+
+  /**
+   * The base URL is only known to the injector, so the services hand the
+   * subscription client the one from their `API_CLIENT_CONFIG`.
+   */
+  protected getSubscriptionBaseUrl(): string {
+    return '_subscriptionBaseUrl'
+  }
+
+  protected generateSubscriptionClient(spec: ApiSpec): string[] {
+    const lines = super.generateSubscriptionClient(spec)
+    if (lines.length === 0) return lines
+
+    return [
+      ...lines,
+      `/** Base URL subscriptions connect to, from the services' \`API_CLIENT_CONFIG\`. */`,
+      `let _subscriptionBaseUrl = API_BASE_URL`,
+      ``,
+      `/**`,
+      ` * Connect subscriptions to \`baseUrl\`. Called by the generated services with`,
+      ` * the base URL of their injected \`API_CLIENT_CONFIG\` before they subscribe.`,
+      ` */`,
+      `export function setSubscriptionBaseUrl(baseUrl: string): void {`,
+      `  _subscriptionBaseUrl = baseUrl`,
+      `}`,
+      ``,
+    ]
+  }
+
+  /** Lines declaring `mutationResource()`, which the write helpers return. */
+  private generateMutationResource(): string[] {
+    return [
+      `// ---------------------------------------------------------------------------`,
+      `// Mutations`,
+      `// ---------------------------------------------------------------------------`,
+      ``,
+      `/** Signals tracking the latest call of a write helper, like a resource for writes. */`,
+      `export interface MutationResource<TVars, TData> {`,
+      `  readonly value: Signal<TData | undefined>`,
+      `  readonly error: Signal<unknown>`,
+      `  readonly isLoading: Signal<boolean>`,
+      `  /** Send the request. Resolves with the response body, or rejects with the error. */`,
+      `  mutate(vars: TVars): Promise<TData>`,
+      `  /** Clear the value and error. */`,
+      `  reset(): void`,
+      `}`,
+      ``,
+      `/**`,
+      ` * Track the calls of a service method in signals.`,
+      ` */`,
+      `export function mutationResource<TVars, TData>(send: (vars: TVars) => Observable<TData>): MutationResource<TVars, TData> {`,
+      `  const value = signal<TData | undefined>(undefined)`,
+      `  const error = signal<unknown>(undefined)`,
+      `  const isLoading = signal(false)`,
+      ``,
+      `  return {`,
+      `    value: value.asReadonly(),`,
+      `    error: error.asReadonly(),`,
+      `    isLoading: isLoading.asReadonly(),`,
+      `    async mutate(vars) {`,
+      `      isLoading.set(true)`,
+      `      error.set(undefined)`,
+      `      try {`,
+      `        const result = await lastValueFrom(send(vars))`,
+      `        value.set(result)`,
+      `        return result`,
+      `      } catch (err) {`,
+      `        error.set(err)`,
+      `        throw err`,
+      `      } finally {`,
+      `        isLoading.set(false)`,
+      `      }`,
+      `    },`,
+      `    reset() {`,
+      `      value.set(undefined)`,
+      `      error.set(undefined)`,
+      `      isLoading.set(false)`,
+      `    },`,
+      `  }`,
+      `}`,
+      ``,
+    ]
+  }
+
+  // ---------------------------------------------------------------------------
+  // Services
+  // ---------------------------------------------------------------------------
+
+  /** Subscriptions and streams are service methods too, emitting as results arrive. */
+  protected hasSdkFunction(): boolean {
+    return true
+  }
+
+  /** Header pagination reads `fetch` `Headers`, which `HttpClient` responses do not have. */
+  protected hasSdkPageFunction(): boolean {
+    return false
+  }
+
+  /**
+   * Writes each tag group's service to `sdk/<tag>.service.ts`.
+   */
+  protected generateSdkFiles(
+    groups: Map<string, ApiOperation[]>,
+    spec: ApiSpec,
+    options: GeneratorOptions,
+  ): GeneratedFile[] {
+    const files: GeneratedFile[] = []
+    const modules: string[] = []
+
+    for (const [tag, operations] of groups) {
+      const module = `${toKebabCase(tag)}.service`
+      files.push({
+        path: `sdk/${module}.ts`,
+        content: this.generateSdkFile(tag, operations, spec, options),
+      })
+      modules.push(module)
+    }
+
+    if (modules.length > 0) {
+      files.push({
+        path: 'sdk/index.ts',
+        content: `${modules.map((module) => `export * from './${module}'`).join('\n')}\n`,
+      })
+    }
+    return files
+  }
+
+  /**
+   * Generate the injectable service of a tag group.
+   */
+  protected generateSdkFile(
+    tag: string,
+    operations: ApiOperation[],
+    spec: ApiSpec,
+    options: GeneratorOptions,
+  ): string {
+    const requests = operations.some((op) => !this.isSubscriptionOperation(op))
+    const clientImports = new Set<string>(requests ? ['ApiClient'] : [])
+    const typeImports = new Set<string>()
+    const schemaImports = new Set<string>()
+    const documents: string[] = []
+    const methods: string[] = []
+    let subscribes = false
+    let maps = false
+
+    for (const op of operations) {
+      const name = this.getSdkFunctionName(op)
+      if (this.isSubscriptionOperation(op)) {
+        clientImports.add('API_CLIENT_CONFIG')
+        clientImports.add('setSubscriptionBaseUrl')
+        clientImports.add('subscribe')
+        subscribes = true
+      } else {
+        for (const encoder of this.getBodyEncoderImports(op)) clientImports.add(encoder)
+        if (op.streaming || (op.graphql && op.graphql.field) || this.validatesResponse(op, options)) maps = true
+        if (this.validatesResponse(op, options)) schemaImports.add(`${toCamelCase(op.operationId)}ResponseSchema`)
+      }
+      if (op.pathParams.length > 0 || op.queryParams.length > 0) typeImports.add(this.getParamsTypeName(op.operationId))
+      if (op.requestBody) typeImports.add(this.getBodyTypeName(op.operationId))
+      typeImports.add(this.getResponseTypeName(op.operationId))
+
+      documents.push(...this.generateGraphQLDocument(op, `${name}Document`))
+      methods.push(``, ...this.generateServiceMethod(op, this.getOperationAuth(op, spec), options))
+    }
+
+    const rxjsImports = [...(subscribes ? ['Observable'] : []), ...(maps ? ['map'] : [])]
+    const lines = [
+      `/**`,
+      ` * API service for the \`${tag}\` tag.`,
+      ` * Generated by auto-api-hooks — do not edit manually.`,
+      ` */`,
+      `import { Injectable, inject } from '@angular/core'`,
+      ...(rxjsImports.length > 0 ? [`import { ${rxjsImports.join(', ')} } from 'rxjs'`] : []),
+      ...(subscribes ? [] : [`import type { Observable } from 'rxjs'`]),
+      `import { ${[...clientImports].join(', ')} } from '../client'`,
+    ]
+    if (requests) lines.push(`import type { RequestOptions } from '../client'`)
+    lines.push(`import type { ${[...typeImports].join(', ')} } from '../types'`)
+    if (schemaImports.size > 0) lines.push(`import { ${[...schemaImports].join(', ')} } from '../schemas'`)
+    lines.push(``)
+    if (documents.length > 0) lines.push(...documents)
+    lines.push(
+      `@Injectable({ providedIn: 'root' })`,
+      `export class ${this.getServiceName(tag)} {`,
+      ...(requests ? [`  private readonly client = inject(ApiClient)`] : []),
+      ...(subscribes ? [`  private readonly config = inject(API_CLIENT_CONFIG)`] : []),
+      ...methods,
+      `}`,
+      ``,
+    )
+    return lines.join('\n')
+  }
+
+  /**
+   * Lines declaring an operation's service method, indented for the class
+   * body. It takes the params, body and `RequestOptions` like an SDK function.
+   */
+  private generateServiceMethod(
+    op: ApiOperation,
+    auth: OperationAuth | null,
+    options: GeneratorOptions,
+  ): string[] {
+    const name = this.getSdkFunctionName(op)
+    const responseType = this.getResponseTypeName(op.operationId)
+    const hasParams = op.pathParams.length > 0 || op.queryParams.length > 0
+    const subscription = this.isSubscriptionOperation(op)
+    const args = [
+      hasParams ? `${subscription ? 'variables' : 'params'}: ${this.getParamsTypeName(op.operationId)}` : '',
+      op.requestBody ? `body: ${this.getBodyTypeName(op.operationId)}` : '',
+      subscription ? '' : `options?: RequestOptions`,
+    ].filter(Boolean)
+
+    const lines = [
+      `/**`,
+      ` * ${op.summary || `${op.method} ${op.path}`}`,
+      ` *`,
+      ` * \`${op.method} ${op.path}\``,
+      ...(op.deprecated ? [` * @deprecated`] : []),
+      ` */`,
+      `${name}(${args.join(', ')}): Observable<${responseType}> {`,
+    ]
+
+    if (subscription) {
+      lines.push(
+        `  return new Observable<${responseType}>((subscriber) => {`,
+        `    setSubscriptionBaseUrl(this.config.baseUrl)`,
+        `    return subscribe<${this.getGraphQLDataType(op)}>(`,
+        `      { query: ${name}Document, operationName: '${op.graphql!.operationName}'${hasParams ? ', variables' : ''} },`,
+        `      {`,
+        `        next: (result) => subscriber.next(${this.getGraphQLResult(op, 'result')}),`,
+        `        error: (err) => subscriber.error(err),`,
+        `        complete: () => subscriber.complete(),`,
+        `      },`,
+        `    )`,
+        `  })`,
+      )
+    } else if (op.graphql) {
+      const variables = op.requestBody ? 'body' : hasParams ? 'params' : null
+      const request = [`query: ${name}Document`, `operationName: '${op.graphql.operationName}'`]
+      if (variables) request.push(`variables: ${variables}`)
+      request.push('...options')
+      const result = this.getGraphQLResult(op, 'data')
+      const value = this.validatesResponse(op, options)
+        ? `${toCamelCase(op.operationId)}ResponseSchema.parse(${result}) as ${responseType}`
+        : result
+      const call = `this.client.graphql<${this.getGraphQLDataType(op)}>({ ${request.join(', ')} })`
+      if (value === 'data') lines.push(`  return ${call}`)
+      else lines.push(`  return ${call}.pipe(`, `    map((data) => ${value}),`, `  )`)
+    } else if (op.streaming) {
+      const data = isTextEventStream(op.response) ? 'event.data' : 'JSON.parse(event.data)'
+      const value = options.zod ? `${toCamelCase(op.operationId)}ResponseSchema.parse(${data})` : data
+      lines.push(
+        `  return this.client.stream({`,
+        ...this.getSdkRequestFields(op, auth).map((l) => `    ${l}`),
+        `    ...options,`,
+        `  }).pipe(map((event) => ${value} as ${responseType}))`,
+      )
+    } else {
+      const pipe = this.validatesResponse(op, options)
+        ? `.pipe(map((data) => ${toCamelCase(op.operationId)}ResponseSchema.parse(data) as ${responseType}))`
+        : ''
+      lines.push(
+        `  return this.client.request<${responseType}>({`,
+        ...this.getSdkRequestFields(op, auth).map((l) => `    ${l}`),
+        `    ...options,`,
+        `  })${pipe}`,
+      )
+    }
+
+    lines.push(`}`)
+    return lines.map((l) => (l ? `  ${l}` : l))
+  }
+
+  /** JSON bodies are passed as-is; `HttpClient` serializes them. */
+  protected getSdkRequestFields(op: ApiOperation, auth: OperationAuth | null): string[] {
+    const fields = [`method: '${op.method}',`, `path: ${this.getPathExpression(op)},`]
+    if (op.queryParams.length > 0) {
+      fields.push(`query: { ${op.queryParams.map((p) => `${p.name}: params.${p.name}`).join(', ')} },`)
+    }
+    if (op.requestBody) {
+      fields.push(getBodyEncoding(op.requestBody) === 'json' ? `body,` : `body: ${this.serializeBody(op, 'body')},`)
+    }
+    const decoding = getResponseDecoding(op.response)
+    if (decoding === 'blob' || decoding === 'text') fields.push(`responseType: '${decoding}',`)
+    if (auth) fields.push(`security: ${auth.security},`)
+    return fields
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  protected generateHookFile(
+    op: ApiOperation,
+    hookName: string,
+    _spec: ApiSpec,
+    _options: GeneratorOptions,
+  ): string {
+    return this.isReadOperation(op)
+      ? this.generateResourceHelper(op, hookName)
+      : this.generateMutationHelper(op, hookName)
+  }
+
+  /**
+   * Loads the operation into an `rxResource`, which reloads when the params
+   * change and stays idle while they are `undefined`.
+   */
+  private generateResourceHelper(op: ApiOperation, hookName: string): string {
+    const arg = this.getHelperArg(op)
+    const service = this.getOperationServiceName(op)
+    const call = `service.${this.getSdkFunctionName(op)}(${arg?.call ?? ''})`
+
+    const lines: string[] = [
+      ...this.generateFileHeader(op),
+      `import { inject } from '@angular/core'`,
+      `import { rxResource } from '@angular/core/rxjs-interop'`,
+      `import { ${service} } from '../sdk'`,
+      ...this.generateTypeImports(op, []),
+      ``,
+      `export function ${hookName}(${arg ? `${arg.name}: () => ${arg.type} | undefined` : ''}) {`,
+      `  const service = inject(${service})`,
+      `  return rxResource({`,
+      ...this.generateResourceOptions(arg, call),
+      `  })`,
+      `}`,
+      ``,
+    ]
+
+    return lines.join('\n')
+  }
+
+  private generateMutationHelper(op: ApiOperation, hookName: string): string {
+    const paramsType = this.getParamsTypeName(op.operationId)
+    const bodyType = op.requestBody ? this.getBodyTypeName(op.operationId) : null
+    const hasParams = op.pathParams.length > 0 || op.queryParams.length > 0
+    const service = this.getOperationServiceName(op)
+
+    const varFields: string[] = []
+    if (hasParams) varFields.push(`params: ${paramsType}`)
+    if (bodyType) varFields.push(`body: ${bodyType}`)
+    const call = `service.${this.getSdkFunctionName(op)}(${[hasParams ? 'vars.params' : '', bodyType ? 'vars.body' : ''].filter(Boolean).join(', ')})`
+
+    const lines: string[] = [
+      ...this.generateFileHeader(op),
+      `import { inject } from '@angular/core'`,
+      `import { mutationResource } from '../client'`,
+      `import { ${service} } from '../sdk'`,
+      ...this.generateTypeImports(op, []),
+      ``,
+      `export function ${hookName}() {`,
+      `  const service = inject(${service})`,
+      `  return mutationResource((${varFields.length > 0 ? `vars: { ${varFields.join('; ')} }` : ''}) => ${call})`,
+      `}`,
+      ``,
+    ]
+
+    return lines.join('\n')
+  }
+
+  /**
+   * Keeps the latest result in an `rxResource`, resubscribing when the
+   * variables change.
+   */
+  protected generateSubscriptionHookFile(
+    op: ApiOperation,
+    hookName: string,
+    _spec: ApiSpec,
+    _options: GeneratorOptions,
+  ): string {
+    const hasArgs = op.queryParams.length > 0
+    const paramsType = this.getParamsTypeName(op.operationId)
+    const service = this.getOperationServiceName(op)
+    const arg = hasArgs ? { name: 'variables', type: paramsType, call: 'variables' } : null
+
+    const lines: string[] = [
+      `/**`,
+      ` * ${op.summary || `SUBSCRIPTION ${op.path}`}`,
+      ` *`,
+      ` * GraphQL Subscription: \`${op.path}\``,
+      ` * Subscribes over the WebSocket shared by every subscription.`,
+      ...(op.deprecated ? [` * @deprecated`] : []),
+      ` * Generated by auto-api-hooks — do not edit manually.`,
+      ` */`,
+      `import { inject } from '@angular/core'`,
+      `import { rxResource } from '@angular/core/rxjs-interop'`,
+      `import { ${service} } from '../sdk'`,
+      ...(hasArgs ? [`import type { ${paramsType} } from '../types'`] : []),
+      ``,
+      `export function ${hookName}(${arg ? `variables: () => ${paramsType} | undefined` : ''}) {`,
+      `  const service = inject(${service})`,
+      `  return rxResource({`,
+      ...this.generateResourceOptions(arg, `service.${this.getSdkFunctionName(op)}(${arg ? 'variables' : ''})`),
+      `  })`,
+      `}`,
+      ``,
+    ]
+
+    return lines.join('\n')
+  }
+
+  /**
+   * Collects the events received so far in an `rxResource`, reopening the
+   * stream when the params change.
+   */
+  protected generateStreamHookFile(
+    op: ApiOperation,
+    hookName: string,
+    _spec: ApiSpec,
+    _options: GeneratorOptions,
+  ): string {
+    const responseType = this.getResponseTypeName(op.operationId)
+    const arg = this.getHelperArg(op)
+    const service = this.getOperationServiceName(op)
+    const call = `service.${this.getSdkFunctionName(op)}(${arg?.call ?? ''}).pipe(scan((events, event) => [...events, event], [] as ${responseType}[]))`
+
+    const lines: string[] = [
+      ...this.generateStreamFileHeader(op),
+      `import { inject } from '@angular/core'`,
+      `import { rxResource } from '@angular/core/rxjs-interop'`,
+      `import { scan } from 'rxjs'`,
+      `import { ${service} } from '../sdk'`,
+      ...this.generateTypeImports(op, [responseType]),
+      ``,
+      `export function ${hookName}(${arg ? `${arg.name}: () => ${arg.type} | undefined` : ''}) {`,
+      `  const service = inject(${service})`,
+      `  return rxResource({`,
+      ...this.generateResourceOptions(arg, call),
+      `  })`,
+      `}`,
+      ``,
+    ]
+
+    return lines.join('\n')
+  }
+
+  // ---------------------------------------------------------------------------
+  // Shared
+  // ---------------------------------------------------------------------------
+
+  /** Doc comment opening a helper file. */
+  protected generateFileHeader(op: ApiOperation): string[] {
+    return [
+      `/**`,
+      ` * ${op.summary || `${op.method} ${op.path}`}`,
+      ` *`,
+      ` * \`${op.method} ${op.path}\``,
+      ...(op.deprecated ? [` * @deprecated`] : []),
+      ` * Generated by auto-api-hooks — do not edit manually.`,
+      ` */`,
+    ]
+  }
+
+  /** Import of the params and body types a helper takes, then `extra`. */
+  protected generateTypeImports(op: ApiOperation, extra: string[]): string[] {
+    const hasParams = op.pathParams.length > 0 || op.queryParams.length > 0
+    const types = [
+      hasParams ? this.getParamsTypeName(op.operationId) : null,
+      op.requestBody ? this.getBodyTypeName(op.operationId) : null,
+      ...extra,
+    ].filter((t) => t && t !== 'Error')
+    return types.length > 0 ? [`import type { ${types.join(', ')} } from '../types'`] : []
+  }
+
+  /**
+   * The accessor a read or stream helper takes: the operation's params, or
+   * its params and body together when it has a body. `null` when it has neither.
+   */
+  protected getHelperArg(op: ApiOperation): HelperArg | null {
+    const hasParams = op.pathParams.length > 0 || op.queryParams.length > 0
+    const paramsType = this.getParamsTypeName(op.operationId)
+    if (!op.requestBody) return hasParams ? { name: 'params', type: paramsType, call: 'params' } : null
+
+    const bodyType = this.getBodyTypeName(op.operationId)
+    return {
+      name: 'request',
+      type: hasParams ? `{ params: ${paramsType}; body: ${bodyType} }` : `{ body: ${bodyType} }`,
+      call: hasParams ? 'request.params, request.body' : 'request.body',
+    }
+  }
+
+  /** `params` and `stream` options of an `rxResource` loading `call`. */
+  private generateResourceOptions(arg: HelperArg | null, call: string): string[] {
+    if (!arg) return [`    stream: () => ${call},`]
+    return [
+      arg.name === 'params' ? `    params,` : `    params: ${arg.name},`,
+      `    stream: ({ params${arg.name === 'params' ? '' : `: ${arg.name}`} }) => ${call},`,
+    ]
+  }
+
+  /** Class name of a tag group's service, e.g. `PetsService`. */
+  protected getServiceName(tag: string): string {
+    return `${toPascalCase(tag)}Service`
+  }
+
+  /** Class name of the service an operation's method is on, by its group in `groupByTag()`. */
+  protected getOperationServiceName(op: ApiOperation): string {
+    return this.getServiceName(op.tags[0] || 'default')
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * TanStack Angular Query generator.
+ *
+ * Generates the same services as the Angular generator, with `injectQuery`
+ * and `injectMutation` wrappers in place of the resource helpers for GET
+ * and write operations. Subscriptions and streams keep their resources.
+ *
+ * Params and options are taken as accessors, read inside the options
+ * accessor, so queries track the signals they read.
+ */
+import type { ApiOperation, ApiSpec } from '../ir/types'
+import type { GeneratorOptions } from './types'
+import type { GeneratedFile } from '../utils/file-writer'
+import { AngularGenerator } from './angular-generator'
+import { deriveCacheKeyFactories, emitQueryKeyFactories, getCacheKeyForOperation } from '../utils/cache-keys'
+
+const QUERY_PACKAGE = '@tanstack/angular-query-experimental'
+
+export class AngularQueryGenerator extends AngularGenerator {
+  protected hasMutationResource(): boolean {
+    return false
+  }
+
+  generate(spec: ApiSpec, options: GeneratorOptions): GeneratedFile[] {
+    const files = super.generate(spec, options)
+
+    // Add query keys file
+    files.push({
+      path: 'query-keys.ts',
+      content: emitQueryKeyFactories(deriveCacheKeyFactories(spec.operations), 'TanStack Angular Query'),
+    })
+
+    return files
+  }
+
+  protected generateBarrelIndex(
+    tagGroups: string[],
+    options: GeneratorOptions,
+    sdk = false,
+  ): GeneratedFile {
+    const base = super.generateBarrelIndex(tagGroups, options, sdk)
+    // Add query-keys export
+    const content = base.content.replace(
+      `export * from './client'`,
+      `export * from './client'\nexport * from './query-keys'`,
+    )
+    return { ...base, content }
+  }
+
+  protected generateHookFile(
+    op: ApiOperation,
+    hookName: string,
+    _spec: ApiSpec,
+    _options: GeneratorOptions,
+  ): string {
+    return this.isReadOperation(op)
+      ? this.generateInjectQuery(op, hookName)
+      : this.generateInjectMutation(op, hookName)
+  }
+
+  // ---------------------------------------------------------------------------
+  // injectQuery
+  // ---------------------------------------------------------------------------
+
+  private generateInjectQuery(op: ApiOperation, hookName: string): string {
+    const responseType = this.getResponseTypeName(op.operationId)
+    const dataType = this.getQueryDataType(op)
+    const errorType = this.getErrorType(op)
+    const arg = this.getHelperArg(op)
+    const service = this.getOperationServiceName(op)
+    const keyFactory = getCacheKeyForOperation(op).split('.')[0]
+    const bodiless = dataType !== responseType
+
+    // A body is keyed alongside the params, as the detail and list keys only hold params
+    let queryKey = getCacheKeyForOperation(op)
+    let call = ''
+    if (arg?.name === 'params') {
+      queryKey = getCacheKeyForOperation(op, 'params()')
+      call = 'params()'
+    } else if (arg) {
+      queryKey = `[...${getCacheKeyForOperation(op, 'request().params')}, request().body]`
+      call = arg.call.replace(/request\./g, 'request().')
+    }
+
+    const args = [
+      arg ? `${arg.name}: () => ${arg.type}` : '',
+      `options?: () => Partial<CreateQueryOptions<${dataType}, ${errorType}>>`,
+    ].filter(Boolean)
+
+    const lines: string[] = [
+      ...this.generateFileHeader(op),
+      `import { inject } from '@angular/core'`,
+      `import { injectQuery } from '${QUERY_PACKAGE}'`,
+      `import type { CreateQueryOptions } from '${QUERY_PACKAGE}'`,
+      `import { ${['fromEvent', 'lastValueFrom', ...(bodiless ? ['map'] : []), 'takeUntil'].join(', ')} } from 'rxjs'`,
+      `import { ${keyFactory} } from '../query-keys'`,
+      `import { ${service} } from '../sdk'`,
+      ...this.generateTypeImports(op, [responseType, this.getErrorTypeName(op)]),
+      ``,
+      `export function ${hookName}(${args.join(', ')}) {`,
+      `  const service = inject(${service})`,
+      `  return injectQuery<${dataType}, ${errorType}>(() => ({`,
+      `    queryKey: ${queryKey},`,
+      `    queryFn: ({ signal }) => lastValueFrom(`,
+      `      service.${this.getSdkFunctionName(op)}(${call}).pipe(${bodiless ? 'map(() => null), ' : ''}takeUntil(fromEvent(signal, 'abort'))),`,
+      `    ),`,
+      `    ...options?.(),`,
+      `  }))`,
+      `}`,
+      ``,
+    ]
+
+    return lines.join('\n')
+  }
+
+  // ---------------------------------------------------------------------------
+  // injectMutation
+  // ---------------------------------------------------------------------------
+
+  private generateInjectMutation(op: ApiOperation, hookName: string): string {
+    const paramsType = this.getParamsTypeName(op.operationId)
+    const responseType = this.getResponseTypeName(op.operationId)
+    const errorType = this.getErrorType(op)
+    const bodyType = op.requestBody ? this.getBodyTypeName(op.operationId) : null
+    const hasParams = op.pathParams.length > 0 || op.queryParams.length > 0
+    const service = this.getOperationServiceName(op)
+
+    // Build the mutation variables type
+    const varFields: string[] = []
+    if (hasParams) varFields.push(`params: ${paramsType}`)
+    if (bodyType) varFields.push(`body: ${bodyType}`)
+    const varsType = varFields.length > 0 ? `{ ${varFields.join('; ')} }` : 'void'
+    const call = [hasParams ? 'vars.params' : '', bodyType ? 'vars.body' : ''].filter(Boolean).join(', ')
+
+    const lines: string[] = [
+      ...this.generateFileHeader(op),
+      `import { inject } from '@angular/core'`,
+      `import { injectMutation } from '${QUERY_PACKAGE}'`,
+      `import type { CreateMutationOptions } from '${QUERY_PACKAGE}'`,
+      `import { lastValueFrom } from 'rxjs'`,
+      `import { ${service} } from '../sdk'`,
+      ...this.generateTypeImports(op, [responseType, this.getErrorTypeName(op)]),
+      ``,
+      `export function ${hookName}(options?: () => CreateMutationOptions<${responseType}, ${errorType}, ${varsType}>) {`,
+      `  const service = inject(${service})`,
+      `  return injectMutation<${responseType}, ${errorType}, ${varsType}>(() => ({`,
+      `    mutationFn: (${varFields.length > 0 ? 'vars' : ''}) => lastValueFrom(service.${this.getSdkFunctionName(op)}(${call})),`,
+      `    ...options?.(),`,
+      `  }))`,
+      `}`,
+      ``,
+    ]
+
+    return lines.join('\n')
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Apollo Client generator, for `@apollo/client` v3.8+. Hooks are imported
+ * from `@apollo/client/react`, documents from `@apollo/client`.
+ *
+ * Hooks wrap `useQuery`, `useMutation` and `useSubscription` with the
+ * operation's typed document, and return Apollo's own results, so data is
+ * read from and written to the normalized cache.
+ */
+import type { ApiOperation } from '../ir/types'
+import { GraphQLClientGenerator } from './graphql-client-generator'
+
+export class ApolloGenerator extends GraphQLClientGenerator {
+  protected getClientPackage(): string {
+    return '@apollo/client'
+  }
+
+  protected getLibraryName(): string {
+    return 'Apollo Client'
+  }
+
+  /**
+   * Entry point the React hooks and their option types are imported from,
+   * which keeps working where the root entry no longer exports them.
+   */
+  private getHooksPackage(): string {
+    return '@apollo/client/react'
+  }
+
+  protected generateQueryHook(op: ApiOperation, hookName: string): string[] {
+    return this.generateOperationHook(op, hookName, 'useQuery', 'QueryHookOptions')
+  }
+
+  /**
+   * Variables are passed to the returned mutate function, e.g.
+   * `createPet({ variables: { input } })`.
+   */
+  protected generateMutationHook(op: ApiOperation, hookName: string): string[] {
+    const optionsType = `MutationHookOptions<${this.getGraphQLDataType(op)}, ${this.getVariablesType(op) ?? 'Record<string, never>'}>`
+    return [
+      ...this.generateHookFileHeader(op, [
+        `import { useMutation } from '${this.getHooksPackage()}'`,
+        `import type { MutationHookOptions } from '${this.getHooksPackage()}'`,
+      ], this.getDocumentTypeImports(op)),
+      `export function ${hookName}(options?: ${optionsType}) {`,
+      `  return useMutation(${this.getDocumentName(op)}, options)`,
+      `}`,
+      ``,
+    ]
+  }
+
+  protected generateSubscriptionHook(op: ApiOperation, hookName: string): string[] {
+    return this.generateOperationHook(op, hookName, 'useSubscription', 'SubscriptionHookOptions')
+  }
+
+  /**
+   * A query or subscription hook taking the operation's variables, when it
+   * has any, followed by the rest of Apollo's options.
+   */
+  private generateOperationHook(op: ApiOperation, hookName: string, hook: string, optionsTypeName: string): string[] {
+    const variablesType = this.getVariablesType(op)
+    const optionsType = `${optionsTypeName}<${this.getGraphQLDataType(op)}, ${variablesType ?? 'Record<string, never>'}>`
+    const document = this.getDocumentName(op)
+
+    return [
+      ...this.generateHookFileHeader(op, [
+        `import { ${hook} } from '${this.getHooksPackage()}'`,
+        `import type { ${optionsTypeName} } from '${this.getHooksPackage()}'`,
+      ], this.getDocumentTypeImports(op)),
+      ...(variablesType
+        ? [
+            `export function ${hookName}(variables: ${variablesType}, options?: Omit<${optionsType}, 'variables'>) {`,
+            `  return ${hook}(${document}, { ...options, variables })`,
+          ]
+        : [
+            `export function ${hookName}(options?: ${optionsType}) {`,
+            `  return ${hook}(${document}, options)`,
+          ]),
+      `}`,
+      ``,
+    ]
+  }
+}
@@ -4,9 +4,10 @@
  * Generates React hooks using useState + useEffect + axios.
  */
 import type { ApiOperation, ApiSpec } from '../ir/types'
+import { getBodyEncoding, getResponseDecoding } from '../ir/helpers'
 import type { GeneratorOptions } from './types'
-import { BaseHookGenerator } from './base-generator'
-import { toPascalCase } from '../utils/naming'
+import { BaseHookGenerator, type OperationAuth } from './base-generator'
+import { toCamelCase } from '../utils/naming'
 
 export class AxiosGenerator extends BaseHookGenerator {
   protected generateClientConfig(spec: ApiSpec, options: GeneratorOptions) {
@@ -19,6 +20,7 @@ export class AxiosGenerator extends BaseHookGenerator {
         ` * Generated by auto-api-hooks — do not edit manually.`,
         ` */`,
         `import axios from 'axios'`,
+        `import type { AxiosProgressEvent } from 'axios'`,
         ``,
         `export const API_BASE_URL = '${baseUrl}'`,
         ``,
@@ -27,6 +29,17 @@ export class AxiosGenerator extends BaseHookGenerator {
         `  headers: { 'Content-Type': 'application/json' },`,
         `})`,
         ``,
+        ...this.generateApiErrorClass(),
+        ``,
+        `// Reject non-2xx responses with a typed ApiError carrying the decoded body`,
+        `apiClient.interceptors.response.use(undefined, (error: unknown) => {`,
+        `  if (axios.isAxiosError(error) && error.response) {`,
+        `    const { status, statusText, data } = error.response`,
+        `    return Promise.reject(new ApiError(status, data, \`HTTP \${status}: \${statusText}\`))`,
+        `  }`,
+        `  return Promise.reject(error)`,
+        `})`,
+        ``,
         `/**`,
         ` * Configure the API client.`,
         ` */`,
@@ -35,25 +48,214 @@ export class AxiosGenerator extends BaseHookGenerator {
         `  if (config.headers) Object.assign(apiClient.defaults.headers.common, config.headers)`,
         `}`,
         ``,
+        ...this.generateBodyEncoders(spec),
+        ...this.generateAuthSection(spec),
+        ...this.generateRequestSection(spec),
+        ...this.generateStreamClient(spec),
+        ...this.generateGraphQLSection(spec),
       ].join('\n'),
     }
   }
 
+  /**
+   * Sends requests through `apiClient`, so SDK functions share its base URL,
+   * headers and interceptors. Resolves to the response `data`.
+   */
+  protected generateRequestSection(spec: ApiSpec): string[] {
+    const hasAuth = (spec.securitySchemes ?? []).length > 0
+
+    const lines = [
+      `// ---------------------------------------------------------------------------`,
+      `// Requests`,
+      `// ---------------------------------------------------------------------------`,
+      ``,
+      `/** Per-request options every SDK function takes as its last argument. */`,
+      `export interface RequestOptions {`,
+      `  signal?: AbortSignal`,
+      `  /** Headers sent with this request only, on top of the client's. */`,
+      `  headers?: Record<string, string>`,
+      `  /** Reports the progress of multipart uploads. */`,
+      `  onUploadProgress?: (event: AxiosProgressEvent) => void`,
+      `}`,
+      ``,
+      `export interface ApiRequest extends RequestOptions {`,
+      `  method: string`,
+      `  /** Path with its params filled in, relative to the base URL. */`,
+      `  path: string`,
+      `  /** Query params. \`undefined\` values are left out. */`,
+      `  query?: Record<string, unknown>`,
+      `  body?: unknown`,
+      `  /** Read binary and text responses as-is instead of parsing JSON. */`,
+      `  responseType?: 'blob' | 'text'`,
+    ]
+    if (hasAuth) {
+      lines.push(
+        `  /** Security requirements, passed to \`resolveAuth()\`. */`,
+        `  security?: ReadonlyArray<ReadonlyArray<SecuritySchemeName>>`,
+      )
+    }
+    lines.push(
+      `}`,
+      ``,
+      `/**`,
+      ` * Send a request through \`apiClient\` and return the response data.`,
+      ` * Non-2xx responses reject with an \`ApiError\`.`,
+      ` */`,
+      `export async function request<T = unknown>(req: ApiRequest): Promise<T> {`,
+    )
+    if (hasAuth) lines.push(`  const auth = req.security ? await resolveAuth(req.security) : undefined`)
+    lines.push(
+      `  // The instance defaults to a JSON Content-Type, which would make axios`,
+      `  // re-serialize FormData / URLSearchParams bodies as JSON`,
+      `  const contentType = req.body instanceof FormData`,
+      `    ? 'multipart/form-data'`,
+      `    : req.body instanceof URLSearchParams ? 'application/x-www-form-urlencoded' : undefined`,
+      `  const res = await apiClient.request<T>({`,
+      `    method: req.method,`,
+      `    url: req.path,`,
+      hasAuth ? `    params: { ...req.query, ...auth?.query },` : `    params: req.query,`,
+      `    data: req.body,`,
+      `    headers: {`,
+      `      ...(contentType ? { 'Content-Type': contentType } : {}),`,
+    )
+    if (hasAuth) lines.push(`      ...auth?.headers,`)
+    lines.push(
+      `      ...req.headers,`,
+      `    },`,
+      `    responseType: req.responseType,`,
+      `    signal: req.signal,`,
+      `    onUploadProgress: req.onUploadProgress,`,
+      `  })`,
+      `  return res.data`,
+      `}`,
+      ``,
+    )
+    return lines
+  }
+
+  /**
+   * Axios cannot read a response as it streams in browsers, so streaming
+   * hooks use `fetch` with the axios instance's base URL and default headers.
+   */
+  private generateStreamClient(spec: ApiSpec): string[] {
+    if (!spec.operations.some((op) => op.streaming)) return []
+
+    return [
+      `/**`,
+      ` * Base URL and default headers of \`apiClient\`, for requests made with \`fetch\`.`,
+      ` */`,
+      `export function getClientConfig(): { baseUrl: string; headers: Record<string, string> } {`,
+      `  const headers: Record<string, string> = {}`,
+      `  for (const [key, value] of Object.entries(apiClient.defaults.headers.common)) {`,
+      `    if (typeof value === 'string') headers[key] = value`,
+      `  }`,
+      `  return { baseUrl: apiClient.defaults.baseURL ?? '', headers }`,
+      `}`,
+      ``,
+      ...this.generateCreateApiError(),
+      ``,
+      ...this.generateStreamSection(spec),
+    ]
+  }
+
+  protected getSubscriptionBaseUrl(): string {
+    return "apiClient.defaults.baseURL ?? ''"
+  }
+
+  /**
+   * Posts through `apiClient`, so GraphQL requests share its base URL,
+   * headers and interceptors.
+   */
+  protected generateGraphQLRequestFunction(): string[] {
+    return [
+      `/**`,
+      ` * POST a GraphQL document to the API and return its \`data\`.`,
+      ` */`,
+      `export async function graphqlRequest<TData>(request: GraphQLRequest): Promise<TData> {`,
+      `  const res = await apiClient.post<GraphQLResponse<TData>>(`,
+      `    '',`,
+      `    { query: request.query, variables: request.variables ?? {}, operationName: request.operationName },`,
+      `    {`,
+      `      headers: { Accept: 'application/graphql-response+json, application/json', ...request.headers },`,
+      `      signal: request.signal,`,
+      `      // GraphQL servers may answer with a non-2xx status and an \`errors\` body`,
+      `      validateStatus: () => true,`,
+      `    },`,
+      `  )`,
+      ``,
+      `  const result = res.data`,
+      `  if (result?.errors && result.errors.length > 0) {`,
+      `    throw new GraphQLRequestError(result.errors, (result.data ?? null) as Record<string, unknown> | null, res.status)`,
+      `  }`,
+      `  if (res.status < 200 || res.status >= 300 || !result?.data) {`,
+      `    throw new ApiError(res.status, result, \`HTTP \${res.status}: \${res.statusText}\`)`,
+      `  }`,
+      `  return result.data`,
+      `}`,
+      ``,
+    ]
+  }
+
+  /** Header pagination reads `fetch` `Headers`, which axios responses do not have. */
+  protected hasSdkPageFunction(): boolean {
+    return false
+  }
+
+  /**
+   * Axios serializes JSON bodies and parses responses itself, so the SDK
+   * function returns what `request()` resolves to.
+   */
+  protected generateSdkRequest(
+    op: ApiOperation,
+    auth: OperationAuth | null,
+    options: GeneratorOptions,
+  ): string[] {
+    const responseType = this.getResponseTypeName(op.operationId)
+    const fields = this.getSdkRequestFields(op, auth)
+    const call = [`request<${responseType}>({`, ...fields.map((l) => `  ${l}`), `  ...options,`, `})`]
+
+    if (getResponseDecoding(op.response) === 'none') return [`await ${call[0]}`, ...call.slice(1)]
+    if (this.validatesResponse(op, options)) {
+      return [
+        `const data = await ${call[0]}`,
+        ...call.slice(1),
+        `return ${toCamelCase(op.operationId)}ResponseSchema.parse(data) as ${responseType}`,
+      ]
+    }
+    return [`return ${call[0]}`, ...call.slice(1)]
+  }
+
+  /** JSON bodies are passed as-is; axios serializes them. */
+  protected getSdkRequestFields(op: ApiOperation, auth: OperationAuth | null): string[] {
+    const fields = [`method: '${op.method}',`, `path: ${this.getPathExpression(op)},`]
+    if (op.queryParams.length > 0) {
+      fields.push(`query: { ${op.queryParams.map((p) => `${p.name}: params.${p.name}`).join(', ')} },`)
+    }
+    if (op.requestBody) {
+      fields.push(getBodyEncoding(op.requestBody) === 'json' ? `body,` : `body: ${this.serializeBody(op, 'body')},`)
+    }
+    const responseTypeOption = this.getResponseTypeOption(op)
+    if (responseTypeOption) fields.push(`${responseTypeOption},`)
+    if (auth) fields.push(`security: ${auth.security},`)
+    return fields
+  }
+
   protected generateHookFile(
     op: ApiOperation,
     hookName: string,
     _spec: ApiSpec,
-    options: GeneratorOptions,
+    _options: GeneratorOptions,
   ): string {
     const paramsType = this.getParamsTypeName(op.operationId)
     const responseType = this.getResponseTypeName(op.operationId)
     const bodyType = op.requestBody ? this.getBodyTypeName(op.operationId) : null
+    const errorType = this.getErrorType(op)
     const hasParams = op.pathParams.length > 0 || op.queryParams.length > 0
     const isRead = this.isReadOperation(op)
 
     const imports: string[] = [
-      `import type { ${[paramsType, responseType, bodyType].filter(Boolean).join(', ')} } from '../types'`,
-      `import { apiClient } from '../client'`,
+      `import type { ${[hasParams ? paramsType : null, responseType, bodyType, this.getErrorTypeName(op)].filter((t) => t && t !== 'Error').join(', ')} } from '../types'`,
+      `import { ${this.getSdkFunctionName(op)} } from '../sdk'`,
     ]
 
     if (isRead) {
@@ -62,9 +264,8 @@ export class AxiosGenerator extends BaseHookGenerator {
       imports.unshift(`import { useState, useCallback } from 'react'`)
     }
 
-    if (options.zod) {
-      const schemaVar = `${toPascalCase(op.operationId).charAt(0).toLowerCase() + toPascalCase(op.operationId).slice(1)}ResponseSchema`
-      imports.push(`import { ${schemaVar} } from '../schemas'`)
+    if (this.isUpload(op)) {
+      imports.push(`import type { AxiosProgressEvent } from 'axios'`)
     }
 
     const lines: string[] = [
@@ -76,13 +277,14 @@ export class AxiosGenerator extends BaseHookGenerator {
       ` * Generated by auto-api-hooks — do not edit manually.`,
       ` */`,
       ...imports,
-      ``,
     ].filter(Boolean)
 
+    lines.push(``)
+
     if (isRead) {
-      lines.push(...this.generateReadHook(op, hookName, paramsType, responseType, hasParams, options))
+      lines.push(...this.generateReadHook(op, hookName, paramsType, responseType, errorType, hasParams))
     } else {
-      lines.push(...this.generateWriteHook(op, hookName, paramsType, responseType, bodyType, hasParams, options))
+      lines.push(...this.generateWriteHook(op, hookName, paramsType, responseType, bodyType, errorType, hasParams))
     }
 
     return lines.join('\n') + '\n'
@@ -93,37 +295,23 @@ export class AxiosGenerator extends BaseHookGenerator {
     hookName: string,
     paramsType: string,
     responseType: string,
+    errorType: string,
     hasParams: boolean,
-    options: GeneratorOptions,
   ): string[] {
     const paramArg = hasParams ? `params: ${paramsType}` : ''
     const args = [paramArg, `options?: { enabled?: boolean }`].filter(Boolean).join(', ')
-    const schemaVar = `${toPascalCase(op.operationId).charAt(0).toLowerCase() + toPascalCase(op.operationId).slice(1)}ResponseSchema`
-
-    let pathExpr = `'${op.path}'`
-    if (op.pathParams.length > 0) {
-      let tmpl = op.path
-      for (const p of op.pathParams) {
-        tmpl = tmpl.replace(`{${p.name}}`, `\${params.${p.name}}`)
-      }
-      pathExpr = `\`${tmpl}\``
-    }
-
-    const queryParams = op.queryParams.length > 0
-      ? `params: { ${op.queryParams.map((p) => `${p.name}: params.${p.name}`).join(', ')} },`
-      : ''
 
     return [
       `export interface ${hookName}Result {`,
       `  data: ${responseType} | null`,
-      `  error: Error | null`,
+      `  error: ${errorType} | null`,
       `  isLoading: boolean`,
       `  refetch: () => void`,
       `}`,
       ``,
       `export function ${hookName}(${args}): ${hookName}Result {`,
       `  const [data, setData] = useState<${responseType} | null>(null)`,
-      `  const [error, setError] = useState<Error | null>(null)`,
+      `  const [error, setError] = useState<${errorType} | null>(null)`,
       `  const [isLoading, setIsLoading] = useState(false)`,
       `  const cancelRef = useRef<(() => void) | null>(null)`,
       ``,
@@ -137,13 +325,8 @@ export class AxiosGenerator extends BaseHookGenerator {
       `    setError(null)`,
       ``,
       `    try {`,
-      `      const res = await apiClient.get<${responseType}>(${pathExpr}, {`,
-      queryParams ? `        ${queryParams}` : '',
-      `        signal: source.signal,`,
-      `      })`,
-      options.zod
-        ? `      const parsed = ${schemaVar}.parse(res.data)\n      setData(parsed as ${responseType})`
-        : `      setData(res.data)`,
+      `      const result = await ${this.getSdkCall(op, { options: '{ signal: source.signal }' })}`,
+      `      setData(result)`,
       `    } catch (err) {`,
       `      if (!source.signal.aborted) {`,
       `        setError(err instanceof Error ? err : new Error(String(err)))`,
@@ -161,7 +344,7 @@ export class AxiosGenerator extends BaseHookGenerator {
       ``,
       `  return { data, error, isLoading, refetch: fetchData }`,
       `}`,
-    ].filter(Boolean)
+    ]
   }
 
   private generateWriteHook(
@@ -170,33 +353,20 @@ export class AxiosGenerator extends BaseHookGenerator {
     paramsType: string,
     responseType: string,
     bodyType: string | null,
+    errorType: string,
     hasParams: boolean,
-    options: GeneratorOptions,
   ): string[] {
     const mutateArgs: string[] = []
     if (hasParams) mutateArgs.push(`params: ${paramsType}`)
     if (bodyType) mutateArgs.push(`body: ${bodyType}`)
+    const isUpload = this.isUpload(op)
+    if (isUpload) mutateArgs.push(`options?: { onUploadProgress?: (event: AxiosProgressEvent) => void }`)
     const mutateArgStr = mutateArgs.join(', ')
-    const schemaVar = `${toPascalCase(op.operationId).charAt(0).toLowerCase() + toPascalCase(op.operationId).slice(1)}ResponseSchema`
-
-    let pathExpr = `'${op.path}'`
-    if (op.pathParams.length > 0) {
-      let tmpl = op.path
-      for (const p of op.pathParams) {
-        tmpl = tmpl.replace(`{${p.name}}`, `\${params.${p.name}}`)
-      }
-      pathExpr = `\`${tmpl}\``
-    }
-
-    const methodLower = op.method.toLowerCase()
-    const axiosCall = bodyType
-      ? `apiClient.${methodLower}<${responseType}>(${pathExpr}, body)`
-      : `apiClient.${methodLower}<${responseType}>(${pathExpr})`
 
     return [
       `export interface ${hookName}Result {`,
       `  data: ${responseType} | null`,
-      `  error: Error | null`,
+      `  error: ${errorType} | null`,
       `  isLoading: boolean`,
       `  mutate: (${mutateArgStr}) => Promise<${responseType}>`,
       `  reset: () => void`,
@@ -204,7 +374,7 @@ export class AxiosGenerator extends BaseHookGenerator {
       ``,
       `export function ${hookName}(): ${hookName}Result {`,
       `  const [data, setData] = useState<${responseType} | null>(null)`,
-      `  const [error, setError] = useState<Error | null>(null)`,
+      `  const [error, setError] = useState<${errorType} | null>(null)`,
       `  const [isLoading, setIsLoading] = useState(false)`,
       ``,
       `  const mutate = useCallback(async (${mutateArgStr}): Promise<${responseType}> => {`,
@@ -212,10 +382,9 @@ export class AxiosGenerator extends BaseHookGenerator {
       `    setError(null)`,
       ``,
       `    try {`,
-      `      const res = await ${axiosCall}`,
-      options.zod
-        ? `      const parsed = ${schemaVar}.parse(res.data)\n      setData(parsed as ${responseType})\n      return parsed as ${responseType}`
-        : `      setData(res.data)\n      return res.data`,
+      `      const result = await ${this.getSdkCall(op, { options: isUpload ? 'options' : undefined })}`,
+      `      setData(result)`,
+      `      return result`,
       `    } catch (err) {`,
       `      const error = err instanceof Error ? err : new Error(String(err))`,
       `      setError(error)`,
@@ -235,4 +404,21 @@ export class AxiosGenerator extends BaseHookGenerator {
       `}`,
     ]
   }
+
+  /** Whether the operation uploads a multipart body, so its `mutate` reports progress. */
+  private isUpload(op: ApiOperation): boolean {
+    return !!op.requestBody && getBodyEncoding(op.requestBody) === 'form-data'
+  }
+
+  /** Axios `responseType` option for binary and text responses, which are not JSON-parsed. */
+  private getResponseTypeOption(op: ApiOperation): string | null {
+    switch (getResponseDecoding(op.response)) {
+      case 'blob':
+        return `responseType: 'blob'`
+      case 'text':
+        return `responseType: 'text'`
+      default:
+        return null
+    }
+  }
 }
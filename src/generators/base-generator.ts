@@ -4,13 +4,23 @@
  * Provides shared functionality: type file generation, grouping by tags,
  * barrel index generation, client config.
  */
-import type { ApiSpec, ApiOperation } from '../ir/types'
+import type { ApiSpec, ApiOperation, PaginationInfo } from '../ir/types'
+import { getBodyEncoding, getResponseDecoding, isTextEventStream, usesPageHeaders } from '../ir/helpers'
 import type { HookGenerator, GeneratorOptions } from './types'
 import type { GeneratedFile } from '../utils/file-writer'
+import { renderTemplate } from '../templates/index'
+import type { HookTemplateKind, OperationView, Templates } from '../templates/types'
 import { emitTypeScriptTypes } from '../type-gen/typescript-emitter'
 import { emitZodSchemas } from '../type-gen/zod-emitter'
-import { toKebabCase, toPascalCase, getHookName } from '../utils/naming'
+import { toCamelCase, toKebabCase, toPascalCase, getHookName } from '../utils/naming'
 import { logger } from '../utils/logger'
+import { deriveCacheKeyFactories, getInvalidatedQueryKeys } from '../utils/cache-keys'
+
+/** Authentication an operation's fetcher performs. See `getOperationAuth()`. */
+export interface OperationAuth {
+  security: string
+  query: boolean
+}
 
 export abstract class BaseHookGenerator implements HookGenerator {
   /**
@@ -33,8 +43,20 @@ export abstract class BaseHookGenerator implements HookGenerator {
       })
     }
 
+    const templates = { ...this.getDefaultTemplates(), ...options.templates }
+
     // 3. Generate client config
-    files.push(this.generateClientConfig(spec, options))
+    files.push({
+      path: 'client.ts',
+      content: renderTemplate('client', templates.client, {
+        title: spec.title,
+        baseUrl: options.baseUrl || spec.baseUrl || '',
+        fetcher: options.fetcher,
+        securitySchemes: spec.securitySchemes ?? [],
+        spec,
+        options,
+      }),
+    })
 
     // 4. Detect hook name collisions before generating
     this.detectHookNameCollisions(spec.operations)
@@ -42,7 +64,11 @@ export abstract class BaseHookGenerator implements HookGenerator {
     // 5. Group operations by tag
     const groups = this.groupByTag(spec.operations)
 
-    // 6. Generate hook files per group
+    // 6. Generate SDK functions per group
+    const sdkFiles = this.generateSdkFiles(groups, spec, options)
+    files.push(...sdkFiles)
+
+    // 7. Generate hook files per group
     const hookExports: string[] = []
 
     for (const [tag, operations] of groups) {
@@ -51,12 +77,45 @@ export abstract class BaseHookGenerator implements HookGenerator {
       hookExports.push(tag)
     }
 
-    // 7. Generate barrel index
-    files.push(this.generateBarrelIndex(hookExports, options))
+    // 8. Generate barrel index
+    files.push({
+      path: 'index.ts',
+      content: renderTemplate('barrel', templates.barrel, {
+        fetcher: options.fetcher,
+        groups: hookExports.map(toKebabCase),
+        zod: options.zod,
+        sdk: sdkFiles.length > 0,
+        options,
+      }),
+    })
 
     return files
   }
 
+  /**
+   * The templates this generator renders files with. A `templates` option
+   * replaces them one by one; each can also be called from an override to
+   * render the default file for a (changed) view-model.
+   */
+  getDefaultTemplates(): Required<Templates> {
+    const renderHook = (view: OperationView) =>
+      this.generateHookFile(view.operation, view.hookName, view.spec, view.options)
+
+    return {
+      queryHook: renderHook,
+      mutationHook: renderHook,
+      infiniteHook: (view) =>
+        this.generateInfiniteHookFile(view.operation, view.hookName, view.spec, view.options) ?? '',
+      subscriptionHook: (view) =>
+        this.generateSubscriptionHookFile(view.operation, view.hookName, view.spec, view.options),
+      streamHook: (view) =>
+        this.generateStreamHookFile(view.operation, view.hookName, view.spec, view.options),
+      client: (view) =>
+        this.generateClientConfig(view.spec, { ...view.options, baseUrl: view.baseUrl }).content,
+      barrel: (view) => this.generateBarrelIndex(view.groups, view.options, view.sdk).content,
+    }
+  }
+
   /**
    * Generate hooks for a single tag group.
    * Subclasses implement generateHookFile for each operation.
@@ -72,94 +131,1489 @@ export abstract class BaseHookGenerator implements HookGenerator {
     const exportNames: string[] = []
 
     for (const op of operations) {
-      const hookName = getHookName(op.operationId, op.method, op.path)
-      const fileName = toKebabCase(hookName.replace(/^use/, ''))
+      const hookName = this.getOperationHookName(op)
+      const fileName = this.getHookFileName(hookName)
+
+      // Streaming operations only get a stream hook
+      if (op.streaming) {
+        const streamName = `${hookName}Stream`
+        files.push(this.renderHookFile('streamHook', op, streamName, tag, `${tagDir}/${fileName}-stream.ts`, spec, options))
+        exportNames.push(streamName)
+        continue
+      }
 
       // Route subscription operations to dedicated generator
-      let hookFile: string
+      let kind: HookTemplateKind
       if (this.isSubscriptionOperation(op)) {
-        hookFile = this.generateSubscriptionHookFile(op, hookName, spec, options)
+        kind = 'subscriptionHook'
       } else {
-        hookFile = this.generateHookFile(op, hookName, spec, options)
+        kind = this.isReadOperation(op) ? 'queryHook' : 'mutationHook'
       }
 
-      files.push({
-        path: `${tagDir}/${fileName}.ts`,
-        content: hookFile,
-      })
+      files.push(this.renderHookFile(kind, op, hookName, tag, `${tagDir}/${fileName}.ts`, spec, options))
 
       exportNames.push(hookName)
 
       // Generate infinite query variant if applicable
       if (options.infiniteQueries && op.pagination && this.supportsInfiniteQueries()) {
         const infiniteName = `${hookName}Infinite`
-        const infiniteFile = this.generateInfiniteHookFile(op, infiniteName, spec, options)
-        if (infiniteFile) {
-          files.push({
-            path: `${tagDir}/${fileName}-infinite.ts`,
-            content: infiniteFile,
-          })
-          exportNames.push(infiniteName)
-        }
+        files.push(this.renderHookFile('infiniteHook', op, infiniteName, tag, `${tagDir}/${fileName}-infinite.ts`, spec, options))
+        exportNames.push(infiniteName)
       }
     }
 
     // Group barrel index
     const groupExports = exportNames
-      .map((name) => {
-        const fileName = toKebabCase(name.replace(/^use/, ''))
-        return `export { ${name} } from './${fileName}'`
-      })
+      .map((name) => `export { ${name} } from './${this.getHookFileName(name)}'`)
       .join('\n')
 
-    files.push({
-      path: `${tagDir}/index.ts`,
-      content: `${groupExports}\n`,
-    })
+    files.push({
+      path: `${tagDir}/index.ts`,
+      content: `${groupExports}\n`,
+    })
+
+    return files
+  }
+
+  /**
+   * Render a hook file with its template, or this generator's default.
+   */
+  protected renderHookFile(
+    kind: HookTemplateKind,
+    op: ApiOperation,
+    hookName: string,
+    tag: string,
+    path: string,
+    spec: ApiSpec,
+    options: GeneratorOptions,
+  ): GeneratedFile {
+    const template = options.templates?.[kind] ?? this.getDefaultTemplates()[kind]
+    const view = this.getOperationView(op, hookName, tag, path, spec, options)
+    return { path, content: renderTemplate(kind, template, view) }
+  }
+
+  /**
+   * Build the view-model templates receive for a hook file.
+   */
+  protected getOperationView(
+    op: ApiOperation,
+    hookName: string,
+    tag: string,
+    filePath: string,
+    spec: ApiSpec,
+    options: GeneratorOptions,
+  ): OperationView {
+    const hasParams = op.pathParams.length > 0 || op.queryParams.length > 0
+
+    return {
+      operation: op,
+      operationId: op.operationId,
+      hookName,
+      filePath,
+      tag,
+      method: op.method,
+      path: op.path,
+      summary: op.summary,
+      deprecated: op.deprecated,
+      fetcher: options.fetcher,
+      paramsType: hasParams ? this.getParamsTypeName(op.operationId) : null,
+      bodyType: op.requestBody ? this.getBodyTypeName(op.operationId) : null,
+      responseType: this.getResponseTypeName(op.operationId),
+      errorType: this.getErrorTypeName(op),
+      responseSchema: options.zod ? `${toCamelCase(op.operationId)}ResponseSchema` : null,
+      authenticated: this.getOperationAuth(op, spec) !== null,
+      sdkFunction: this.hasSdkFunction(op) ? this.getSdkFunctionName(op) : null,
+      sdkImport: '../sdk',
+      clientImport: '../client',
+      typesImport: '../types',
+      spec,
+      options,
+    }
+  }
+
+  /**
+   * Generate the base API client configuration file.
+   */
+  protected generateClientConfig(spec: ApiSpec, options: GeneratorOptions): GeneratedFile {
+    const baseUrl = options.baseUrl || spec.baseUrl || ''
+    return {
+      path: 'client.ts',
+      content: [
+        `/**`,
+        ` * API client configuration.`,
+        ` * Generated by auto-api-hooks — do not edit manually.`,
+        ` */`,
+        ``,
+        `export const API_BASE_URL = '${baseUrl}'`,
+        ``,
+        `export interface ClientConfig {`,
+        `  baseUrl: string`,
+        `  headers?: Record<string, string>`,
+        `}`,
+        ``,
+        `let _config: ClientConfig = {`,
+        `  baseUrl: API_BASE_URL,`,
+        `}`,
+        ``,
+        `/**`,
+        ` * Configure the API client.`,
+        ` */`,
+        `export function configureClient(config: Partial<ClientConfig>): void {`,
+        `  _config = { ..._config, ...config }`,
+        `}`,
+        ``,
+        `/**`,
+        ` * Get the current client configuration.`,
+        ` */`,
+        `export function getClientConfig(): ClientConfig {`,
+        `  return _config`,
+        `}`,
+        ``,
+        ...this.generateApiErrorClass(),
+        ``,
+        ...this.generateCreateApiError(),
+        ``,
+        ...this.generateBodyEncoders(spec),
+        ...this.generateAuthSection(spec),
+        ...this.generateRequestSection(spec),
+        ...this.generateStreamSection(spec),
+        ...this.generatePageHeaderSection(spec),
+        ...this.generateGraphQLSection(spec),
+      ].join('\n'),
+    }
+  }
+
+  /**
+   * Lines declaring `toFormData()` / `toUrlEncoded()`, which serialize form
+   * request bodies. Each is only emitted when some operation needs it.
+   */
+  protected generateBodyEncoders(spec: ApiSpec): string[] {
+    const encodings = new Set(
+      spec.operations.filter((op) => op.requestBody).map((op) => getBodyEncoding(op.requestBody!)),
+    )
+    const lines: string[] = []
+
+    if (encodings.has('form-data')) {
+      lines.push(
+        `/**`,
+        ` * Serialize a request body as \`multipart/form-data\`. Files and blobs are sent`,
+        ` * as-is, arrays as repeated fields and nested objects as JSON.`,
+        ` */`,
+        `export function toFormData(body: object): FormData {`,
+        `  const form = new FormData()`,
+        `  for (const [key, value] of Object.entries(body)) {`,
+        `    if (value === undefined || value === null) continue`,
+        `    for (const item of Array.isArray(value) ? value : [value]) {`,
+        `      form.append(key, item instanceof Blob ? item : typeof item === 'object' ? JSON.stringify(item) : String(item))`,
+        `    }`,
+        `  }`,
+        `  return form`,
+        `}`,
+        ``,
+      )
+    }
+    if (encodings.has('url-encoded')) {
+      lines.push(
+        `/**`,
+        ` * Serialize a request body as \`application/x-www-form-urlencoded\`. Arrays are`,
+        ` * sent as repeated fields and nested objects as JSON.`,
+        ` */`,
+        `export function toUrlEncoded(body: object): URLSearchParams {`,
+        `  const params = new URLSearchParams()`,
+        `  for (const [key, value] of Object.entries(body)) {`,
+        `    if (value === undefined || value === null) continue`,
+        `    for (const item of Array.isArray(value) ? value : [value]) {`,
+        `      params.append(key, typeof item === 'object' ? JSON.stringify(item) : String(item))`,
+        `    }`,
+        `  }`,
+        `  return params`,
+        `}`,
+        ``,
+      )
+    }
+
+    return lines
+  }
+
+  /**
+   * Lines declaring `readEventStream()`, which parses a `text/event-stream`
+   * body into Server-Sent Events for the streaming hooks. Empty when no
+   * operation streams.
+   */
+  protected generateStreamSection(spec: ApiSpec): string[] {
+    if (!spec.operations.some((op) => op.streaming)) return []
+
+    return [
+      `// ---------------------------------------------------------------------------`,
+      `// Server-Sent Events`,
+      `// ---------------------------------------------------------------------------`,
+      ``,
+      `/** A single Server-Sent Event. */`,
+      `export interface ServerSentEvent {`,
+      `  /** Event type; \`message\` when the frame names none. */`,
+      `  event: string`,
+      `  /** Event data, with multi-line \`data\` fields joined by newlines. */`,
+      `  data: string`,
+      `  id?: string`,
+      `  /** Reconnection delay requested by the server, in milliseconds. */`,
+      `  retry?: number`,
+      `}`,
+      ``,
+      `/** Lifecycle of a streaming request. */`,
+      `export type StreamStatus = 'idle' | 'connecting' | 'streaming' | 'done' | 'aborted' | 'error'`,
+      ``,
+      `/**`,
+      ` * Read a \`text/event-stream\` response body, yielding each event as soon as`,
+      ` * its frame is complete. Comment lines and frames without data are skipped.`,
+      ` */`,
+      `export async function* readEventStream(res: Response): AsyncGenerator<ServerSentEvent> {`,
+      `  if (!res.body) return`,
+      `  const reader = res.body.getReader()`,
+      `  const decoder = new TextDecoder()`,
+      `  let buffer = ''`,
+      `  try {`,
+      `    while (true) {`,
+      `      const { done, value } = await reader.read()`,
+      `      if (done) return`,
+      `      buffer += decoder.decode(value, { stream: true })`,
+      `      const frames = buffer.split(/\\r\\n\\r\\n|\\n\\n|\\r\\r/)`,
+      `      buffer = frames.pop() ?? ''`,
+      `      for (const frame of frames) {`,
+      `        const event = parseEventFrame(frame)`,
+      `        if (event) yield event`,
+      `      }`,
+      `    }`,
+      `  } finally {`,
+      `    reader.releaseLock()`,
+      `  }`,
+      `}`,
+      ``,
+      `function parseEventFrame(frame: string): ServerSentEvent | null {`,
+      `  const event: ServerSentEvent = { event: 'message', data: '' }`,
+      `  const data: string[] = []`,
+      `  for (const line of frame.split(/\\r\\n|\\n|\\r/)) {`,
+      `    if (!line || line.startsWith(':')) continue`,
+      `    const colon = line.indexOf(':')`,
+      `    const field = colon === -1 ? line : line.slice(0, colon)`,
+      `    let value = colon === -1 ? '' : line.slice(colon + 1)`,
+      `    if (value.startsWith(' ')) value = value.slice(1)`,
+      `    if (field === 'event') event.event = value`,
+      `    else if (field === 'data') data.push(value)`,
+      `    else if (field === 'id') event.id = value`,
+      `    else if (field === 'retry' && /^\\d+$/.test(value)) event.retry = Number(value)`,
+      `  }`,
+      `  if (data.length === 0) return null`,
+      `  event.data = data.join('\\n')`,
+      `  return event`,
+      `}`,
+      ``,
+    ]
+  }
+
+  /**
+   * Lines declaring `PageWithHeaders` and `readPageHeader()`, for infinite
+   * hooks that page through response headers. Empty when no operation does.
+   */
+  protected generatePageHeaderSection(spec: ApiSpec): string[] {
+    if (!spec.operations.some((op) => op.pagination && usesPageHeaders(op.pagination))) return []
+
+    return [
+      `// ---------------------------------------------------------------------------`,
+      `// Header pagination`,
+      `// ---------------------------------------------------------------------------`,
+      ``,
+      `/** A page of an infinite hook that pages through response headers. */`,
+      `export interface PageWithHeaders<T> {`,
+      `  data: T`,
+      `  headers: Headers`,
+      `}`,
+      ``,
+      `/**`,
+      ` * Read a page param from a response header. A \`Link\` header gives \`param\``,
+      ` * from the query string of its \`rel\` URL (\`next\` by default); any other`,
+      ` * header holds the value itself.`,
+      ` */`,
+      `export function readPageHeader(headers: Headers, name: string, param: string, rel = 'next'): string | undefined {`,
+      `  const value = headers.get(name)`,
+      `  if (!value) return undefined`,
+      `  if (name.toLowerCase() !== 'link') return value`,
+      `  for (const [, url, attributes] of value.matchAll(/<([^>]*)>([^,]*)/g)) {`,
+      `    const rels = /;\\s*rel="?([^";]*)"?/i.exec(attributes)?.[1].split(/\\s+/) ?? []`,
+      `    if (rels.includes(rel)) return new URL(url, 'http://localhost').searchParams.get(param) ?? undefined`,
+      `  }`,
+      `  return undefined`,
+      `}`,
+      ``,
+    ]
+  }
+
+  /**
+   * Lines declaring `graphqlRequest()` and `GraphQLRequestError`, which
+   * GraphQL hooks use to POST their document. Empty when no operation comes
+   * from a GraphQL schema.
+   */
+  protected generateGraphQLSection(spec: ApiSpec): string[] {
+    if (!spec.operations.some((op) => op.graphql)) return []
+
+    return [
+      `// ---------------------------------------------------------------------------`,
+      `// GraphQL`,
+      `// ---------------------------------------------------------------------------`,
+      ``,
+      `/** An entry of a GraphQL response's \`errors\` array. */`,
+      `export interface GraphQLError {`,
+      `  message: string`,
+      `  locations?: { line: number; column: number }[]`,
+      `  path?: (string | number)[]`,
+      `  extensions?: Record<string, unknown>`,
+      `}`,
+      ``,
+      `/**`,
+      ` * Error thrown when a GraphQL response carries \`errors\`. \`data\` holds any`,
+      ` * partial result the server returned alongside them.`,
+      ` */`,
+      `export class GraphQLRequestError extends Error {`,
+      `  readonly errors: GraphQLError[]`,
+      `  readonly data: Record<string, unknown> | null`,
+      `  readonly status: number`,
+      ``,
+      `  constructor(errors: GraphQLError[], data: Record<string, unknown> | null, status: number) {`,
+      `    super(errors.map((e) => e.message).join('\\n'))`,
+      `    this.name = 'GraphQLRequestError'`,
+      `    this.errors = errors`,
+      `    this.data = data`,
+      `    this.status = status`,
+      `  }`,
+      `}`,
+      ``,
+      `export interface GraphQLRequest {`,
+      `  query: string`,
+      `  operationName: string`,
+      `  variables?: object`,
+      `  signal?: AbortSignal`,
+      `  headers?: Record<string, string>`,
+      `}`,
+      ``,
+      `interface GraphQLResponse<TData> {`,
+      `  data?: TData | null`,
+      `  errors?: GraphQLError[]`,
+      `}`,
+      ``,
+      ...this.generateGraphQLRequestFunction(),
+      ...this.generateSubscriptionClient(spec),
+    ]
+  }
+
+  /**
+   * Lines declaring `subscribe()`, the WebSocket client shared by every
+   * subscription hook. It multiplexes subscriptions over one socket using
+   * `graphql-transport-ws`, or the legacy `subscriptions-transport-ws`
+   * protocol when configured. Empty when the spec has no subscriptions.
+   */
+  protected generateSubscriptionClient(spec: ApiSpec): string[] {
+    if (!spec.operations.some((op) => op.method === 'SUBSCRIPTION')) return []
+
+    return [
+      `// ---------------------------------------------------------------------------`,
+      `// GraphQL subscriptions`,
+      `// ---------------------------------------------------------------------------`,
+      ``,
+      `/**`,
+      ` * WebSocket subprotocol: \`graphql-transport-ws\` (the \`graphql-ws\` library), or`,
+      ` * \`graphql-ws\` for servers still on the legacy \`subscriptions-transport-ws\`.`,
+      ` */`,
+      `export type SubscriptionProtocol = 'graphql-transport-ws' | 'graphql-ws'`,
+      ``,
+      `export interface SubscriptionConfig {`,
+      `  /** WebSocket URL. Defaults to the client's base URL with \`http\` replaced by \`ws\`. */`,
+      `  url?: string`,
+      `  protocol: SubscriptionProtocol`,
+      `  /** \`connection_init\` payload, e.g. an auth token. Functions are called on every connect. */`,
+      `  connectionParams?: Record<string, unknown> | (() => Record<string, unknown> | Promise<Record<string, unknown>>)`,
+      `  /** Reconnect attempts after the connection drops, before subscriptions fail. */`,
+      `  retryAttempts: number`,
+      `  /** Milliseconds to wait before reconnect attempt \`attempt\` (from 0). */`,
+      `  retryDelay: (attempt: number) => number`,
+      `  /** Milliseconds between client pings (\`graphql-transport-ws\` only). 0 disables them. */`,
+      `  keepAlive: number`,
+      `}`,
+      ``,
+      `export interface SubscriptionSink<TData> {`,
+      `  next: (data: TData) => void`,
+      `  error: (error: Error) => void`,
+      `  complete: () => void`,
+      `  /** Called when the subscription is sent, again after each reconnect. */`,
+      `  start?: () => void`,
+      `}`,
+      ``,
+      `let _subscriptionConfig: SubscriptionConfig = {`,
+      `  protocol: 'graphql-transport-ws',`,
+      `  retryAttempts: 5,`,
+      `  retryDelay: (attempt) => Math.min(1000 * 2 ** attempt, 30_000) + Math.random() * 1000,`,
+      `  keepAlive: 0,`,
+      `}`,
+      ``,
+      `/**`,
+      ` * Configure the subscription client. Takes effect on the next connection.`,
+      ` */`,
+      `export function configureSubscriptions(config: Partial<SubscriptionConfig>): void {`,
+      `  _subscriptionConfig = { ..._subscriptionConfig, ...config }`,
+      `}`,
+      ``,
+      `/** Close codes after which reconnecting cannot succeed. */`,
+      `const FATAL_CLOSE_CODES = new Set([1002, 1011, 4400, 4401, 4403, 4406, 4409, 4429, 4500])`,
+      ``,
+      `interface ActiveSubscription {`,
+      `  request: Omit<GraphQLRequest, 'signal'>`,
+      `  sink: SubscriptionSink<unknown>`,
+      `}`,
+      ``,
+      `interface SubscriptionMessage {`,
+      `  type: string`,
+      `  id?: string`,
+      `  payload?: unknown`,
+      `}`,
+      ``,
+      `const _subscriptions = new Map<string, ActiveSubscription>()`,
+      `let _socket: WebSocket | null = null`,
+      `let _acknowledged = false`,
+      `let _nextId = 0`,
+      `let _retryTimer: ReturnType<typeof setTimeout> | undefined`,
+      `let _pingTimer: ReturnType<typeof setInterval> | undefined`,
+      ``,
+      `function getSubscriptionUrl(): string {`,
+      `  if (_subscriptionConfig.url) return _subscriptionConfig.url`,
+      `  const base = ${this.getSubscriptionBaseUrl()}`,
+      `  const url = typeof location === 'undefined' ? new URL(base) : new URL(base, location.href)`,
+      `  url.protocol = url.protocol.replace(/^http/, 'ws')`,
+      `  return url.toString()`,
+      `}`,
+      ``,
+      `function sendMessage(message: SubscriptionMessage): void {`,
+      `  _socket?.send(JSON.stringify(message))`,
+      `}`,
+      ``,
+      `function startSubscription(id: string, subscription: ActiveSubscription): void {`,
+      `  const type = _subscriptionConfig.protocol === 'graphql-transport-ws' ? 'subscribe' : 'start'`,
+      `  sendMessage({ id, type, payload: subscription.request })`,
+      `  subscription.sink.start?.()`,
+      `}`,
+      ``,
+      `/** Forgets a subscription the server ended, closing the socket after the last. */`,
+      `function endSubscription(id: string): void {`,
+      `  _subscriptions.delete(id)`,
+      `  if (_subscriptions.size === 0) closeSubscriptions()`,
+      `}`,
+      ``,
+      `function handleMessage(message: SubscriptionMessage): void {`,
+      `  const subscription = message.id ? _subscriptions.get(message.id) : undefined`,
+      `  switch (message.type) {`,
+      `    case 'connection_ack':`,
+      `      _acknowledged = true`,
+      `      for (const [id, active] of _subscriptions) startSubscription(id, active)`,
+      `      break`,
+      `    case 'ping':`,
+      `      sendMessage({ type: 'pong', payload: message.payload })`,
+      `      break`,
+      `    case 'next':`,
+      `    case 'data': {`,
+      `      const { data, errors } = (message.payload ?? {}) as GraphQLResponse<unknown>`,
+      `      if (errors && errors.length > 0) {`,
+      `        subscription?.sink.error(new GraphQLRequestError(errors, (data ?? null) as Record<string, unknown> | null, 0))`,
+      `      } else if (data) {`,
+      `        subscription?.sink.next(data)`,
+      `      }`,
+      `      break`,
+      `    }`,
+      `    case 'error': {`,
+      `      // An array of errors in graphql-transport-ws, a single error in the legacy protocol`,
+      `      const errors = (Array.isArray(message.payload) ? message.payload : [message.payload]) as GraphQLError[]`,
+      `      endSubscription(message.id!)`,
+      `      subscription?.sink.error(new GraphQLRequestError(errors, null, 0))`,
+      `      break`,
+      `    }`,
+      `    case 'complete':`,
+      `      endSubscription(message.id!)`,
+      `      subscription?.sink.complete()`,
+      `      break`,
+      `    case 'connection_error':`,
+      `      _socket?.close(4403, 'Forbidden')`,
+      `      break`,
+      `  }`,
+      `}`,
+      ``,
+      `/** Opens the shared socket. \`attempt\` counts reconnects since the last acknowledged connection. */`,
+      `function connectSubscriptions(attempt = 0): void {`,
+      `  _retryTimer = undefined`,
+      `  const config = _subscriptionConfig`,
+      `  const socket = new WebSocket(getSubscriptionUrl(), config.protocol)`,
+      `  _socket = socket`,
+      `  _acknowledged = false`,
+      ``,
+      `  socket.onopen = async () => {`,
+      `    try {`,
+      `      const params = config.connectionParams`,
+      `      const payload = typeof params === 'function' ? await params() : params`,
+      `      if (_socket === socket) sendMessage({ type: 'connection_init', payload })`,
+      `    } catch {`,
+      `      socket.close(4403, 'Forbidden')`,
+      `    }`,
+      `    if (config.protocol === 'graphql-transport-ws' && config.keepAlive > 0) {`,
+      `      _pingTimer = setInterval(() => sendMessage({ type: 'ping' }), config.keepAlive)`,
+      `    }`,
+      `  }`,
+      ``,
+      `  socket.onmessage = (event) => {`,
+      `    if (_socket !== socket) return`,
+      `    try {`,
+      `      handleMessage(JSON.parse(event.data as string) as SubscriptionMessage)`,
+      `    } catch {`,
+      `      socket.close(4400, 'Invalid message')`,
+      `    }`,
+      `  }`,
+      ``,
+      `  socket.onclose = (event) => {`,
+      `    clearInterval(_pingTimer)`,
+      `    if (_socket !== socket) return`,
+      `    // A connection the server acknowledged starts over from the first retry`,
+      `    const retry = _acknowledged ? 0 : attempt`,
+      `    _socket = null`,
+      `    _acknowledged = false`,
+      `    if (_subscriptions.size === 0) return`,
+      ``,
+      `    if (FATAL_CLOSE_CODES.has(event.code) || retry >= config.retryAttempts) {`,
+      `      const error = new Error(\`Subscription connection closed: \${event.code} \${event.reason}\`.trim())`,
+      `      const failed = [..._subscriptions.values()]`,
+      `      _subscriptions.clear()`,
+      `      for (const { sink } of failed) sink.error(error)`,
+      `      return`,
+      `    }`,
+      `    _retryTimer = setTimeout(() => connectSubscriptions(retry + 1), config.retryDelay(retry))`,
+      `  }`,
+      `}`,
+      ``,
+      `function closeSubscriptions(): void {`,
+      `  clearTimeout(_retryTimer)`,
+      `  _retryTimer = undefined`,
+      `  const socket = _socket`,
+      `  _socket = null`,
+      `  _acknowledged = false`,
+      `  socket?.close(1000, 'Normal Closure')`,
+      `}`,
+      ``,
+      `/**`,
+      ` * Subscribe to a GraphQL subscription. Subscriptions share one WebSocket,`,
+      ` * opened by the first and closed after the last, which reconnects with`,
+      ` * backoff and resubscribes when the connection drops.`,
+      ` *`,
+      ` * @returns A function that stops the subscription.`,
+      ` */`,
+      `export function subscribe<TData>(`,
+      `  request: Omit<GraphQLRequest, 'signal'>,`,
+      `  sink: SubscriptionSink<TData>,`,
+      `): () => void {`,
+      `  const id = String(++_nextId)`,
+      `  const subscription: ActiveSubscription = { request, sink: sink as SubscriptionSink<unknown> }`,
+      `  _subscriptions.set(id, subscription)`,
+      `  if (_acknowledged) startSubscription(id, subscription)`,
+      `  else if (!_socket && !_retryTimer) connectSubscriptions()`,
+      ``,
+      `  return () => {`,
+      `    if (!_subscriptions.delete(id)) return`,
+      `    if (_acknowledged) {`,
+      `      sendMessage({ id, type: _subscriptionConfig.protocol === 'graphql-transport-ws' ? 'complete' : 'stop' })`,
+      `    }`,
+      `    if (_subscriptions.size === 0) closeSubscriptions()`,
+      `  }`,
+      `}`,
+      ``,
+    ]
+  }
+
+  /**
+   * Expression for the base URL subscription WebSockets connect to, before
+   * `http` is replaced by `ws`.
+   */
+  protected getSubscriptionBaseUrl(): string {
+    return 'getClientConfig().baseUrl'
+  }
+
+  /**
+   * Lines declaring `graphqlRequest()`, which POSTs a document to the client's
+   * base URL. Throws `GraphQLRequestError` when the response has `errors`, and
+   * `ApiError` for other failed responses.
+   */
+  protected generateGraphQLRequestFunction(): string[] {
+    return [
+      `/**`,
+      ` * POST a GraphQL document to the API and return its \`data\`.`,
+      ` */`,
+      `export async function graphqlRequest<TData>(request: GraphQLRequest): Promise<TData> {`,
+      `  const config = getClientConfig()`,
+      `  const res = await fetch(config.baseUrl, {`,
+      `    method: 'POST',`,
+      `    headers: {`,
+      `      'Content-Type': 'application/json',`,
+      `      Accept: 'application/graphql-response+json, application/json',`,
+      `      ...config.headers,`,
+      `      ...request.headers,`,
+      `    },`,
+      `    body: JSON.stringify({`,
+      `      query: request.query,`,
+      `      variables: request.variables ?? {},`,
+      `      operationName: request.operationName,`,
+      `    }),`,
+      `    signal: request.signal,`,
+      `  })`,
+      ``,
+      `  if (!res.ok && !res.headers.get('Content-Type')?.includes('json')) throw await createApiError(res)`,
+      ``,
+      `  const result = (await res.json()) as GraphQLResponse<TData>`,
+      `  if (result.errors && result.errors.length > 0) {`,
+      `    throw new GraphQLRequestError(result.errors, (result.data ?? null) as Record<string, unknown> | null, res.status)`,
+      `  }`,
+      `  if (!res.ok || !result.data) {`,
+      `    throw new ApiError(res.status, result, \`HTTP \${res.status}: \${res.statusText}\`)`,
+      `  }`,
+      `  return result.data`,
+      `}`,
+      ``,
+    ]
+  }
+
+  /**
+   * Lines declaring a GraphQL operation's document as `name`, placed before
+   * the hook or SDK function using it. Empty for other operations.
+   */
+  protected generateGraphQLDocument(op: ApiOperation, name = 'document'): string[] {
+    if (!op.graphql) return []
+    return [`const ${name} = /* GraphQL */ \``, ...this.getGraphQLDocumentBody(op), `\``, ``]
+  }
+
+  /**
+   * Lines of a GraphQL operation's document, indented and escaped for a
+   * template literal.
+   */
+  protected getGraphQLDocumentBody(op: ApiOperation): string[] {
+    return op.graphql!.document
+      .replace(/\\/g, '\\\\')
+      .replace(/`/g, '\\`')
+      .replace(/\$\{/g, '\\${')
+      .split('\n')
+      .map((line) => (line ? `  ${line}` : line))
+  }
+
+  /**
+   * Expression executing a GraphQL operation through `graphqlRequest()` and
+   * reading its root field, or its whole `data` for operations from documents.
+   * The SDK function's `options` are spread into the request.
+   *
+   * @param document - Name of the constant holding the document.
+   * @param variables - Expression holding the variables, or `null` when there are none.
+   */
+  protected getGraphQLCall(op: ApiOperation, document: string, variables: string | null): string {
+    const { operationName, field } = op.graphql!
+    const request = [`query: ${document}`, `operationName: '${operationName}'`]
+    if (variables) request.push(`variables: ${variables}`)
+    request.push('...options')
+    const call = `await graphqlRequest<${this.getGraphQLDataType(op)}>({ ${request.join(', ')} })`
+    return field ? `(${call}).${field}` : call
+  }
+
+  /**
+   * Type of a GraphQL operation's `data`: the response type under its root
+   * field, or the response type itself for operations from documents.
+   */
+  protected getGraphQLDataType(op: ApiOperation): string {
+    const responseType = this.getResponseTypeName(op.operationId)
+    const field = op.graphql?.field
+    return field ? `{ ${field}: ${responseType} }` : responseType
+  }
+
+  /**
+   * Expression reading a GraphQL operation's result from `data`, e.g.
+   * `data.petCreated`, or `data` itself for operations from documents.
+   *
+   * @param optional - Use optional chaining, for `data` that may be missing.
+   */
+  protected getGraphQLResult(op: ApiOperation, data: string, optional = false): string {
+    const field = op.graphql?.field
+    if (!field) return data
+    return `${data}${optional ? '?.' : '.'}${field}`
+  }
+
+  /**
+   * Invalidation of the queries a subscription makes stale, run in `next`
+   * with its result in `value`: the keys of its `x-invalidates` paths, or
+   * those returned by an `invalidate` option, which `false` turns off. Other
+   * queries are left alone. Shared by the TanStack Query generators.
+   *
+   * @param variables - Expression holding the subscription's variables.
+   * @returns The `invalidate` option's type, the key factories to import and
+   *   the lines, indented for the body of `next`.
+   */
+  protected getSubscriptionInvalidation(
+    op: ApiOperation,
+    spec: ApiSpec,
+    variables: string,
+    indent: string,
+  ): { option: string; keyFactories: string[]; lines: string[] } {
+    const responseType = this.getResponseTypeName(op.operationId)
+    const queryKeys = getInvalidatedQueryKeys(op, deriveCacheKeyFactories(spec.operations), variables)
+    const invalidate = (keys: string) => `${keys}.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }))`
+
+    const lines = queryKeys.length > 0
+      ? [
+          `if (options?.invalidate !== false) {`,
+          `  const queryKeys = options?.invalidate ? options.invalidate(value) : [${queryKeys.join(', ')}]`,
+          `  ${invalidate('queryKeys')}`,
+          `}`,
+        ]
+      : [
+          `if (options?.invalidate) {`,
+          `  ${invalidate('options.invalidate(value)')}`,
+          `}`,
+        ]
+
+    return {
+      option: `invalidate?: false | ((data: ${responseType}) => QueryKey[])`,
+      keyFactories: [...new Set(queryKeys.map((key) => key.split('.')[0]))],
+      lines: lines.map((l) => `${indent}${l}`),
+    }
+  }
+
+  /**
+   * SDK function lines executing a GraphQL operation and returning its result,
+   * validated against the response schema when Zod is enabled.
+   */
+  protected generateGraphQLReturnBody(
+    op: ApiOperation,
+    document: string,
+    variables: string | null,
+    options: GeneratorOptions,
+  ): string[] {
+    const call = this.getGraphQLCall(op, document, variables)
+    if (options.zod) {
+      const responseType = this.getResponseTypeName(op.operationId)
+      return [
+        `const data = ${call}`,
+        `return ${toCamelCase(op.operationId)}ResponseSchema.parse(data) as ${responseType}`,
+      ]
+    }
+    return [`return ${call}`]
+  }
+
+  /**
+   * Expression serializing an operation's request body for sending, e.g.
+   * `JSON.stringify(body)` or `toFormData(body)`.
+   */
+  protected serializeBody(op: ApiOperation, bodyExpr: string): string {
+    switch (getBodyEncoding(op.requestBody!)) {
+      case 'form-data':
+        return `toFormData(${bodyExpr})`
+      case 'url-encoded':
+        return `toUrlEncoded(${bodyExpr})`
+      case 'json':
+        return `JSON.stringify(${bodyExpr})`
+    }
+  }
+
+  /**
+   * `Response` method reading an operation's success body, chosen by content
+   * type: `res.json()`, `res.text()` or `res.blob()`. `null` when the
+   * response has no body (204, 205 or no declared content), or for event
+   * streams, which are read with `readEventStream()`.
+   */
+  protected getResponseReader(op: ApiOperation): string | null {
+    switch (getResponseDecoding(op.response)) {
+      case 'none':
+      case 'stream':
+        return null
+      case 'blob':
+        return 'res.blob()'
+      case 'text':
+        return 'res.text()'
+      case 'json':
+        return 'res.json()'
+    }
+  }
+
+  /**
+   * Whether the hook validates the response with its Zod schema. Responses
+   * without a body have nothing to validate.
+   */
+  protected validatesResponse(op: ApiOperation, options: GeneratorOptions): boolean {
+    return options.zod && getResponseDecoding(op.response) !== 'none'
+  }
+
+  /**
+   * SDK function lines reading `res` and returning the decoded body, validated
+   * against the operation's response schema when Zod is enabled.
+   */
+  protected generateReturnBody(op: ApiOperation, options: GeneratorOptions): string[] {
+    const responseType = this.getResponseTypeName(op.operationId)
+    const reader = this.getResponseReader(op)
+    if (!reader) return []
+
+    if (options.zod) {
+      const schemaVar = `${toCamelCase(op.operationId)}ResponseSchema`
+      return [
+        `const data = await ${reader}`,
+        `return ${schemaVar}.parse(data) as ${responseType}`,
+      ]
+    }
+    return [`return (await ${reader}) as ${responseType}`]
+  }
+
+  /**
+   * The `Content-Type` entry a `fetch` call spreads into its headers. Empty for
+   * form bodies, whose header `fetch` derives from the `FormData` /
+   * `URLSearchParams` body (including the multipart boundary).
+   */
+  protected getContentTypeHeader(op: ApiOperation): string {
+    if (op.requestBody && getBodyEncoding(op.requestBody) !== 'json') return ''
+    return `'Content-Type': 'application/json', `
+  }
+
+  /**
+   * Lines declaring `setAuth()` and `resolveAuth()` for the spec's security
+   * schemes. Empty when the spec declares no supported schemes.
+   *
+   * Generated fetchers call `resolveAuth()` with their operation's security
+   * requirements, so credentials are only sent where the spec asks for them.
+   */
+  protected generateAuthSection(spec: ApiSpec): string[] {
+    const schemes = spec.securitySchemes ?? []
+    if (schemes.length === 0) return []
+
+    const hasBearer = schemes.some((s) => s.type === 'bearer')
+    const hasBasic = schemes.some((s) => s.type === 'basic')
+    const apiKeySchemes = schemes.filter((s) => s.type === 'apiKey')
+    const keyLocations = [...new Set(apiKeySchemes.map((s) => s.in!))]
+
+    const schemeEntries = schemes.map((s) =>
+      s.type === 'apiKey'
+        ? `  ${quote(s.name)}: { type: 'apiKey', in: '${s.in}', name: ${quote(s.paramName!)} },`
+        : `  ${quote(s.name)}: { type: '${s.type}' },`,
+    )
+
+    const lines: string[] = [
+      `// ---------------------------------------------------------------------------`,
+      `// Authentication`,
+      `// ---------------------------------------------------------------------------`,
+      ``,
+      `const SECURITY_SCHEMES = {`,
+      ...schemeEntries,
+      `} as const`,
+      ``,
+      `export type SecuritySchemeName = keyof typeof SECURITY_SCHEMES`,
+      ``,
+      `/**`,
+      ` * A credential, or a function returning one. Functions are called on every`,
+      ` * request and may be async, e.g. to refresh an expired token.`,
+      ` */`,
+      `export type Credential = string | (() => string | undefined | Promise<string | undefined>)`,
+      ``,
+      `export interface AuthConfig {`,
+    ]
+
+    if (hasBearer) {
+      lines.push(`  /** Bearer token, sent as \`Authorization: Bearer <token>\`. */`, `  bearer?: Credential`)
+    }
+    if (apiKeySchemes.length > 0) {
+      const names = apiKeySchemes.map((s) => quote(s.name)).join(' | ')
+      lines.push(
+        `  /** API key, either one for every API key scheme or one per scheme name. */`,
+        `  apiKey?: Credential | Partial<Record<${names}, Credential>>`,
+      )
+    }
+    if (hasBasic) {
+      lines.push(`  /** HTTP basic credentials. */`, `  basic?: { username: string; password: string }`)
+    }
+
+    lines.push(
+      `}`,
+      ``,
+      `export interface ResolvedAuth {`,
+      `  headers: Record<string, string>`,
+      `  query: Record<string, string>`,
+      `}`,
+      ``,
+      `let _auth: AuthConfig = {}`,
+      ``,
+      `/**`,
+      ` * Set the credentials sent to operations that require them.`,
+      ` * Replaces any previously set credentials.`,
+      ` */`,
+      `export function setAuth(auth: AuthConfig): void {`,
+      `  _auth = auth`,
+      `}`,
+      ``,
+      `async function resolveCredential(credential: Credential | undefined): Promise<string | undefined> {`,
+      `  return typeof credential === 'function' ? await credential() : credential`,
+      `}`,
+      ``,
+      `/**`,
+      ` * Resolve the credentials for an operation's security requirements. Each`,
+      ` * requirement lists schemes that must all be satisfied; the first requirement`,
+      ` * whose credentials are all set is used. An empty requirement (optional`,
+      ` * auth) is only used when none of the others can be satisfied.`,
+      ` */`,
+      `export async function resolveAuth(`,
+      `  security: ReadonlyArray<ReadonlyArray<SecuritySchemeName>>,`,
+      `): Promise<ResolvedAuth> {`,
+      `  requirements: for (const requirement of security) {`,
+      `    if (requirement.length === 0) continue`,
+      `    const auth: ResolvedAuth = { headers: {}, query: {} }`,
+      `    for (const name of requirement) {`,
+      `      const scheme = SECURITY_SCHEMES[name]`,
+      `      switch (scheme.type) {`,
+    )
+
+    if (hasBearer) {
+      lines.push(
+        `        case 'bearer': {`,
+        `          const token = await resolveCredential(_auth.bearer)`,
+        `          if (!token) continue requirements`,
+        `          auth.headers['Authorization'] = \`Bearer \${token}\``,
+        `          break`,
+        `        }`,
+      )
+    }
+    if (hasBasic) {
+      lines.push(
+        `        case 'basic': {`,
+        `          if (!_auth.basic) continue requirements`,
+        `          const { username, password } = _auth.basic`,
+        `          auth.headers['Authorization'] = \`Basic \${btoa(\`\${username}:\${password}\`)}\``,
+        `          break`,
+        `        }`,
+      )
+    }
+    if (apiKeySchemes.length > 0) {
+      lines.push(
+        `        case 'apiKey': {`,
+        `          const apiKey = _auth.apiKey`,
+        `          const key = await resolveCredential(`,
+        `            typeof apiKey === 'object' ? (apiKey as Partial<Record<string, Credential>>)[name] : apiKey,`,
+        `          )`,
+        `          if (!key) continue requirements`,
+      )
+      // Only compare against locations that occur, or tsc flags the comparison
+      const single = keyLocations.length === 1
+      for (const location of keyLocations) {
+        const indent = single ? '          ' : '            '
+        if (!single) lines.push(`          if (scheme.in === '${location}') {`)
+        if (location === 'header') {
+          lines.push(`${indent}auth.headers[scheme.name] = key`)
+        } else if (location === 'query') {
+          lines.push(`${indent}auth.query[scheme.name] = key`)
+        } else {
+          lines.push(
+            `${indent}// Browsers forbid setting the Cookie header and send their own cookies`,
+            `${indent}if (!('document' in globalThis)) {`,
+            `${indent}  const cookie = \`\${scheme.name}=\${encodeURIComponent(key)}\``,
+            `${indent}  auth.headers['Cookie'] = auth.headers['Cookie'] ? \`\${auth.headers['Cookie']}; \${cookie}\` : cookie`,
+            `${indent}}`,
+          )
+        }
+        if (!single) lines.push(`          }`)
+      }
+      lines.push(
+        `          break`,
+        `        }`,
+      )
+    }
+
+    lines.push(
+      `      }`,
+      `    }`,
+      `    return auth`,
+      `  }`,
+      `  return { headers: {}, query: {} }`,
+      `}`,
+      ``,
+    )
+
+    if (keyLocations.includes('query')) {
+      lines.push(
+        `/**`,
+        ` * Append query-string credentials from \`resolveAuth()\` to a URL.`,
+        ` */`,
+        `export function appendQuery(url: string, query: Record<string, string>): string {`,
+        `  const qs = new URLSearchParams(query).toString()`,
+        `  if (!qs) return url`,
+        `  return url + (url.includes('?') ? '&' : '?') + qs`,
+        `}`,
+        ``,
+      )
+    }
+
+    return lines
+  }
+
+  /**
+   * Lines declaring `request()`, which every REST SDK function sends its
+   * request through: it builds the URL, resolves credentials, merges headers
+   * and turns non-2xx responses into an `ApiError`.
+   */
+  protected generateRequestSection(spec: ApiSpec): string[] {
+    const hasAuth = (spec.securitySchemes ?? []).length > 0
+
+    const lines = [
+      `// ---------------------------------------------------------------------------`,
+      `// Requests`,
+      `// ---------------------------------------------------------------------------`,
+      ``,
+      `/** Per-request options every SDK function takes as its last argument. */`,
+      `export interface RequestOptions {`,
+      `  signal?: AbortSignal`,
+      `  /** Headers sent with this request only, on top of the client's. */`,
+      `  headers?: Record<string, string>`,
+      `}`,
+      ``,
+      `export interface ApiRequest extends RequestOptions {`,
+      `  method: string`,
+      `  /** Path with its params filled in, relative to the base URL. */`,
+      `  path: string`,
+      `  /** Query params. \`undefined\` values are left out. */`,
+      `  query?: Record<string, unknown>`,
+      `  body?: BodyInit`,
+    ]
+    if (hasAuth) {
+      lines.push(
+        `  /** Security requirements, passed to \`resolveAuth()\`. */`,
+        `  security?: ReadonlyArray<ReadonlyArray<SecuritySchemeName>>`,
+      )
+    }
+    lines.push(
+      `}`,
+      ``,
+      `/**`,
+      ` * Send a request to the API. Throws an \`ApiError\` for non-2xx responses.`,
+      ` */`,
+      `export async function request(req: ApiRequest): Promise<Response> {`,
+      `  const config = getClientConfig()`,
+    )
+    if (hasAuth) lines.push(`  const auth = req.security ? await resolveAuth(req.security) : undefined`)
+    lines.push(
+      `  const query = new URLSearchParams()`,
+      `  for (const [key, value] of Object.entries(req.query ?? {})) {`,
+      `    if (value !== undefined) query.set(key, String(value))`,
+      `  }`,
+    )
+    if (hasAuth) lines.push(`  for (const [key, value] of Object.entries(auth?.query ?? {})) query.set(key, value)`)
+    lines.push(
+      `  const qs = query.toString()`,
+      ``,
+      `  // Form bodies get their Content-Type (and multipart boundary) from fetch`,
+      `  const form = req.body instanceof FormData || req.body instanceof URLSearchParams`,
+      `  const res = await fetch(\`\${config.baseUrl}\${req.path}\${qs ? \`?\${qs}\` : ''}\`, {`,
+      `    method: req.method,`,
+      `    headers: {`,
+      `      ...(form ? {} : { 'Content-Type': 'application/json' }),`,
+      `      ...config.headers,`,
+    )
+    if (hasAuth) lines.push(`      ...auth?.headers,`)
+    lines.push(
+      `      ...req.headers,`,
+      `    },`,
+      `    body: req.body,`,
+      `    signal: req.signal,`,
+      `  })`,
+      ``,
+      `  if (!res.ok) throw await createApiError(res)`,
+      `  return res`,
+      `}`,
+      ``,
+    )
+    return lines
+  }
+
+  /**
+   * How an operation authenticates, or `null` when it needs no credentials.
+   *
+   * `security` is the source literal passed to `resolveAuth()`, e.g.
+   * `[['bearerAuth'], ['apiKeyAuth']]`. Requirements without schemes (optional
+   * auth) go last so credentials are sent whenever they are set. `query` is
+   * true when one of the schemes sends its key in the query string.
+   */
+  protected getOperationAuth(op: ApiOperation, spec: ApiSpec): OperationAuth | null {
+    const security = op.security ?? []
+    if (security.every((requirement) => requirement.length === 0)) return null
+
+    const ordered = [
+      ...security.filter((requirement) => requirement.length > 0),
+      ...security.filter((requirement) => requirement.length === 0),
+    ]
+    const names = new Set(security.flat())
+
+    return {
+      security: `[${ordered.map((requirement) => `[${requirement.map(quote).join(', ')}]`).join(', ')}]`,
+      query: (spec.securitySchemes ?? []).some(
+        (s) => names.has(s.name) && s.type === 'apiKey' && s.in === 'query',
+      ),
+    }
+  }
+
+  /** The `client.ts` helper, if any, that serializes the operation's body. */
+  protected getBodyEncoderImports(op: ApiOperation): string[] {
+    if (!op.requestBody) return []
+    const encoding = getBodyEncoding(op.requestBody)
+    if (encoding === 'form-data') return ['toFormData']
+    if (encoding === 'url-encoded') return ['toUrlEncoded']
+    return []
+  }
+
+  /**
+   * Fetcher lines resolving the operation's credentials (if it has any) and
+   * building `url` with the module's `buildUrl()`. Query-string credentials are
+   * appended to the URL.
+   */
+  protected generateRequestSetup(hasParams: boolean, auth: OperationAuth | null): string[] {
+    const buildUrl = `buildUrl(config.baseUrl, ${hasParams ? 'params' : 'undefined'})`
+    if (!auth) return [`const url = ${buildUrl}`]
+
+    return [
+      `const auth = await resolveAuth(${auth.security})`,
+      auth.query
+        ? `const url = appendQuery(${buildUrl}, auth.query)`
+        : `const url = ${buildUrl}`,
+    ]
+  }
+
+  /**
+   * Lines declaring a module-level `buildUrl()` that fills in the operation's
+   * path parameters and query string.
+   */
+  protected generateBuildUrl(op: ApiOperation): string[] {
+    const hasPathParams = op.pathParams.length > 0
+    const hasQueryParams = op.queryParams.length > 0
+    const paramsType = this.getParamsTypeName(op.operationId)
+    const hasAnyParams = hasPathParams || hasQueryParams
+
+    if (!hasAnyParams) {
+      return [
+        `function buildUrl(baseUrl: string, _params: undefined): string {`,
+        `  return \`\${baseUrl}${op.path}\``,
+        `}`,
+      ]
+    }
+
+    let pathTemplate = op.path
+    for (const p of op.pathParams) {
+      pathTemplate = pathTemplate.replace(`{${p.name}}`, `\${params.${p.name}}`)
+    }
+
+    const lines: string[] = [
+      `function buildUrl(baseUrl: string, params: ${paramsType}): string {`,
+      `  let url = \`\${baseUrl}${pathTemplate}\``,
+    ]
+
+    if (hasQueryParams) {
+      lines.push(
+        `  const query = new URLSearchParams()`,
+      )
+      for (const p of op.queryParams) {
+        lines.push(
+          `  if (params.${p.name} !== undefined) query.set('${p.name}', String(params.${p.name}))`,
+        )
+      }
+      lines.push(
+        `  const qs = query.toString()`,
+        `  if (qs) url += \`?\${qs}\``,
+      )
+    }
+
+    lines.push(
+      `  return url`,
+      `}`,
+    )
+
+    return lines
+  }
+
+  /**
+   * Lines declaring the runtime `ApiError` class thrown for non-2xx responses.
+   * Operation error unions in `types.ts` are built from it.
+   */
+  protected generateApiErrorClass(): string[] {
+    return [
+      `/**`,
+      ` * Error thrown for non-2xx responses. Narrow on \`status\` to get a typed \`body\`.`,
+      ` */`,
+      `export class ApiError<TStatus extends number = number, TBody = unknown> extends Error {`,
+      `  readonly status: TStatus`,
+      `  readonly body: TBody`,
+      ``,
+      `  constructor(status: TStatus, body: TBody, message: string) {`,
+      `    super(message)`,
+      `    this.name = 'ApiError'`,
+      `    this.status = status`,
+      `    this.body = body`,
+      `  }`,
+      `}`,
+    ]
+  }
+
+  /**
+   * Lines declaring `createApiError()`, which fetch-based fetchers use to turn
+   * a non-2xx `Response` into an `ApiError`.
+   */
+  protected generateCreateApiError(): string[] {
+    return [
+      `/**`,
+      ` * Build an \`ApiError\` from a non-2xx response, decoding a JSON body when present.`,
+      ` */`,
+      `export async function createApiError(res: Response): Promise<ApiError> {`,
+      `  const text = await res.text()`,
+      `  let body: unknown = text || undefined`,
+      `  try {`,
+      `    if (text) body = JSON.parse(text)`,
+      `  } catch {`,
+      `    // Not JSON — keep the raw text`,
+      `  }`,
+      `  return new ApiError(res.status, body, \`HTTP \${res.status}: \${res.statusText}\`)`,
+      `}`,
+    ]
+  }
+
+  /**
+   * Generate the `sdk/` layer: one file per tag group of plain async
+   * functions, one per operation, and an `sdk/index.ts` barrel. Hooks call
+   * these functions, so the same requests can be made outside React.
+   * Streaming and subscription operations have no SDK function.
+   */
+  protected generateSdkFiles(
+    groups: Map<string, ApiOperation[]>,
+    spec: ApiSpec,
+    options: GeneratorOptions,
+  ): GeneratedFile[] {
+    const files: GeneratedFile[] = []
+    const modules: string[] = []
+
+    for (const [tag, operations] of groups) {
+      const sdkOperations = operations.filter((op) => this.hasSdkFunction(op))
+      if (sdkOperations.length === 0) continue
+      const module = toKebabCase(tag)
+      files.push({
+        path: `sdk/${module}.ts`,
+        content: this.generateSdkFile(tag, sdkOperations, spec, options),
+      })
+      modules.push(module)
+    }
+
+    if (modules.length > 0) {
+      files.push({
+        path: 'sdk/index.ts',
+        content: `${modules.map((module) => `export * from './${module}'`).join('\n')}\n`,
+      })
+    }
+    return files
+  }
+
+  /** Whether an operation gets an SDK function. */
+  protected hasSdkFunction(op: ApiOperation): boolean {
+    return !op.streaming && !this.isSubscriptionOperation(op)
+  }
+
+  /** Name of an operation's SDK function, e.g. `getPetById`. */
+  protected getSdkFunctionName(op: ApiOperation): string {
+    return toCamelCase(op.operationId)
+  }
+
+  /**
+   * Name of the SDK function returning a page of a header-paginated
+   * operation along with its response headers, e.g. `listReposPage`.
+   */
+  protected getSdkPageFunctionName(op: ApiOperation): string {
+    return `${this.getSdkFunctionName(op)}Page`
+  }
+
+  /** Whether an operation gets an SDK page function. See `getSdkPageFunctionName()`. */
+  protected hasSdkPageFunction(op: ApiOperation): boolean {
+    return !op.graphql && !!op.pagination && usesPageHeaders(op.pagination)
+  }
+
+  /**
+   * Generate the SDK file of a tag group.
+   */
+  protected generateSdkFile(
+    tag: string,
+    operations: ApiOperation[],
+    spec: ApiSpec,
+    options: GeneratorOptions,
+  ): string {
+    const clientImports = new Set<string>()
+    const clientTypeImports = new Set<string>(['RequestOptions'])
+    const typeImports = new Set<string>()
+    const schemaImports = new Set<string>()
+    const functions: string[] = []
+
+    for (const op of operations) {
+      const auth = this.getOperationAuth(op, spec)
+      if (op.graphql) {
+        clientImports.add('graphqlRequest')
+      } else {
+        clientImports.add('request')
+        for (const name of this.getBodyEncoderImports(op)) clientImports.add(name)
+      }
+      if (this.hasSdkPageFunction(op)) clientTypeImports.add('PageWithHeaders')
+      if (op.pathParams.length > 0 || op.queryParams.length > 0) typeImports.add(this.getParamsTypeName(op.operationId))
+      if (op.requestBody) typeImports.add(this.getBodyTypeName(op.operationId))
+      typeImports.add(this.getResponseTypeName(op.operationId))
+      if (this.validatesResponse(op, options)) schemaImports.add(`${toCamelCase(op.operationId)}ResponseSchema`)
+
+      functions.push(``, ...this.generateSdkFunction(op, auth, options))
+      if (this.hasSdkPageFunction(op)) functions.push(``, ...this.generateSdkFunction(op, auth, options, true))
+    }
+
+    const lines = [
+      `/**`,
+      ` * API functions for the \`${tag}\` tag.`,
+      ` * Generated by auto-api-hooks — do not edit manually.`,
+      ` */`,
+      `import { ${[...clientImports].join(', ')} } from '../client'`,
+      `import type { ${[...clientTypeImports].join(', ')} } from '../client'`,
+      `import type { ${[...typeImports].join(', ')} } from '../types'`,
+    ]
+    if (schemaImports.size > 0) lines.push(`import { ${[...schemaImports].join(', ')} } from '../schemas'`)
+    lines.push(...functions, ``)
+    return lines.join('\n')
+  }
+
+  /**
+   * Lines declaring an operation's SDK function, taking its params, body and
+   * per-request `RequestOptions` in that order.
+   *
+   * @param page - Declare the page function instead, returning a `PageWithHeaders`.
+   */
+  protected generateSdkFunction(
+    op: ApiOperation,
+    auth: OperationAuth | null,
+    options: GeneratorOptions,
+    page = false,
+  ): string[] {
+    const name = page ? this.getSdkPageFunctionName(op) : this.getSdkFunctionName(op)
+    const responseType = this.getResponseTypeName(op.operationId)
+    const hasParams = op.pathParams.length > 0 || op.queryParams.length > 0
+    const args = [
+      hasParams ? `params: ${this.getParamsTypeName(op.operationId)}` : '',
+      op.requestBody ? `body: ${this.getBodyTypeName(op.operationId)}` : '',
+      `options?: RequestOptions`,
+    ].filter(Boolean)
+    const returnType = page ? `PageWithHeaders<${responseType}>` : responseType
+
+    const lines = [
+      `/**`,
+      ` * ${op.summary || `${op.method} ${op.path}`}${page ? ', along with the response headers' : ''}`,
+      ` *`,
+      ` * \`${op.method} ${op.path}\``,
+      op.deprecated ? ` * @deprecated` : '',
+      ` */`,
+      `export async function ${name}(${args.join(', ')}): Promise<${returnType}> {`,
+    ].filter(Boolean)
+    lines.unshift(...this.generateGraphQLDocument(op, `${name}Document`))
+
+    if (op.graphql) {
+      const variables = op.requestBody ? 'body' : hasParams ? 'params' : null
+      lines.push(...this.generateGraphQLReturnBody(op, `${name}Document`, variables, options).map((l) => `  ${l}`))
+    } else {
+      lines.push(...this.generateSdkRequest(op, auth, options, page).map((l) => `  ${l}`))
+    }
+    lines.push(`}`)
+    return lines
+  }
+
+  /**
+   * SDK function lines sending a REST operation's request through the
+   * client's `request()` and returning the decoded response.
+   */
+  protected generateSdkRequest(
+    op: ApiOperation,
+    auth: OperationAuth | null,
+    options: GeneratorOptions,
+    page: boolean,
+  ): string[] {
+    const reader = this.getResponseReader(op)
+    const returns = page && op.pagination
+      ? this.generatePageReturnBody(op, op.pagination, options)
+      : this.generateReturnBody(op, options)
+    return [
+      `${reader || page ? 'const res = ' : ''}await request({`,
+      ...this.getSdkRequestFields(op, auth).map((l) => `  ${l}`),
+      `  ...options,`,
+      `})`,
+      ...returns,
+    ]
+  }
+
+  /**
+   * Fields of the `request()` call of a REST operation's SDK function: its
+   * method, path, query params, serialized body and security requirements.
+   */
+  protected getSdkRequestFields(op: ApiOperation, auth: OperationAuth | null): string[] {
+    const fields = [`method: '${op.method}',`, `path: ${this.getPathExpression(op)},`]
+    if (op.queryParams.length > 0) {
+      fields.push(`query: { ${op.queryParams.map((p) => `${p.name}: params.${p.name}`).join(', ')} },`)
+    }
+    if (op.requestBody) fields.push(`body: ${this.serializeBody(op, 'body')},`)
+    if (auth) fields.push(`security: ${auth.security},`)
+    return fields
+  }
+
+  /**
+   * Expression for an operation's path with its path params filled in from
+   * `params`, e.g. `` `/pets/${params.petId}` ``.
+   */
+  protected getPathExpression(op: ApiOperation): string {
+    if (op.pathParams.length === 0) return quote(op.path)
+    let template = op.path
+    for (const p of op.pathParams) {
+      template = template.replace(`{${p.name}}`, `\${params.${p.name}}`)
+    }
+    return `\`${template}\``
+  }
+
+  /**
+   * Expression calling an operation's SDK function, e.g.
+   * `getPetById(params, { signal })`. Params and body are only passed when
+   * the operation has them.
+   *
+   * @param args - Expressions to pass as params (default `params`), body
+   *   (default `body`) and request options (none by default).
+   * @param page - Call the page function. See `getSdkPageFunctionName()`.
+   */
+  protected getSdkCall(
+    op: ApiOperation,
+    args: { params?: string; body?: string; options?: string } = {},
+    page = false,
+  ): string {
+    const name = page ? this.getSdkPageFunctionName(op) : this.getSdkFunctionName(op)
+    const callArgs: string[] = []
+    if (op.pathParams.length > 0 || op.queryParams.length > 0) callArgs.push(args.params ?? 'params')
+    if (op.requestBody) callArgs.push(args.body ?? 'body')
+    if (args.options) callArgs.push(args.options)
+    return `${name}(${callArgs.join(', ')})`
+  }
 
-    return files
+  /**
+   * Data type of an operation's TanStack queries. TanStack Query rejects
+   * `undefined` query data, so operations without a response body resolve to
+   * `null` instead.
+   */
+  protected getQueryDataType(op: ApiOperation): string {
+    const responseType = this.getResponseTypeName(op.operationId)
+    return getResponseDecoding(op.response) === 'none' ? `${responseType} | null` : responseType
   }
 
   /**
-   * Generate the base API client configuration file.
+   * `queryFn` expression calling an operation's SDK function, resolving to
+   * `null` when the response has no body. See `getQueryDataType()`.
    */
-  protected generateClientConfig(spec: ApiSpec, options: GeneratorOptions): GeneratedFile {
-    const baseUrl = options.baseUrl || spec.baseUrl || ''
-    return {
-      path: 'client.ts',
-      content: [
-        `/**`,
-        ` * API client configuration.`,
-        ` * Generated by auto-api-hooks — do not edit manually.`,
-        ` */`,
-        ``,
-        `export const API_BASE_URL = '${baseUrl}'`,
-        ``,
-        `export interface ClientConfig {`,
-        `  baseUrl: string`,
-        `  headers?: Record<string, string>`,
-        `}`,
-        ``,
-        `let _config: ClientConfig = {`,
-        `  baseUrl: API_BASE_URL,`,
-        `}`,
-        ``,
-        `/**`,
-        ` * Configure the API client.`,
-        ` */`,
-        `export function configureClient(config: Partial<ClientConfig>): void {`,
-        `  _config = { ..._config, ...config }`,
-        `}`,
-        ``,
-        `/**`,
-        ` * Get the current client configuration.`,
-        ` */`,
-        `export function getClientConfig(): ClientConfig {`,
-        `  return _config`,
-        `}`,
-        ``,
-      ].join('\n'),
-    }
+  protected getQueryFnCall(op: ApiOperation, args: { params?: string; options?: string } = {}): string {
+    const call = this.getSdkCall(op, args)
+    return getResponseDecoding(op.response) === 'none' ? `${call}.then(() => null)` : call
   }
 
   /**
@@ -168,6 +1622,7 @@ export abstract class BaseHookGenerator implements HookGenerator {
   protected generateBarrelIndex(
     tagGroups: string[],
     options: GeneratorOptions,
+    sdk = false,
   ): GeneratedFile {
     const lines: string[] = [
       `/**`,
@@ -183,6 +1638,10 @@ export abstract class BaseHookGenerator implements HookGenerator {
       lines.push(`export * from './schemas'`)
     }
 
+    if (sdk) {
+      lines.push(`export * from './sdk'`)
+    }
+
     for (const tag of tagGroups) {
       lines.push(`export * from './${toKebabCase(tag)}'`)
     }
@@ -211,6 +1670,24 @@ export abstract class BaseHookGenerator implements HookGenerator {
     return groups
   }
 
+  /**
+   * Prefix of every hook name, e.g. `use` in `useListPets`.
+   * Override in subclasses for frameworks with other conventions.
+   */
+  protected getHookPrefix(): string {
+    return 'use'
+  }
+
+  /** Name of an operation's hook, e.g. `useListPets`. */
+  protected getOperationHookName(op: ApiOperation): string {
+    return getHookName(op.operationId, op.method, op.path).replace(/^use/, this.getHookPrefix())
+  }
+
+  /** File a hook is written to, without its extension, e.g. `list-pets`. */
+  protected getHookFileName(hookName: string): string {
+    return toKebabCase(hookName.slice(this.getHookPrefix().length))
+  }
+
   /**
    * Detect and warn about hook name collisions across all operations.
    * Two operations mapping to the same hook name will overwrite each other.
@@ -219,7 +1696,7 @@ export abstract class BaseHookGenerator implements HookGenerator {
     const seen = new Map<string, ApiOperation>()
 
     for (const op of operations) {
-      const hookName = getHookName(op.operationId, op.method, op.path)
+      const hookName = this.getOperationHookName(op)
       const existing = seen.get(hookName)
 
       if (existing) {
@@ -256,6 +1733,27 @@ export abstract class BaseHookGenerator implements HookGenerator {
     return `${toPascalCase(operationId)}Response`
   }
 
+  /**
+   * Get the error type for an operation: its `{Name}Error` union when the spec
+   * declares error responses, otherwise plain `Error`.
+   */
+  protected getErrorTypeName(op: ApiOperation): string {
+    return op.errors && op.errors.length > 0
+      ? `${toPascalCase(op.operationId)}Error`
+      : 'Error'
+  }
+
+  /**
+   * Get the type of the errors an operation's hooks expose: its declared
+   * error responses or a plain `Error`, since network failures, aborts and
+   * validation errors are thrown on the same path. Narrow with
+   * `error instanceof ApiError`.
+   */
+  protected getErrorType(op: ApiOperation): string {
+    const name = this.getErrorTypeName(op)
+    return name === 'Error' ? name : `${name} | Error`
+  }
+
   /**
    * Check if an operation is a "read" operation (GET or QUERY).
    */
@@ -309,9 +1807,307 @@ export abstract class BaseHookGenerator implements HookGenerator {
     return null
   }
 
+  /**
+   * Expression reading a value from a page by dot-path, e.g. `pageInfo.endCursor`.
+   * Every level is cast, so paths from `x-pagination` need not match the
+   * response type.
+   */
+  protected getPagePathExpression(page: string, path: string[]): string {
+    return path.reduce(
+      (expr, key, i) => `(${expr} as Record<string, unknown>${i > 0 ? ' | undefined' : ''})?.${key}`,
+      page,
+    )
+  }
+
+  /**
+   * Lines declaring the `items` of `page` and the page size as `limit`, taken
+   * from the limit param when the hook's `params` hold it and otherwise from
+   * the number of items.
+   *
+   * @param params - Expression for the hook's params.
+   */
+  protected generatePageLimit(
+    op: ApiOperation,
+    pagination: PaginationInfo,
+    page: string,
+    hasParams: boolean,
+    params = 'params',
+  ): string[] {
+    const lines: string[] = []
+    const sizes: string[] = []
+    if (hasParams && pagination.limitParam && op.queryParams.some((p) => p.name === pagination.limitParam)) {
+      sizes.push(`${params}.${pagination.limitParam}`)
+    }
+    if (this.hasPageItems(op, pagination)) {
+      lines.push(`const items = ${this.getPagePathExpression(this.getPageBody(pagination, page), pagination.itemsPath)} as unknown[] | undefined`)
+      sizes.push('items?.length')
+    }
+    lines.push(`const limit = Number(${[...sizes, '0'].join(' ?? ')})`)
+    return lines
+  }
+
+  /**
+   * Lines working out the page param after `page` for infinite hooks. They
+   * `return ${stop}` when `page` is the last one, and otherwise leave the
+   * next param in the returned `next` expression.
+   *
+   * Cursors are read from the response, or the next-page header when there
+   * is one. Offsets advance by the page size and page numbers by one, until a
+   * "more pages" flag is false, the total pages or total count is reached, or
+   * a page comes back empty. Without any of those, a page shorter than the
+   * limit is the last one.
+   *
+   * @param current - Expression for the offset or page number of `page`. It may use `limit`.
+   * @param params - Expression for the hook's params.
+   */
+  protected generateNextPageParam(
+    op: ApiOperation,
+    pagination: PaginationInfo,
+    page: string,
+    current: string,
+    hasParams: boolean,
+    stop: string,
+    params = 'params',
+  ): { lines: string[]; next: string } {
+    const body = this.getPageBody(pagination, page)
+    const lines: string[] = []
+    if (pagination.hasNextPagePath) {
+      lines.push(`if (!${this.getPagePathExpression(body, pagination.hasNextPagePath)}) return ${stop}`)
+    }
+
+    if (pagination.nextPageHeader) {
+      lines.push(
+        `const next = readPageHeader(${page}.headers, '${pagination.nextPageHeader}', '${pagination.pageParam}')`,
+        `if (!next) return ${stop}`,
+      )
+      return { lines, next: pagination.strategy === 'cursor' ? 'next' : 'Number(next)' }
+    }
+
+    if (pagination.strategy === 'cursor') {
+      lines.push(
+        `const cursor = ${this.getPagePathExpression(body, pagination.nextPagePath)} as string | null | undefined`,
+        `if (!cursor) return ${stop}`,
+      )
+      return { lines, next: 'cursor' }
+    }
+
+    const isOffset = pagination.strategy === 'offset-limit'
+    const hasItems = this.hasPageItems(op, pagination)
+    const hasTotalCount = Boolean(pagination.totalCountPath || pagination.totalCountHeader)
+    if (isOffset || hasItems || hasTotalCount) {
+      lines.push(...this.generatePageLimit(op, pagination, page, hasParams, params))
+      // A short page only marks the end when the response has nothing better to go by
+      const bounded = pagination.hasNextPagePath || hasTotalCount || (pagination.totalPagesPath && !isOffset)
+      const shortPage = hasItems ? (bounded ? '!items?.length' : '!items?.length || items.length < limit') : '!limit'
+      lines.push(`if (${shortPage}) return ${stop}`)
+    }
+    if (pagination.totalPagesPath && !isOffset) {
+      lines.push(
+        `const totalPages = ${this.getPagePathExpression(body, pagination.totalPagesPath)} as number | undefined`,
+        `if (totalPages != null && ${current} >= totalPages) return ${stop}`,
+      )
+    }
+    if (hasTotalCount) {
+      lines.push(
+        pagination.totalCountHeader
+          ? `const total = ${page}.headers.has('${pagination.totalCountHeader}') ? Number(${page}.headers.get('${pagination.totalCountHeader}')) : undefined`
+          : `const total = ${this.getPagePathExpression(body, pagination.totalCountPath!)} as number | undefined`,
+        `if (total != null && ${isOffset ? `${current} + limit` : `${current} * limit`} >= total) return ${stop}`,
+      )
+    }
+    return { lines, next: isOffset ? `${current} + limit` : `${current} + 1` }
+  }
+
+  /**
+   * Expression for the body of `page`. Infinite hooks that page through
+   * response headers keep each page as a `PageWithHeaders`, with the body
+   * under `data`.
+   */
+  protected getPageBody(pagination: PaginationInfo, page: string): string {
+    return usesPageHeaders(pagination) ? `${page}.data` : page
+  }
+
+  /**
+   * Query params an infinite hook sets itself: the page param, and the
+   * previous page's for Relay connections paging both ways.
+   */
+  protected getPageParamNames(pagination: PaginationInfo): string[] {
+    return pagination.previousPageParam ? [pagination.pageParam, pagination.previousPageParam] : [pagination.pageParam]
+  }
+
+  /**
+   * Whether an infinite hook takes params besides the ones it pages with.
+   */
+  protected hasInfiniteParams(op: ApiOperation, pagination: PaginationInfo): boolean {
+    const pageParams = this.getPageParamNames(pagination)
+    return op.pathParams.length > 0 || op.queryParams.some((p) => !pageParams.includes(p.name))
+  }
+
+  /**
+   * The page param of a TanStack infinite hook: its type, initial value and
+   * the params each page is fetched with. Relay connections paging both ways
+   * keep the cursor argument to send in an object, `{ after }` or `{ before }`.
+   *
+   * @param params - Expression for the hook's params.
+   */
+  protected getInfinitePageParam(
+    op: ApiOperation,
+    pagination: PaginationInfo,
+    hasParams: boolean,
+    params = 'params',
+  ): { type: string; initial: string; pageParams: string } {
+    const paramsType = this.getParamsTypeName(op.operationId)
+    const spread = hasParams ? `...${params}, ` : ''
+
+    if (pagination.previousPageParam) {
+      const keys = [...this.getPageParamNames(pagination), ...(this.swapsRelayPageSize(op) ? ['first', 'last'] : [])]
+      const type = `Partial<Pick<${paramsType}, ${keys.map((k) => `'${k}'`).join(' | ')}>>`
+      return { type, initial: '{}', pageParams: `{ ${spread}...(pageParam as ${type}) }` }
+    }
+
+    const isCursor = pagination.strategy === 'cursor'
+    return {
+      type: isCursor ? 'string | undefined' : 'number',
+      initial: isCursor ? 'undefined' : pagination.strategy === 'offset-limit' ? '0' : '1',
+      pageParams: `{ ${spread}${pagination.pageParam}: pageParam as ${paramsType}['${pagination.pageParam}'] }`,
+    }
+  }
+
+  /**
+   * Whether pages before the first of a Relay connection are fetched with
+   * `last` instead of `first`, since `first` would count from the start of
+   * the earlier items instead of from the cursor.
+   */
+  private swapsRelayPageSize(op: ApiOperation): boolean {
+    return op.queryParams.some((p) => p.name === 'first') && op.queryParams.some((p) => p.name === 'last')
+  }
+
+  /**
+   * `getNextPageParam` and, for offsets, page numbers, `Link` headers and
+   * Relay connections taking `before` as well as `after`,
+   * `getPreviousPageParam` options, so pages dropped by `maxPages` can be
+   * fetched again and earlier pages loaded. Other cursors only lead one way,
+   * so they have no previous page. Shared by the TanStack Query generators.
+   *
+   * @param params - Expression for the hook's params.
+   */
+  protected generatePageParamGetters(
+    op: ApiOperation,
+    pagination: PaginationInfo,
+    hasParams: boolean,
+    params = 'params',
+  ): string[] {
+    const isCursor = pagination.strategy === 'cursor'
+    const readsNext = isCursor || Boolean(pagination.nextPageHeader)
+    const nextPage = this.generateNextPageParam(op, pagination, 'lastPage', 'current', hasParams, 'undefined', params)
+    const lines = [
+      readsNext
+        ? `    getNextPageParam: (lastPage) => {`
+        : `    getNextPageParam: (lastPage, _allPages, lastPageParam) => {`,
+      readsNext ? '' : `      const current = lastPageParam as number`,
+      ...nextPage.lines.map((l) => `      ${l}`),
+      pagination.previousPageParam
+        ? `      return { ${pagination.pageParam}: ${nextPage.next} }`
+        : `      return ${nextPage.next}`,
+      `    },`,
+    ]
+
+    if (pagination.previousPageParam && pagination.previousPagePath) {
+      const body = this.getPageBody(pagination, 'firstPage')
+      const pageSize = this.swapsRelayPageSize(op) ? `, first: undefined, last: ${params}.first` : ''
+      lines.push(
+        `    getPreviousPageParam: (firstPage) => {`,
+        pagination.hasPreviousPagePath
+          ? `      if (!${this.getPagePathExpression(body, pagination.hasPreviousPagePath)}) return undefined`
+          : '',
+        `      const cursor = ${this.getPagePathExpression(body, pagination.previousPagePath)} as string | null | undefined`,
+        `      return cursor ? { ${pagination.previousPageParam}: cursor${pageSize} } : undefined`,
+        `    },`,
+      )
+    } else if (pagination.nextPageHeader?.toLowerCase() === 'link') {
+      lines.push(
+        `    getPreviousPageParam: (firstPage) => {`,
+        `      const previous = readPageHeader(firstPage.headers, '${pagination.nextPageHeader}', '${pagination.pageParam}', 'prev')`,
+        `      return previous ? ${isCursor ? 'previous' : 'Number(previous)'} : undefined`,
+        `    },`,
+      )
+    } else if (pagination.strategy === 'offset-limit') {
+      lines.push(
+        `    getPreviousPageParam: (firstPage, _allPages, firstPageParam) => {`,
+        `      const current = firstPageParam as number`,
+        ...this.generatePageLimit(op, pagination, 'firstPage', hasParams, params).map((l) => `      ${l}`),
+        `      return current > 0 && limit > 0 ? Math.max(current - limit, 0) : undefined`,
+        `    },`,
+      )
+    } else if (pagination.strategy === 'page-number') {
+      lines.push(`    getPreviousPageParam: (_firstPage, _allPages, firstPageParam) => (firstPageParam as number) > 1 ? (firstPageParam as number) - 1 : undefined,`)
+    }
+    return lines.filter(Boolean)
+  }
+
+  /**
+   * The `select` option of a TanStack infinite hook whose items wrap their
+   * records, e.g. Relay `edges` each holding a `node`. It adds the records of
+   * every page as `nodes`, next to `pages`, and `dataType` is the resulting
+   * data. `null` without a `nodePath`.
+   */
+  protected getInfiniteNodesSelect(
+    op: ApiOperation,
+    pagination: PaginationInfo,
+    pageType: string,
+  ): { dataType: string; lines: string[] } | null {
+    if (!pagination.nodePath || pagination.itemsPath.length === 0) return null
+
+    // Detected connections follow the response type; paths from `x-pagination` need not
+    let nodeType = 'unknown'
+    if (pagination.direction) {
+      const itemsType = pagination.itemsPath.reduce(
+        (type, key) => `NonNullable<${type}>['${key}']`,
+        this.getResponseTypeName(op.operationId),
+      )
+      nodeType = pagination.nodePath.reduce((type, key) => `NonNullable<${type}>['${key}']`, `NonNullable<${itemsType}>[number]`)
+    }
+
+    const items = this.getPagePathExpression(this.getPageBody(pagination, 'page'), pagination.itemsPath)
+    const node = this.getPagePathExpression('item', pagination.nodePath)
+    return {
+      dataType: `InfiniteData<${pageType}> & { nodes: ${nodeType}[] }`,
+      lines: [
+        `    select: (data) => ({`,
+        `      ...data,`,
+        `      nodes: data.pages.flatMap((page) => ((${items} ?? []) as unknown[]).map((item) => ${node} as ${nodeType})),`,
+        `    }),`,
+      ],
+    }
+  }
+
+  /**
+   * SDK page function lines returning the decoded body, along with the
+   * response headers when the operation pages through them.
+   */
+  protected generatePageReturnBody(op: ApiOperation, pagination: PaginationInfo, options: GeneratorOptions): string[] {
+    if (!usesPageHeaders(pagination)) return this.generateReturnBody(op, options)
+
+    const responseType = this.getResponseTypeName(op.operationId)
+    const reader = this.getResponseReader(op)
+    const data = options.zod
+      ? `${toCamelCase(op.operationId)}ResponseSchema.parse(await ${reader}) as ${responseType}`
+      : `(await ${reader}) as ${responseType}`
+    return [
+      reader ? `const data = ${data}` : `const data = undefined as ${responseType}`,
+      `return { data, headers: res.headers }`,
+    ]
+  }
+
+  /** Whether the items of a page can be read: from `itemsPath`, or an array response. */
+  private hasPageItems(op: ApiOperation, pagination: PaginationInfo): boolean {
+    return pagination.itemsPath.length > 0 || op.response.type.kind === 'array'
+  }
+
   /**
    * Generate a subscription hook file for a GraphQL subscription.
-   * Default implementation generates a generic EventSource/callback-based hook.
+   * Default implementation keeps the latest result in React state, through
+   * the shared `subscribe()` client.
    * Override in subclasses for library-specific implementations.
    */
   protected generateSubscriptionHookFile(
@@ -336,13 +2132,15 @@ export abstract class BaseHookGenerator implements HookGenerator {
       ` * ${op.summary || `SUBSCRIPTION ${op.path}`}`,
       ` *`,
       ` * GraphQL Subscription: \`${op.path}\``,
+      ` * Subscribes over the WebSocket shared by every subscription hook.`,
       op.deprecated ? ` * @deprecated` : '',
       ` * Generated by auto-api-hooks — do not edit manually.`,
       ` */`,
       `import { useEffect, useRef, useState, useCallback } from 'react'`,
-      `import { getClientConfig } from '../client'`,
+      `import { subscribe } from '../client'`,
       `import type { ${typeImports} } from '../types'`,
       ``,
+      ...this.generateGraphQLDocument(op),
       `export interface ${hookName}Result {`,
       `  data: ${responseType} | null`,
       `  error: Error | null`,
@@ -354,61 +2152,40 @@ export abstract class BaseHookGenerator implements HookGenerator {
       `  const [data, setData] = useState<${responseType} | null>(null)`,
       `  const [error, setError] = useState<Error | null>(null)`,
       `  const [isConnected, setIsConnected] = useState(false)`,
-      `  const wsRef = useRef<WebSocket | null>(null)`,
+      `  const stopRef = useRef<(() => void) | null>(null)`,
       ``,
       `  const unsubscribe = useCallback(() => {`,
-      `    if (wsRef.current) {`,
-      `      wsRef.current.close()`,
-      `      wsRef.current = null`,
-      `      setIsConnected(false)`,
-      `    }`,
+      `    stopRef.current?.()`,
+      `    stopRef.current = null`,
+      `    setIsConnected(false)`,
       `  }, [])`,
       ``,
       `  useEffect(() => {`,
-      `    const config = getClientConfig()`,
-      `    const wsUrl = config.baseUrl.replace(/^http/, 'ws')`,
-      `    const ws = new WebSocket(wsUrl, 'graphql-ws')`,
-      `    wsRef.current = ws`,
-      ``,
-      `    ws.onopen = () => {`,
-      `      setIsConnected(true)`,
-      `      ws.send(JSON.stringify({`,
-      `        type: 'start',`,
-      `        payload: {`,
-      `          query: \`subscription { ${op.path}${hasArgs ? '(${Object.entries(variables).map(([k, v]) => `${k}: ${JSON.stringify(v)}`).join(", ")})' : ''} { __typename } }\`,`,
-      hasArgs ? `          variables,` : '',
-      `        },`,
-      `      }))`,
-      `    }`,
-      ``,
-      `    ws.onmessage = (event) => {`,
-      `      try {`,
-      `        const message = JSON.parse(event.data as string)`,
-      `        if (message.type === 'data' && message.payload?.data?.${op.path}) {`,
-      `          const value = message.payload.data.${op.path} as ${responseType}`,
+      `    const stop = subscribe<${this.getGraphQLDataType(op)}>(`,
+      `      { query: document, operationName: '${op.graphql!.operationName}'${hasArgs ? ', variables' : ''} },`,
+      `      {`,
+      `        start: () => setIsConnected(true),`,
+      `        next: (result) => {`,
+      `          const value = ${this.getGraphQLResult(op, 'result')}`,
       `          setData(value)`,
       `          onData(value)`,
-      `        }`,
-      `      } catch (err) {`,
-      `        const parseError = err instanceof Error ? err : new Error(String(err))`,
-      `        setError(parseError)`,
-      `        options?.onError?.(parseError)`,
-      `      }`,
-      `    }`,
-      ``,
-      `    ws.onerror = () => {`,
-      `      const wsError = new Error('WebSocket connection error')`,
-      `      setError(wsError)`,
-      `      options?.onError?.(wsError)`,
-      `    }`,
-      ``,
-      `    ws.onclose = () => {`,
-      `      setIsConnected(false)`,
-      `      options?.onComplete?.()`,
-      `    }`,
+      `        },`,
+      `        error: (err) => {`,
+      `          setError(err)`,
+      `          setIsConnected(false)`,
+      `          options?.onError?.(err)`,
+      `        },`,
+      `        complete: () => {`,
+      `          setIsConnected(false)`,
+      `          options?.onComplete?.()`,
+      `        },`,
+      `      },`,
+      `    )`,
+      `    stopRef.current = stop`,
       ``,
       `    return () => {`,
-      `      ws.close()`,
+      `      stop()`,
+      `      stopRef.current = null`,
       `    }`,
       `  // eslint-disable-next-line react-hooks/exhaustive-deps`,
       `  }, [${hasArgs ? 'JSON.stringify(variables)' : ''}])`,
@@ -420,4 +2197,267 @@ export abstract class BaseHookGenerator implements HookGenerator {
 
     return lines.join('\n')
   }
+
+  /**
+   * Generate a streaming hook file for an operation whose response is a
+   * `text/event-stream`. Default implementation keeps the received events in
+   * React state; it is built on `fetch` so it streams in every fetcher.
+   * Override in subclasses for library-specific implementations.
+   */
+  protected generateStreamHookFile(
+    op: ApiOperation,
+    hookName: string,
+    spec: ApiSpec,
+    options: GeneratorOptions,
+  ): string {
+    const paramsType = this.getParamsTypeName(op.operationId)
+    const responseType = this.getResponseTypeName(op.operationId)
+    const bodyType = op.requestBody ? this.getBodyTypeName(op.operationId) : null
+    const errorType = this.getErrorType(op)
+    const hasParams = op.pathParams.length > 0 || op.queryParams.length > 0
+    const auth = this.getOperationAuth(op, spec)
+    const toError = 'err instanceof Error ? err : new Error(String(err))'
+
+    const args: string[] = []
+    if (hasParams) args.push(`params: ${paramsType}`)
+    if (bodyType) args.push(`body: ${bodyType}`)
+    args.push(`options?: ${hookName}Options`)
+    const deps = [hasParams ? 'JSON.stringify(params)' : '', bodyType ? 'JSON.stringify(body)' : '', 'options?.enabled']
+      .filter(Boolean)
+      .join(', ')
+
+    const lines: string[] = [
+      ...this.generateStreamFileHeader(op),
+      `import { useState, useEffect, useCallback, useRef } from 'react'`,
+      ...this.generateStreamImports(op, auth, options, ['ServerSentEvent', 'StreamStatus'], [hasParams ? paramsType : null, responseType, bodyType, this.getErrorTypeName(op)]),
+      ``,
+      `export interface ${hookName}Options {`,
+      `  /** Set to \`false\` to hold off opening the stream. */`,
+      `  enabled?: boolean`,
+      `  /** Called for every event as it arrives. */`,
+      `  onEvent?: (event: ${responseType}, raw: ServerSentEvent) => void`,
+      `}`,
+      ``,
+      `export interface ${hookName}Result {`,
+      `  /** Every event received so far, in order. */`,
+      `  events: ${responseType}[]`,
+      `  lastEvent: ${responseType} | null`,
+      `  error: ${errorType} | null`,
+      `  status: StreamStatus`,
+      `  /** Close the stream, keeping the events received so far. */`,
+      `  abort: () => void`,
+      `  /** Reopen the stream from scratch. */`,
+      `  restart: () => void`,
+      `}`,
+      ``,
+      `export function ${hookName}(${args.join(', ')}): ${hookName}Result {`,
+      `  const [events, setEvents] = useState<${responseType}[]>([])`,
+      `  const [error, setError] = useState<${errorType} | null>(null)`,
+      `  const [status, setStatus] = useState<StreamStatus>('idle')`,
+      `  const abortRef = useRef<AbortController | null>(null)`,
+      `  const onEventRef = useRef(options?.onEvent)`,
+      `  onEventRef.current = options?.onEvent`,
+      ``,
+      `  const start = useCallback(async () => {`,
+      `    if (options?.enabled === false) return`,
+      `    abortRef.current?.abort()`,
+      `    const controller = new AbortController()`,
+      `    abortRef.current = controller`,
+      ``,
+      `    setEvents([])`,
+      `    setError(null)`,
+      `    setStatus('connecting')`,
+      ``,
+      `    try {`,
+      ...this.generateStreamRequest(op, auth, hasParams, 'body', 'controller.signal').map((l) => `      ${l}`),
+      ``,
+      `      setStatus('streaming')`,
+      `      for await (const raw of readEventStream(res)) {`,
+      `        const event = decodeEvent(raw)`,
+      `        setEvents((prev) => [...prev, event])`,
+      `        onEventRef.current?.(event, raw)`,
+      `      }`,
+      `      setStatus('done')`,
+      `    } catch (err) {`,
+      `      if (controller.signal.aborted) {`,
+      `        setStatus('aborted')`,
+      `      } else {`,
+      `        setError(${toError})`,
+      `        setStatus('error')`,
+      `      }`,
+      `    }`,
+      `  // eslint-disable-next-line react-hooks/exhaustive-deps`,
+      `  }, [${deps}])`,
+      ``,
+      `  const abort = useCallback(() => {`,
+      `    abortRef.current?.abort()`,
+      `  }, [])`,
+      ``,
+      `  useEffect(() => {`,
+      `    start()`,
+      `    return () => { abortRef.current?.abort() }`,
+      `  }, [start])`,
+      ``,
+      `  return {`,
+      `    events,`,
+      `    lastEvent: events.length > 0 ? events[events.length - 1] : null,`,
+      `    error,`,
+      `    status,`,
+      `    abort,`,
+      `    restart: start,`,
+      `  }`,
+      `}`,
+      ``,
+      ...this.generateDecodeEvent(op, options),
+      ``,
+      ...this.generateBuildUrl(op),
+      ``,
+    ]
+
+    return lines.join('\n')
+  }
+
+  /** Doc comment opening a streaming hook file. */
+  protected generateStreamFileHeader(op: ApiOperation): string[] {
+    return [
+      `/**`,
+      ` * ${op.summary || `${op.method} ${op.path}`} (stream)`,
+      ` *`,
+      ` * \`${op.method} ${op.path}\` — Server-Sent Events`,
+      ...(op.deprecated ? [` * @deprecated`] : []),
+      ` * Generated by auto-api-hooks — do not edit manually.`,
+      ` */`,
+    ]
+  }
+
+  /**
+   * Imports a streaming hook file takes from `client.ts`, `types.ts` and, when
+   * Zod is enabled, `schemas.ts`. `clientTypes` are the stream types it uses.
+   *
+   * @param viaRequest - The stream is opened through the client's `request()`
+   *   rather than its own `fetch()`.
+   */
+  protected generateStreamImports(
+    op: ApiOperation,
+    auth: OperationAuth | null,
+    options: GeneratorOptions,
+    clientTypes: string[],
+    types: (string | null)[],
+    viaRequest = false,
+  ): string[] {
+    const clientImports = viaRequest
+      ? ['request', 'readEventStream', ...this.getBodyEncoderImports(op)]
+      : ['getClientConfig', 'createApiError', 'readEventStream', ...this.getBodyEncoderImports(op)]
+    if (auth && !viaRequest) clientImports.push('resolveAuth')
+    if (auth?.query && !viaRequest) clientImports.push('appendQuery')
+
+    const lines = [
+      `import { ${clientImports.join(', ')} } from '../client'`,
+      `import type { ${clientTypes.join(', ')} } from '../client'`,
+      `import type { ${types.filter((t) => t && t !== 'Error').join(', ')} } from '../types'`,
+    ]
+    if (options.zod) {
+      lines.push(`import { ${toCamelCase(op.operationId)}ResponseSchema } from '../schemas'`)
+    }
+    return lines
+  }
+
+  /**
+   * Lines opening an operation's event stream as `res`, aborted by `signal`.
+   * Expects `params` (when the operation has parameters) and the body under
+   * `bodyExpr` in scope, and the module's `buildUrl()`.
+   */
+  protected generateStreamRequest(
+    op: ApiOperation,
+    auth: OperationAuth | null,
+    hasParams: boolean,
+    bodyExpr: string,
+    signal: string,
+  ): string[] {
+    const contentType = op.requestBody ? this.getContentTypeHeader(op) : ''
+    return [
+      `const config = getClientConfig()`,
+      ...this.generateRequestSetup(hasParams, auth),
+      `const res = await fetch(url, {`,
+      `  method: '${op.method}',`,
+      `  headers: { ${contentType}...config.headers${auth ? ', ...auth.headers' : ''}, Accept: 'text/event-stream' },`,
+      ...(op.requestBody ? [`  body: ${this.serializeBody(op, bodyExpr)},`] : []),
+      `  signal: ${signal},`,
+      `})`,
+      `if (!res.ok) throw await createApiError(res)`,
+    ]
+  }
+
+  /**
+   * Lines declaring a module-level `openStream()` that opens an operation's
+   * event stream. It takes the params and body, when the operation has them,
+   * then an abort signal.
+   */
+  protected generateOpenStream(op: ApiOperation, auth: OperationAuth | null): string[] {
+    const hasParams = op.pathParams.length > 0 || op.queryParams.length > 0
+    const args: string[] = []
+    if (hasParams) args.push(`params: ${this.getParamsTypeName(op.operationId)}`)
+    if (op.requestBody) args.push(`body: ${this.getBodyTypeName(op.operationId)}`)
+    args.push('signal: AbortSignal')
+
+    return [
+      `async function openStream(${args.join(', ')}): Promise<Response> {`,
+      ...this.generateStreamRequest(op, auth, hasParams, 'body', 'signal').map((l) => `  ${l}`),
+      `  return res`,
+      `}`,
+    ]
+  }
+
+  /**
+   * `queryFn` option of a TanStack Query composable that streams into the
+   * query cache: it opens the stream with `openStream()`, passing `values`,
+   * and sets the events received so far on the query's key as each one
+   * arrives. Expects `queryClient` and a mutable `activeController`, which
+   * the composable's `abort()` aborts, in scope.
+   */
+  protected generateStreamedQueryFn(responseType: string, values: string[]): string[] {
+    return [
+      `    queryFn: async ({ queryKey, signal }) => {`,
+      `      // Our own controller, so abort() can end the stream without cancelling the query`,
+      `      const controller = new AbortController()`,
+      `      activeController = controller`,
+      `      signal.addEventListener('abort', () => controller.abort())`,
+      ``,
+      `      const events: ${responseType}[] = []`,
+      `      queryClient.setQueryData(queryKey, events)`,
+      `      try {`,
+      `        const res = await openStream(${[...values, 'controller.signal'].join(', ')})`,
+      `        for await (const raw of readEventStream(res)) {`,
+      `          events.push(decodeEvent(raw))`,
+      `          queryClient.setQueryData(queryKey, [...events])`,
+      `        }`,
+      `      } catch (err) {`,
+      `        // abort() keeps the events received so far`,
+      `        if (!controller.signal.aborted || signal.aborted) throw err`,
+      `      }`,
+      `      return events`,
+      `    },`,
+    ]
+  }
+
+  /**
+   * Lines declaring a module-level `decodeEvent()` that turns an event's data
+   * into the operation's response type. Data is JSON-parsed unless the schema
+   * is a plain string, and validated when Zod is enabled.
+   */
+  protected generateDecodeEvent(op: ApiOperation, options: GeneratorOptions): string[] {
+    const responseType = this.getResponseTypeName(op.operationId)
+    const data = isTextEventStream(op.response) ? 'event.data' : 'JSON.parse(event.data)'
+    const value = options.zod ? `${toCamelCase(op.operationId)}ResponseSchema.parse(${data})` : data
+    return [
+      `function decodeEvent(event: ServerSentEvent): ${responseType} {`,
+      `  return ${value} as ${responseType}`,
+      `}`,
+    ]
+  }
+}
+
+/** Quote a value as a single-quoted string literal. */
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
 }
@@ -0,0 +1,331 @@
+/**
+ * Shared base for TanStack Query adapters built on `createQuery`,
+ * `createMutation` and `createInfiniteQuery` with option accessors
+ * (Svelte Query, Solid Query).
+ *
+ * Generates:
+ * - createQuery wrappers for GET operations
+ * - createMutation wrappers for POST/PUT/PATCH/DELETE operations
+ * - createInfiniteQuery wrappers for paginated GET operations
+ * - Cache key factory objects per resource
+ *
+ * Params and options are taken as accessors, read inside the option
+ * accessor, so queries track the framework's reactive state.
+ */
+import type { ApiOperation, ApiSpec, PaginationInfo } from '../ir/types'
+import { usesPageHeaders } from '../ir/helpers'
+import type { GeneratorOptions } from './types'
+import type { GeneratedFile } from '../utils/file-writer'
+import { BaseHookGenerator } from './base-generator'
+import { deriveCacheKeyFactories, emitQueryKeyFactories, getCacheKeyForOperation } from '../utils/cache-keys'
+
+/** Kinds of option objects a `create*` primitive takes. */
+export type CreateQueryOptionsKind = 'query' | 'mutation' | 'infiniteQuery'
+
+export abstract class CreateQueryGenerator extends BaseHookGenerator {
+  /** Package the TanStack primitives are imported from, e.g. `@tanstack/solid-query`. */
+  protected abstract getQueryPackage(): string
+
+  /** Library named in generated comments, e.g. `TanStack Solid Query`. */
+  protected abstract getLibraryName(): string
+
+  /** Name of the package's options object type for a primitive, e.g. `CreateQueryOptions`. */
+  protected abstract getOptionsTypeName(kind: CreateQueryOptionsKind): string
+
+  /** Type the `options` accessor of a wrapper returns, given the primitive's type arguments. */
+  protected getOptionsType(kind: CreateQueryOptionsKind, typeArgs: string): string {
+    const type = `${this.getOptionsTypeName(kind)}<${typeArgs}>`
+    return kind === 'mutation' ? type : `Partial<${type}>`
+  }
+
+  protected supportsInfiniteQueries(): boolean {
+    return true
+  }
+
+  protected getHookPrefix(): string {
+    return 'create'
+  }
+
+  generate(spec: ApiSpec, options: GeneratorOptions): GeneratedFile[] {
+    const files = super.generate(spec, options)
+
+    // Add query keys file
+    files.push({
+      path: 'query-keys.ts',
+      content: emitQueryKeyFactories(deriveCacheKeyFactories(spec.operations), this.getLibraryName()),
+    })
+
+    return files
+  }
+
+  /**
+   * Leaves the SDK out of the barrel: with the `create` prefix, the wrapper
+   * of an operation such as `pet` would be exported under the same name as
+   * the SDK function of a `createPet` operation. SDK functions are imported
+   * from `sdk/` instead.
+   */
+  protected generateBarrelIndex(
+    tagGroups: string[],
+    options: GeneratorOptions,
+    _sdk = false,
+  ): GeneratedFile {
+    const base = super.generateBarrelIndex(tagGroups, options, false)
+    // Add query-keys export
+    const content = base.content.replace(
+      `export * from './client'`,
+      `export * from './client'\nexport * from './query-keys'`,
+    )
+    return { ...base, content }
+  }
+
+  protected generateHookFile(
+    op: ApiOperation,
+    hookName: string,
+    _spec: ApiSpec,
+    _options: GeneratorOptions,
+  ): string {
+    return this.isReadOperation(op)
+      ? this.generateCreateQuery(op, hookName)
+      : this.generateCreateMutation(op, hookName)
+  }
+
+  protected generateInfiniteHookFile(
+    op: ApiOperation,
+    hookName: string,
+    _spec: ApiSpec,
+    _options: GeneratorOptions,
+  ): string | null {
+    if (!op.pagination) return null
+    return this.generateCreateInfiniteQuery(op, hookName, op.pagination)
+  }
+
+  // ---------------------------------------------------------------------------
+  // createQuery
+  // ---------------------------------------------------------------------------
+
+  private generateCreateQuery(op: ApiOperation, hookName: string): string {
+    const paramsType = this.getParamsTypeName(op.operationId)
+    const responseType = this.getResponseTypeName(op.operationId)
+    const dataType = this.getQueryDataType(op)
+    const errorType = this.getErrorType(op)
+    const hasParams = op.pathParams.length > 0 || op.queryParams.length > 0
+    const optionsType = this.getOptionsTypeName('query')
+
+    const paramArg = hasParams ? `params: () => ${paramsType}` : ''
+    const optionsArg = `options?: () => ${this.getOptionsType('query', `${dataType}, ${errorType}`)}`
+    const args = [paramArg, optionsArg].filter(Boolean).join(', ')
+
+    const lines: string[] = [
+      ...this.generateFileHeader(op),
+      `import { createQuery } from '${this.getQueryPackage()}'`,
+      `import type { ${optionsType} } from '${this.getQueryPackage()}'`,
+      `import { ${this.getKeyFactoryName(op)} } from '../query-keys'`,
+      `import { ${this.getSdkFunctionName(op)} } from '../sdk'`,
+      `import type { ${[hasParams ? paramsType : null, responseType, this.getErrorTypeName(op)].filter((t) => t && t !== 'Error').join(', ')} } from '../types'`,
+      ``,
+      `export function ${hookName}(${args}) {`,
+      `  return createQuery<${dataType}, ${errorType}>(() => ({`,
+      `    queryKey: ${hasParams ? getCacheKeyForOperation(op, 'params()') : getCacheKeyForOperation(op)},`,
+      `    queryFn: ({ signal }) => ${this.getQueryFnCall(op, { params: 'params()', options: '{ signal }' })},`,
+      `    ...options?.(),`,
+      `  }))`,
+      `}`,
+      ``,
+    ]
+
+    return lines.join('\n')
+  }
+
+  // ---------------------------------------------------------------------------
+  // createMutation
+  // ---------------------------------------------------------------------------
+
+  private generateCreateMutation(op: ApiOperation, hookName: string): string {
+    const paramsType = this.getParamsTypeName(op.operationId)
+    const responseType = this.getResponseTypeName(op.operationId)
+    const errorType = this.getErrorType(op)
+    const bodyType = op.requestBody ? this.getBodyTypeName(op.operationId) : null
+    const hasParams = op.pathParams.length > 0 || op.queryParams.length > 0
+    const optionsType = this.getOptionsTypeName('mutation')
+
+    // Build the mutation variables type
+    const varFields: string[] = []
+    if (hasParams) varFields.push(`params: ${paramsType}`)
+    if (bodyType) varFields.push(`body: ${bodyType}`)
+    const varsType = varFields.length > 0 ? `{ ${varFields.join('; ')} }` : 'void'
+
+    const typeImports = [hasParams ? paramsType : null, responseType, bodyType, this.getErrorTypeName(op)].filter((t) => t && t !== 'Error').join(', ')
+
+    const lines: string[] = [
+      ...this.generateFileHeader(op),
+      `import { createMutation } from '${this.getQueryPackage()}'`,
+      `import type { ${optionsType} } from '${this.getQueryPackage()}'`,
+      `import { ${this.getSdkFunctionName(op)} } from '../sdk'`,
+      `import type { ${typeImports} } from '../types'`,
+      ``,
+      `export function ${hookName}(options?: () => ${this.getOptionsType('mutation', `${responseType}, ${errorType}, ${varsType}`)}) {`,
+      `  return createMutation<${responseType}, ${errorType}, ${varsType}>(() => ({`,
+      `    mutationFn: (${varFields.length > 0 ? 'vars' : ''}) => ${this.getSdkCall(op, { params: 'vars.params', body: 'vars.body' })},`,
+      `    ...options?.(),`,
+      `  }))`,
+      `}`,
+      ``,
+    ]
+
+    return lines.join('\n')
+  }
+
+  // ---------------------------------------------------------------------------
+  // createInfiniteQuery
+  // ---------------------------------------------------------------------------
+
+  private generateCreateInfiniteQuery(
+    op: ApiOperation,
+    hookName: string,
+    pagination: PaginationInfo,
+  ): string {
+    const paramsType = this.getParamsTypeName(op.operationId)
+    const responseType = this.getResponseTypeName(op.operationId)
+    const errorType = this.getErrorType(op)
+    const hasParams = this.hasInfiniteParams(op, pagination)
+    const optionsType = this.getOptionsTypeName('infiniteQuery')
+    // Keyed apart from the plain query, whose cache holds a single page
+    const listKey = hasParams
+      ? getCacheKeyForOperation(op, 'params()')
+      : getCacheKeyForOperation({ ...op, queryParams: [] })
+
+    const pageParam = this.getInfinitePageParam(op, pagination, hasParams, 'params()')
+    const pageHeaders = usesPageHeaders(pagination)
+    const pageType = pageHeaders ? `PageWithHeaders<${responseType}>` : responseType
+    const nodes = this.getInfiniteNodesSelect(op, pagination, pageType)
+    const queryTypes = [pageType, errorType, nodes?.dataType ?? `InfiniteData<${pageType}>`].join(', ')
+    const omitted = this.getPageParamNames(pagination).map((name) => `'${name}'`).join(' | ')
+
+    const paramArg = hasParams ? `params: () => Omit<${paramsType}, ${omitted}>` : ''
+    const optionsArg = `options?: () => ${this.getOptionsType('infiniteQuery', queryTypes)}`
+    const args = [paramArg, optionsArg].filter(Boolean).join(', ')
+
+    const lines: string[] = [
+      ...this.generateFileHeader(op, ' (infinite)'),
+      `import { createInfiniteQuery } from '${this.getQueryPackage()}'`,
+      `import type { InfiniteData, ${optionsType} } from '${this.getQueryPackage()}'`,
+      ...(pagination.nextPageHeader ? [`import { readPageHeader } from '../client'`] : []),
+      ...(pageHeaders ? [`import type { PageWithHeaders } from '../client'`] : []),
+      `import { ${this.getKeyFactoryName(op)} } from '../query-keys'`,
+      `import { ${this.hasSdkPageFunction(op) ? this.getSdkPageFunctionName(op) : this.getSdkFunctionName(op)} } from '../sdk'`,
+      `import type { ${[paramsType, responseType, this.getErrorTypeName(op)].filter((t) => t && t !== 'Error').join(', ')} } from '../types'`,
+    ]
+
+    const fetchPage = this.getSdkCall(op, { params: pageParam.pageParams, options: '{ signal }' }, this.hasSdkPageFunction(op))
+
+    lines.push(
+      ``,
+      `export function ${hookName}(${args}) {`,
+      `  return createInfiniteQuery<${queryTypes}>(() => ({`,
+      `    queryKey: [...${listKey}, 'infinite'] as const,`,
+      `    queryFn: ({ pageParam, signal }) => ${fetchPage},`,
+      `    initialPageParam: ${pageParam.initial} as ${pageParam.type},`,
+      ...this.generatePageParamGetters(op, pagination, hasParams, 'params()'),
+      ...(nodes?.lines ?? []),
+      `    ...options?.(),`,
+      `  }))`,
+      `}`,
+      ``,
+    )
+
+    return lines.join('\n')
+  }
+
+  // ---------------------------------------------------------------------------
+  // Streaming query
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Streams into the query cache like the React Query variant: `data` is the
+   * array of events received so far and grows as each one arrives. The
+   * stream is reopened when the params or body change. Returns the query
+   * alongside `abort()`, since spreading the query would lose its reactivity.
+   */
+  protected generateStreamHookFile(
+    op: ApiOperation,
+    hookName: string,
+    spec: ApiSpec,
+    options: GeneratorOptions,
+  ): string {
+    const paramsType = this.getParamsTypeName(op.operationId)
+    const responseType = this.getResponseTypeName(op.operationId)
+    const bodyType = op.requestBody ? this.getBodyTypeName(op.operationId) : null
+    const errorType = this.getErrorType(op)
+    const hasParams = op.pathParams.length > 0 || op.queryParams.length > 0
+    const auth = this.getOperationAuth(op, spec)
+    const optionsType = this.getOptionsTypeName('query')
+
+    const args: string[] = []
+    const values: string[] = []
+    if (hasParams) {
+      args.push(`params: () => ${paramsType}`)
+      values.push('params()')
+    }
+    if (bodyType) {
+      args.push(`body: () => ${bodyType}`)
+      values.push('body()')
+    }
+    args.push(`options?: () => ${this.getOptionsType('query', `${responseType}[], ${errorType}`)}`)
+
+    const lines: string[] = [
+      ...this.generateStreamFileHeader(op),
+      `import { createQuery, useQueryClient } from '${this.getQueryPackage()}'`,
+      `import type { ${optionsType} } from '${this.getQueryPackage()}'`,
+      ...this.generateStreamImports(op, auth, options, ['ServerSentEvent'], [hasParams ? paramsType : null, responseType, bodyType, this.getErrorTypeName(op)]),
+      ``,
+      `export function ${hookName}(${args.join(', ')}) {`,
+      `  const queryClient = useQueryClient()`,
+      `  let activeController: AbortController | null = null`,
+      ``,
+      `  const query = createQuery<${responseType}[], ${errorType}>(() => ({`,
+      `    queryKey: [${[`'${op.operationId}'`, `'stream'`, ...values].join(', ')}] as const,`,
+      ...this.generateStreamedQueryFn(responseType, values),
+      `    refetchOnWindowFocus: false,`,
+      `    ...options?.(),`,
+      `  }))`,
+      ``,
+      `  const abort = () => {`,
+      `    activeController?.abort()`,
+      `  }`,
+      ``,
+      `  return { query, abort }`,
+      `}`,
+      ``,
+      ...this.generateOpenStream(op, auth),
+      ``,
+      ...this.generateDecodeEvent(op, options),
+      ``,
+      ...this.generateBuildUrl(op),
+      ``,
+    ]
+
+    return lines.join('\n')
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  /** Doc comment opening a query or mutation file. */
+  protected generateFileHeader(op: ApiOperation, suffix = ''): string[] {
+    return [
+      `/**`,
+      ` * ${op.summary || `${op.method} ${op.path}`}${suffix}`,
+      ` *`,
+      ` * \`${op.method} ${op.path}\``,
+      ...(op.deprecated ? [` * @deprecated`] : []),
+      ` * Generated by auto-api-hooks — do not edit manually.`,
+      ` */`,
+    ]
+  }
+
+  /** Name of the `query-keys.ts` factory an operation's key comes from, e.g. `petsKeys`. */
+  private getKeyFactoryName(op: ApiOperation): string {
+    return getCacheKeyForOperation(op).split('.')[0]
+  }
+}
@@ -6,18 +6,18 @@
 import type { ApiOperation, ApiSpec } from '../ir/types'
 import type { GeneratorOptions } from './types'
 import { BaseHookGenerator } from './base-generator'
-import { toPascalCase } from '../utils/naming'
 
 export class FetchGenerator extends BaseHookGenerator {
   protected generateHookFile(
     op: ApiOperation,
     hookName: string,
     _spec: ApiSpec,
-    options: GeneratorOptions,
+    _options: GeneratorOptions,
   ): string {
     const paramsType = this.getParamsTypeName(op.operationId)
     const responseType = this.getResponseTypeName(op.operationId)
     const bodyType = op.requestBody ? this.getBodyTypeName(op.operationId) : null
+    const errorType = this.getErrorType(op)
     const hasParams = op.pathParams.length > 0 || op.queryParams.length > 0
     const isRead = this.isReadOperation(op)
 
@@ -30,21 +30,15 @@ export class FetchGenerator extends BaseHookGenerator {
       ` * Generated by auto-api-hooks — do not edit manually.`,
       ` */`,
       `import { useState, useEffect, useCallback, useRef } from 'react'`,
-      `import { getClientConfig } from '../client'`,
-      `import type { ${[paramsType, responseType, bodyType].filter(Boolean).join(', ')} } from '../types'`,
+      `import { ${this.getSdkFunctionName(op)} } from '../sdk'`,
+      `import type { ${[hasParams ? paramsType : null, responseType, bodyType, this.getErrorTypeName(op)].filter((t) => t && t !== 'Error').join(', ')} } from '../types'`,
     ].filter(Boolean)
 
-    if (options.zod) {
-      const schemaName = `${toPascalCase(op.operationId)}ResponseSchema`
-      lines.push(`import { ${schemaName.charAt(0).toLowerCase() + schemaName.slice(1)} } from '../schemas'`)
-    }
-
     lines.push(``)
-
     if (isRead) {
-      lines.push(...this.generateReadHook(op, hookName, paramsType, responseType, hasParams, options))
+      lines.push(...this.generateReadHook(op, hookName, paramsType, responseType, errorType, hasParams))
     } else {
-      lines.push(...this.generateWriteHook(op, hookName, paramsType, responseType, bodyType, hasParams, options))
+      lines.push(...this.generateWriteHook(op, hookName, paramsType, responseType, bodyType, errorType, hasParams))
     }
 
     return lines.join('\n') + '\n'
@@ -55,8 +49,8 @@ export class FetchGenerator extends BaseHookGenerator {
     hookName: string,
     paramsType: string,
     responseType: string,
+    errorType: string,
     hasParams: boolean,
-    options: GeneratorOptions,
   ): string[] {
     const paramArg = hasParams ? `params: ${paramsType}` : ''
     const enabledArg = `options?: { enabled?: boolean }`
@@ -65,14 +59,14 @@ export class FetchGenerator extends BaseHookGenerator {
     return [
       `export interface ${hookName}Result {`,
       `  data: ${responseType} | null`,
-      `  error: Error | null`,
+      `  error: ${errorType} | null`,
       `  isLoading: boolean`,
       `  refetch: () => void`,
       `}`,
       ``,
       `export function ${hookName}(${args}): ${hookName}Result {`,
       `  const [data, setData] = useState<${responseType} | null>(null)`,
-      `  const [error, setError] = useState<Error | null>(null)`,
+      `  const [error, setError] = useState<${errorType} | null>(null)`,
       `  const [isLoading, setIsLoading] = useState(false)`,
       `  const abortRef = useRef<AbortController | null>(null)`,
       ``,
@@ -86,19 +80,8 @@ export class FetchGenerator extends BaseHookGenerator {
       `    setError(null)`,
       ``,
       `    try {`,
-      `      const config = getClientConfig()`,
-      `      const url = buildUrl(config.baseUrl, ${hasParams ? 'params' : 'undefined'})`,
-      `      const res = await fetch(url, {`,
-      `        method: '${op.method}',`,
-      `        headers: { 'Content-Type': 'application/json', ...config.headers },`,
-      `        signal: controller.signal,`,
-      `      })`,
-      ``,
-      `      if (!res.ok) throw new Error(\`HTTP \${res.status}: \${res.statusText}\`)`,
-      ``,
-      options.zod
-        ? `      const json = await res.json()\n      const parsed = ${toPascalCase(op.operationId).charAt(0).toLowerCase() + toPascalCase(op.operationId).slice(1)}ResponseSchema.parse(json)\n      setData(parsed as ${responseType})`
-        : `      const json = await res.json()\n      setData(json as ${responseType})`,
+      `      const result = await ${this.getSdkCall(op, { options: '{ signal: controller.signal }' })}`,
+      `      setData(result)`,
       `    } catch (err) {`,
       `      if (err instanceof Error && err.name !== 'AbortError') {`,
       `        setError(err)`,
@@ -116,8 +99,6 @@ export class FetchGenerator extends BaseHookGenerator {
       ``,
       `  return { data, error, isLoading, refetch: fetchData }`,
       `}`,
-      ``,
-      ...this.generateBuildUrl(op),
     ]
   }
 
@@ -127,8 +108,8 @@ export class FetchGenerator extends BaseHookGenerator {
     paramsType: string,
     responseType: string,
     bodyType: string | null,
+    errorType: string,
     hasParams: boolean,
-    options: GeneratorOptions,
   ): string[] {
     const mutateArgs: string[] = []
     if (hasParams) mutateArgs.push(`params: ${paramsType}`)
@@ -138,7 +119,7 @@ export class FetchGenerator extends BaseHookGenerator {
     return [
       `export interface ${hookName}Result {`,
       `  data: ${responseType} | null`,
-      `  error: Error | null`,
+      `  error: ${errorType} | null`,
       `  isLoading: boolean`,
       `  mutate: (${mutateArgStr}) => Promise<${responseType}>`,
       `  reset: () => void`,
@@ -146,7 +127,7 @@ export class FetchGenerator extends BaseHookGenerator {
       ``,
       `export function ${hookName}(): ${hookName}Result {`,
       `  const [data, setData] = useState<${responseType} | null>(null)`,
-      `  const [error, setError] = useState<Error | null>(null)`,
+      `  const [error, setError] = useState<${errorType} | null>(null)`,
       `  const [isLoading, setIsLoading] = useState(false)`,
       ``,
       `  const mutate = useCallback(async (${mutateArgStr}): Promise<${responseType}> => {`,
@@ -154,19 +135,9 @@ export class FetchGenerator extends BaseHookGenerator {
       `    setError(null)`,
       ``,
       `    try {`,
-      `      const config = getClientConfig()`,
-      `      const url = buildUrl(config.baseUrl, ${hasParams ? 'params' : 'undefined'})`,
-      `      const res = await fetch(url, {`,
-      `        method: '${op.method}',`,
-      `        headers: { 'Content-Type': 'application/json', ...config.headers },`,
-      bodyType ? `        body: JSON.stringify(body),` : '',
-      `      })`,
-      ``,
-      `      if (!res.ok) throw new Error(\`HTTP \${res.status}: \${res.statusText}\`)`,
-      ``,
-      options.zod
-        ? `      const json = await res.json()\n      const parsed = ${toPascalCase(op.operationId).charAt(0).toLowerCase() + toPascalCase(op.operationId).slice(1)}ResponseSchema.parse(json)\n      setData(parsed as ${responseType})\n      return parsed as ${responseType}`
-        : `      const json = await res.json()\n      setData(json as ${responseType})\n      return json as ${responseType}`,
+      `      const result = await ${this.getSdkCall(op)}`,
+      `      setData(result)`,
+      `      return result`,
       `    } catch (err) {`,
       `      const error = err instanceof Error ? err : new Error(String(err))`,
       `      setError(error)`,
@@ -184,55 +155,6 @@ export class FetchGenerator extends BaseHookGenerator {
       ``,
       `  return { data, error, isLoading, mutate, reset }`,
       `}`,
-      ``,
-      ...this.generateBuildUrl(op),
-    ].filter(Boolean)
-  }
-
-  private generateBuildUrl(op: ApiOperation): string[] {
-    const hasPathParams = op.pathParams.length > 0
-    const hasQueryParams = op.queryParams.length > 0
-    const paramsType = this.getParamsTypeName(op.operationId)
-    const hasAnyParams = hasPathParams || hasQueryParams
-
-    if (!hasAnyParams) {
-      return [
-        `function buildUrl(baseUrl: string, _params: undefined): string {`,
-        `  return \`\${baseUrl}${op.path}\``,
-        `}`,
-      ]
-    }
-
-    let pathTemplate = op.path
-    for (const p of op.pathParams) {
-      pathTemplate = pathTemplate.replace(`{${p.name}}`, `\${params.${p.name}}`)
-    }
-
-    const lines: string[] = [
-      `function buildUrl(baseUrl: string, params: ${paramsType}): string {`,
-      `  let url = \`\${baseUrl}${pathTemplate}\``,
     ]
-
-    if (hasQueryParams) {
-      lines.push(
-        `  const query = new URLSearchParams()`,
-      )
-      for (const p of op.queryParams) {
-        lines.push(
-          `  if (params.${p.name} !== undefined) query.set('${p.name}', String(params.${p.name}))`,
-        )
-      }
-      lines.push(
-        `  const qs = query.toString()`,
-        `  if (qs) url += \`?\${qs}\``,
-      )
-    }
-
-    lines.push(
-      `  return url`,
-      `}`,
-    )
-
-    return lines
   }
 }
@@ -0,0 +1,195 @@
+/**
+ * Shared base for generators wrapping a GraphQL client's own hooks
+ * (Apollo Client, urql).
+ *
+ * Generates:
+ * - A `gql` document per operation, typed as a `TypedDocumentNode`
+ * - Query, mutation and subscription hooks executing the documents through
+ *   the client the app provides, so its normalized cache and devtools apply
+ *
+ * Only GraphQL operations are generated. Requests go through the app's
+ * client, so there are no SDK functions and `client.ts` only holds the
+ * spec's endpoint.
+ */
+import type { ApiOperation, ApiSpec } from '../ir/types'
+import type { GeneratorOptions } from './types'
+import type { GeneratedFile } from '../utils/file-writer'
+import { BaseHookGenerator } from './base-generator'
+import { toPascalCase } from '../utils/naming'
+import { logger } from '../utils/logger'
+
+export abstract class GraphQLClientGenerator extends BaseHookGenerator {
+  /** Package `gql`, `TypedDocumentNode` and the hooks are imported from, e.g. `urql`. */
+  protected abstract getClientPackage(): string
+
+  /** Library named in generated comments, e.g. `Apollo Client`. */
+  protected abstract getLibraryName(): string
+
+  /** Hook file lines of a query operation. */
+  protected abstract generateQueryHook(op: ApiOperation, hookName: string): string[]
+
+  /** Hook file lines of a mutation operation. */
+  protected abstract generateMutationHook(op: ApiOperation, hookName: string): string[]
+
+  /** Hook file lines of a subscription operation. */
+  protected abstract generateSubscriptionHook(op: ApiOperation, hookName: string): string[]
+
+  generate(spec: ApiSpec, options: GeneratorOptions): GeneratedFile[] {
+    const operations = spec.operations.filter((op) => op.graphql)
+    const skipped = spec.operations.length - operations.length
+    if (skipped > 0) {
+      logger.warn(
+        `${this.getLibraryName()} hooks are only generated for GraphQL operations; ` +
+        `skipping ${skipped} REST operation${skipped === 1 ? '' : 's'}.`,
+      )
+    }
+
+    const files = super.generate({ ...spec, operations }, options)
+
+    // Add documents file
+    files.push({
+      path: 'documents.ts',
+      content: this.generateDocumentsFile(operations),
+    })
+
+    return files
+  }
+
+  protected generateBarrelIndex(
+    tagGroups: string[],
+    options: GeneratorOptions,
+    sdk = false,
+  ): GeneratedFile {
+    const base = super.generateBarrelIndex(tagGroups, options, sdk)
+    // Add documents export
+    const content = base.content.replace(
+      `export * from './client'`,
+      `export * from './client'\nexport * from './documents'`,
+    )
+    return { ...base, content }
+  }
+
+  protected generateClientConfig(spec: ApiSpec, options: GeneratorOptions): GeneratedFile {
+    const baseUrl = options.baseUrl || spec.baseUrl || ''
+    return {
+      path: 'client.ts',
+      content: [
+        `/**`,
+        ` * API endpoint.`,
+        ` * Generated by auto-api-hooks — do not edit manually.`,
+        ` *`,
+        ` * Hooks run on the ${this.getLibraryName()} client the app provides; create it`,
+        ` * with \`API_BASE_URL\` as its URL to use the spec's endpoint.`,
+        ` */`,
+        ``,
+        `export const API_BASE_URL = '${baseUrl}'`,
+        ``,
+      ].join('\n'),
+    }
+  }
+
+  /** Requests go through the app's client rather than SDK functions. */
+  protected hasSdkFunction(): boolean {
+    return false
+  }
+
+  protected generateHookFile(
+    op: ApiOperation,
+    hookName: string,
+    _spec: ApiSpec,
+    _options: GeneratorOptions,
+  ): string {
+    const lines = this.isReadOperation(op)
+      ? this.generateQueryHook(op, hookName)
+      : this.generateMutationHook(op, hookName)
+    return lines.join('\n')
+  }
+
+  protected generateSubscriptionHookFile(
+    op: ApiOperation,
+    hookName: string,
+    _spec: ApiSpec,
+    _options: GeneratorOptions,
+  ): string {
+    return this.generateSubscriptionHook(op, hookName).join('\n')
+  }
+
+  /**
+   * Generate `documents.ts`, declaring every operation's document.
+   */
+  protected generateDocumentsFile(operations: ApiOperation[]): string {
+    const typeImports = new Set<string>()
+    const documents: string[] = []
+
+    for (const op of operations) {
+      for (const name of this.getDocumentTypeImports(op)) typeImports.add(name)
+
+      documents.push(
+        ``,
+        `/** ${op.summary || `${op.method} ${op.path}`} */`,
+        ...(op.deprecated ? [`/** @deprecated */`] : []),
+        `export const ${this.getDocumentName(op)}: ${this.getDocumentType(op)} = gql\``,
+        ...this.getGraphQLDocumentBody(op),
+        `\``,
+      )
+    }
+
+    const lines = [
+      `/**`,
+      ` * GraphQL documents, typed with their data and variables.`,
+      ` * Generated by auto-api-hooks — do not edit manually.`,
+      ` */`,
+      `import { gql } from '${this.getClientPackage()}'`,
+      `import type { TypedDocumentNode } from '${this.getClientPackage()}'`,
+    ]
+    if (typeImports.size > 0) lines.push(`import type { ${[...typeImports].join(', ')} } from './types'`)
+    lines.push(...documents, ``)
+    return lines.join('\n')
+  }
+
+  /** Name of an operation's document, e.g. `GetPetDocument`. */
+  protected getDocumentName(op: ApiOperation): string {
+    return `${toPascalCase(op.operationId)}Document`
+  }
+
+  /** Type of an operation's document, e.g. `TypedDocumentNode<{ pet: PetResponse }, PetParams>`. */
+  protected getDocumentType(op: ApiOperation): string {
+    return `TypedDocumentNode<${this.getGraphQLDataType(op)}, ${this.getVariablesType(op) ?? 'Record<string, never>'}>`
+  }
+
+  /**
+   * Type of an operation's variables: its params for queries and
+   * subscriptions, its body for mutations, or `null` when it takes none.
+   */
+  protected getVariablesType(op: ApiOperation): string | null {
+    if (op.requestBody) return this.getBodyTypeName(op.operationId)
+    if (op.queryParams.length > 0) return this.getParamsTypeName(op.operationId)
+    return null
+  }
+
+  /** Types an operation's document is typed with: its response and variables types. */
+  protected getDocumentTypeImports(op: ApiOperation): string[] {
+    const variablesType = this.getVariablesType(op)
+    return [this.getResponseTypeName(op.operationId), ...(variablesType ? [variablesType] : [])]
+  }
+
+  /**
+   * Header and import lines shared by every hook file: the doc comment, the
+   * library and type imports, and the operation's document.
+   */
+  protected generateHookFileHeader(op: ApiOperation, imports: string[], typeImports: string[] = []): string[] {
+    return [
+      `/**`,
+      ` * ${op.summary || `${op.method} ${op.path}`}`,
+      ` *`,
+      ` * \`${op.method} ${op.path}\``,
+      ...(op.deprecated ? [` * @deprecated`] : []),
+      ` * Generated by auto-api-hooks — do not edit manually.`,
+      ` */`,
+      ...imports,
+      `import { ${this.getDocumentName(op)} } from '../documents'`,
+      ...(typeImports.length > 0 ? [`import type { ${typeImports.join(', ')} } from '../types'`] : []),
+      ``,
+    ]
+  }
+}
@@ -2,18 +2,32 @@
  * Generator factory and public API.
  */
 import type { ApiSpec } from '../ir/types'
-import type { FetcherStrategy, GeneratorOptions, HookGenerator } from './types'
+import type { FetcherName, FetcherStrategy, GeneratorOptions, HookGenerator } from './types'
+import type { Templates } from '../templates/types'
+import type { BaseHookGenerator } from './base-generator'
 import type { GeneratedFile } from '../utils/file-writer'
 import { FetchGenerator } from './fetch-generator'
 import { AxiosGenerator } from './axios-generator'
 import { ReactQueryGenerator } from './react-query-generator'
 import { SwrGenerator } from './swr-generator'
+import { VueQueryGenerator } from './vue-query-generator'
+import { SvelteQueryGenerator } from './svelte-query-generator'
+import { SolidQueryGenerator } from './solid-query-generator'
+import { RtkQueryGenerator } from './rtk-query-generator'
+import { AngularGenerator } from './angular-generator'
+import { AngularQueryGenerator } from './angular-query-generator'
+import { ApolloGenerator } from './apollo-generator'
+import { UrqlGenerator } from './urql-generator'
 import { GeneratorError } from '../utils/errors'
 
 /**
- * Create a hook generator for the specified fetcher strategy.
+ * Create a hook generator for the specified fetcher strategy, looking up
+ * names that are not built-in in `customGenerators`.
  */
-export function createGenerator(strategy: FetcherStrategy): HookGenerator {
+export function createGenerator(
+  strategy: FetcherName,
+  customGenerators: ReadonlyMap<string, () => HookGenerator> = new Map(),
+): HookGenerator {
   switch (strategy) {
     case 'fetch':
       return new FetchGenerator()
@@ -23,20 +37,66 @@ export function createGenerator(strategy: FetcherStrategy): HookGenerator {
       return new ReactQueryGenerator()
     case 'swr':
       return new SwrGenerator()
-    default:
+    case 'vue-query':
+      return new VueQueryGenerator()
+    case 'svelte-query':
+      return new SvelteQueryGenerator()
+    case 'solid-query':
+      return new SolidQueryGenerator()
+    case 'rtk-query':
+      return new RtkQueryGenerator()
+    case 'angular':
+      return new AngularGenerator()
+    case 'angular-query':
+      return new AngularQueryGenerator()
+    case 'apollo':
+      return new ApolloGenerator()
+    case 'urql':
+      return new UrqlGenerator()
+    default: {
+      const factory = customGenerators.get(strategy)
+      if (factory) return factory()
       throw new GeneratorError(`Unknown fetcher strategy: ${strategy as string}`)
+    }
   }
 }
 
+/**
+ * The templates a built-in strategy renders files with by default. Template
+ * overrides can call them to build on the built-in output.
+ */
+export function getDefaultTemplates(strategy: FetcherStrategy): Required<Templates> {
+  return (createGenerator(strategy) as BaseHookGenerator).getDefaultTemplates()
+}
+
 /**
  * Generate hooks from a parsed API spec.
  */
 export function generateHooks(
   spec: ApiSpec,
   options: GeneratorOptions,
+  customGenerators?: ReadonlyMap<string, () => HookGenerator>,
 ): GeneratedFile[] {
-  const generator = createGenerator(options.fetcher)
+  const generator = createGenerator(options.fetcher, customGenerators)
   return generator.generate(spec, options)
 }
 
-export type { FetcherStrategy, GeneratorOptions, HookGenerator } from './types'
+export { BaseHookGenerator } from './base-generator'
+export { CreateQueryGenerator } from './create-query-generator'
+export { GraphQLClientGenerator } from './graphql-client-generator'
+export {
+  FetchGenerator,
+  AxiosGenerator,
+  ReactQueryGenerator,
+  SwrGenerator,
+  VueQueryGenerator,
+  SvelteQueryGenerator,
+  SolidQueryGenerator,
+  RtkQueryGenerator,
+  AngularGenerator,
+  AngularQueryGenerator,
+  ApolloGenerator,
+  UrqlGenerator,
+}
+export type { FetcherName, FetcherStrategy, GeneratorOptions, HookGenerator } from './types'
+export type { CreateQueryOptionsKind } from './create-query-generator'
@@ -3,16 +3,17 @@
  *
  * Generates:
  * - useQuery hooks for GET operations
- * - useMutation hooks for POST/PUT/PATCH/DELETE operations
+ * - useMutation hooks for POST/PUT/PATCH/DELETE operations, invalidating the
+ *   queries they make stale
  * - useInfiniteQuery hooks for paginated GET operations
  * - Cache key factory objects per resource
  */
 import type { ApiOperation, ApiSpec, PaginationInfo } from '../ir/types'
+import { usesPageHeaders } from '../ir/helpers'
 import type { GeneratorOptions } from './types'
 import type { GeneratedFile } from '../utils/file-writer'
 import { BaseHookGenerator } from './base-generator'
-import { toPascalCase } from '../utils/naming'
-import { deriveCacheKeyFactories, getQueryKey } from '../utils/cache-keys'
+import { deriveCacheKeyFactories, emitQueryKeyFactories, getInvalidatedQueryKeys, getQueryKey } from '../utils/cache-keys'
 
 export class ReactQueryGenerator extends BaseHookGenerator {
   protected supportsInfiniteQueries(): boolean {
@@ -32,46 +33,18 @@ export class ReactQueryGenerator extends BaseHookGenerator {
    * Generate the query-keys.ts file with cache key factories.
    */
   private generateQueryKeysFile(spec: ApiSpec): GeneratedFile {
-    const factories = deriveCacheKeyFactories(spec.operations)
-    const lines: string[] = [
-      `/**`,
-      ` * Query key factories for TanStack React Query.`,
-      ` * Generated by auto-api-hooks — do not edit manually.`,
-      ` */`,
-      ``,
-    ]
-
-    for (const factory of factories) {
-      lines.push(
-        `export const ${factory.variableName} = {`,
-        `  all: [${factory.rootKey.map((k) => `'${k}'`).join(', ')}] as const,`,
-      )
-      if (factory.hasList) {
-        lines.push(
-          `  lists: () => [...${factory.variableName}.all, 'list'] as const,`,
-          `  list: (params?: Record<string, unknown>) => [...${factory.variableName}.lists(), params] as const,`,
-        )
-      }
-      if (factory.hasDetail) {
-        lines.push(
-          `  details: () => [...${factory.variableName}.all, 'detail'] as const,`,
-          `  detail: (id: string | number) => [...${factory.variableName}.details(), id] as const,`,
-        )
-      }
-      lines.push(`} as const`, ``)
-    }
-
     return {
       path: 'query-keys.ts',
-      content: lines.join('\n'),
+      content: emitQueryKeyFactories(deriveCacheKeyFactories(spec.operations), 'TanStack React Query'),
     }
   }
 
   protected generateBarrelIndex(
     tagGroups: string[],
     options: GeneratorOptions,
+    sdk = false,
   ): GeneratedFile {
-    const base = super.generateBarrelIndex(tagGroups, options)
+    const base = super.generateBarrelIndex(tagGroups, options, sdk)
     // Add query-keys export
     const content = base.content.replace(
       `export * from './client'`,
@@ -83,13 +56,12 @@ export class ReactQueryGenerator extends BaseHookGenerator {
   protected generateHookFile(
     op: ApiOperation,
     hookName: string,
-    _spec: ApiSpec,
-    options: GeneratorOptions,
+    spec: ApiSpec,
+    _options: GeneratorOptions,
   ): string {
-    const isRead = this.isReadOperation(op)
-    return isRead
-      ? this.generateQueryHook(op, hookName, options)
-      : this.generateMutationHook(op, hookName, options)
+    return this.isReadOperation(op)
+      ? this.generateQueryHook(op, hookName)
+      : this.generateMutationHook(op, hookName, spec)
   }
 
   protected generateSubscriptionHookFile(
@@ -105,33 +77,28 @@ export class ReactQueryGenerator extends BaseHookGenerator {
     op: ApiOperation,
     hookName: string,
     _spec: ApiSpec,
-    options: GeneratorOptions,
+    _options: GeneratorOptions,
   ): string | null {
     if (!op.pagination) return null
-    return this.generateInfiniteQueryHook(op, hookName, op.pagination, options)
+    return this.generateInfiniteQueryHook(op, hookName, op.pagination)
   }
 
   // ---------------------------------------------------------------------------
   // useQuery
   // ---------------------------------------------------------------------------
 
-  private generateQueryHook(
-    op: ApiOperation,
-    hookName: string,
-    options: GeneratorOptions,
-  ): string {
+  private generateQueryHook(op: ApiOperation, hookName: string): string {
     const paramsType = this.getParamsTypeName(op.operationId)
     const responseType = this.getResponseTypeName(op.operationId)
+    const dataType = this.getQueryDataType(op)
+    const errorType = this.getErrorType(op)
     const hasParams = op.pathParams.length > 0 || op.queryParams.length > 0
-    const queryKey = getQueryKey(op)
-    const schemaVar = `${toPascalCase(op.operationId).charAt(0).toLowerCase() + toPascalCase(op.operationId).slice(1)}ResponseSchema`
+    const queryKey = getQueryKey(op, 'params')
 
     const paramArg = hasParams ? `params: ${paramsType}` : ''
-    const optionsArg = `options?: Partial<UseQueryOptions<${responseType}, Error>>`
+    const optionsArg = `options?: Partial<UseQueryOptions<${dataType}, ${errorType}>>`
     const args = [paramArg, optionsArg].filter(Boolean).join(', ')
 
-    const fetcherBody = this.generateFetcherBody(op, options)
-
     const lines: string[] = [
       `/**`,
       ` * ${op.summary || `${op.method} ${op.path}`}`,
@@ -142,22 +109,16 @@ export class ReactQueryGenerator extends BaseHookGenerator {
       ` */`,
       `import { useQuery } from '@tanstack/react-query'`,
       `import type { UseQueryOptions } from '@tanstack/react-query'`,
-      `import { getClientConfig } from '../client'`,
-      `import type { ${[paramsType, responseType].filter(Boolean).join(', ')} } from '../types'`,
+      `import { ${this.getSdkFunctionName(op)} } from '../sdk'`,
+      `import type { ${[hasParams ? paramsType : null, responseType, this.getErrorTypeName(op)].filter((t) => t && t !== 'Error').join(', ')} } from '../types'`,
     ].filter(Boolean)
 
-    if (options.zod) {
-      lines.push(`import { ${schemaVar} } from '../schemas'`)
-    }
-
     lines.push(
       ``,
       `export function ${hookName}(${args}) {`,
-      `  return useQuery<${responseType}, Error>({`,
+      `  return useQuery<${dataType}, ${errorType}>({`,
       `    queryKey: ${queryKey},`,
-      `    queryFn: async () => {`,
-      ...fetcherBody.map((l) => `      ${l}`),
-      `    },`,
+      `    queryFn: ({ signal }) => ${this.getQueryFnCall(op, { options: '{ signal }' })},`,
       `    ...options,`,
       `  })`,
       `}`,
@@ -171,16 +132,17 @@ export class ReactQueryGenerator extends BaseHookGenerator {
   // useMutation
   // ---------------------------------------------------------------------------
 
-  private generateMutationHook(
-    op: ApiOperation,
-    hookName: string,
-    options: GeneratorOptions,
-  ): string {
+  /**
+   * On success, the mutation invalidates the queries of the paths from
+   * `getInvalidatedPaths()` before calling `options.onSuccess`. The hook's
+   * `invalidate` option replaces those keys, or turns invalidation off.
+   */
+  private generateMutationHook(op: ApiOperation, hookName: string, spec: ApiSpec): string {
     const paramsType = this.getParamsTypeName(op.operationId)
     const responseType = this.getResponseTypeName(op.operationId)
+    const errorType = this.getErrorType(op)
     const bodyType = op.requestBody ? this.getBodyTypeName(op.operationId) : null
     const hasParams = op.pathParams.length > 0 || op.queryParams.length > 0
-    const schemaVar = `${toPascalCase(op.operationId).charAt(0).toLowerCase() + toPascalCase(op.operationId).slice(1)}ResponseSchema`
 
     // Build the mutation variables type
     const varFields: string[] = []
@@ -188,9 +150,9 @@ export class ReactQueryGenerator extends BaseHookGenerator {
     if (bodyType) varFields.push(`body: ${bodyType}`)
     const varsType = varFields.length > 0 ? `{ ${varFields.join('; ')} }` : 'void'
 
-    const fetcherBody = this.generateMutationFetcherBody(op, options)
-
-    const typeImports = [paramsType, responseType, bodyType].filter(Boolean).join(', ')
+    const typeImports = [hasParams ? paramsType : null, responseType, bodyType, this.getErrorTypeName(op)].filter((t) => t && t !== 'Error').join(', ')
+    const queryKeys = getInvalidatedQueryKeys(op, deriveCacheKeyFactories(spec.operations), 'vars.params')
+    const keyFactories = [...new Set(queryKeys.map((key) => key.split('.')[0]))]
 
     const lines: string[] = [
       `/**`,
@@ -200,24 +162,39 @@ export class ReactQueryGenerator extends BaseHookGenerator {
       op.deprecated ? ` * @deprecated` : '',
       ` * Generated by auto-api-hooks — do not edit manually.`,
       ` */`,
-      `import { useMutation } from '@tanstack/react-query'`,
-      `import type { UseMutationOptions } from '@tanstack/react-query'`,
-      `import { getClientConfig } from '../client'`,
+      `import { useMutation, useQueryClient } from '@tanstack/react-query'`,
+      `import type { QueryKey, UseMutationOptions } from '@tanstack/react-query'`,
+      keyFactories.length > 0 ? `import { ${keyFactories.join(', ')} } from '../query-keys'` : '',
+      `import { ${this.getSdkFunctionName(op)} } from '../sdk'`,
       `import type { ${typeImports} } from '../types'`,
     ].filter(Boolean)
 
-    if (options.zod) {
-      lines.push(`import { ${schemaVar} } from '../schemas'`)
-    }
+    const invalidateOption = `{ invalidate?: false | ((vars: ${varsType}) => QueryKey[]) }`
+    const invalidateQueries = (keys: string) => `await Promise.all(${keys}.map((queryKey) => queryClient.invalidateQueries({ queryKey })))`
 
     lines.push(
       ``,
-      `export function ${hookName}(options?: UseMutationOptions<${responseType}, Error, ${varsType}>) {`,
-      `  return useMutation<${responseType}, Error, ${varsType}>({`,
-      `    mutationFn: async (${varFields.length > 0 ? 'vars' : ''}) => {`,
-      ...fetcherBody.map((l) => `      ${l}`),
+      `export function ${hookName}(options?: UseMutationOptions<${responseType}, ${errorType}, ${varsType}> & ${invalidateOption}) {`,
+      `  const queryClient = useQueryClient()`,
+      `  const { invalidate, ...mutationOptions } = options ?? {}`,
+      `  return useMutation<${responseType}, ${errorType}, ${varsType}>({`,
+      `    mutationFn: (${varFields.length > 0 ? 'vars' : ''}) => ${this.getSdkCall(op, { params: 'vars.params', body: 'vars.body' })},`,
+      `    ...mutationOptions,`,
+      `    onSuccess: async (data, vars, ...rest) => {`,
+      ...(queryKeys.length > 0
+        ? [
+            `      if (invalidate !== false) {`,
+            `        const queryKeys = invalidate ? invalidate(vars) : [${queryKeys.join(', ')}]`,
+            `        ${invalidateQueries('queryKeys')}`,
+            `      }`,
+          ]
+        : [
+            `      if (invalidate) {`,
+            `        ${invalidateQueries('invalidate(vars)')}`,
+            `      }`,
+          ]),
+      `      return mutationOptions.onSuccess?.(data, vars, ...rest)`,
       `    },`,
-      `    ...options,`,
       `  })`,
       `}`,
       ``,
@@ -234,20 +211,22 @@ export class ReactQueryGenerator extends BaseHookGenerator {
     op: ApiOperation,
     hookName: string,
     pagination: PaginationInfo,
-    options: GeneratorOptions,
   ): string {
     const paramsType = this.getParamsTypeName(op.operationId)
     const responseType = this.getResponseTypeName(op.operationId)
-    const hasParams = op.queryParams.length > 1 || op.pathParams.length > 0 // >1 because one is the page param
-    const queryKey = getQueryKey(op)
-    const schemaVar = `${toPascalCase(op.operationId).charAt(0).toLowerCase() + toPascalCase(op.operationId).slice(1)}ResponseSchema`
-
-    const pageParamType = pagination.strategy === 'cursor' ? 'string | undefined' : 'number'
-    const initialPageParam = pagination.strategy === 'cursor' ? 'undefined' : pagination.strategy === 'offset-limit' ? '0' : '1'
-    const nextPagePath = pagination.nextPagePath.join('?.')
-
-    const paramArg = hasParams ? `params: Omit<${paramsType}, '${pagination.pageParam}'>` : ''
-    const optionsArg = `options?: Partial<UseInfiniteQueryOptions<${responseType}, Error>>`
+    const errorType = this.getErrorType(op)
+    const hasParams = this.hasInfiniteParams(op, pagination)
+    const queryKey = getQueryKey(op, 'params')
+
+    const pageParam = this.getInfinitePageParam(op, pagination, hasParams)
+    const pageHeaders = usesPageHeaders(pagination)
+    const pageType = pageHeaders ? `PageWithHeaders<${responseType}>` : responseType
+    const nodes = this.getInfiniteNodesSelect(op, pagination, pageType)
+    const queryTypes = [pageType, errorType, ...(nodes ? [nodes.dataType] : [])].join(', ')
+
+    const omitted = this.getPageParamNames(pagination).map((name) => `'${name}'`).join(' | ')
+    const paramArg = hasParams ? `params: Omit<${paramsType}, ${omitted}>` : ''
+    const optionsArg = `options?: Partial<UseInfiniteQueryOptions<${queryTypes}>>`
     const args = [paramArg, optionsArg].filter(Boolean).join(', ')
 
     const lines: string[] = [
@@ -259,64 +238,24 @@ export class ReactQueryGenerator extends BaseHookGenerator {
       ` * Generated by auto-api-hooks — do not edit manually.`,
       ` */`,
       `import { useInfiniteQuery } from '@tanstack/react-query'`,
-      `import type { UseInfiniteQueryOptions } from '@tanstack/react-query'`,
-      `import { getClientConfig } from '../client'`,
-      `import type { ${[paramsType, responseType].filter(Boolean).join(', ')} } from '../types'`,
+      `import type { ${nodes ? 'InfiniteData, ' : ''}UseInfiniteQueryOptions } from '@tanstack/react-query'`,
+      pagination.nextPageHeader ? `import { readPageHeader } from '../client'` : '',
+      pageHeaders ? `import type { PageWithHeaders } from '../client'` : '',
+      `import { ${this.hasSdkPageFunction(op) ? this.getSdkPageFunctionName(op) : this.getSdkFunctionName(op)} } from '../sdk'`,
+      `import type { ${[paramsType, responseType, this.getErrorTypeName(op)].filter((t) => t && t !== 'Error').join(', ')} } from '../types'`,
     ].filter(Boolean)
 
-    if (options.zod) {
-      lines.push(`import { ${schemaVar} } from '../schemas'`)
-    }
-
-    // Build the fetcher path
-    let pathExpr = `'${op.path}'`
-    if (op.pathParams.length > 0) {
-      let tmpl = op.path
-      for (const p of op.pathParams) {
-        tmpl = tmpl.replace(`{${p.name}}`, `\${params.${p.name}}`)
-      }
-      pathExpr = `\`${tmpl}\``
-    }
+    const fetchPage = this.getSdkCall(op, { params: pageParam.pageParams, options: '{ signal }' }, this.hasSdkPageFunction(op))
 
     lines.push(
       ``,
       `export function ${hookName}(${args}) {`,
-      `  return useInfiniteQuery<${responseType}, Error>({`,
+      `  return useInfiniteQuery<${queryTypes}>({`,
       `    queryKey: ${queryKey},`,
-      `    queryFn: async ({ pageParam }) => {`,
-      `      const config = getClientConfig()`,
-      `      const url = new URL(${pathExpr}, config.baseUrl)`,
-    )
-
-    // Add query params
-    for (const p of op.queryParams) {
-      if (p.name === pagination.pageParam) {
-        lines.push(`      if (pageParam !== undefined) url.searchParams.set('${p.name}', String(pageParam))`)
-      } else {
-        lines.push(`      if (${hasParams ? `params.${p.name}` : 'undefined'} !== undefined) url.searchParams.set('${p.name}', String(${hasParams ? `params.${p.name}` : ''}))`)
-      }
-    }
-
-    lines.push(
-      `      const res = await fetch(url.toString(), {`,
-      `        headers: { 'Content-Type': 'application/json', ...config.headers },`,
-      `      })`,
-      `      if (!res.ok) throw new Error(\`HTTP \${res.status}: \${res.statusText}\`)`,
-    )
-
-    if (options.zod) {
-      lines.push(
-        `      const json = await res.json()`,
-        `      return ${schemaVar}.parse(json) as ${responseType}`,
-      )
-    } else {
-      lines.push(`      return (await res.json()) as ${responseType}`)
-    }
-
-    lines.push(
-      `    },`,
-      `    initialPageParam: ${initialPageParam} as ${pageParamType},`,
-      `    getNextPageParam: (lastPage) => (lastPage as Record<string, unknown>)?.${nextPagePath} as ${pageParamType},`,
+      `    queryFn: ({ pageParam, signal }) => ${fetchPage},`,
+      `    initialPageParam: ${pageParam.initial} as ${pageParam.type},`,
+      ...this.generatePageParamGetters(op, pagination, hasParams),
+      ...(nodes?.lines ?? []),
       `    ...options,`,
       `  })`,
       `}`,
@@ -351,15 +290,17 @@ export class ReactQueryGenerator extends BaseHookGenerator {
       ` * GraphQL Subscription: \`${op.path}\``,
       ` *`,
       ` * Note: TanStack Query does not natively support subscriptions.`,
-      ` * This hook uses a WebSocket connection with React state management.`,
+      ` * This hook subscribes over the WebSocket shared by every subscription`,
+      ` * hook, with React state management.`,
       op.deprecated ? ` * @deprecated` : '',
       ` * Generated by auto-api-hooks — do not edit manually.`,
       ` */`,
       `import { useState, useEffect, useRef, useCallback } from 'react'`,
       `import { useQueryClient } from '@tanstack/react-query'`,
-      `import { getClientConfig } from '../client'`,
+      `import { subscribe } from '../client'`,
       `import type { ${typeImports} } from '../types'`,
       ``,
+      ...this.generateGraphQLDocument(op),
       `export interface ${hookName}Result {`,
       `  data: ${responseType} | null`,
       `  error: Error | null`,
@@ -372,12 +313,12 @@ export class ReactQueryGenerator extends BaseHookGenerator {
       `  const [data, setData] = useState<${responseType} | null>(null)`,
       `  const [error, setError] = useState<Error | null>(null)`,
       `  const [status, setStatus] = useState<'connecting' | 'connected' | 'disconnected' | 'error'>('disconnected')`,
-      `  const wsRef = useRef<WebSocket | null>(null)`,
+      `  const stopRef = useRef<(() => void) | null>(null)`,
       ``,
       `  const unsubscribe = useCallback(() => {`,
-      `    if (wsRef.current) {`,
-      `      wsRef.current.close()`,
-      `      wsRef.current = null`,
+      `    if (stopRef.current) {`,
+      `      stopRef.current()`,
+      `      stopRef.current = null`,
       `      setStatus('disconnected')`,
       `    }`,
       `  }, [])`,
@@ -385,55 +326,31 @@ export class ReactQueryGenerator extends BaseHookGenerator {
       `  useEffect(() => {`,
       `    if (options?.enabled === false) return`,
       ``,
-      `    const config = getClientConfig()`,
-      `    const wsUrl = config.baseUrl.replace(/^http/, 'ws')`,
-      `    const ws = new WebSocket(wsUrl, 'graphql-ws')`,
-      `    wsRef.current = ws`,
       `    setStatus('connecting')`,
-      ``,
-      `    ws.onopen = () => {`,
-      `      setStatus('connected')`,
-      `      ws.send(JSON.stringify({`,
-      `        type: 'start',`,
-      `        id: '${op.operationId}',`,
-      `        payload: {`,
-      `          query: \`subscription { ${op.path} { __typename } }\`,`,
-      hasArgs ? `          variables,` : '',
-      `        },`,
-      `      }))`,
-      `    }`,
-      ``,
-      `    ws.onmessage = (event) => {`,
-      `      try {`,
-      `        const message = JSON.parse(event.data as string)`,
-      `        if (message.type === 'data' && message.payload?.data?.${op.path}) {`,
-      `          const value = message.payload.data.${op.path} as ${responseType}`,
+      `    const stop = subscribe<${this.getGraphQLDataType(op)}>(`,
+      `      { query: document, operationName: '${op.graphql!.operationName}'${hasArgs ? ', variables' : ''} },`,
+      `      {`,
+      `        start: () => setStatus('connected'),`,
+      `        next: (result) => {`,
+      `          const value = ${this.getGraphQLResult(op, 'result')}`,
       `          setData(value)`,
       `          options?.onData?.(value)`,
       `          // Invalidate related queries so they refetch fresh data`,
       `          queryClient.invalidateQueries()`,
-      `        }`,
-      `      } catch (err) {`,
-      `        const parseError = err instanceof Error ? err : new Error(String(err))`,
-      `        setError(parseError)`,
-      `        setStatus('error')`,
-      `        options?.onError?.(parseError)`,
-      `      }`,
-      `    }`,
-      ``,
-      `    ws.onerror = () => {`,
-      `      const wsError = new Error('WebSocket connection error')`,
-      `      setError(wsError)`,
-      `      setStatus('error')`,
-      `      options?.onError?.(wsError)`,
-      `    }`,
-      ``,
-      `    ws.onclose = () => {`,
-      `      setStatus('disconnected')`,
-      `    }`,
+      `        },`,
+      `        error: (err) => {`,
+      `          setError(err)`,
+      `          setStatus('error')`,
+      `          options?.onError?.(err)`,
+      `        },`,
+      `        complete: () => setStatus('disconnected'),`,
+      `      },`,
+      `    )`,
+      `    stopRef.current = stop`,
       ``,
       `    return () => {`,
-      `      ws.close()`,
+      `      stop()`,
+      `      stopRef.current = null`,
       `    }`,
       `  // eslint-disable-next-line react-hooks/exhaustive-deps`,
       `  }, [${hasArgs ? 'JSON.stringify(variables)' : ''}])`,
@@ -447,100 +364,90 @@ export class ReactQueryGenerator extends BaseHookGenerator {
   }
 
   // ---------------------------------------------------------------------------
-  // Shared fetcher body generators
+  // Streaming query
   // ---------------------------------------------------------------------------
 
-  private generateFetcherBody(op: ApiOperation, options: GeneratorOptions): string[] {
-    const responseType = this.getResponseTypeName(op.operationId)
-    const schemaVar = `${toPascalCase(op.operationId).charAt(0).toLowerCase() + toPascalCase(op.operationId).slice(1)}ResponseSchema`
-
-    let pathExpr = `'${op.path}'`
-    if (op.pathParams.length > 0) {
-      let tmpl = op.path
-      for (const p of op.pathParams) {
-        tmpl = tmpl.replace(`{${p.name}}`, `\${params.${p.name}}`)
-      }
-      pathExpr = `\`${tmpl}\``
-    }
-
-    const lines: string[] = [
-      `const config = getClientConfig()`,
-      `const url = new URL(${pathExpr}, config.baseUrl)`,
-    ]
-
-    for (const p of op.queryParams) {
-      lines.push(`if (params.${p.name} !== undefined) url.searchParams.set('${p.name}', String(params.${p.name}))`)
-    }
-
-    lines.push(
-      `const res = await fetch(url.toString(), {`,
-      `  headers: { 'Content-Type': 'application/json', ...config.headers },`,
-      `})`,
-      `if (!res.ok) throw new Error(\`HTTP \${res.status}: \${res.statusText}\`)`,
-    )
-
-    if (options.zod) {
-      lines.push(
-        `const json = await res.json()`,
-        `return ${schemaVar}.parse(json) as ${responseType}`,
-      )
-    } else {
-      lines.push(`return (await res.json()) as ${responseType}`)
-    }
-
-    return lines
-  }
-
-  private generateMutationFetcherBody(op: ApiOperation, options: GeneratorOptions): string[] {
+  /**
+   * Streams into the query cache, like TanStack's `streamedQuery`: `data` is
+   * the array of events received so far and grows as each one arrives, while
+   * `fetchStatus` stays `'fetching'` until the stream closes. The stream is
+   * opened through `request()`, like the SDK functions, so it gets the same
+   * URL, headers, credentials and errors.
+   */
+  protected generateStreamHookFile(
+    op: ApiOperation,
+    hookName: string,
+    spec: ApiSpec,
+    options: GeneratorOptions,
+  ): string {
+    const paramsType = this.getParamsTypeName(op.operationId)
     const responseType = this.getResponseTypeName(op.operationId)
+    const bodyType = op.requestBody ? this.getBodyTypeName(op.operationId) : null
+    const errorType = this.getErrorType(op)
     const hasParams = op.pathParams.length > 0 || op.queryParams.length > 0
-    const hasBody = !!op.requestBody
-    const schemaVar = `${toPascalCase(op.operationId).charAt(0).toLowerCase() + toPascalCase(op.operationId).slice(1)}ResponseSchema`
-
-    let pathExpr = `'${op.path}'`
-    if (op.pathParams.length > 0) {
-      let tmpl = op.path
-      for (const p of op.pathParams) {
-        tmpl = tmpl.replace(`{${p.name}}`, `\${vars.params.${p.name}}`)
-      }
-      pathExpr = `\`${tmpl}\``
-    }
+    const auth = this.getOperationAuth(op, spec)
+
+    const args: string[] = []
+    if (hasParams) args.push(`params: ${paramsType}`)
+    if (bodyType) args.push(`body: ${bodyType}`)
+    args.push(`options?: Partial<UseQueryOptions<${responseType}[], ${errorType}>>`)
+    const keyParts = [`'${op.operationId}'`, `'stream'`, hasParams ? 'params' : '', bodyType ? 'body' : '']
+      .filter(Boolean)
+      .join(', ')
 
     const lines: string[] = [
-      `const config = getClientConfig()`,
-      `const url = new URL(${pathExpr}, config.baseUrl)`,
+      ...this.generateStreamFileHeader(op),
+      `import { useCallback, useRef } from 'react'`,
+      `import { useQuery, useQueryClient } from '@tanstack/react-query'`,
+      `import type { UseQueryOptions } from '@tanstack/react-query'`,
+      ...this.generateStreamImports(op, auth, options, ['ServerSentEvent'], [hasParams ? paramsType : null, responseType, bodyType, this.getErrorTypeName(op)], true),
+      ``,
+      `export function ${hookName}(${args.join(', ')}) {`,
+      `  const queryClient = useQueryClient()`,
+      `  const abortRef = useRef<AbortController | null>(null)`,
+      `  const queryKey = [${keyParts}] as const`,
+      ``,
+      `  const query = useQuery<${responseType}[], ${errorType}>({`,
+      `    queryKey,`,
+      `    queryFn: async ({ signal }) => {`,
+      `      // Our own controller, so abort() can end the stream without cancelling the query`,
+      `      const controller = new AbortController()`,
+      `      abortRef.current = controller`,
+      `      signal.addEventListener('abort', () => controller.abort())`,
+      ``,
+      `      const events: ${responseType}[] = []`,
+      `      queryClient.setQueryData(queryKey, events)`,
+      `      try {`,
+      `        const res = await request({`,
+      ...this.getSdkRequestFields(op, auth).map((l) => `          ${l}`),
+      `          headers: { Accept: 'text/event-stream' },`,
+      `          signal: controller.signal,`,
+      `        })`,
+      `        for await (const raw of readEventStream(res)) {`,
+      `          events.push(decodeEvent(raw))`,
+      `          queryClient.setQueryData(queryKey, [...events])`,
+      `        }`,
+      `      } catch (err) {`,
+      `        // abort() keeps the events received so far`,
+      `        if (!controller.signal.aborted || signal.aborted) throw err`,
+      `      }`,
+      `      return events`,
+      `    },`,
+      `    refetchOnWindowFocus: false,`,
+      `    ...options,`,
+      `  })`,
+      ``,
+      `  const abort = useCallback(() => {`,
+      `    abortRef.current?.abort()`,
+      `  }, [])`,
+      ``,
+      `  return { ...query, abort }`,
+      `}`,
+      ``,
+      ...this.generateDecodeEvent(op, options),
+      ``,
     ]
 
-    if (hasParams) {
-      for (const p of op.queryParams) {
-        lines.push(`if (vars.params.${p.name} !== undefined) url.searchParams.set('${p.name}', String(vars.params.${p.name}))`)
-      }
-    }
-
-    lines.push(
-      `const res = await fetch(url.toString(), {`,
-      `  method: '${op.method}',`,
-      `  headers: { 'Content-Type': 'application/json', ...config.headers },`,
-    )
-
-    if (hasBody) {
-      lines.push(`  body: JSON.stringify(vars.body),`)
-    }
-
-    lines.push(
-      `})`,
-      `if (!res.ok) throw new Error(\`HTTP \${res.status}: \${res.statusText}\`)`,
-    )
-
-    if (options.zod) {
-      lines.push(
-        `const json = await res.json()`,
-        `return ${schemaVar}.parse(json) as ${responseType}`,
-      )
-    } else {
-      lines.push(`return (await res.json()) as ${responseType}`)
-    }
-
-    return lines
+    return lines.join('\n')
   }
 }
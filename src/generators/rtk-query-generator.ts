@@ -0,0 +1,450 @@
+/**
+ * RTK Query generator.
+ *
+ * Generates:
+ * - An `api.ts` slice created with `createApi` and a `fakeBaseQuery`
+ * - One module per operation injecting its endpoint into the slice,
+ *   `build.query` for GET operations and `build.mutation` for writes
+ * - The auto-generated hooks of each endpoint
+ *
+ * Endpoints call the SDK functions, and provide or invalidate tags derived
+ * from the operation's resource, so mutations refetch the queries they affect.
+ */
+import type { ApiOperation, ApiSpec } from '../ir/types'
+import type { GeneratorOptions } from './types'
+import type { GeneratedFile } from '../utils/file-writer'
+import { BaseHookGenerator } from './base-generator'
+import { deriveTagTypes, getTagsForOperation } from '../utils/cache-keys'
+import { toCamelCase } from '../utils/naming'
+
+/** How an endpoint's arg is named and where its params and body sit in it. */
+interface EndpointArg {
+  type: string
+  name: string
+  params: string
+  body: string
+}
+
+export class RtkQueryGenerator extends BaseHookGenerator {
+  generate(spec: ApiSpec, options: GeneratorOptions): GeneratedFile[] {
+    const files = super.generate(spec, options)
+
+    // Add the API slice the endpoints are injected into
+    files.push({
+      path: 'api.ts',
+      content: this.generateApiSlice(spec),
+    })
+
+    return files
+  }
+
+  protected generateBarrelIndex(
+    tagGroups: string[],
+    options: GeneratorOptions,
+    sdk = false,
+  ): GeneratedFile {
+    const base = super.generateBarrelIndex(tagGroups, options, sdk)
+    // Add api slice export
+    const content = base.content.replace(
+      `export * from './client'`,
+      `export * from './client'\nexport * from './api'`,
+    )
+    return { ...base, content }
+  }
+
+  /**
+   * Also export the lazy hook RTK Query generates for each query endpoint.
+   */
+  protected generateHookGroup(
+    tag: string,
+    operations: ApiOperation[],
+    spec: ApiSpec,
+    options: GeneratorOptions,
+  ): GeneratedFile[] {
+    const files = super.generateHookGroup(tag, operations, spec, options)
+    const index = files[files.length - 1]
+
+    let content = index.content
+    for (const op of operations) {
+      if (op.streaming || !this.isReadOperation(op)) continue
+      const hookName = this.getOperationHookName(op)
+      content = content.replace(
+        `export { ${hookName} }`,
+        `export { ${hookName}, ${this.getLazyHookName(hookName)} }`,
+      )
+    }
+    files[files.length - 1] = { ...index, content }
+
+    return files
+  }
+
+  /**
+   * Hooks are named as RTK Query generates them, e.g. `useListPetsQuery`.
+   * Stream hooks keep the `Stream` suffix the other strategies use.
+   */
+  protected getOperationHookName(op: ApiOperation): string {
+    const name = super.getOperationHookName(op)
+    if (op.streaming) return name
+    return `${name}${this.isWriteOperation(op) ? 'Mutation' : 'Query'}`
+  }
+
+  protected getHookFileName(hookName: string): string {
+    return super.getHookFileName(hookName.replace(/(Query|Mutation)$/, ''))
+  }
+
+  protected generateHookFile(
+    op: ApiOperation,
+    hookName: string,
+    _spec: ApiSpec,
+    _options: GeneratorOptions,
+  ): string {
+    return this.isReadOperation(op)
+      ? this.generateQueryEndpoint(op, hookName)
+      : this.generateMutationEndpoint(op, hookName)
+  }
+
+  // ---------------------------------------------------------------------------
+  // API slice
+  // ---------------------------------------------------------------------------
+
+  private generateApiSlice(spec: ApiSpec): string {
+    const tagTypes = deriveTagTypes(spec.operations)
+
+    const lines: string[] = [
+      `/**`,
+      ` * RTK Query API slice. Each operation's module injects its endpoint.`,
+      ` * Generated by auto-api-hooks — do not edit manually.`,
+      ` */`,
+      `import { createApi, fakeBaseQuery } from '@reduxjs/toolkit/query/react'`,
+      `import { ApiError } from './client'`,
+      ``,
+      `/** Serializable error a failed endpoint keeps in the store. */`,
+      `export type ApiSliceError =`,
+      `  | { status: number; data: unknown }`,
+      `  | { status: 'FETCH_ERROR'; error: string }`,
+      ``,
+      `/**`,
+      ` * Cache entry of a subscription or stream endpoint. Failures are kept`,
+      ` * next to the data that arrived before them, since the entry stays in use.`,
+      ` */`,
+      `export interface LiveData<T> {`,
+      `  data: T`,
+      `  error: ApiSliceError | null`,
+      `}`,
+      ``,
+      `export const api = createApi({`,
+      `  reducerPath: '${this.getReducerPath(spec)}',`,
+      `  baseQuery: fakeBaseQuery<ApiSliceError>(),`,
+      `  tagTypes: [${tagTypes.map((t) => `'${t}'`).join(', ')}],`,
+      `  endpoints: () => ({}),`,
+      `})`,
+      ``,
+      `/** Convert a thrown error into the serializable \`ApiSliceError\` the store keeps. */`,
+      `export function toApiSliceError(error: unknown): ApiSliceError {`,
+      `  if (error instanceof ApiError) return { status: error.status, data: error.body }`,
+      `  return { status: 'FETCH_ERROR', error: error instanceof Error ? error.message : String(error) }`,
+      `}`,
+      ``,
+      `/**`,
+      ` * Settle an SDK call into the result an endpoint's \`queryFn\` returns.`,
+      ` * Thrown errors become an \`ApiSliceError\`, since the store keeps them.`,
+      ` */`,
+      `export async function settleRequest<T>(request: Promise<T>): Promise<{ data: T } | { error: ApiSliceError }> {`,
+      `  try {`,
+      `    return { data: await request }`,
+      `  } catch (error) {`,
+      `    return { error: toApiSliceError(error) }`,
+      `  }`,
+      `}`,
+      ``,
+    ]
+
+    return lines.join('\n')
+  }
+
+  /**
+   * The slice's `reducerPath`, named after the API so slices generated from
+   * several specs can share a store, e.g. `petstoreApi` for "Petstore API".
+   */
+  protected getReducerPath(spec: ApiSpec): string {
+    const name = spec.title.replace(/[^a-zA-Z0-9]+/g, ' ').trim()
+    const base = /^[a-zA-Z]/.test(name) ? toCamelCase(name).replace(/Api$/i, '') : ''
+    return base ? `${base}Api` : 'api'
+  }
+
+  // ---------------------------------------------------------------------------
+  // build.query
+  // ---------------------------------------------------------------------------
+
+  private generateQueryEndpoint(op: ApiOperation, hookName: string): string {
+    const responseType = this.getResponseTypeName(op.operationId)
+    const arg = this.getEndpointArg(op, !!op.requestBody)
+    const endpoint = this.getEndpointName(hookName)
+    const call = this.getSdkCall(op, { params: arg.params, body: arg.body, options: '{ signal }' })
+
+    const lines: string[] = [
+      ...this.generateFileHeader(op),
+      `import { api, settleRequest } from '../api'`,
+      `import { ${this.getSdkFunctionName(op)} } from '../sdk'`,
+      `import type { ${this.getTypeImports(op, [responseType])} } from '../types'`,
+      ``,
+      `export const ${endpoint}Api = api.injectEndpoints({`,
+      `  endpoints: (build) => ({`,
+      `    ${endpoint}: build.query<${responseType}, ${arg.type}>({`,
+      `      queryFn: (${arg.name}, { signal }) => settleRequest(${call}),`,
+      `      providesTags: ${getTagsForOperation(op, arg.name, arg.params)},`,
+      `    }),`,
+      `  }),`,
+      `})`,
+      ``,
+      `export const { ${hookName}, ${this.getLazyHookName(hookName)} } = ${endpoint}Api`,
+      ``,
+    ]
+
+    return lines.join('\n')
+  }
+
+  // ---------------------------------------------------------------------------
+  // build.mutation
+  // ---------------------------------------------------------------------------
+
+  private generateMutationEndpoint(op: ApiOperation, hookName: string): string {
+    const responseType = this.getResponseTypeName(op.operationId)
+    const arg = this.getEndpointArg(op, true)
+    const endpoint = this.getEndpointName(hookName)
+    const call = this.getSdkCall(op, { params: arg.params, body: arg.body })
+
+    const lines: string[] = [
+      ...this.generateFileHeader(op),
+      `import { api, settleRequest } from '../api'`,
+      `import { ${this.getSdkFunctionName(op)} } from '../sdk'`,
+      `import type { ${this.getTypeImports(op, [responseType])} } from '../types'`,
+      ``,
+      `export const ${endpoint}Api = api.injectEndpoints({`,
+      `  endpoints: (build) => ({`,
+      `    ${endpoint}: build.mutation<${responseType}, ${arg.type}>({`,
+      `      queryFn: (${arg.name}) => settleRequest(${call}),`,
+      `      invalidatesTags: ${getTagsForOperation(op, arg.name, arg.params)},`,
+      `    }),`,
+      `  }),`,
+      `})`,
+      ``,
+      `export const { ${hookName} } = ${endpoint}Api`,
+      ``,
+    ]
+
+    return lines.join('\n')
+  }
+
+  // ---------------------------------------------------------------------------
+  // Subscription
+  // ---------------------------------------------------------------------------
+
+  /**
+   * A query endpoint whose cache entry is fed by the subscription: its data
+   * starts out `null`, subscribes once the entry is added, takes each result
+   * as it arrives and unsubscribes when the entry is removed. A failed
+   * subscription is recorded as the entry's `error`.
+   */
+  protected generateSubscriptionHookFile(
+    op: ApiOperation,
+    hookName: string,
+    _spec: ApiSpec,
+    _options: GeneratorOptions,
+  ): string {
+    const responseType = this.getResponseTypeName(op.operationId)
+    const hasArgs = op.queryParams.length > 0
+    const paramsType = this.getParamsTypeName(op.operationId)
+    const endpoint = this.getEndpointName(hookName)
+
+    const lines: string[] = [
+      `/**`,
+      ` * ${op.summary || `SUBSCRIPTION ${op.path}`}`,
+      ` *`,
+      ` * GraphQL Subscription: \`${op.path}\``,
+      ` * Keeps the latest result in the endpoint's cache entry, subscribed over`,
+      ` * the WebSocket shared by every subscription while the entry is in use.`,
+      ...(op.deprecated ? [` * @deprecated`] : []),
+      ` * Generated by auto-api-hooks — do not edit manually.`,
+      ` */`,
+      `import { api, toApiSliceError } from '../api'`,
+      `import type { LiveData } from '../api'`,
+      `import { subscribe } from '../client'`,
+      `import type { ${hasArgs ? `${paramsType}, ${responseType}` : responseType} } from '../types'`,
+      ``,
+      ...this.generateGraphQLDocument(op),
+      `export const ${endpoint}Api = api.injectEndpoints({`,
+      `  endpoints: (build) => ({`,
+      `    ${endpoint}: build.query<LiveData<${responseType} | null>, ${hasArgs ? paramsType : 'void'}>({`,
+      `      // No initial request: results arrive over the subscription`,
+      `      queryFn: () => ({ data: { data: null, error: null } }),`,
+      `      async onCacheEntryAdded(${hasArgs ? 'variables' : '_arg'}, { updateCachedData, cacheDataLoaded, cacheEntryRemoved }) {`,
+      `        let stop: (() => void) | undefined`,
+      `        try {`,
+      `          await cacheDataLoaded`,
+      `          stop = subscribe<${this.getGraphQLDataType(op)}>(`,
+      `            { query: document, operationName: '${op.graphql!.operationName}'${hasArgs ? ', variables' : ''} },`,
+      `            {`,
+      `              next: (result) => updateCachedData(() => ({ data: ${this.getGraphQLResult(op, 'result')}, error: null })),`,
+      `              error: (err) => updateCachedData((entry) => {`,
+      `                entry.error = toApiSliceError(err)`,
+      `              }),`,
+      `              complete: () => {},`,
+      `            },`,
+      `          )`,
+      `        } catch {`,
+      `          // The cache entry was removed before it was added`,
+      `        }`,
+      `        await cacheEntryRemoved`,
+      `        stop?.()`,
+      `      },`,
+      `    }),`,
+      `  }),`,
+      `})`,
+      ``,
+      `export const { ${hookName} } = ${endpoint}Api`,
+      ``,
+    ]
+
+    return lines.join('\n')
+  }
+
+  // ---------------------------------------------------------------------------
+  // Streaming query
+  // ---------------------------------------------------------------------------
+
+  /**
+   * A query endpoint whose cache entry holds the events received so far: its
+   * data starts out empty, opens the stream once the entry is added and
+   * appends each event as it arrives. The stream is closed when the entry is
+   * removed, and a stream that fails is recorded as the entry's `error`.
+   */
+  protected generateStreamHookFile(
+    op: ApiOperation,
+    hookName: string,
+    spec: ApiSpec,
+    options: GeneratorOptions,
+  ): string {
+    const responseType = this.getResponseTypeName(op.operationId)
+    const arg = this.getEndpointArg(op, !!op.requestBody)
+    const auth = this.getOperationAuth(op, spec)
+    const endpoint = this.getEndpointName(hookName)
+    const rtkHookName = `${hookName}Query`
+
+    const values: string[] = []
+    if (op.pathParams.length > 0 || op.queryParams.length > 0) values.push(arg.params)
+    if (op.requestBody) values.push(arg.body)
+
+    const lines: string[] = [
+      ...this.generateStreamFileHeader(op),
+      `import { api, toApiSliceError } from '../api'`,
+      `import type { LiveData } from '../api'`,
+      ...this.generateStreamImports(op, auth, options, ['ServerSentEvent'], this.getTypeImports(op, [responseType]).split(', ')),
+      ``,
+      `export const ${endpoint}Api = api.injectEndpoints({`,
+      `  endpoints: (build) => ({`,
+      `    ${endpoint}: build.query<LiveData<${responseType}[]>, ${arg.type}>({`,
+      `      // No initial request: events arrive over the stream`,
+      `      queryFn: () => ({ data: { data: [], error: null } }),`,
+      `      async onCacheEntryAdded(${values.length > 0 ? arg.name : '_arg'}, { updateCachedData, cacheDataLoaded, cacheEntryRemoved }) {`,
+      `        const controller = new AbortController()`,
+      `        cacheEntryRemoved.then(() => controller.abort())`,
+      `        try {`,
+      `          await cacheDataLoaded`,
+      `          const res = await openStream(${[...values, 'controller.signal'].join(', ')})`,
+      `          for await (const raw of readEventStream(res)) {`,
+      `            const event = decodeEvent(raw)`,
+      `            updateCachedData((entry) => {`,
+      `              entry.data.push(event)`,
+      `            })`,
+      `          }`,
+      `        } catch (err) {`,
+      `          // Removing the cache entry aborts the stream`,
+      `          if (!controller.signal.aborted) {`,
+      `            updateCachedData((entry) => {`,
+      `              entry.error = toApiSliceError(err)`,
+      `            })`,
+      `          }`,
+      `        }`,
+      `      },`,
+      `    }),`,
+      `  }),`,
+      `})`,
+      ``,
+      `export const { ${rtkHookName}: ${hookName} } = ${endpoint}Api`,
+      ``,
+      ...this.generateOpenStream(op, auth),
+      ``,
+      ...this.generateDecodeEvent(op, options),
+      ``,
+      ...this.generateBuildUrl(op),
+      ``,
+    ]
+
+    return lines.join('\n')
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  /** Doc comment opening an endpoint module. */
+  private generateFileHeader(op: ApiOperation): string[] {
+    return [
+      `/**`,
+      ` * ${op.summary || `${op.method} ${op.path}`}`,
+      ` *`,
+      ` * \`${op.method} ${op.path}\``,
+      ...(op.deprecated ? [` * @deprecated`] : []),
+      ` * Generated by auto-api-hooks — do not edit manually.`,
+      ` */`,
+    ]
+  }
+
+  /**
+   * The arg an endpoint takes. Without `vars` it is the operation's params;
+   * with it, the params and body are taken together, like mutation variables.
+   */
+  private getEndpointArg(op: ApiOperation, vars: boolean): EndpointArg {
+    const paramsType = this.getParamsTypeName(op.operationId)
+    const hasParams = op.pathParams.length > 0 || op.queryParams.length > 0
+
+    if (!vars) {
+      return { type: hasParams ? paramsType : 'void', name: hasParams ? 'params' : '_arg', params: 'params', body: 'body' }
+    }
+
+    const fields: string[] = []
+    if (hasParams) fields.push(`params: ${paramsType}`)
+    if (op.requestBody) fields.push(`body: ${this.getBodyTypeName(op.operationId)}`)
+    return {
+      type: fields.length > 0 ? `{ ${fields.join('; ')} }` : 'void',
+      name: fields.length > 0 ? 'vars' : '_arg',
+      params: 'vars.params',
+      body: 'vars.body',
+    }
+  }
+
+  /** Types an endpoint module imports from `types.ts`: its params and body, then `extra`. */
+  private getTypeImports(op: ApiOperation, extra: string[]): string {
+    const hasParams = op.pathParams.length > 0 || op.queryParams.length > 0
+    return [
+      hasParams ? this.getParamsTypeName(op.operationId) : null,
+      op.requestBody ? this.getBodyTypeName(op.operationId) : null,
+      ...extra,
+    ].filter((t) => t && t !== 'Error').join(', ')
+  }
+
+  /**
+   * Name of the endpoint behind a hook, e.g. `listPets` for `useListPetsQuery`.
+   * RTK Query names the hooks after it, so the two always match.
+   */
+  private getEndpointName(hookName: string): string {
+    const name = hookName.replace(/^use/, '').replace(/(Query|Mutation)$/, '')
+    return name[0].toLowerCase() + name.slice(1)
+  }
+
+  /** Name of the lazy hook RTK Query generates for a query endpoint, e.g. `useLazyListPetsQuery`. */
+  private getLazyHookName(hookName: string): string {
+    return hookName.replace(/^use/, 'useLazy')
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * TanStack Solid Query generator.
+ *
+ * Wrappers take their params and options as accessors, so they track the
+ * signals read inside them. Subscriptions expose their state as signals.
+ */
+import type { ApiOperation, ApiSpec } from '../ir/types'
+import type { GeneratorOptions } from './types'
+import { CreateQueryGenerator } from './create-query-generator'
+import type { CreateQueryOptionsKind } from './create-query-generator'
+
+export class SolidQueryGenerator extends CreateQueryGenerator {
+  protected getQueryPackage(): string {
+    return '@tanstack/solid-query'
+  }
+
+  protected getLibraryName(): string {
+    return 'TanStack Solid Query'
+  }
+
+  /** The option objects the `Use*Options` accessor types return. */
+  protected getOptionsTypeName(kind: CreateQueryOptionsKind): string {
+    if (kind === 'mutation') return 'MutationOptions'
+    if (kind === 'infiniteQuery') return 'InfiniteQueryOptions'
+    return 'QueryOptions'
+  }
+
+  /**
+   * Solid's query primitives only have overloads for defined and for
+   * undefined `initialData`, so options that may carry either match neither.
+   */
+  protected getOptionsType(kind: CreateQueryOptionsKind, typeArgs: string): string {
+    const type = super.getOptionsType(kind, typeArgs)
+    return kind === 'mutation' ? type : `${type} & { initialData?: undefined }`
+  }
+
+  /**
+   * Subscribes in an effect, so the subscription is reopened when the
+   * variables change and closed with the owning scope.
+   */
+  protected generateSubscriptionHookFile(
+    op: ApiOperation,
+    hookName: string,
+    spec: ApiSpec,
+    _options: GeneratorOptions,
+  ): string {
+    const responseType = this.getResponseTypeName(op.operationId)
+    const hasArgs = op.queryParams.length > 0
+    const paramsType = this.getParamsTypeName(op.operationId)
+
+    const invalidation = this.getSubscriptionInvalidation(op, spec, 'currentVariables', '          ')
+
+    const paramArg = hasArgs ? `variables: Accessor<${paramsType}>` : ''
+    const optionsArg = `options?: { onData?: (data: ${responseType}) => void; onError?: (error: Error) => void; enabled?: Accessor<boolean>; ${invalidation.option} }`
+    const args = [paramArg, optionsArg].filter(Boolean).join(', ')
+
+    const typeImports = hasArgs ? `${paramsType}, ${responseType}` : responseType
+
+    const lines: string[] = [
+      `/**`,
+      ` * ${op.summary || `SUBSCRIPTION ${op.path}`}`,
+      ` *`,
+      ` * GraphQL Subscription: \`${op.path}\``,
+      ` *`,
+      ` * Note: TanStack Query does not natively support subscriptions.`,
+      ` * This primitive subscribes over the WebSocket shared by every`,
+      ` * subscription, and resubscribes when its variables change.`,
+      ...(op.deprecated ? [` * @deprecated`] : []),
+      ` * Generated by auto-api-hooks — do not edit manually.`,
+      ` */`,
+      `import { createEffect, createSignal, onCleanup } from 'solid-js'`,
+      `import type { Accessor } from 'solid-js'`,
+      `import { useQueryClient } from '@tanstack/solid-query'`,
+      `import type { QueryKey } from '@tanstack/solid-query'`,
+      ...(invalidation.keyFactories.length > 0 ? [`import { ${invalidation.keyFactories.join(', ')} } from '../query-keys'`] : []),
+      `import { subscribe } from '../client'`,
+      `import type { ${typeImports} } from '../types'`,
+      ``,
+      ...this.generateGraphQLDocument(op),
+      `export interface ${hookName}Result {`,
+      `  data: Accessor<${responseType} | null>`,
+      `  error: Accessor<Error | null>`,
+      `  status: Accessor<'connecting' | 'connected' | 'disconnected' | 'error'>`,
+      `  unsubscribe: () => void`,
+      `}`,
+      ``,
+      `export function ${hookName}(${args}): ${hookName}Result {`,
+      `  const queryClient = useQueryClient()`,
+      `  const [data, setData] = createSignal<${responseType} | null>(null)`,
+      `  const [error, setError] = createSignal<Error | null>(null)`,
+      `  const [status, setStatus] = createSignal<'connecting' | 'connected' | 'disconnected' | 'error'>('disconnected')`,
+      `  let stop: (() => void) | null = null`,
+      ``,
+      `  const unsubscribe = () => {`,
+      `    if (stop) {`,
+      `      stop()`,
+      `      stop = null`,
+      `      setStatus('disconnected')`,
+      `    }`,
+      `  }`,
+      ``,
+      `  createEffect(() => {`,
+      `    if (options?.enabled?.() === false) return`,
+      ...(hasArgs ? [`    const currentVariables = variables()`] : []),
+      ``,
+      `    setStatus('connecting')`,
+      `    stop = subscribe<${this.getGraphQLDataType(op)}>(`,
+      `      { query: document, operationName: '${op.graphql!.operationName}'${hasArgs ? ', variables: currentVariables' : ''} },`,
+      `      {`,
+      `        start: () => setStatus('connected'),`,
+      `        next: (result) => {`,
+      `          const value = ${this.getGraphQLResult(op, 'result')}`,
+      `          setData(() => value)`,
+      `          options?.onData?.(value)`,
+      ...invalidation.lines,
+      `        },`,
+      `        error: (err) => {`,
+      `          setError(err)`,
+      `          setStatus('error')`,
+      `          options?.onError?.(err)`,
+      `        },`,
+      `        complete: () => setStatus('disconnected'),`,
+      `      },`,
+      `    )`,
+      `    onCleanup(unsubscribe)`,
+      `  })`,
+      ``,
+      `  return { data, error, status, unsubscribe }`,
+      `}`,
+      ``,
+    ]
+
+    return lines.join('\n')
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * TanStack Svelte Query generator, for Svelte 5.
+ *
+ * Wrappers take their params and options as accessors, so they track runes
+ * such as `$state` read inside them. Subscriptions are Svelte stores.
+ */
+import type { ApiOperation, ApiSpec } from '../ir/types'
+import type { GeneratorOptions } from './types'
+import { CreateQueryGenerator } from './create-query-generator'
+import type { CreateQueryOptionsKind } from './create-query-generator'
+
+export class SvelteQueryGenerator extends CreateQueryGenerator {
+  protected getQueryPackage(): string {
+    return '@tanstack/svelte-query'
+  }
+
+  protected getLibraryName(): string {
+    return 'TanStack Svelte Query'
+  }
+
+  protected getOptionsTypeName(kind: CreateQueryOptionsKind): string {
+    if (kind === 'mutation') return 'CreateMutationOptions'
+    if (kind === 'infiniteQuery') return 'CreateInfiniteQueryOptions'
+    return 'CreateQueryOptions'
+  }
+
+  /**
+   * A readable store of the latest result. The subscription opens when the
+   * store gets its first subscriber (e.g. `$onMessage` in a component) and
+   * closes after the last one unsubscribes.
+   */
+  protected generateSubscriptionHookFile(
+    op: ApiOperation,
+    hookName: string,
+    spec: ApiSpec,
+    _options: GeneratorOptions,
+  ): string {
+    const responseType = this.getResponseTypeName(op.operationId)
+    const hasArgs = op.queryParams.length > 0
+    const paramsType = this.getParamsTypeName(op.operationId)
+    const stateType = `${hookName}State`
+
+    const invalidation = this.getSubscriptionInvalidation(op, spec, 'variables', '          ')
+
+    const paramArg = hasArgs ? `variables: ${paramsType}` : ''
+    const optionsArg = `options?: { onData?: (data: ${responseType}) => void; onError?: (error: Error) => void; ${invalidation.option} }`
+    const args = [paramArg, optionsArg].filter(Boolean).join(', ')
+
+    const typeImports = hasArgs ? `${paramsType}, ${responseType}` : responseType
+
+    const lines: string[] = [
+      `/**`,
+      ` * ${op.summary || `SUBSCRIPTION ${op.path}`}`,
+      ` *`,
+      ` * GraphQL Subscription: \`${op.path}\``,
+      ` *`,
+      ` * Note: TanStack Query does not natively support subscriptions.`,
+      ` * This store subscribes over the WebSocket shared by every subscription`,
+      ` * while it has subscribers.`,
+      ...(op.deprecated ? [` * @deprecated`] : []),
+      ` * Generated by auto-api-hooks — do not edit manually.`,
+      ` */`,
+      `import { readable } from 'svelte/store'`,
+      `import type { Readable } from 'svelte/store'`,
+      `import { useQueryClient } from '@tanstack/svelte-query'`,
+      `import type { QueryKey } from '@tanstack/svelte-query'`,
+      ...(invalidation.keyFactories.length > 0 ? [`import { ${invalidation.keyFactories.join(', ')} } from '../query-keys'`] : []),
+      `import { subscribe } from '../client'`,
+      `import type { ${typeImports} } from '../types'`,
+      ``,
+      ...this.generateGraphQLDocument(op),
+      `export interface ${stateType} {`,
+      `  data: ${responseType} | null`,
+      `  error: Error | null`,
+      `  status: 'connecting' | 'connected' | 'disconnected' | 'error'`,
+      `}`,
+      ``,
+      `export function ${hookName}(${args}): Readable<${stateType}> {`,
+      `  const queryClient = useQueryClient()`,
+      ``,
+      `  return readable<${stateType}>({ data: null, error: null, status: 'disconnected' }, (_set, update) => {`,
+      `    update((state) => ({ ...state, status: 'connecting' }))`,
+      `    return subscribe<${this.getGraphQLDataType(op)}>(`,
+      `      { query: document, operationName: '${op.graphql!.operationName}'${hasArgs ? ', variables' : ''} },`,
+      `      {`,
+      `        start: () => update((state) => ({ ...state, status: 'connected' })),`,
+      `        next: (result) => {`,
+      `          const value = ${this.getGraphQLResult(op, 'result')}`,
+      `          update((state) => ({ ...state, data: value }))`,
+      `          options?.onData?.(value)`,
+      ...invalidation.lines,
+      `        },`,
+      `        error: (err) => {`,
+      `          update((state) => ({ ...state, error: err, status: 'error' }))`,
+      `          options?.onError?.(err)`,
+      `        },`,
+      `        complete: () => update((state) => ({ ...state, status: 'disconnected' })),`,
+      `      },`,
+      `    )`,
+      `  })`,
+      `}`,
+      ``,
+    ]
+
+    return lines.join('\n')
+  }
+}
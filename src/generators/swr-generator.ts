@@ -3,14 +3,15 @@
  *
  * Generates:
  * - useSWR hooks for GET operations
- * - useSWRMutation hooks for POST/PUT/PATCH/DELETE operations
+ * - useSWRMutation hooks for POST/PUT/PATCH/DELETE operations, revalidating
+ *   the keys they make stale
  * - useSWRInfinite hooks for paginated GET operations
  */
 import type { ApiOperation, ApiSpec, PaginationInfo } from '../ir/types'
+import { usesPageHeaders } from '../ir/helpers'
 import type { GeneratorOptions } from './types'
 import { BaseHookGenerator } from './base-generator'
-import { toPascalCase } from '../utils/naming'
-import { getSwrKey } from '../utils/cache-keys'
+import { getInvalidatedSwrPaths, getSwrKey } from '../utils/cache-keys'
 
 export class SwrGenerator extends BaseHookGenerator {
   protected supportsInfiniteQueries(): boolean {
@@ -21,12 +22,11 @@ export class SwrGenerator extends BaseHookGenerator {
     op: ApiOperation,
     hookName: string,
     _spec: ApiSpec,
-    options: GeneratorOptions,
+    _options: GeneratorOptions,
   ): string {
-    const isRead = this.isReadOperation(op)
-    return isRead
-      ? this.generateSwrHook(op, hookName, options)
-      : this.generateSwrMutationHook(op, hookName, options)
+    return this.isReadOperation(op)
+      ? this.generateSwrHook(op, hookName)
+      : this.generateSwrMutationHook(op, hookName)
   }
 
   protected generateSubscriptionHookFile(
@@ -42,33 +42,27 @@ export class SwrGenerator extends BaseHookGenerator {
     op: ApiOperation,
     hookName: string,
     _spec: ApiSpec,
-    options: GeneratorOptions,
+    _options: GeneratorOptions,
   ): string | null {
     if (!op.pagination) return null
-    return this.generateSwrInfiniteHook(op, hookName, op.pagination, options)
+    return this.generateSwrInfiniteHook(op, hookName, op.pagination)
   }
 
   // ---------------------------------------------------------------------------
   // useSWR
   // ---------------------------------------------------------------------------
 
-  private generateSwrHook(
-    op: ApiOperation,
-    hookName: string,
-    options: GeneratorOptions,
-  ): string {
+  private generateSwrHook(op: ApiOperation, hookName: string): string {
     const paramsType = this.getParamsTypeName(op.operationId)
     const responseType = this.getResponseTypeName(op.operationId)
+    const errorType = this.getErrorType(op)
     const hasParams = op.pathParams.length > 0 || op.queryParams.length > 0
-    const swrKey = getSwrKey(op)
-    const schemaVar = `${toPascalCase(op.operationId).charAt(0).toLowerCase() + toPascalCase(op.operationId).slice(1)}ResponseSchema`
+    const swrKey = getSwrKey(op, 'params')
 
     const paramArg = hasParams ? `params: ${paramsType}` : ''
     const optionsArg = `options?: { enabled?: boolean }`
     const args = [paramArg, optionsArg].filter(Boolean).join(', ')
 
-    const fetcherBody = this.generateFetcherBody(op, options)
-
     const lines: string[] = [
       `/**`,
       ` * ${op.summary || `${op.method} ${op.path}`}`,
@@ -79,22 +73,16 @@ export class SwrGenerator extends BaseHookGenerator {
       ` */`,
       `import useSWR from 'swr'`,
       `import type { SWRConfiguration } from 'swr'`,
-      `import { getClientConfig } from '../client'`,
-      `import type { ${[paramsType, responseType].filter(Boolean).join(', ')} } from '../types'`,
+      `import { ${this.getSdkFunctionName(op)} } from '../sdk'`,
+      `import type { ${[hasParams ? paramsType : null, responseType, this.getErrorTypeName(op)].filter((t) => t && t !== 'Error').join(', ')} } from '../types'`,
     ].filter(Boolean)
 
-    if (options.zod) {
-      lines.push(`import { ${schemaVar} } from '../schemas'`)
-    }
-
     lines.push(
       ``,
       `export function ${hookName}(${args}) {`,
       `  const key = options?.enabled === false ? null : ${swrKey}`,
       ``,
-      `  return useSWR<${responseType}, Error>(key, async () => {`,
-      ...fetcherBody.map((l) => `    ${l}`),
-      `  })`,
+      `  return useSWR<${responseType}, ${errorType}>(key, () => ${this.getSdkCall(op)})`,
       `}`,
       ``,
     )
@@ -106,16 +94,20 @@ export class SwrGenerator extends BaseHookGenerator {
   // useSWRMutation
   // ---------------------------------------------------------------------------
 
-  private generateSwrMutationHook(
-    op: ApiOperation,
-    hookName: string,
-    options: GeneratorOptions,
-  ): string {
+  /**
+   * After the request succeeds, the mutation revalidates the keys of the paths
+   * from `getInvalidatedPaths()`, matching string keys and the first element
+   * of array keys. The hook's `invalidate` option replaces the matcher, or
+   * turns revalidation off. SWR's filter `mutate` skips `useSWRInfinite`
+   * lists, so a matched page key is also revalidated as the first page of
+   * an infinite list, through its `unstable_serialize` key.
+   */
+  private generateSwrMutationHook(op: ApiOperation, hookName: string): string {
     const paramsType = this.getParamsTypeName(op.operationId)
     const responseType = this.getResponseTypeName(op.operationId)
+    const errorType = this.getErrorType(op)
     const bodyType = op.requestBody ? this.getBodyTypeName(op.operationId) : null
     const hasParams = op.pathParams.length > 0 || op.queryParams.length > 0
-    const schemaVar = `${toPascalCase(op.operationId).charAt(0).toLowerCase() + toPascalCase(op.operationId).slice(1)}ResponseSchema`
 
     // Build the arg type
     const argFields: string[] = []
@@ -123,9 +115,7 @@ export class SwrGenerator extends BaseHookGenerator {
     if (bodyType) argFields.push(`body: ${bodyType}`)
     const argType = argFields.length > 0 ? `{ ${argFields.join('; ')} }` : 'void'
 
-    const typeImports = [paramsType, responseType, bodyType].filter(Boolean).join(', ')
-
-    const fetcherBody = this.generateMutationFetcherBody(op, options)
+    const typeImports = [hasParams ? paramsType : null, responseType, bodyType, this.getErrorTypeName(op)].filter((t) => t && t !== 'Error').join(', ')
 
     const lines: string[] = [
       `/**`,
@@ -135,22 +125,47 @@ export class SwrGenerator extends BaseHookGenerator {
       op.deprecated ? ` * @deprecated` : '',
       ` * Generated by auto-api-hooks — do not edit manually.`,
       ` */`,
+      `import { useSWRConfig } from 'swr'`,
+      `import type { Arguments } from 'swr'`,
       `import useSWRMutation from 'swr/mutation'`,
-      `import { getClientConfig } from '../client'`,
+      `import { unstable_serialize } from 'swr/infinite'`,
+      `import { ${this.getSdkFunctionName(op)} } from '../sdk'`,
       `import type { ${typeImports} } from '../types'`,
     ].filter(Boolean)
 
-    if (options.zod) {
-      lines.push(`import { ${schemaVar} } from '../schemas'`)
-    }
+    const conditions = getInvalidatedSwrPaths(op, 'arg.params')
+    const matcher = conditions.length > 0
+      ? [
+          `    const matches = options?.invalidate?.(arg) ?? ((key: Arguments) => {`,
+          `      const path = Array.isArray(key) ? key[0] : key`,
+          `      if (typeof path !== 'string') return false`,
+          `      const pathname = path.split('?')[0]`,
+          `      return ${conditions.join(' || ')}`,
+          `    })`,
+        ]
+      : [
+          `    const matches = options?.invalidate?.(arg)`,
+          `    if (!matches) return data`,
+        ]
 
     lines.push(
       ``,
-      `export function ${hookName}() {`,
-      `  return useSWRMutation<${responseType}, Error, string, ${argType}>(`,
+      `export function ${hookName}(options?: { invalidate?: false | ((arg: ${argType}) => (key: Arguments) => boolean) }) {`,
+      `  const { mutate } = useSWRConfig()`,
+      `  return useSWRMutation<${responseType}, ${errorType}, string, ${argType}>(`,
       `    '${op.method} ${op.path}',`,
       `    async (_key: string, { arg }: { arg: ${argType} }) => {`,
-      ...fetcherBody.map((l) => `      ${l}`),
+      `      const data = await ${this.getSdkCall(op, { params: 'arg.params', body: 'arg.body' })}`,
+      `      if (options?.invalidate === false) return data`,
+      ...matcher.map((l) => `  ${l}`),
+      `      const infiniteKeys: string[] = []`,
+      `      await mutate((key) => {`,
+      `        if (!matches(key)) return false`,
+      `        infiniteKeys.push(unstable_serialize(() => key))`,
+      `        return true`,
+      `      })`,
+      `      await Promise.all(infiniteKeys.map((key) => mutate(key)))`,
+      `      return data`,
       `    },`,
       `  )`,
       `}`,
@@ -168,13 +183,16 @@ export class SwrGenerator extends BaseHookGenerator {
     op: ApiOperation,
     hookName: string,
     pagination: PaginationInfo,
-    options: GeneratorOptions,
   ): string {
     const paramsType = this.getParamsTypeName(op.operationId)
     const responseType = this.getResponseTypeName(op.operationId)
+    const errorType = this.getErrorType(op)
     const hasParams = op.queryParams.length > 1 || op.pathParams.length > 0
-    const schemaVar = `${toPascalCase(op.operationId).charAt(0).toLowerCase() + toPascalCase(op.operationId).slice(1)}ResponseSchema`
-    const nextPagePath = pagination.nextPagePath.join('?.')
+    const initialPageParam = pagination.strategy === 'cursor' ? 'undefined' : pagination.strategy === 'offset-limit' ? '0' : '1'
+    const current = pagination.strategy === 'offset-limit' ? '(pageIndex - 1) * limit' : 'pageIndex'
+    const nextPage = this.generateNextPageParam(op, pagination, 'previousPageData', current, hasParams, 'null')
+    const pageHeaders = usesPageHeaders(pagination)
+    const pageType = pageHeaders ? `PageWithHeaders<${responseType}>` : responseType
 
     const paramArg = hasParams ? `params: Omit<${paramsType}, '${pagination.pageParam}'>` : ''
     const args = [paramArg].filter(Boolean).join(', ')
@@ -187,6 +205,7 @@ export class SwrGenerator extends BaseHookGenerator {
       }
       pathExpr = `\`${tmpl}\``
     }
+    const key = (pageParam: string) => `[${pathExpr}, ${pageParam}${hasParams ? ', params' : ''}] as const`
 
     const lines: string[] = [
       `/**`,
@@ -197,56 +216,26 @@ export class SwrGenerator extends BaseHookGenerator {
       ` * Generated by auto-api-hooks — do not edit manually.`,
       ` */`,
       `import useSWRInfinite from 'swr/infinite'`,
-      `import { getClientConfig } from '../client'`,
-      `import type { ${[paramsType, responseType].filter(Boolean).join(', ')} } from '../types'`,
+      pagination.nextPageHeader ? `import { readPageHeader } from '../client'` : '',
+      pageHeaders ? `import type { PageWithHeaders } from '../client'` : '',
+      `import { ${this.hasSdkPageFunction(op) ? this.getSdkPageFunctionName(op) : this.getSdkFunctionName(op)} } from '../sdk'`,
+      `import type { ${[paramsType, responseType, this.getErrorTypeName(op)].filter((t) => t && t !== 'Error').join(', ')} } from '../types'`,
     ].filter(Boolean)
 
-    if (options.zod) {
-      lines.push(`import { ${schemaVar} } from '../schemas'`)
-    }
+    const pageParams = `{ ${hasParams ? '...params, ' : ''}${pagination.pageParam}: pageParam as ${paramsType}['${pagination.pageParam}'] }`
+    const fetchPage = this.getSdkCall(op, { params: pageParams }, this.hasSdkPageFunction(op))
 
     lines.push(
       ``,
       `export function ${hookName}(${args}) {`,
-      `  const getKey = (pageIndex: number, previousPageData: ${responseType} | null) => {`,
-      `    if (previousPageData && !(previousPageData as Record<string, unknown>)?.${nextPagePath}) return null`,
-      `    const pageParam = pageIndex === 0`,
-      `      ? undefined`,
-      `      : (previousPageData as Record<string, unknown>)?.${nextPagePath}`,
-      `    return [${pathExpr}, pageParam${hasParams ? ', params' : ''}] as const`,
+      `  const getKey = (pageIndex: number, previousPageData: ${pageType} | null) => {`,
+      `    if (pageIndex === 0) return ${key(initialPageParam)}`,
+      `    if (!previousPageData) return null`,
+      ...nextPage.lines.map((l) => `    ${l}`),
+      `    return ${key(pagination.strategy === 'offset-limit' && !pagination.nextPageHeader ? 'pageIndex * limit' : nextPage.next)}`,
       `  }`,
       ``,
-      `  return useSWRInfinite<${responseType}, Error>(getKey, async ([_path, pageParam]) => {`,
-      `    const config = getClientConfig()`,
-      `    const url = new URL(${pathExpr}, config.baseUrl)`,
-    )
-
-    for (const p of op.queryParams) {
-      if (p.name === pagination.pageParam) {
-        lines.push(`    if (pageParam !== undefined) url.searchParams.set('${p.name}', String(pageParam))`)
-      } else {
-        lines.push(`    if (${hasParams ? `params.${p.name}` : 'undefined'} !== undefined) url.searchParams.set('${p.name}', String(${hasParams ? `params.${p.name}` : ''}))`)
-      }
-    }
-
-    lines.push(
-      `    const res = await fetch(url.toString(), {`,
-      `      headers: { 'Content-Type': 'application/json', ...config.headers },`,
-      `    })`,
-      `    if (!res.ok) throw new Error(\`HTTP \${res.status}: \${res.statusText}\`)`,
-    )
-
-    if (options.zod) {
-      lines.push(
-        `    const json = await res.json()`,
-        `    return ${schemaVar}.parse(json) as ${responseType}`,
-      )
-    } else {
-      lines.push(`    return (await res.json()) as ${responseType}`)
-    }
-
-    lines.push(
-      `  })`,
+      `  return useSWRInfinite<${pageType}, ${errorType}>(getKey, ([_path, pageParam]) => ${fetchPage})`,
       `}`,
       ``,
     )
@@ -277,54 +266,30 @@ export class SwrGenerator extends BaseHookGenerator {
       ` * ${op.summary || `SUBSCRIPTION ${op.path}`}`,
       ` *`,
       ` * GraphQL Subscription: \`${op.path}\``,
+      ` * Subscribes over the WebSocket shared by every subscription hook.`,
       op.deprecated ? ` * @deprecated` : '',
       ` * Generated by auto-api-hooks — do not edit manually.`,
       ` */`,
       `import useSWRSubscription from 'swr/subscription'`,
       `import type { SWRSubscriptionOptions } from 'swr/subscription'`,
-      `import { getClientConfig } from '../client'`,
+      `import { subscribe } from '../client'`,
       `import type { ${typeImports} } from '../types'`,
       ``,
+      ...this.generateGraphQLDocument(op),
       `export function ${hookName}(${args}) {`,
-      `  const key = options?.enabled === false ? null : '${op.method} ${op.path}'`,
+      `  const key = options?.enabled === false ? null : ${hasArgs ? `['${op.method} ${op.path}', variables] as const` : `'${op.method} ${op.path}'`}`,
       ``,
       `  return useSWRSubscription<${responseType}, Error>(`,
       `    key,`,
-      `    (_key: string, { next }: SWRSubscriptionOptions<${responseType}, Error>) => {`,
-      `      const config = getClientConfig()`,
-      `      const wsUrl = config.baseUrl.replace(/^http/, 'ws')`,
-      `      const ws = new WebSocket(wsUrl, 'graphql-ws')`,
-      ``,
-      `      ws.onopen = () => {`,
-      `        ws.send(JSON.stringify({`,
-      `          type: 'start',`,
-      `          id: '${op.operationId}',`,
-      `          payload: {`,
-      `            query: \`subscription { ${op.path} { __typename } }\`,`,
-      hasArgs ? `            variables,` : '',
-      `          },`,
-      `        }))`,
-      `      }`,
-      ``,
-      `      ws.onmessage = (event) => {`,
-      `        try {`,
-      `          const message = JSON.parse(event.data as string)`,
-      `          if (message.type === 'data' && message.payload?.data?.${op.path}) {`,
-      `            next(null, message.payload.data.${op.path} as ${responseType})`,
-      `          }`,
-      `        } catch (err) {`,
-      `          next(err instanceof Error ? err : new Error(String(err)))`,
-      `        }`,
-      `      }`,
-      ``,
-      `      ws.onerror = () => {`,
-      `        next(new Error('WebSocket connection error'))`,
-      `      }`,
-      ``,
-      `      return () => {`,
-      `        ws.close()`,
-      `      }`,
-      `    },`,
+      `    (_key: unknown, { next }: SWRSubscriptionOptions<${responseType}, Error>) =>`,
+      `      subscribe<${this.getGraphQLDataType(op)}>(`,
+      `        { query: document, operationName: '${op.graphql!.operationName}'${hasArgs ? ', variables' : ''} },`,
+      `        {`,
+      `          next: (result) => next(null, ${this.getGraphQLResult(op, 'result')}),`,
+      `          error: (err) => next(err),`,
+      `          complete: () => {},`,
+      `        },`,
+      `      ),`,
       `  )`,
       `}`,
       ``,
@@ -332,102 +297,4 @@ export class SwrGenerator extends BaseHookGenerator {
 
     return lines.join('\n')
   }
-
-  // ---------------------------------------------------------------------------
-  // Shared fetcher body generators
-  // ---------------------------------------------------------------------------
-
-  private generateFetcherBody(op: ApiOperation, options: GeneratorOptions): string[] {
-    const responseType = this.getResponseTypeName(op.operationId)
-    const schemaVar = `${toPascalCase(op.operationId).charAt(0).toLowerCase() + toPascalCase(op.operationId).slice(1)}ResponseSchema`
-
-    let pathExpr = `'${op.path}'`
-    if (op.pathParams.length > 0) {
-      let tmpl = op.path
-      for (const p of op.pathParams) {
-        tmpl = tmpl.replace(`{${p.name}}`, `\${params.${p.name}}`)
-      }
-      pathExpr = `\`${tmpl}\``
-    }
-
-    const lines: string[] = [
-      `const config = getClientConfig()`,
-      `const url = new URL(${pathExpr}, config.baseUrl)`,
-    ]
-
-    for (const p of op.queryParams) {
-      lines.push(`if (params.${p.name} !== undefined) url.searchParams.set('${p.name}', String(params.${p.name}))`)
-    }
-
-    lines.push(
-      `const res = await fetch(url.toString(), {`,
-      `  headers: { 'Content-Type': 'application/json', ...config.headers },`,
-      `})`,
-      `if (!res.ok) throw new Error(\`HTTP \${res.status}: \${res.statusText}\`)`,
-    )
-
-    if (options.zod) {
-      lines.push(
-        `const json = await res.json()`,
-        `return ${schemaVar}.parse(json) as ${responseType}`,
-      )
-    } else {
-      lines.push(`return (await res.json()) as ${responseType}`)
-    }
-
-    return lines
-  }
-
-  private generateMutationFetcherBody(op: ApiOperation, options: GeneratorOptions): string[] {
-    const responseType = this.getResponseTypeName(op.operationId)
-    const hasParams = op.pathParams.length > 0 || op.queryParams.length > 0
-    const hasBody = !!op.requestBody
-    const schemaVar = `${toPascalCase(op.operationId).charAt(0).toLowerCase() + toPascalCase(op.operationId).slice(1)}ResponseSchema`
-
-    let pathExpr = `'${op.path}'`
-    if (op.pathParams.length > 0) {
-      let tmpl = op.path
-      for (const p of op.pathParams) {
-        tmpl = tmpl.replace(`{${p.name}}`, `\${arg.params.${p.name}}`)
-      }
-      pathExpr = `\`${tmpl}\``
-    }
-
-    const lines: string[] = [
-      `const config = getClientConfig()`,
-      `const url = new URL(${pathExpr}, config.baseUrl)`,
-    ]
-
-    if (hasParams) {
-      for (const p of op.queryParams) {
-        lines.push(`if (arg.params.${p.name} !== undefined) url.searchParams.set('${p.name}', String(arg.params.${p.name}))`)
-      }
-    }
-
-    lines.push(
-      `const res = await fetch(url.toString(), {`,
-      `  method: '${op.method}',`,
-      `  headers: { 'Content-Type': 'application/json', ...config.headers },`,
-    )
-
-    if (hasBody) {
-      lines.push(`  body: JSON.stringify(arg.body),`)
-    }
-
-    lines.push(
-      `})`,
-      `if (!res.ok) throw new Error(\`HTTP \${res.status}: \${res.statusText}\`)`,
-    )
-
-    if (options.zod) {
-      lines.push(
-        `const json = await res.json()`,
-        `return ${schemaVar}.parse(json) as ${responseType}`,
-      )
-    } else {
-      lines.push(`return (await res.json()) as ${responseType}`)
-    }
-
-    return lines
-  }
 }
@@ -3,12 +3,32 @@
  */
 import type { ApiSpec } from '../ir/types'
 import type { GeneratedFile } from '../utils/file-writer'
+import type { Templates } from '../templates/types'
 
-export type FetcherStrategy = 'fetch' | 'axios' | 'react-query' | 'swr'
+/** Built-in fetcher strategies. */
+export const FETCHER_STRATEGIES = [
+  'fetch',
+  'axios',
+  'react-query',
+  'swr',
+  'vue-query',
+  'svelte-query',
+  'solid-query',
+  'rtk-query',
+  'angular',
+  'angular-query',
+  'apollo',
+  'urql',
+] as const
+
+export type FetcherStrategy = (typeof FETCHER_STRATEGIES)[number]
+
+/** A built-in fetcher strategy, or the name of a generator contributed by a plugin. */
+export type FetcherName = FetcherStrategy | (string & {})
 
 export interface GeneratorOptions {
   /** Which fetcher strategy to generate. */
-  fetcher: FetcherStrategy
+  fetcher: FetcherName
   /** Generate Zod validation schemas for response validation. */
   zod: boolean
   /** Generate MSW mock server handlers. */
@@ -19,6 +39,8 @@ export interface GeneratorOptions {
   baseUrl?: string
   /** Whether to generate infinite query hooks for paginated endpoints. */
   infiniteQueries: boolean
+  /** Templates overriding the built-in output of individual files. */
+  templates?: Templates
 }
 
 export interface HookGenerator {
@@ -0,0 +1,69 @@
+/**
+ * urql generator, for `urql` v4.
+ *
+ * Hooks wrap `useQuery`, `useMutation` and `useSubscription` with the
+ * operation's typed document, and return urql's own `[result, execute]`
+ * tuples, so requests go through the client's exchanges and cache.
+ */
+import type { ApiOperation } from '../ir/types'
+import { GraphQLClientGenerator } from './graphql-client-generator'
+
+export class UrqlGenerator extends GraphQLClientGenerator {
+  protected getClientPackage(): string {
+    return 'urql'
+  }
+
+  protected getLibraryName(): string {
+    return 'urql'
+  }
+
+  protected generateQueryHook(op: ApiOperation, hookName: string): string[] {
+    return this.generateOperationHook(op, hookName, 'useQuery', 'UseQueryArgs')
+  }
+
+  /**
+   * Variables are passed to the returned execute function, e.g.
+   * `createPet({ input })`.
+   */
+  protected generateMutationHook(op: ApiOperation, hookName: string): string[] {
+    return [
+      ...this.generateHookFileHeader(op, [`import { useMutation } from '${this.getClientPackage()}'`]),
+      `export function ${hookName}() {`,
+      `  return useMutation(${this.getDocumentName(op)})`,
+      `}`,
+      ``,
+    ]
+  }
+
+  protected generateSubscriptionHook(op: ApiOperation, hookName: string): string[] {
+    return this.generateOperationHook(op, hookName, 'useSubscription', 'UseSubscriptionArgs')
+  }
+
+  /**
+   * A query or subscription hook taking the operation's variables, when it
+   * has any, followed by the rest of urql's args (`pause`, `context`, ...).
+   */
+  private generateOperationHook(op: ApiOperation, hookName: string, hook: string, argsTypeName: string): string[] {
+    const variablesType = this.getVariablesType(op)
+    const optionsType = `Omit<${argsTypeName}<${variablesType ?? 'Record<string, never>'}, ${this.getGraphQLDataType(op)}>, 'query' | 'variables'>`
+    const document = this.getDocumentName(op)
+
+    return [
+      ...this.generateHookFileHeader(op, [
+        `import { ${hook} } from '${this.getClientPackage()}'`,
+        `import type { ${argsTypeName} } from '${this.getClientPackage()}'`,
+      ], this.getDocumentTypeImports(op)),
+      ...(variablesType
+        ? [
+            `export function ${hookName}(variables: ${variablesType}, options?: ${optionsType}) {`,
+            `  return ${hook}({ ...options, query: ${document}, variables })`,
+          ]
+        : [
+            `export function ${hookName}(options?: ${optionsType}) {`,
+            `  return ${hook}({ ...options, query: ${document} })`,
+          ]),
+      `}`,
+      ``,
+    ]
+  }
+}
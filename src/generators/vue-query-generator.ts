@@ -0,0 +1,430 @@
+/**
+ * TanStack Vue Query composable generator.
+ *
+ * Generates:
+ * - useQuery composables for GET operations
+ * - useMutation composables for POST/PUT/PATCH/DELETE operations
+ * - useInfiniteQuery composables for paginated GET operations
+ * - Cache key factory objects per resource
+ *
+ * Params are taken as `MaybeRefOrGetter`s, so query keys follow ref changes.
+ */
+import type { ApiOperation, ApiSpec, PaginationInfo } from '../ir/types'
+import { usesPageHeaders } from '../ir/helpers'
+import type { GeneratorOptions } from './types'
+import type { GeneratedFile } from '../utils/file-writer'
+import { BaseHookGenerator } from './base-generator'
+import { deriveCacheKeyFactories, emitQueryKeyFactories, getCacheKeyForOperation } from '../utils/cache-keys'
+
+export class VueQueryGenerator extends BaseHookGenerator {
+  protected supportsInfiniteQueries(): boolean {
+    return true
+  }
+
+  generate(spec: ApiSpec, options: GeneratorOptions): GeneratedFile[] {
+    const files = super.generate(spec, options)
+
+    // Add query keys file
+    files.push({
+      path: 'query-keys.ts',
+      content: emitQueryKeyFactories(deriveCacheKeyFactories(spec.operations), 'TanStack Vue Query'),
+    })
+
+    return files
+  }
+
+  protected generateBarrelIndex(
+    tagGroups: string[],
+    options: GeneratorOptions,
+    sdk = false,
+  ): GeneratedFile {
+    const base = super.generateBarrelIndex(tagGroups, options, sdk)
+    // Add query-keys export
+    const content = base.content.replace(
+      `export * from './client'`,
+      `export * from './client'\nexport * from './query-keys'`,
+    )
+    return { ...base, content }
+  }
+
+  protected generateHookFile(
+    op: ApiOperation,
+    hookName: string,
+    _spec: ApiSpec,
+    _options: GeneratorOptions,
+  ): string {
+    return this.isReadOperation(op)
+      ? this.generateQueryComposable(op, hookName)
+      : this.generateMutationComposable(op, hookName)
+  }
+
+  protected generateSubscriptionHookFile(
+    op: ApiOperation,
+    hookName: string,
+    spec: ApiSpec,
+    _options: GeneratorOptions,
+  ): string {
+    return this.generateSubscriptionComposable(op, hookName, spec)
+  }
+
+  protected generateInfiniteHookFile(
+    op: ApiOperation,
+    hookName: string,
+    _spec: ApiSpec,
+    _options: GeneratorOptions,
+  ): string | null {
+    if (!op.pagination) return null
+    return this.generateInfiniteQueryComposable(op, hookName, op.pagination)
+  }
+
+  // ---------------------------------------------------------------------------
+  // useQuery
+  // ---------------------------------------------------------------------------
+
+  private generateQueryComposable(op: ApiOperation, hookName: string): string {
+    const paramsType = this.getParamsTypeName(op.operationId)
+    const responseType = this.getResponseTypeName(op.operationId)
+    const dataType = this.getQueryDataType(op)
+    const errorType = this.getErrorType(op)
+    const hasParams = op.pathParams.length > 0 || op.queryParams.length > 0
+    const queryKey = hasParams
+      ? `computed(() => ${getCacheKeyForOperation(op, 'toValue(params)')})`
+      : getCacheKeyForOperation(op)
+
+    const paramArg = hasParams ? `params: MaybeRefOrGetter<${paramsType}>` : ''
+    const optionsArg = `options?: Partial<UseQueryOptions<${dataType}, ${errorType}>>`
+    const args = [paramArg, optionsArg].filter(Boolean).join(', ')
+
+    const lines: string[] = [
+      `/**`,
+      ` * ${op.summary || `${op.method} ${op.path}`}`,
+      ` *`,
+      ` * \`${op.method} ${op.path}\``,
+      op.deprecated ? ` * @deprecated` : '',
+      ` * Generated by auto-api-hooks — do not edit manually.`,
+      ` */`,
+      hasParams ? `import { computed, toValue } from 'vue'` : '',
+      hasParams ? `import type { MaybeRefOrGetter } from 'vue'` : '',
+      `import { useQuery } from '@tanstack/vue-query'`,
+      `import type { UseQueryOptions } from '@tanstack/vue-query'`,
+      `import { ${this.getKeyFactoryName(op)} } from '../query-keys'`,
+      `import { ${this.getSdkFunctionName(op)} } from '../sdk'`,
+      `import type { ${[hasParams ? paramsType : null, responseType, this.getErrorTypeName(op)].filter((t) => t && t !== 'Error').join(', ')} } from '../types'`,
+    ].filter(Boolean)
+
+    lines.push(
+      ``,
+      `export function ${hookName}(${args}) {`,
+      `  return useQuery<${dataType}, ${errorType}>({`,
+      `    queryKey: ${queryKey},`,
+      `    queryFn: ({ signal }) => ${this.getQueryFnCall(op, { params: 'toValue(params)', options: '{ signal }' })},`,
+      `    ...options,`,
+      `  })`,
+      `}`,
+      ``,
+    )
+
+    return lines.join('\n')
+  }
+
+  // ---------------------------------------------------------------------------
+  // useMutation
+  // ---------------------------------------------------------------------------
+
+  private generateMutationComposable(op: ApiOperation, hookName: string): string {
+    const paramsType = this.getParamsTypeName(op.operationId)
+    const responseType = this.getResponseTypeName(op.operationId)
+    const errorType = this.getErrorType(op)
+    const bodyType = op.requestBody ? this.getBodyTypeName(op.operationId) : null
+    const hasParams = op.pathParams.length > 0 || op.queryParams.length > 0
+
+    // Build the mutation variables type
+    const varFields: string[] = []
+    if (hasParams) varFields.push(`params: ${paramsType}`)
+    if (bodyType) varFields.push(`body: ${bodyType}`)
+    const varsType = varFields.length > 0 ? `{ ${varFields.join('; ')} }` : 'void'
+
+    const typeImports = [hasParams ? paramsType : null, responseType, bodyType, this.getErrorTypeName(op)].filter((t) => t && t !== 'Error').join(', ')
+
+    const lines: string[] = [
+      `/**`,
+      ` * ${op.summary || `${op.method} ${op.path}`}`,
+      ` *`,
+      ` * \`${op.method} ${op.path}\``,
+      op.deprecated ? ` * @deprecated` : '',
+      ` * Generated by auto-api-hooks — do not edit manually.`,
+      ` */`,
+      `import { useMutation } from '@tanstack/vue-query'`,
+      `import type { UseMutationOptions } from '@tanstack/vue-query'`,
+      `import { ${this.getSdkFunctionName(op)} } from '../sdk'`,
+      `import type { ${typeImports} } from '../types'`,
+    ].filter(Boolean)
+
+    lines.push(
+      ``,
+      `export function ${hookName}(options?: UseMutationOptions<${responseType}, ${errorType}, ${varsType}>) {`,
+      `  return useMutation<${responseType}, ${errorType}, ${varsType}>({`,
+      `    mutationFn: (${varFields.length > 0 ? 'vars' : ''}) => ${this.getSdkCall(op, { params: 'vars.params', body: 'vars.body' })},`,
+      `    ...options,`,
+      `  })`,
+      `}`,
+      ``,
+    )
+
+    return lines.join('\n')
+  }
+
+  // ---------------------------------------------------------------------------
+  // useInfiniteQuery
+  // ---------------------------------------------------------------------------
+
+  private generateInfiniteQueryComposable(
+    op: ApiOperation,
+    hookName: string,
+    pagination: PaginationInfo,
+  ): string {
+    const paramsType = this.getParamsTypeName(op.operationId)
+    const responseType = this.getResponseTypeName(op.operationId)
+    const errorType = this.getErrorType(op)
+    const hasParams = this.hasInfiniteParams(op, pagination)
+    // Keyed apart from the plain query, whose cache holds a single page
+    const listKey = hasParams
+      ? getCacheKeyForOperation(op, 'toValue(params)')
+      : getCacheKeyForOperation({ ...op, queryParams: [] })
+    const queryKey = hasParams
+      ? `computed(() => [...${listKey}, 'infinite'] as const)`
+      : `[...${listKey}, 'infinite'] as const`
+
+    const pageParam = this.getInfinitePageParam(op, pagination, hasParams, 'toValue(params)')
+    const pageHeaders = usesPageHeaders(pagination)
+    const pageType = pageHeaders ? `PageWithHeaders<${responseType}>` : responseType
+    const nodes = this.getInfiniteNodesSelect(op, pagination, pageType)
+    const queryTypes = [pageType, errorType, nodes?.dataType ?? `InfiniteData<${pageType}>`].join(', ')
+    const omitted = this.getPageParamNames(pagination).map((name) => `'${name}'`).join(' | ')
+
+    const paramArg = hasParams ? `params: MaybeRefOrGetter<Omit<${paramsType}, ${omitted}>>` : ''
+    const optionsArg = `options?: Partial<UseInfiniteQueryOptions<${queryTypes}>>`
+    const args = [paramArg, optionsArg].filter(Boolean).join(', ')
+
+    const lines: string[] = [
+      `/**`,
+      ` * ${op.summary || `${op.method} ${op.path}`} (infinite)`,
+      ` *`,
+      ` * \`${op.method} ${op.path}\``,
+      op.deprecated ? ` * @deprecated` : '',
+      ` * Generated by auto-api-hooks — do not edit manually.`,
+      ` */`,
+      hasParams ? `import { computed, toValue } from 'vue'` : '',
+      hasParams ? `import type { MaybeRefOrGetter } from 'vue'` : '',
+      `import { useInfiniteQuery } from '@tanstack/vue-query'`,
+      `import type { InfiniteData, UseInfiniteQueryOptions } from '@tanstack/vue-query'`,
+      pagination.nextPageHeader ? `import { readPageHeader } from '../client'` : '',
+      pageHeaders ? `import type { PageWithHeaders } from '../client'` : '',
+      `import { ${this.getKeyFactoryName(op)} } from '../query-keys'`,
+      `import { ${this.hasSdkPageFunction(op) ? this.getSdkPageFunctionName(op) : this.getSdkFunctionName(op)} } from '../sdk'`,
+      `import type { ${[paramsType, responseType, this.getErrorTypeName(op)].filter((t) => t && t !== 'Error').join(', ')} } from '../types'`,
+    ].filter(Boolean)
+
+    const fetchPage = this.getSdkCall(op, { params: pageParam.pageParams, options: '{ signal }' }, this.hasSdkPageFunction(op))
+
+    lines.push(
+      ``,
+      `export function ${hookName}(${args}) {`,
+      `  return useInfiniteQuery<${queryTypes}>({`,
+      `    queryKey: ${queryKey},`,
+      `    queryFn: ({ pageParam, signal }) => ${fetchPage},`,
+      `    initialPageParam: ${pageParam.initial} as ${pageParam.type},`,
+      ...this.generatePageParamGetters(op, pagination, hasParams, 'toValue(params)'),
+      ...(nodes?.lines ?? []),
+      `    ...options,`,
+      `  })`,
+      `}`,
+      ``,
+    )
+
+    return lines.join('\n')
+  }
+
+  /** Name of the `query-keys.ts` factory an operation's key comes from, e.g. `petsKeys`. */
+  private getKeyFactoryName(op: ApiOperation): string {
+    return getCacheKeyForOperation(op).split('.')[0]
+  }
+
+  // ---------------------------------------------------------------------------
+  // Subscriptions (custom composable — TanStack Query has no native subscription)
+  // ---------------------------------------------------------------------------
+
+  private generateSubscriptionComposable(
+    op: ApiOperation,
+    hookName: string,
+    spec: ApiSpec,
+  ): string {
+    const responseType = this.getResponseTypeName(op.operationId)
+    const hasArgs = op.queryParams.length > 0
+    const paramsType = this.getParamsTypeName(op.operationId)
+
+    const invalidation = this.getSubscriptionInvalidation(op, spec, 'currentVariables', '            ')
+
+    const paramArg = hasArgs ? `variables: MaybeRefOrGetter<${paramsType}>` : ''
+    const optionsArg = `options?: { onData?: (data: ${responseType}) => void; onError?: (error: Error) => void; enabled?: MaybeRefOrGetter<boolean>; ${invalidation.option} }`
+    const args = [paramArg, optionsArg].filter(Boolean).join(', ')
+
+    const typeImports = hasArgs ? `${paramsType}, ${responseType}` : responseType
+
+    const lines: string[] = [
+      `/**`,
+      ` * ${op.summary || `SUBSCRIPTION ${op.path}`}`,
+      ` *`,
+      ` * GraphQL Subscription: \`${op.path}\``,
+      ` *`,
+      ` * Note: TanStack Query does not natively support subscriptions.`,
+      ` * This composable subscribes over the WebSocket shared by every`,
+      ` * subscription composable, and resubscribes when its variables change.`,
+      op.deprecated ? ` * @deprecated` : '',
+      ` * Generated by auto-api-hooks — do not edit manually.`,
+      ` */`,
+      `import { onScopeDispose, shallowRef, toValue, watch } from 'vue'`,
+      `import type { MaybeRefOrGetter, Ref } from 'vue'`,
+      `import { useQueryClient } from '@tanstack/vue-query'`,
+      `import type { QueryKey } from '@tanstack/vue-query'`,
+      invalidation.keyFactories.length > 0 ? `import { ${invalidation.keyFactories.join(', ')} } from '../query-keys'` : '',
+      `import { subscribe } from '../client'`,
+      `import type { ${typeImports} } from '../types'`,
+    ].filter(Boolean)
+
+    lines.push(
+      ``,
+      ...this.generateGraphQLDocument(op),
+      `export interface ${hookName}Result {`,
+      `  data: Ref<${responseType} | null>`,
+      `  error: Ref<Error | null>`,
+      `  status: Ref<'connecting' | 'connected' | 'disconnected' | 'error'>`,
+      `  unsubscribe: () => void`,
+      `}`,
+      ``,
+      `export function ${hookName}(${args}): ${hookName}Result {`,
+      `  const queryClient = useQueryClient()`,
+      `  const data = shallowRef<${responseType} | null>(null)`,
+      `  const error = shallowRef<Error | null>(null)`,
+      `  const status = shallowRef<'connecting' | 'connected' | 'disconnected' | 'error'>('disconnected')`,
+      `  let stop: (() => void) | null = null`,
+      ``,
+      `  const unsubscribe = () => {`,
+      `    if (stop) {`,
+      `      stop()`,
+      `      stop = null`,
+      `      status.value = 'disconnected'`,
+      `    }`,
+      `  }`,
+      ``,
+      `  watch(`,
+      `    () => [toValue(options?.enabled) !== false${hasArgs ? ', toValue(variables)' : ''}] as const,`,
+      `    ([enabled${hasArgs ? ', currentVariables' : ''}]) => {`,
+      `      unsubscribe()`,
+      `      if (!enabled) return`,
+      ``,
+      `      status.value = 'connecting'`,
+      `      stop = subscribe<${this.getGraphQLDataType(op)}>(`,
+      `        { query: document, operationName: '${op.graphql!.operationName}'${hasArgs ? ', variables: currentVariables' : ''} },`,
+      `        {`,
+      `          start: () => { status.value = 'connected' },`,
+      `          next: (result) => {`,
+      `            const value = ${this.getGraphQLResult(op, 'result')}`,
+      `            data.value = value`,
+      `            options?.onData?.(value)`,
+      ...invalidation.lines,
+      `          },`,
+      `          error: (err) => {`,
+      `            error.value = err`,
+      `            status.value = 'error'`,
+      `            options?.onError?.(err)`,
+      `          },`,
+      `          complete: () => { status.value = 'disconnected' },`,
+      `        },`,
+      `      )`,
+      `    },`,
+      `    { immediate: true, deep: true },`,
+      `  )`,
+      ``,
+      `  onScopeDispose(unsubscribe)`,
+      ``,
+      `  return { data, error, status, unsubscribe }`,
+      `}`,
+      ``,
+    )
+
+    return lines.join('\n')
+  }
+
+  // ---------------------------------------------------------------------------
+  // Streaming query
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Streams into the query cache like the React Query variant: `data` is the
+   * array of events received so far and grows as each one arrives. The
+   * stream is reopened when the params or body change.
+   */
+  protected generateStreamHookFile(
+    op: ApiOperation,
+    hookName: string,
+    spec: ApiSpec,
+    options: GeneratorOptions,
+  ): string {
+    const paramsType = this.getParamsTypeName(op.operationId)
+    const responseType = this.getResponseTypeName(op.operationId)
+    const bodyType = op.requestBody ? this.getBodyTypeName(op.operationId) : null
+    const errorType = this.getErrorType(op)
+    const hasParams = op.pathParams.length > 0 || op.queryParams.length > 0
+    const auth = this.getOperationAuth(op, spec)
+    const reactive = hasParams || bodyType !== null
+
+    const args: string[] = []
+    const values: string[] = []
+    if (hasParams) {
+      args.push(`params: MaybeRefOrGetter<${paramsType}>`)
+      values.push('toValue(params)')
+    }
+    if (bodyType) {
+      args.push(`body: MaybeRefOrGetter<${bodyType}>`)
+      values.push('toValue(body)')
+    }
+    args.push(`options?: Partial<UseQueryOptions<${responseType}[], ${errorType}>>`)
+    const keyParts = [`'${op.operationId}'`, `'stream'`, ...values].join(', ')
+
+    const lines: string[] = [
+      ...this.generateStreamFileHeader(op),
+      ...(reactive ? [`import { computed, toValue } from 'vue'`, `import type { MaybeRefOrGetter } from 'vue'`] : []),
+      `import { useQuery, useQueryClient } from '@tanstack/vue-query'`,
+      `import type { UseQueryOptions } from '@tanstack/vue-query'`,
+      ...this.generateStreamImports(op, auth, options, ['ServerSentEvent'], [hasParams ? paramsType : null, responseType, bodyType, this.getErrorTypeName(op)]),
+      ``,
+      `export function ${hookName}(${args.join(', ')}) {`,
+      `  const queryClient = useQueryClient()`,
+      `  let activeController: AbortController | null = null`,
+      ``,
+      `  const query = useQuery<${responseType}[], ${errorType}>({`,
+      `    queryKey: ${reactive ? `computed(() => [${keyParts}] as const)` : `[${keyParts}] as const`},`,
+      ...this.generateStreamedQueryFn(responseType, values),
+      `    refetchOnWindowFocus: false,`,
+      `    ...options,`,
+      `  })`,
+      ``,
+      `  const abort = () => {`,
+      `    activeController?.abort()`,
+      `  }`,
+      ``,
+      `  return { ...query, abort }`,
+      `}`,
+      ``,
+      ...this.generateOpenStream(op, auth),
+      ``,
+      ...this.generateDecodeEvent(op, options),
+      ``,
+      ...this.generateBuildUrl(op),
+      ``,
+    ]
+
+    return lines.join('\n')
+  }
+}
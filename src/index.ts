@@ -18,14 +18,23 @@ import { parseSpec } from './parsers/index'
 import { generateHooks } from './generators/index'
 import { generateMockFiles } from './mock-gen/index'
 import { writeFiles } from './utils/file-writer'
-import type { FetcherStrategy } from './generators/types'
+import {
+  applyEmitPlugins,
+  applySpecPlugins,
+  collectPluginGenerators,
+  runAfterWrite,
+} from './plugins/index'
+import type { Plugin, PluginContext } from './plugins/index'
+import type { FetcherName, GeneratorOptions } from './generators/types'
+import type { ScalarMapping } from './parsers/types'
+import type { Templates } from './templates/types'
 import type { GeneratedFile } from './utils/file-writer'
 
 export interface GenerateOptions {
   /** Path to the API spec file, or a parsed object. */
   spec: string | object
-  /** Fetching strategy. */
-  fetcher: FetcherStrategy
+  /** Fetching strategy, or the name of a generator registered by a plugin. */
+  fetcher: FetcherName
   /** Output directory. If provided, files are written to disk. */
   outputDir?: string
   /** Override base URL from the spec. */
@@ -36,6 +45,24 @@ export interface GenerateOptions {
   mock?: boolean
   /** Generate infinite query hooks for paginated endpoints. */
   infiniteQueries?: boolean
+  /** Keep `$ref`s to named schemas instead of inlining them (OpenAPI / Swagger). */
+  preserveRefs?: boolean
+  /** Levels of nested selection sets in default GraphQL documents. Defaults to 3. */
+  selectionDepth?: number
+  /**
+   * Glob patterns of `.graphql` operation documents. Generates one hook per
+   * named operation instead of one per root field (GraphQL).
+   */
+  documents?: string[]
+  /**
+   * Types of custom GraphQL scalars by name, e.g.
+   * `{ DateTime: { type: 'string', format: 'date-time' }, JSON: 'unknown' }`.
+   */
+  scalars?: Record<string, ScalarMapping>
+  /** Plugins hooking into parsing, generation and writing, run in order. */
+  plugins?: Plugin[]
+  /** Templates overriding the built-in output of individual files. */
+  templates?: Templates
 }
 
 /**
@@ -53,29 +80,42 @@ export async function generate(options: GenerateOptions): Promise<GeneratedFile[
     zod = false,
     mock = false,
     infiniteQueries = true,
+    preserveRefs = false,
+    selectionDepth,
+    documents,
+    scalars,
+    plugins = [],
+    templates,
   } = options
 
-  // 1. Parse spec
-  const spec = await parseSpec(input, { baseUrl })
-
-  // 2. Generate hook files
-  const hookFiles = generateHooks(spec, {
+  const generators = collectPluginGenerators(plugins)
+  const generatorOptions: GeneratorOptions = {
     fetcher,
     zod,
     mock: false,
     outputDir: outputDir || './src/hooks',
     baseUrl,
     infiniteQueries,
-  })
+    templates,
+  }
+  const context: PluginContext = { fetcher, outputDir, options: generatorOptions }
+
+  // 1. Parse spec and apply plugin transforms
+  const parsed = await parseSpec(input, { baseUrl, preserveRefs, selectionDepth, documents, scalars })
+  const spec = await applySpecPlugins(parsed, plugins, context)
+
+  // 2. Generate hook files
+  const hookFiles = generateHooks(spec, generatorOptions, generators)
 
   // 3. Generate mock files (if enabled)
   const mockFiles = mock ? generateMockFiles(spec) : []
 
-  const allFiles = [...hookFiles, ...mockFiles]
+  const allFiles = await applyEmitPlugins([...hookFiles, ...mockFiles], spec, plugins, context)
 
   // 4. Write to disk (if outputDir provided)
   if (outputDir) {
     await writeFiles(outputDir, allFiles)
+    await runAfterWrite(allFiles, plugins, context)
   }
 
   return allFiles
@@ -83,15 +123,49 @@ export async function generate(options: GenerateOptions): Promise<GeneratedFile[
 
 // Re-exports
 export { parseSpec } from './parsers/index'
-export { generateHooks, createGenerator } from './generators/index'
+export {
+  generateHooks,
+  createGenerator,
+  getDefaultTemplates,
+  BaseHookGenerator,
+  FetchGenerator,
+  AxiosGenerator,
+  ReactQueryGenerator,
+  SwrGenerator,
+  VueQueryGenerator,
+  CreateQueryGenerator,
+  SvelteQueryGenerator,
+  SolidQueryGenerator,
+  RtkQueryGenerator,
+  AngularGenerator,
+  AngularQueryGenerator,
+  GraphQLClientGenerator,
+  ApolloGenerator,
+  UrqlGenerator,
+} from './generators/index'
 export { generateMockFiles } from './mock-gen/index'
 export { emitTypeScriptTypes, emitTypeString } from './type-gen/index'
 export { emitZodSchemas, emitZodType } from './type-gen/index'
+export { defineConfig, loadConfig, loadConfigFile, resolveProjects } from './config/index'
+export { definePlugin } from './plugins/index'
+export { defineTemplates } from './templates/index'
 
 // Type re-exports
 export type { GeneratedFile } from './utils/file-writer'
-export type { FetcherStrategy, GeneratorOptions, HookGenerator } from './generators/types'
-export type { ParseOptions } from './parsers/types'
+export { FETCHER_STRATEGIES } from './generators/types'
+export type { FetcherName, FetcherStrategy, GeneratorOptions, HookGenerator } from './generators/types'
+export type { CreateQueryOptionsKind } from './generators/create-query-generator'
+export type { Plugin, PluginContext } from './plugins/types'
+export type {
+  Templates,
+  Template,
+  HookTemplateKind,
+  OperationView,
+  ClientView,
+  BarrelView,
+} from './templates/types'
+export type { ParseOptions, ScalarMapping, ScalarType } from './parsers/types'
+export type { UserConfig, ProjectConfig, ProjectOptions, ResolvedProject } from './config/types'
 export type {
   ApiSpec,
   ApiOperation,
@@ -101,6 +175,7 @@ export type {
   ApiArrayType,
   ApiEnumType,
   ApiUnionType,
+  ApiDiscriminator,
   ApiRefType,
   ApiParam,
   ApiRequestBody,
@@ -108,6 +183,12 @@ export type {
   ApiProperty,
   PaginationInfo,
   PaginationStrategy,
+  GraphQLOperation,
+  GraphQLSelection,
+  GraphQLFieldSelection,
+  GraphQLInlineFragment,
+  ApiSecurityScheme,
+  ApiSecuritySchemeType,
   HttpMethod,
   OperationMethod,
 } from './ir/types'
@@ -3,6 +3,8 @@ import type {
   ApiSpec,
   ApiType,
   ApiObjectType,
+  ApiRequestBody,
+  ApiResponse,
   PaginationInfo,
   PaginationStrategy,
 } from './types'
@@ -69,8 +71,32 @@ const CURSOR_RESPONSE_FIELDS = new Set([
   'nextToken',
   'endCursor',
   'end_cursor',
+])
+
+// ---------------------------------------------------------------------------
+// Response field indicators for page totals and "more pages" flags
+// ---------------------------------------------------------------------------
+
+const TOTAL_PAGES_FIELDS = new Set([
+  'total_pages',
+  'totalPages',
+  'page_count',
+  'pageCount',
+  'last_page',
+  'lastPage',
+])
+
+const TOTAL_COUNT_FIELDS = new Set([
+  'total_count',
+  'totalCount',
+  'total',
+])
+
+const HAS_MORE_FIELDS = new Set([
   'has_more',
   'hasMore',
+  'has_next',
+  'hasNext',
 ])
 
 // ---------------------------------------------------------------------------
@@ -91,14 +117,40 @@ const ITEMS_FIELDS = new Set([
   'hits',
 ])
 
+// ---------------------------------------------------------------------------
+// Relay connection indicators
+// ---------------------------------------------------------------------------
+
+/** The cursor argument and `pageInfo` fields of each Relay paging direction. */
+const RELAY_DIRECTIONS = [
+  { direction: 'forward', pageParam: 'after', cursorField: 'endCursor', hasPageField: 'hasNextPage' },
+  { direction: 'backward', pageParam: 'before', cursorField: 'startCursor', hasPageField: 'hasPreviousPage' },
+] as const
+
+/**
+ * Follows `ref` types through `types` until a concrete type is reached.
+ * Unknown or cyclic refs are returned as-is.
+ */
+function resolveType(type: ApiType, types: Map<string, ApiType>): ApiType {
+  const seen = new Set<string>()
+  let current = type
+  while (current.kind === 'ref' && !seen.has(current.name)) {
+    seen.add(current.name)
+    const next = types.get(current.name)
+    if (!next) break
+    current = next
+  }
+  return current
+}
+
 /**
  * Attempts to find an array property in an object type that likely represents
  * the list of items in a paginated response.
  */
-function findItemsPath(type: ApiType): string[] | undefined {
+function findItemsPath(type: ApiType, types: Map<string, ApiType>): string[] | undefined {
   if (type.kind !== 'object') return undefined
   for (const prop of type.properties) {
-    if (ITEMS_FIELDS.has(prop.name) && prop.type.kind === 'array') {
+    if (ITEMS_FIELDS.has(prop.name) && resolveType(prop.type, types).kind === 'array') {
       return [prop.name]
     }
   }
@@ -110,18 +162,19 @@ function findItemsPath(type: ApiType): string[] | undefined {
  * Attempts to find a cursor/next-page field in an object response type.
  * Returns the dot-path to the next-page value.
  */
-function findNextPagePath(type: ApiType): string[] | undefined {
+function findNextPagePath(type: ApiType, types: Map<string, ApiType>): string[] | undefined {
   if (type.kind !== 'object') return undefined
   for (const prop of type.properties) {
     if (CURSOR_RESPONSE_FIELDS.has(prop.name)) {
       return [prop.name]
     }
     // Check nested "pagination" or "meta" objects
+    const propType = resolveType(prop.type, types)
     if (
       (prop.name === 'pagination' || prop.name === 'meta' || prop.name === 'page_info' || prop.name === 'pageInfo') &&
-      prop.type.kind === 'object'
+      propType.kind === 'object'
     ) {
-      for (const nested of (prop.type as ApiObjectType).properties) {
+      for (const nested of (propType as ApiObjectType).properties) {
         if (CURSOR_RESPONSE_FIELDS.has(nested.name)) {
           return [prop.name, nested.name]
         }
@@ -131,28 +184,94 @@ function findNextPagePath(type: ApiType): string[] | undefined {
   return undefined
 }
 
+/** Returns the resolved type of a property of an object type, if it has one. */
+function findPropertyType(type: ApiObjectType, name: string, types: Map<string, ApiType>): ApiType | undefined {
+  const prop = type.properties.find((p) => p.name === name)
+  return prop ? resolveType(prop.type, types) : undefined
+}
+
 /**
- * Attempts to find total-count or total-pages fields in a response that
- * would confirm page-number pagination.
+ * Detects a Relay connection: a `pageInfo` with the cursor and has-page flag
+ * of a direction whose cursor argument the operation takes. When it takes
+ * both, it pages forward and keeps the backward cursor as the previous page.
+ * Items are the `edges`, usually each wrapping a `node`, or else a plain
+ * `nodes` list.
+ *
+ * Operations from GraphQL documents return the whole `data`, so a connection
+ * under its only root field is found too.
  */
-function findPageCountPath(type: ApiType): string[] | undefined {
-  if (type.kind !== 'object') return undefined
+function detectRelayConnection(
+  op: ApiOperation,
+  responseType: ApiType,
+  types: Map<string, ApiType>,
+): PaginationInfo | undefined {
+  let connection = responseType
+  let prefix: string[] = []
+  if (op.graphql && !op.graphql.field && connection.kind === 'object' && connection.properties.length === 1) {
+    prefix = [connection.properties[0].name]
+    connection = resolveType(connection.properties[0].type, types)
+  }
+  if (connection.kind !== 'object') return undefined
+
+  const pageInfo = findPropertyType(connection, 'pageInfo', types)
+  if (pageInfo?.kind !== 'object') return undefined
+
+  const queryParamNames = new Set(op.queryParams.map((p) => p.name))
+  const [relay, previous] = RELAY_DIRECTIONS.filter(
+    (d) =>
+      queryParamNames.has(d.pageParam) &&
+      pageInfo.properties.some((p) => p.name === d.cursorField) &&
+      pageInfo.properties.some((p) => p.name === d.hasPageField),
+  )
+  if (!relay) return undefined
 
-  const PAGE_COUNT_FIELDS = new Set([
-    'total_pages', 'totalPages', 'total_count', 'totalCount',
-    'total', 'page_count', 'pageCount', 'last_page', 'lastPage',
-  ])
+  const pagination: PaginationInfo = {
+    strategy: 'cursor',
+    pageParam: relay.pageParam,
+    nextPagePath: [...prefix, 'pageInfo', relay.cursorField],
+    itemsPath: [],
+    hasNextPagePath: [...prefix, 'pageInfo', relay.hasPageField],
+    direction: relay.direction,
+  }
+  if (previous) {
+    pagination.previousPageParam = previous.pageParam
+    pagination.previousPagePath = [...prefix, 'pageInfo', previous.cursorField]
+    pagination.hasPreviousPagePath = [...prefix, 'pageInfo', previous.hasPageField]
+  }
+
+  const edges = findPropertyType(connection, 'edges', types)
+  if (edges?.kind === 'array') {
+    pagination.itemsPath = [...prefix, 'edges']
+    const edge = resolveType(edges.items, types)
+    if (edge.kind === 'object' && edge.properties.some((p) => p.name === 'node')) pagination.nodePath = ['node']
+  } else if (findPropertyType(connection, 'nodes', types)?.kind === 'array') {
+    pagination.itemsPath = [...prefix, 'nodes']
+  }
+  return pagination
+}
+
+/**
+ * Attempts to find one of `fields` in an object response type, either at the
+ * top level or inside a `pagination` or `meta` object.
+ */
+function findPaginationField(
+  type: ApiType,
+  types: Map<string, ApiType>,
+  fields: Set<string>,
+): string[] | undefined {
+  if (type.kind !== 'object') return undefined
 
   for (const prop of type.properties) {
-    if (PAGE_COUNT_FIELDS.has(prop.name)) {
+    if (fields.has(prop.name)) {
       return [prop.name]
     }
+    const propType = resolveType(prop.type, types)
     if (
       (prop.name === 'pagination' || prop.name === 'meta') &&
-      prop.type.kind === 'object'
+      propType.kind === 'object'
     ) {
-      for (const nested of (prop.type as ApiObjectType).properties) {
-        if (PAGE_COUNT_FIELDS.has(nested.name)) {
+      for (const nested of (propType as ApiObjectType).properties) {
+        if (fields.has(nested.name)) {
           return [prop.name, nested.name]
         }
       }
@@ -161,28 +280,69 @@ function findPageCountPath(type: ApiType): string[] | undefined {
   return undefined
 }
 
+/**
+ * Attempts to find total-count or total-pages fields in a response that
+ * would confirm page-number pagination.
+ */
+function findPageCountPath(type: ApiType, types: Map<string, ApiType>): string[] | undefined {
+  return findPaginationField(type, types, new Set([...TOTAL_PAGES_FIELDS, ...TOTAL_COUNT_FIELDS]))
+}
+
+/**
+ * Adds the fields that tell an offset or page-number response is the last
+ * page: the limit param, the total pages or total count, and a "more pages"
+ * flag.
+ */
+function withPageBounds(
+  pagination: PaginationInfo,
+  queryParamNames: Set<string>,
+  responseType: ApiType,
+  types: Map<string, ApiType>,
+): PaginationInfo {
+  const limitParam = [...LIMIT_PARAM_NAMES].find((n) => queryParamNames.has(n))
+  if (limitParam) pagination.limitParam = limitParam
+  const totalPagesPath = findPaginationField(responseType, types, TOTAL_PAGES_FIELDS)
+  if (totalPagesPath) pagination.totalPagesPath = totalPagesPath
+  const totalCountPath = findPaginationField(responseType, types, TOTAL_COUNT_FIELDS)
+  if (totalCountPath) pagination.totalCountPath = totalCountPath
+  const hasNextPagePath = findPaginationField(responseType, types, HAS_MORE_FIELDS)
+  if (hasNextPagePath) pagination.hasNextPagePath = hasNextPagePath
+  return pagination
+}
+
 /**
  * Detects whether an API operation uses pagination based on heuristic
  * analysis of its query parameters and response shape.
  *
  * @param op - The API operation to analyze.
+ * @param types - Named types used to resolve `ref` response types.
  * @returns Pagination info if detected, or `undefined` if the operation does not appear paginated.
  */
-export function detectPagination(op: ApiOperation): PaginationInfo | undefined {
+export function detectPagination(
+  op: ApiOperation,
+  types: Map<string, ApiType> = new Map(),
+): PaginationInfo | undefined {
   const queryParamNames = new Set(op.queryParams.map((p) => p.name))
-  const responseType = op.response.type
+  const responseType = resolveType(op.response.type, types)
+
+  // --- Relay connections, paged with `after` or `before` and `pageInfo` ---
+  const connection = detectRelayConnection(op, responseType, types)
+  if (connection) return connection
 
   // --- Strategy 1: Cursor-based pagination ---
   for (const name of CURSOR_PARAM_NAMES) {
     if (queryParamNames.has(name)) {
-      const nextPagePath = findNextPagePath(responseType) ?? [name]
-      const itemsPath = findItemsPath(responseType) ?? []
-      return {
+      const nextPagePath = findNextPagePath(responseType, types) ?? [name]
+      const itemsPath = findItemsPath(responseType, types) ?? []
+      const pagination: PaginationInfo = {
         strategy: 'cursor' as PaginationStrategy,
         pageParam: name,
         nextPagePath,
         itemsPath,
       }
+      const hasNextPagePath = findPaginationField(responseType, types, HAS_MORE_FIELDS)
+      if (hasNextPagePath) pagination.hasNextPagePath = hasNextPagePath
+      return pagination
     }
   }
 
@@ -191,13 +351,13 @@ export function detectPagination(op: ApiOperation): PaginationInfo | undefined {
     if (queryParamNames.has(offsetName)) {
       const hasLimit = [...LIMIT_PARAM_NAMES].some((n) => queryParamNames.has(n))
       if (hasLimit) {
-        const itemsPath = findItemsPath(responseType) ?? []
-        return {
+        const itemsPath = findItemsPath(responseType, types) ?? []
+        return withPageBounds({
           strategy: 'offset-limit' as PaginationStrategy,
           pageParam: offsetName,
           nextPagePath: [offsetName],
           itemsPath,
-        }
+        }, queryParamNames, responseType, types)
       }
     }
   }
@@ -205,21 +365,21 @@ export function detectPagination(op: ApiOperation): PaginationInfo | undefined {
   // --- Strategy 3: Page-number pagination ---
   for (const pageName of PAGE_NUMBER_PARAM_NAMES) {
     if (queryParamNames.has(pageName)) {
-      const itemsPath = findItemsPath(responseType) ?? []
-      const nextPagePath = findPageCountPath(responseType) ?? [pageName]
-      return {
+      const itemsPath = findItemsPath(responseType, types) ?? []
+      const nextPagePath = findPageCountPath(responseType, types) ?? [pageName]
+      return withPageBounds({
         strategy: 'page-number' as PaginationStrategy,
         pageParam: pageName,
         nextPagePath,
         itemsPath,
-      }
+      }, queryParamNames, responseType, types)
     }
   }
 
   // --- Fallback: check response shape for cursor fields even without matching query params ---
   if (responseType.kind === 'object') {
-    const cursorPath = findNextPagePath(responseType)
-    const items = findItemsPath(responseType)
+    const cursorPath = findNextPagePath(responseType, types)
+    const items = findItemsPath(responseType, types)
     if (cursorPath && items) {
       // There's a cursor in the response but we need to guess the param name
       const likelyCursorParam = [...CURSOR_PARAM_NAMES].find((n) => queryParamNames.has(n))
@@ -255,7 +415,7 @@ export function applyPaginationDetection(spec: ApiSpec): ApiSpec {
     if (op.pagination) {
       return op
     }
-    const pagination = detectPagination(op)
+    const pagination = detectPagination(op, spec.types)
     if (pagination) {
       return { ...op, pagination }
     }
@@ -264,3 +424,110 @@ export function applyPaginationDetection(spec: ApiSpec): ApiSpec {
 
   return { ...spec, operations }
 }
+
+/**
+ * Returns whether an operation pages through its response headers, so its
+ * infinite hooks need the headers of each page along with the body.
+ *
+ * @param pagination - The operation's pagination info.
+ * @returns `true` when a next-page or total-count header is set.
+ */
+export function usesPageHeaders(pagination: PaginationInfo): boolean {
+  return Boolean(pagination.nextPageHeader || pagination.totalCountHeader)
+}
+
+/**
+ * Returns a copy of an object variant of a discriminated union with its tag
+ * property narrowed to the single literal `tag` (added if missing).
+ *
+ * @param variant - The union variant to tag.
+ * @param propertyName - The discriminator property name.
+ * @param tag - The variant's discriminator value.
+ * @returns The tagged object type.
+ */
+export function tagObjectVariant(
+  variant: ApiObjectType,
+  propertyName: string,
+  tag: string,
+): ApiObjectType {
+  const literal: ApiType = { kind: 'enum', values: [tag] }
+  const existing = variant.properties.some((p) => p.name === propertyName)
+  const properties = existing
+    ? variant.properties.map((p) =>
+        p.name === propertyName ? { ...p, type: literal, required: true } : p,
+      )
+    : [{ name: propertyName, type: literal, required: true }, ...variant.properties]
+  return { ...variant, properties }
+}
+
+/** How a request body is serialized on the wire. */
+export type BodyEncoding = 'json' | 'form-data' | 'url-encoded'
+
+/**
+ * Returns how a request body must be serialized, based on its content type.
+ * Anything other than a form content type is sent as JSON.
+ *
+ * @param body - The operation's request body.
+ * @returns The body encoding.
+ */
+export function getBodyEncoding(body: ApiRequestBody): BodyEncoding {
+  const contentType = body.contentType.toLowerCase()
+  if (contentType.startsWith('multipart/form-data')) return 'form-data'
+  if (contentType.startsWith('application/x-www-form-urlencoded')) return 'url-encoded'
+  return 'json'
+}
+
+/** How a response body is decoded. */
+export type ResponseDecoding = 'json' | 'text' | 'blob' | 'stream' | 'none'
+
+/**
+ * Returns how a response body must be decoded, based on its status code and
+ * content type. JSON media types are parsed, `text/*` and XML are read as
+ * text, other media types (PDFs, images, `application/octet-stream`) as a
+ * `Blob`. `text/event-stream` responses are read incrementally as Server-Sent
+ * Events. 204 / 205 responses and responses without a body decode to nothing.
+ *
+ * @param response - The operation's success response.
+ * @returns The response decoding.
+ */
+export function getResponseDecoding(response: ApiResponse): ResponseDecoding {
+  if (response.statusCode === 204 || response.statusCode === 205 || !response.contentType) return 'none'
+  const contentType = response.contentType.toLowerCase()
+  if (contentType.startsWith('text/event-stream')) return 'stream'
+  if (contentType.includes('json') || contentType === '*/*') return 'json'
+  if (contentType.startsWith('text/') || contentType.includes('xml')) return 'text'
+  return 'blob'
+}
+
+/**
+ * Whether the events of a streaming operation carry plain text rather than
+ * JSON. Event data is passed through as-is when the response schema is a
+ * string (e.g. completion tokens or log lines) or left unspecified.
+ *
+ * @param response - The streaming operation's success response.
+ * @returns `true` when event data should not be JSON-parsed.
+ */
+export function isTextEventStream(response: ApiResponse): boolean {
+  return response.type.kind === 'primitive' && (response.type.type === 'string' || response.type.type === 'unknown')
+}
+
+/**
+ * Parses the `x-invalidates` vendor extension from an OpenAPI or Swagger
+ * operation object: the paths of the GET operations a mutation makes stale.
+ *
+ * ```yaml
+ * x-invalidates:
+ *   - /users
+ *   - /users/{id}
+ * ```
+ *
+ * An empty list turns off invalidation for the operation.
+ *
+ * @param operationObj - The operation object from the spec.
+ * @returns The paths, or `undefined` without the extension.
+ */
+export function parseXInvalidates(operationObj: Record<string, unknown>): string[] | undefined {
+  const xInvalidates = operationObj['x-invalidates']
+  if (!Array.isArray(xInvalidates)) return undefined
+  return xInvalidates.filter((path): path is string => typeof path === 'string')
+}
@@ -21,6 +21,8 @@ export interface ApiSpec {
   operations: ApiOperation[]
   /** All named types referenced by operations. */
   types: Map<string, ApiType>
+  /** Authentication schemes operations can require (OpenAPI / Swagger). */
+  securitySchemes?: ApiSecurityScheme[]
 }
 
 // ---------------------------------------------------------------------------
@@ -53,12 +55,79 @@ export interface ApiOperation {
   requestBody?: ApiRequestBody
   /** Response schema (success case). */
   response: ApiResponse
+  /** Error responses (4xx, 5xx and `default`), one entry per status code. */
+  errors?: ApiResponse[]
   /** Whether this is a paginated endpoint. */
   pagination?: PaginationInfo
+  /**
+   * Paths of the GET operations whose cached responses this operation
+   * invalidates, from the `x-invalidates` extension, e.g. `['/users']`.
+   * Absent to derive them from the operation's own path.
+   */
+  invalidates?: string[]
+  /**
+   * Alternative security requirements, each listing the scheme names that must
+   * all be satisfied. An empty requirement makes authentication optional.
+   * Absent for public operations.
+   */
+  security?: string[][]
+  /**
+   * Whether the response is a `text/event-stream` of Server-Sent Events. The
+   * response type then describes the data of a single event.
+   */
+  streaming?: boolean
+  /** How to execute the operation, for operations from a GraphQL schema. */
+  graphql?: GraphQLOperation
   /** Whether this operation is deprecated. */
   deprecated: boolean
 }
 
+/**
+ * The GraphQL document sent for an operation. Queries and subscriptions take
+ * their variables from `queryParams`, mutations from `requestBody`.
+ *
+ * Operations are generated per root field of the schema, or per named
+ * operation in user documents (`--documents`).
+ */
+export interface GraphQLOperation {
+  operationType: 'query' | 'mutation' | 'subscription'
+  /** Operation name in the document, sent as `operationName`. */
+  operationName: string
+  /**
+   * Root field the result is read from, as `data.<field>`. Absent for
+   * operations from documents, whose result is the whole `data`.
+   */
+  field?: string
+  /** The complete document, with variable definitions and selection set. */
+  document: string
+  /**
+   * Selection set of the root field, or of the whole operation when `field`
+   * is absent. The response type is narrowed to it. Empty when the field
+   * returns a scalar or enum.
+   */
+  selectionSet: GraphQLSelection[]
+}
+
+/** A field or inline fragment in a selection set. */
+export type GraphQLSelection = GraphQLFieldSelection | GraphQLInlineFragment
+
+export interface GraphQLFieldSelection {
+  kind: 'field'
+  name: string
+  /** Response key the field is returned under, when it differs from `name`. */
+  alias?: string
+  /** Sub-selection, for fields returning object, interface or union types. */
+  selectionSet?: GraphQLSelection[]
+}
+
+/** An inline fragment, or a named fragment spread with its fields inlined. */
+export interface GraphQLInlineFragment {
+  kind: 'inline-fragment'
+  /** Type the fragment applies to, e.g. a union member. */
+  typeCondition: string
+  selectionSet: GraphQLSelection[]
+}
+
 // ---------------------------------------------------------------------------
 // Parameters & Bodies
 // ---------------------------------------------------------------------------
@@ -69,6 +138,8 @@ export interface ApiParam {
   type: ApiType
   description?: string
   in: 'path' | 'query' | 'header'
+  /** Value the server uses when the param is omitted. */
+  default?: unknown
 }
 
 export interface ApiRequestBody {
@@ -79,12 +150,35 @@ export interface ApiRequestBody {
 }
 
 export interface ApiResponse {
-  statusCode: number | 'default'
+  /** Status code, or the `4XX` / `5XX` range or `default` response it was declared under. */
+  statusCode: number | '4XX' | '5XX' | 'default'
+  /** Media type of the body. Empty when the response has no body. */
   contentType: string
   type: ApiType
   description?: string
 }
 
+// ---------------------------------------------------------------------------
+// Security
+// ---------------------------------------------------------------------------
+
+/**
+ * How a security scheme sends credentials. OAuth2 and OpenID Connect schemes
+ * are mapped to `bearer`, since requests carry their access token that way.
+ */
+export type ApiSecuritySchemeType = 'bearer' | 'basic' | 'apiKey'
+
+export interface ApiSecurityScheme {
+  /** Scheme name, as used in security requirements. */
+  name: string
+  type: ApiSecuritySchemeType
+  /** For `apiKey`: where the key is sent. */
+  in?: 'header' | 'query' | 'cookie'
+  /** For `apiKey`: the header, query parameter or cookie name. */
+  paramName?: string
+  description?: string
+}
+
 // ---------------------------------------------------------------------------
 // Pagination
 // ---------------------------------------------------------------------------
@@ -96,10 +190,49 @@ export interface PaginationInfo {
   strategy: PaginationStrategy
   /** The query param name for the cursor / offset / page. */
   pageParam: string
-  /** Dot-path in the response to find the next page value. */
+  /**
+   * Dot-path in the response to find the next page value. Only cursors are
+   * read from it; the next offset or page number is worked out from the
+   * current one.
+   */
   nextPagePath: string[]
   /** Dot-path in the response to find the items array. */
   itemsPath: string[]
+  /**
+   * Dot-path in the response to a boolean that is `false` on the last page,
+   * e.g. `['pageInfo', 'hasNextPage']` or `['hasMore']`. Without it, paging
+   * stops when the next page value is missing.
+   */
+  hasNextPagePath?: string[]
+  /** The query param name for the page size, e.g. `limit` or `per_page`. */
+  limitParam?: string
+  /** Dot-path in the response to the total number of pages. */
+  totalPagesPath?: string[]
+  /** Dot-path in the response to the total number of items. */
+  totalCountPath?: string[]
+  /**
+   * Response header holding the next page, read instead of `nextPagePath`.
+   * A `Link` header (RFC 8288) gives the page param from the query string of
+   * its `rel="next"` URL; any other header, e.g. `X-Next-Cursor`, holds the
+   * value itself.
+   */
+  nextPageHeader?: string
+  /** Response header holding the total number of items, e.g. `X-Total-Count`. */
+  totalCountHeader?: string
+  /** Dot-path from each item to the record it wraps, e.g. `['node']` for Relay edges. */
+  nodePath?: string[]
+  /**
+   * For Relay connections: `forward` pages with `first` / `after`,
+   * `backward` with `last` / `before` towards earlier items. Connections
+   * taking both pairs page forward, and backward through the `previous*` fields.
+   */
+  direction?: 'forward' | 'backward'
+  /** The query param name for the cursor of the page before the first, e.g. `before`. */
+  previousPageParam?: string
+  /** Dot-path in the response to the cursor of the previous page, e.g. `['pageInfo', 'startCursor']`. */
+  previousPagePath?: string[]
+  /** Dot-path in the response to a boolean that is `false` on the first page, e.g. `['pageInfo', 'hasPreviousPage']`. */
+  hasPreviousPagePath?: string[]
 }
 
 // ---------------------------------------------------------------------------
@@ -139,6 +272,8 @@ export interface ApiProperty {
   type: ApiType
   required: boolean
   description?: string
+  /** Value the server uses when the property is omitted. */
+  default?: unknown
 }
 
 export interface ApiArrayType {
@@ -157,9 +292,18 @@ export interface ApiEnumType {
 export interface ApiUnionType {
   kind: 'union'
   variants: ApiType[]
+  /** Present when the variants are told apart by a tag property. */
+  discriminator?: ApiDiscriminator
   description?: string
 }
 
+export interface ApiDiscriminator {
+  /** Name of the property whose value identifies the variant. */
+  propertyName: string
+  /** Tag value of each variant, in the same order as `ApiUnionType.variants`. */
+  values: string[]
+}
+
 export interface ApiRefType {
   kind: 'ref'
   /** Reference to a named type in ApiSpec.types. */
@@ -4,7 +4,8 @@
  * No faker.js dependency — generates simple, predictable values
  * so the generated mock code has zero runtime dependencies.
  */
-import type { ApiType, ApiSpec, ApiOperation } from '../ir/types'
+import type { ApiType, ApiSpec, ApiOperation, ApiUnionType } from '../ir/types'
+import { getResponseDecoding, tagObjectVariant } from '../ir/helpers'
 
 let counter = 0
 
@@ -31,6 +32,7 @@ export function emitMockValue(type: ApiType, spec: ApiSpec, depth = 0): string {
       return typeof val === 'string' ? `'${val}'` : String(val)
     case 'union':
       if (type.variants.length === 0) return `null`
+      if (type.discriminator) return emitTaggedVariantMock(type, spec, depth)
       return emitMockValue(type.variants[0], spec, depth + 1)
     case 'ref': {
       const resolved = spec.types.get(type.name)
@@ -42,6 +44,22 @@ export function emitMockValue(type: ApiType, spec: ApiSpec, depth = 0): string {
   }
 }
 
+/**
+ * Mock the first variant of a discriminated union, with its tag property set
+ * to that variant's discriminator value.
+ */
+function emitTaggedVariantMock(type: ApiUnionType, spec: ApiSpec, depth: number): string {
+  const { propertyName, values } = type.discriminator!
+  let variant = type.variants[0]
+  if (variant.kind === 'ref') {
+    variant = spec.types.get(variant.name) ?? variant
+  }
+  if (variant.kind !== 'object') {
+    return emitMockValue(variant, spec, depth + 1)
+  }
+  return emitMockValue(tagObjectVariant(variant, propertyName, values[0]), spec, depth + 1)
+}
+
 function emitPrimitiveMock(type: string, format?: string): string {
   switch (type) {
     case 'string':
@@ -77,6 +95,8 @@ function emitStringMock(format?: string): string {
       return `'127.0.0.1'`
     case 'ipv6':
       return `'::1'`
+    case 'binary':
+      return `new Blob(['string-value-${counter++}'])`
     default:
       return `'string-value-${counter++}'`
   }
@@ -107,7 +127,7 @@ export function emitMockDataFunction(
 ): string {
   resetCounter()
   const fnName = `generate${op.operationId.charAt(0).toUpperCase() + op.operationId.slice(1)}Mock`
-  const mockValue = emitMockValue(op.response.type, spec)
+  const mockValue = emitResponseMock(op, spec)
 
   return [
     `export function ${fnName}() {`,
@@ -116,6 +136,21 @@ export function emitMockDataFunction(
   ].join('\n')
 }
 
+/** Mock value for an operation's decoded response body. */
+function emitResponseMock(op: ApiOperation, spec: ApiSpec): string {
+  switch (getResponseDecoding(op.response)) {
+    case 'none':
+      return 'undefined'
+    case 'blob':
+      return emitStringMock('binary')
+    case 'text':
+      return emitStringMock()
+    case 'json':
+    case 'stream':
+      return emitMockValue(op.response.type, spec)
+  }
+}
+
 /**
  * Generate the full mock data file.
  */
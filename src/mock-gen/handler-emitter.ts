@@ -2,6 +2,7 @@
  * MSW v2 request handler generator.
  */
 import type { ApiSpec, ApiOperation, HttpMethod } from '../ir/types'
+import { getResponseDecoding, isTextEventStream } from '../ir/helpers'
 
 /**
  * Generate MSW handler file content.
@@ -29,7 +30,7 @@ export function emitMswHandlers(spec: ApiSpec): string {
 
     lines.push(
       `  http.${mswMethod}('${mswPath}', () => {`,
-      `    return HttpResponse.json(mocks.${mockFnName}(), { status: ${statusCode} })`,
+      `    return ${emitMockResponse(op, `mocks.${mockFnName}()`, statusCode)}`,
       `  }),`,
     )
   }
@@ -103,6 +104,28 @@ function isHttpMethod(method: string): method is HttpMethod {
   return ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS'].includes(method)
 }
 
+/**
+ * Build the `HttpResponse` returned by a handler, matching how the generated
+ * hooks decode the operation's response.
+ */
+function emitMockResponse(op: ApiOperation, mockCall: string, statusCode: number): string {
+  const contentType = `headers: { 'Content-Type': '${op.response.contentType}' }`
+  switch (getResponseDecoding(op.response)) {
+    case 'none':
+      return `new HttpResponse(null, { status: ${statusCode} })`
+    case 'blob':
+      return `new HttpResponse(${mockCall}, { status: ${statusCode}, ${contentType} })`
+    case 'text':
+      return `HttpResponse.text(${mockCall}, { status: ${statusCode}, ${contentType} })`
+    case 'json':
+      return `HttpResponse.json(${mockCall}, { status: ${statusCode} })`
+    case 'stream': {
+      const data = isTextEventStream(op.response) ? mockCall : `JSON.stringify(${mockCall})`
+      return `new HttpResponse(\`data: \${${data}}\\n\\n\`, { status: ${statusCode}, ${contentType} })`
+    }
+  }
+}
+
 function getStatusCode(op: ApiOperation): number {
   if (op.response.statusCode !== 'default' && typeof op.response.statusCode === 'number') {
     return op.response.statusCode
@@ -112,7 +135,8 @@ function getStatusCode(op: ApiOperation): number {
     case 'POST':
       return 201
     case 'DELETE':
-      return 204
+      // 204 must not carry a body
+      return getResponseDecoding(op.response) === 'none' ? 204 : 200
     default:
       return 200
   }
@@ -1,20 +1,45 @@
+import { readFile } from 'node:fs/promises'
+import { relative } from 'node:path'
 import {
+  GraphQLError,
+  Kind,
+  NoUnusedFragmentsRule,
+  Source,
   buildClientSchema,
   buildSchema,
+  getNamedType,
   isEnumType,
   isInputObjectType,
+  isInterfaceType,
+  isLeafType,
   isListType,
   isNonNullType,
   isObjectType,
   isScalarType,
   isUnionType,
+  parse,
+  print,
+  specifiedRules,
+  typeFromAST,
+  validate,
+  valueFromAST,
+  visit,
 } from 'graphql'
 import type {
+  ASTNode,
+  DefinitionNode,
+  FragmentDefinitionNode,
+  OperationDefinitionNode,
+  SelectionSetNode,
+  GraphQLField,
+  GraphQLInterfaceType,
   GraphQLSchema,
   GraphQLType,
   GraphQLArgument,
   GraphQLObjectType,
+  GraphQLInputField,
   GraphQLInputObjectType,
+  GraphQLInputType,
   IntrospectionQuery,
 } from 'graphql'
 import type {
@@ -25,9 +50,16 @@ import type {
   ApiResponse,
   ApiType,
   ApiProperty,
+  ApiUnionType,
+  GraphQLFieldSelection,
+  GraphQLOperation,
+  GraphQLSelection,
   OperationMethod,
 } from '../ir/types'
-import type { SpecParser, ParseOptions } from './types'
+import type { ParseOptions, ScalarMapping, ScalarType, SpecParser } from './types'
+import { ParseError } from '../utils/errors'
+import { expandGlobs } from '../utils/glob'
+import { toCamelCase, toPascalCase } from '../utils/naming'
 
 // ---------------------------------------------------------------------------
 // Introspection type guard
@@ -70,12 +102,25 @@ function isSDLString(input: unknown): input is string {
 // Scalar type mapping
 // ---------------------------------------------------------------------------
 
+/** IR primitive types a custom scalar can be mapped to. */
+export const SCALAR_TYPES: ScalarType[] = ['string', 'number', 'integer', 'boolean', 'unknown']
+
+/** State of a single `parse()` call, passed to every converter. */
+interface ParseContext {
+  /** Scalar mappings from `ParseOptions.scalars`. */
+  scalars: Map<string, ScalarMapping>
+  /** Object types being converted, to avoid infinite recursion with circular references. */
+  visitedTypes: Set<string>
+}
+
 /**
- * Maps a GraphQL scalar type name to the IR primitive type.
+ * Maps a GraphQL scalar type name to the IR primitive type. Mappings from
+ * `ParseOptions.scalars` take precedence over the built-in ones.
  */
-function mapScalarType(
-  name: string,
-): { type: 'string' | 'number' | 'integer' | 'boolean' | 'unknown'; format?: string } {
+function mapScalarType(ctx: ParseContext, name: string): { type: ScalarType; format?: string } {
+  const mapping = ctx.scalars.get(name)
+  if (mapping) return typeof mapping === 'string' ? { type: mapping } : mapping
+
   switch (name) {
     case 'String':
       return { type: 'string' }
@@ -103,17 +148,13 @@ function mapScalarType(
 // GraphQL type -> ApiType conversion
 // ---------------------------------------------------------------------------
 
-/**
- * Set to track visited types and avoid infinite recursion with circular references.
- */
-const visitedTypes = new Set<string>()
-
 /**
  * Converts a GraphQL type to the IR `ApiType`. Unwraps NonNull and List wrappers.
  * Returns `{ type, required }` where `required` is `true` when the outermost
  * wrapper is `GraphQLNonNull`.
  */
 function convertGraphQLType(
+  ctx: ParseContext,
   graphqlType: GraphQLType,
 ): { type: ApiType; required: boolean } {
   let required = false
@@ -125,25 +166,25 @@ function convertGraphQLType(
     unwrapped = unwrapped.ofType
   }
 
-  const apiType = convertInnerType(unwrapped)
+  const apiType = convertInnerType(ctx, unwrapped)
   return { type: apiType, required }
 }
 
 /**
  * Converts the inner (non-null-unwrapped) GraphQL type to ApiType.
  */
-function convertInnerType(graphqlType: GraphQLType): ApiType {
+function convertInnerType(ctx: ParseContext, graphqlType: GraphQLType): ApiType {
   // List
   if (isListType(graphqlType)) {
     const inner = isNonNullType(graphqlType.ofType)
-      ? convertInnerType(graphqlType.ofType.ofType)
-      : convertInnerType(graphqlType.ofType)
+      ? convertInnerType(ctx, graphqlType.ofType.ofType)
+      : convertInnerType(ctx, graphqlType.ofType)
     return { kind: 'array', items: inner }
   }
 
   // Scalar
   if (isScalarType(graphqlType)) {
-    const mapped = mapScalarType(graphqlType.name)
+    const mapped = mapScalarType(ctx, graphqlType.name)
     return {
       kind: 'primitive',
       type: mapped.type,
@@ -164,7 +205,7 @@ function convertInnerType(graphqlType: GraphQLType): ApiType {
 
   // Union
   if (isUnionType(graphqlType)) {
-    const variants = graphqlType.getTypes().map((t) => convertInnerType(t))
+    const variants = graphqlType.getTypes().map((t) => convertInnerType(ctx, t))
     return {
       kind: 'union',
       variants,
@@ -172,14 +213,19 @@ function convertInnerType(graphqlType: GraphQLType): ApiType {
     }
   }
 
+  // Interface — a union of its implementations, declared in `ApiSpec.types`
+  if (isInterfaceType(graphqlType)) {
+    return { kind: 'ref', name: graphqlType.name }
+  }
+
   // Object
   if (isObjectType(graphqlType)) {
-    return convertObjectType(graphqlType)
+    return convertObjectType(ctx, graphqlType)
   }
 
   // InputObject
   if (isInputObjectType(graphqlType)) {
-    return convertInputObjectType(graphqlType)
+    return convertInputObjectType(ctx, graphqlType)
   }
 
   return { kind: 'primitive', type: 'unknown' }
@@ -188,21 +234,21 @@ function convertInnerType(graphqlType: GraphQLType): ApiType {
 /**
  * Converts a `GraphQLObjectType` to an `ApiObjectType`.
  */
-function convertObjectType(objType: GraphQLObjectType): ApiType {
+function convertObjectType(ctx: ParseContext, objType: GraphQLObjectType): ApiType {
   const name = objType.name
 
   // Guard against infinite recursion
-  if (visitedTypes.has(name)) {
+  if (ctx.visitedTypes.has(name)) {
     return { kind: 'ref', name }
   }
-  visitedTypes.add(name)
+  ctx.visitedTypes.add(name)
 
   try {
     const fields = objType.getFields()
     const properties: ApiProperty[] = []
 
     for (const [fieldName, field] of Object.entries(fields)) {
-      const { type, required } = convertGraphQLType(field.type)
+      const { type, required } = convertGraphQLType(ctx, field.type)
       properties.push({
         name: fieldName,
         type,
@@ -218,33 +264,35 @@ function convertObjectType(objType: GraphQLObjectType): ApiType {
       description: objType.description ?? undefined,
     }
   } finally {
-    visitedTypes.delete(name)
+    ctx.visitedTypes.delete(name)
   }
 }
 
 /**
  * Converts a `GraphQLInputObjectType` to an `ApiObjectType`.
  */
-function convertInputObjectType(inputType: GraphQLInputObjectType): ApiType {
+function convertInputObjectType(ctx: ParseContext, inputType: GraphQLInputObjectType): ApiType {
   const name = inputType.name
 
-  if (visitedTypes.has(name)) {
+  if (ctx.visitedTypes.has(name)) {
     return { kind: 'ref', name }
   }
-  visitedTypes.add(name)
+  ctx.visitedTypes.add(name)
 
   try {
     const fields = inputType.getFields()
     const properties: ApiProperty[] = []
 
     for (const [fieldName, field] of Object.entries(fields)) {
-      const { type, required } = convertGraphQLType(field.type)
-      properties.push({
+      const { type, required } = convertInputValue(ctx, field)
+      const property: ApiProperty = {
         name: fieldName,
         type,
         required,
         description: field.description ?? undefined,
-      })
+      }
+      if (field.defaultValue !== undefined) property.default = field.defaultValue
+      properties.push(property)
     }
 
     return {
@@ -254,7 +302,7 @@ function convertInputObjectType(inputType: GraphQLInputObjectType): ApiType {
       description: inputType.description ?? undefined,
     }
   } finally {
-    visitedTypes.delete(name)
+    ctx.visitedTypes.delete(name)
   }
 }
 
@@ -262,15 +310,26 @@ function convertInputObjectType(inputType: GraphQLInputObjectType): ApiType {
 // Argument -> ApiParam conversion
 // ---------------------------------------------------------------------------
 
-function convertArgument(arg: GraphQLArgument): ApiParam {
-  const { type, required } = convertGraphQLType(arg.type)
-  return {
+function convertArgument(ctx: ParseContext, arg: GraphQLArgument): ApiParam {
+  const { type, required } = convertInputValue(ctx, arg)
+  const param: ApiParam = {
     name: arg.name,
     required,
     type,
     description: arg.description ?? undefined,
     in: 'query', // GraphQL args are conceptually similar to query params
   }
+  if (arg.defaultValue !== undefined) param.default = arg.defaultValue
+  return param
+}
+
+/**
+ * Converts the type of an argument or input field. Non-null values with a
+ * default can still be omitted, so only those without one are required.
+ */
+function convertInputValue(ctx: ParseContext, value: GraphQLArgument | GraphQLInputField): { type: ApiType; required: boolean } {
+  const { type, required } = convertGraphQLType(ctx, value.type)
+  return { type, required: required && value.defaultValue === undefined }
 }
 
 // ---------------------------------------------------------------------------
@@ -278,44 +337,25 @@ function convertArgument(arg: GraphQLArgument): ApiParam {
 // ---------------------------------------------------------------------------
 
 function buildOperationsFromType(
+  ctx: ParseContext,
+  schema: GraphQLSchema,
   rootType: GraphQLObjectType | undefined | null,
-  method: OperationMethod,
+  method: GraphQLMethod,
   tag: string,
+  selectionDepth: number,
 ): ApiOperation[] {
   if (!rootType) return []
 
   const fields = rootType.getFields()
   const operations: ApiOperation[] = []
+  const operationType = OPERATION_TYPES[method]
 
   for (const [fieldName, field] of Object.entries(fields)) {
-    const args = field.args ?? []
-    const queryParams = args.map(convertArgument)
-
-    // Build request body from arguments if there are any
-    let requestBody: ApiRequestBody | undefined
-    if (args.length > 0) {
-      const argProperties: ApiProperty[] = args.map((arg) => {
-        const { type, required } = convertGraphQLType(arg.type)
-        return {
-          name: arg.name,
-          type,
-          required,
-          description: arg.description ?? undefined,
-        }
-      })
+    const { queryParams, requestBody } = toOperationInputs(operationType, (field.args ?? []).map((arg) => convertArgument(ctx, arg)))
 
-      requestBody = {
-        required: args.some((arg) => isNonNullType(arg.type)),
-        contentType: 'application/json',
-        type: {
-          kind: 'object',
-          properties: argProperties,
-        },
-      }
-    }
-
-    // Convert return type
-    const { type: responseType } = convertGraphQLType(field.type)
+    // The response holds exactly the selected fields
+    const selectionSet = buildSelectionSet(field.type, selectionDepth, new Set())
+    const { type: responseType } = narrowGraphQLType(ctx, schema, field.type, selectionSet)
 
     const response: ApiResponse = {
       statusCode: 200,
@@ -324,6 +364,8 @@ function buildOperationsFromType(
       description: field.description ?? undefined,
     }
 
+    const operationName = toPascalCase(fieldName)
+
     operations.push({
       operationId: fieldName,
       summary: field.description ?? undefined,
@@ -335,6 +377,13 @@ function buildOperationsFromType(
       headerParams: [],
       requestBody,
       response,
+      graphql: {
+        operationType,
+        operationName,
+        field: fieldName,
+        document: buildDocument(operationType, operationName, field, selectionSet),
+        selectionSet,
+      },
       deprecated: field.deprecationReason != null,
     })
   }
@@ -342,11 +391,511 @@ function buildOperationsFromType(
   return operations
 }
 
+/**
+ * Mutations take their variables as a body, queries and subscriptions as
+ * params.
+ */
+function toOperationInputs(
+  operationType: GraphQLOperation['operationType'],
+  params: ApiParam[],
+): { queryParams: ApiParam[]; requestBody?: ApiRequestBody } {
+  if (operationType !== 'mutation') return { queryParams: params }
+  if (params.length === 0) return { queryParams: [] }
+
+  const properties: ApiProperty[] = params.map(({ name, type, required, description, default: value }) => {
+    const property: ApiProperty = { name, type, required, description }
+    if (value !== undefined) property.default = value
+    return property
+  })
+  return {
+    queryParams: [],
+    requestBody: {
+      required: params.some((p) => p.required),
+      contentType: 'application/json',
+      type: { kind: 'object', properties },
+    },
+  }
+}
+
+type GraphQLMethod = Extract<OperationMethod, 'QUERY' | 'MUTATION' | 'SUBSCRIPTION'>
+
+const OPERATION_TYPES: Record<GraphQLMethod, GraphQLOperation['operationType']> = {
+  QUERY: 'query',
+  MUTATION: 'mutation',
+  SUBSCRIPTION: 'subscription',
+}
+
+/** Levels of nested selection sets selected below each root field by default. */
+export const DEFAULT_SELECTION_DEPTH = 3
+
+// ---------------------------------------------------------------------------
+// Operation documents
+// ---------------------------------------------------------------------------
+
+/**
+ * Builds the document for a root field: one variable per argument, passed
+ * straight through to the field. Variables for arguments with a default are
+ * nullable, so omitting them leaves the argument to its default.
+ *
+ * @example
+ * ```graphql
+ * query Pet($id: ID!) {
+ *   pet(id: $id) {
+ *     id
+ *     name
+ *   }
+ * }
+ * ```
+ */
+function buildDocument(
+  operationType: GraphQLOperation['operationType'],
+  operationName: string,
+  field: GraphQLField<unknown, unknown>,
+  selectionSet: GraphQLSelection[],
+): string {
+  const args = field.args ?? []
+  const variables = args.length > 0
+    ? `(${args.map((arg) => `$${arg.name}: ${String(variableType(arg))}`).join(', ')})`
+    : ''
+  const fieldArgs = args.length > 0
+    ? `(${args.map((arg) => `${arg.name}: $${arg.name}`).join(', ')})`
+    : ''
+
+  const lines = [`${operationType} ${operationName}${variables} {`]
+  if (selectionSet.length > 0) {
+    lines.push(`  ${field.name}${fieldArgs} {`, ...printSelectionSet(selectionSet, '    '), `  }`)
+  } else {
+    lines.push(`  ${field.name}${fieldArgs}`)
+  }
+  lines.push(`}`)
+  return lines.join('\n')
+}
+
+function variableType(arg: GraphQLArgument): GraphQLType {
+  return isNonNullType(arg.type) && arg.defaultValue !== undefined ? arg.type.ofType : arg.type
+}
+
+function printSelectionSet(selectionSet: GraphQLSelection[], indent: string): string[] {
+  const lines: string[] = []
+  for (const selection of selectionSet) {
+    const head = selection.kind === 'inline-fragment'
+      ? `... on ${selection.typeCondition}`
+      : selection.alias ? `${selection.alias}: ${selection.name}` : selection.name
+    if (selection.selectionSet) {
+      lines.push(
+        `${indent}${head} {`,
+        ...printSelectionSet(selection.selectionSet, `${indent}  `),
+        `${indent}}`,
+      )
+    } else {
+      lines.push(`${indent}${head}`)
+    }
+  }
+  return lines
+}
+
+// ---------------------------------------------------------------------------
+// Selection sets
+// ---------------------------------------------------------------------------
+
+/**
+ * Default selection set for a return type, walking up to `depth` levels of
+ * nested selection sets. Empty for scalars and enums, which take none.
+ *
+ * Scalar and enum fields are always selected. Fields returning objects are
+ * selected while depth remains, unless their type is already being selected
+ * further up (`ancestors`), which stops recursive types. Fields with required
+ * arguments are skipped, since the document has no values to pass them.
+ * Unions select `__typename` and an inline fragment per member, and
+ * interfaces `__typename` before their own fields, so clients can tell the
+ * implementing types apart.
+ */
+function buildSelectionSet(
+  graphqlType: GraphQLType,
+  depth: number,
+  ancestors: Set<string>,
+): GraphQLSelection[] {
+  const named = getNamedType(graphqlType)
+  if (isLeafType(named)) return []
+
+  if (isUnionType(named)) {
+    const selections: GraphQLSelection[] = [{ kind: 'field', name: '__typename' }]
+    for (const member of named.getTypes()) {
+      const fields = selectFields(member, depth, ancestors)
+      if (fields.length > 0) {
+        selections.push({ kind: 'inline-fragment', typeCondition: member.name, selectionSet: fields })
+      }
+    }
+    return selections
+  }
+
+  const fields = selectFields(named as GraphQLObjectType | GraphQLInterfaceType, depth, ancestors)
+  if (isInterfaceType(named)) return [{ kind: 'field', name: '__typename' }, ...fields]
+  return fields.length > 0 ? fields : [{ kind: 'field', name: '__typename' }]
+}
+
+function selectFields(
+  type: GraphQLObjectType | GraphQLInterfaceType,
+  depth: number,
+  ancestors: Set<string>,
+): GraphQLSelection[] {
+  const path = new Set(ancestors).add(type.name)
+  const selections: GraphQLSelection[] = []
+
+  for (const field of Object.values(type.getFields())) {
+    if (field.args.some((arg) => isNonNullType(arg.type) && arg.defaultValue === undefined)) continue
+
+    const named = getNamedType(field.type)
+    if (isLeafType(named)) {
+      selections.push({ kind: 'field', name: field.name })
+    } else if (depth > 1 && !path.has(named.name)) {
+      selections.push({
+        kind: 'field',
+        name: field.name,
+        selectionSet: buildSelectionSet(field.type, depth - 1, path),
+      })
+    }
+  }
+
+  return selections
+}
+
+/**
+ * Converts a return type to the IR like `convertGraphQLType`, but with object
+ * types narrowed to the fields in `selectionSet`, keyed by alias.
+ */
+function narrowGraphQLType(
+  ctx: ParseContext,
+  schema: GraphQLSchema,
+  graphqlType: GraphQLType,
+  selectionSet: GraphQLSelection[],
+): { type: ApiType; required: boolean } {
+  if (isNonNullType(graphqlType)) {
+    return { type: narrowInnerType(ctx, schema, graphqlType.ofType, selectionSet), required: true }
+  }
+  return { type: narrowInnerType(ctx, schema, graphqlType, selectionSet), required: false }
+}
+
+function narrowInnerType(
+  ctx: ParseContext,
+  schema: GraphQLSchema,
+  graphqlType: GraphQLType,
+  selectionSet: GraphQLSelection[],
+): ApiType {
+  if (isListType(graphqlType)) {
+    const item = isNonNullType(graphqlType.ofType) ? graphqlType.ofType.ofType : graphqlType.ofType
+    return { kind: 'array', items: narrowInnerType(ctx, schema, item, selectionSet) }
+  }
+
+  // Unions, and interfaces selected through fragments, have a variant per possible type
+  if (isUnionType(graphqlType) || (isInterfaceType(graphqlType) && hasTypeFragments(graphqlType, selectionSet))) {
+    const members = schema.getPossibleTypes(graphqlType)
+    const union: ApiUnionType = {
+      kind: 'union',
+      variants: members.map((member) => narrowObjectType(ctx, schema, member, selectionSet)),
+      description: graphqlType.description ?? undefined,
+    }
+    const tag = members.length > 0
+      ? [...collectFields(schema, members[0], selectionSet)].find(([, field]) => field.name === '__typename')
+      : undefined
+    if (tag) union.discriminator = { propertyName: tag[0], values: members.map((m) => m.name) }
+    return union
+  }
+
+  if (isObjectType(graphqlType) || isInterfaceType(graphqlType)) {
+    return narrowObjectType(ctx, schema, graphqlType, selectionSet)
+  }
+
+  return convertInnerType(ctx, graphqlType)
+}
+
+function hasTypeFragments(type: GraphQLInterfaceType, selectionSet: GraphQLSelection[]): boolean {
+  return selectionSet.some((s) => s.kind === 'inline-fragment' && s.typeCondition !== type.name)
+}
+
+function narrowObjectType(
+  ctx: ParseContext,
+  schema: GraphQLSchema,
+  type: GraphQLObjectType | GraphQLInterfaceType,
+  selectionSet: GraphQLSelection[],
+): ApiType {
+  const fields = type.getFields()
+  const properties: ApiProperty[] = []
+
+  for (const [key, selection] of collectFields(schema, type, selectionSet)) {
+    if (selection.name === '__typename') {
+      properties.push({
+        name: key,
+        type: isObjectType(type)
+          ? { kind: 'enum', values: [type.name] }
+          : { kind: 'primitive', type: 'string' },
+        required: true,
+      })
+      continue
+    }
+
+    const field = fields[selection.name]
+    const { type: fieldType, required } = narrowGraphQLType(ctx, schema, field.type, selection.selectionSet)
+    properties.push({
+      name: key,
+      type: fieldType,
+      required,
+      description: field.description ?? undefined,
+    })
+  }
+
+  return {
+    kind: 'object',
+    properties,
+    description: type.description ?? undefined,
+  }
+}
+
+/**
+ * The fields a selection set returns for `type`, by response key. Inline
+ * fragments are applied when their type condition matches `type`, and
+ * fields selected more than once have their sub-selections merged.
+ */
+function collectFields(
+  schema: GraphQLSchema,
+  type: GraphQLObjectType | GraphQLInterfaceType,
+  selectionSet: GraphQLSelection[],
+  fields = new Map<string, { name: string; selectionSet: GraphQLSelection[] }>(),
+): Map<string, { name: string; selectionSet: GraphQLSelection[] }> {
+  for (const selection of selectionSet) {
+    if (selection.kind === 'inline-fragment') {
+      if (fragmentApplies(schema, selection.typeCondition, type)) {
+        collectFields(schema, type, selection.selectionSet, fields)
+      }
+      continue
+    }
+
+    const key = selection.alias ?? selection.name
+    const existing = fields.get(key)
+    if (existing) {
+      existing.selectionSet = [...existing.selectionSet, ...(selection.selectionSet ?? [])]
+    } else {
+      fields.set(key, { name: selection.name, selectionSet: selection.selectionSet ?? [] })
+    }
+  }
+  return fields
+}
+
+function fragmentApplies(
+  schema: GraphQLSchema,
+  typeCondition: string,
+  type: GraphQLObjectType | GraphQLInterfaceType,
+): boolean {
+  if (typeCondition === type.name) return true
+  const condition = schema.getType(typeCondition)
+  if (isObjectType(type) && (isUnionType(condition) || isInterfaceType(condition))) {
+    return schema.isSubType(condition, type)
+  }
+  return isInterfaceType(condition) && type.getInterfaces().includes(condition)
+}
+
+// ---------------------------------------------------------------------------
+// Operations from documents
+// ---------------------------------------------------------------------------
+
+/** Fragments may be defined in one file and only used in another, or not at all. */
+const DOCUMENT_RULES = specifiedRules.filter((rule) => rule !== NoUnusedFragmentsRule)
+
+const OPERATION_METHODS: Record<GraphQLOperation['operationType'], GraphQLMethod> = {
+  query: 'QUERY',
+  mutation: 'MUTATION',
+  subscription: 'SUBSCRIPTION',
+}
+
+const OPERATION_TAGS: Record<GraphQLOperation['operationType'], string> = {
+  query: 'queries',
+  mutation: 'mutations',
+  subscription: 'subscriptions',
+}
+
+/**
+ * Builds one operation per named operation in the documents matched by
+ * `patterns`, typed from its own variables and selection set. Fragments are
+ * shared across files.
+ *
+ * @throws {ParseError} If no file matches, a document does not parse or
+ * validate against the schema, or an operation is anonymous.
+ */
+async function buildOperationsFromDocuments(
+  ctx: ParseContext,
+  schema: GraphQLSchema,
+  patterns: string[],
+): Promise<ApiOperation[]> {
+  const files = await expandGlobs(patterns)
+  if (files.length === 0) {
+    throw new ParseError(`No GraphQL documents match ${patterns.map((p) => `"${p}"`).join(', ')}.`)
+  }
+
+  const definitions: DefinitionNode[] = []
+  for (const file of files) {
+    let body: string
+    try {
+      body = await readFile(file, 'utf-8')
+    } catch (err) {
+      throw new ParseError(
+        `Failed to read GraphQL document "${file}": ${err instanceof Error ? err.message : String(err)}`,
+      )
+    }
+    try {
+      definitions.push(...parse(new Source(body, relative(process.cwd(), file))).definitions)
+    } catch (err) {
+      throw new ParseError(`Invalid GraphQL document: ${formatGraphQLError(err)}`)
+    }
+  }
+
+  const errors = validate(schema, { kind: Kind.DOCUMENT, definitions }, DOCUMENT_RULES)
+  if (errors.length > 0) {
+    throw new ParseError(
+      `GraphQL documents do not match the schema:\n${errors.map((e) => `  ${formatGraphQLError(e)}`).join('\n')}`,
+    )
+  }
+
+  const fragments = new Map<string, FragmentDefinitionNode>()
+  for (const definition of definitions) {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) fragments.set(definition.name.value, definition)
+  }
+
+  const operations: ApiOperation[] = []
+  for (const definition of definitions) {
+    if (definition.kind !== Kind.OPERATION_DEFINITION) continue
+    if (!definition.name) {
+      const error = new GraphQLError(`Anonymous ${definition.operation} needs a name to generate a hook.`, {
+        nodes: definition,
+      })
+      throw new ParseError(`Invalid GraphQL document: ${formatGraphQLError(error)}`)
+    }
+    operations.push(buildDocumentOperation(ctx, schema, definition, fragments))
+  }
+  return operations
+}
+
+function buildDocumentOperation(
+  ctx: ParseContext,
+  schema: GraphQLSchema,
+  definition: OperationDefinitionNode,
+  fragments: Map<string, FragmentDefinitionNode>,
+): ApiOperation {
+  const operationType = definition.operation as GraphQLOperation['operationType']
+  const operationName = definition.name!.value
+  // Validation guarantees the root type and variable types exist
+  const rootType = schema.getRootType(definition.operation)!
+
+  const params: ApiParam[] = (definition.variableDefinitions ?? []).map((variable) => {
+    const type = typeFromAST(schema, variable.type) as GraphQLInputType
+    const param: ApiParam = {
+      name: variable.variable.name.value,
+      required: variable.type.kind === Kind.NON_NULL_TYPE && !variable.defaultValue,
+      type: convertGraphQLType(ctx, type).type,
+      in: 'query',
+    }
+    if (variable.defaultValue) param.default = valueFromAST(variable.defaultValue, type)
+    return param
+  })
+  const { queryParams, requestBody } = toOperationInputs(operationType, params)
+
+  const selectionSet = toSelectionSet(definition.selectionSet, fragments)
+
+  return {
+    operationId: toCamelCase(operationName),
+    method: OPERATION_METHODS[operationType],
+    path: operationName,
+    tags: [OPERATION_TAGS[operationType]],
+    pathParams: [],
+    queryParams,
+    headerParams: [],
+    requestBody,
+    response: {
+      statusCode: 200,
+      contentType: 'application/json',
+      type: narrowObjectType(ctx, schema, rootType, selectionSet),
+    },
+    graphql: {
+      operationType,
+      operationName,
+      document: printOperationDocument(definition, fragments),
+      selectionSet,
+    },
+    deprecated: false,
+  }
+}
+
+/**
+ * Converts a selection set to the IR. Fragment spreads become inline
+ * fragments on the fragment's type condition, and inline fragments without
+ * a type condition are merged into their parent.
+ */
+function toSelectionSet(
+  node: SelectionSetNode,
+  fragments: Map<string, FragmentDefinitionNode>,
+): GraphQLSelection[] {
+  const selections: GraphQLSelection[] = []
+
+  for (const selection of node.selections) {
+    if (selection.kind === Kind.FIELD) {
+      const field: GraphQLFieldSelection = { kind: 'field', name: selection.name.value }
+      if (selection.alias) field.alias = selection.alias.value
+      if (selection.selectionSet) field.selectionSet = toSelectionSet(selection.selectionSet, fragments)
+      selections.push(field)
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      const fields = toSelectionSet(selection.selectionSet, fragments)
+      if (selection.typeCondition) {
+        selections.push({ kind: 'inline-fragment', typeCondition: selection.typeCondition.name.value, selectionSet: fields })
+      } else {
+        selections.push(...fields)
+      }
+    } else {
+      const fragment = fragments.get(selection.name.value)!
+      selections.push({
+        kind: 'inline-fragment',
+        typeCondition: fragment.typeCondition.name.value,
+        selectionSet: toSelectionSet(fragment.selectionSet, fragments),
+      })
+    }
+  }
+
+  return selections
+}
+
+/** Prints an operation followed by every fragment it uses, directly or not. */
+function printOperationDocument(
+  definition: OperationDefinitionNode,
+  fragments: Map<string, FragmentDefinitionNode>,
+): string {
+  const used = new Map<string, FragmentDefinitionNode>()
+  const collect = (node: ASTNode) => {
+    visit(node, {
+      FragmentSpread(spread) {
+        const name = spread.name.value
+        if (used.has(name)) return
+        const fragment = fragments.get(name)!
+        used.set(name, fragment)
+        collect(fragment)
+      },
+    })
+  }
+  collect(definition)
+
+  return [definition, ...used.values()].map((node) => print(node)).join('\n\n')
+}
+
+/** Formats a GraphQL error as `file:line:column message`. */
+function formatGraphQLError(err: unknown): string {
+  if (!(err instanceof GraphQLError)) return err instanceof Error ? err.message : String(err)
+  const location = err.locations?.[0]
+  if (!err.source || !location) return err.message
+  return `${err.source.name}:${location.line}:${location.column} ${err.message}`
+}
+
 // ---------------------------------------------------------------------------
 // Extract named types
 // ---------------------------------------------------------------------------
 
-function extractNamedTypes(schema: GraphQLSchema): Map<string, ApiType> {
+function extractNamedTypes(ctx: ParseContext, schema: GraphQLSchema): Map<string, ApiType> {
   const types = new Map<string, ApiType>()
   const typeMap = schema.getTypeMap()
 
@@ -372,9 +921,9 @@ function extractNamedTypes(schema: GraphQLSchema): Map<string, ApiType> {
       ) {
         continue
       }
-      types.set(name, convertObjectType(graphqlType))
+      types.set(name, convertObjectType(ctx, graphqlType))
     } else if (isInputObjectType(graphqlType)) {
-      types.set(name, convertInputObjectType(graphqlType))
+      types.set(name, convertInputObjectType(ctx, graphqlType))
     } else if (isEnumType(graphqlType)) {
       types.set(name, {
         kind: 'enum',
@@ -385,7 +934,16 @@ function extractNamedTypes(schema: GraphQLSchema): Map<string, ApiType> {
     } else if (isUnionType(graphqlType)) {
       types.set(name, {
         kind: 'union',
-        variants: graphqlType.getTypes().map((t) => convertInnerType(t)),
+        variants: graphqlType.getTypes().map((t) => convertInnerType(ctx, t)),
+        description: graphqlType.description ?? undefined,
+      })
+    } else if (isInterfaceType(graphqlType)) {
+      // A union of the implementing types, told apart by `__typename`
+      const members = schema.getPossibleTypes(graphqlType)
+      types.set(name, {
+        kind: 'union',
+        variants: members.map((member) => ({ kind: 'ref', name: member.name })),
+        discriminator: { propertyName: '__typename', values: members.map((member) => member.name) },
         description: graphqlType.description ?? undefined,
       })
     }
@@ -430,19 +988,21 @@ export const graphqlParser: SpecParser = {
       throw new Error('GraphQL parser: unsupported input format')
     }
 
-    // Clear the recursion guard between parse calls
-    visitedTypes.clear()
-
-    const operations: ApiOperation[] = [
-      ...buildOperationsFromType(schema.getQueryType(), 'QUERY', 'queries'),
-      ...buildOperationsFromType(schema.getMutationType(), 'MUTATION', 'mutations'),
-      ...buildOperationsFromType(schema.getSubscriptionType(), 'SUBSCRIPTION', 'subscriptions'),
-    ]
+    const ctx: ParseContext = {
+      scalars: new Map(Object.entries(options?.scalars ?? {})),
+      visitedTypes: new Set(),
+    }
 
-    const types = extractNamedTypes(schema)
+    const depth = options?.selectionDepth ?? DEFAULT_SELECTION_DEPTH
+    const operations: ApiOperation[] = options?.documents
+      ? await buildOperationsFromDocuments(ctx, schema, options.documents)
+      : [
+          ...buildOperationsFromType(ctx, schema, schema.getQueryType(), 'QUERY', 'queries', depth),
+          ...buildOperationsFromType(ctx, schema, schema.getMutationType(), 'MUTATION', 'mutations', depth),
+          ...buildOperationsFromType(ctx, schema, schema.getSubscriptionType(), 'SUBSCRIPTION', 'subscriptions', depth),
+        ]
 
-    // Clear again after use
-    visitedTypes.clear()
+    const types = extractNamedTypes(ctx, schema)
 
     return {
       title: 'GraphQL API',
@@ -6,9 +6,10 @@ import { applyPaginationDetection } from '../ir/helpers'
 import { openApiParser } from './openapi-parser'
 import { swaggerParser } from './swagger-parser'
 import { graphqlParser } from './graphql-parser'
+import { logger } from '../utils/logger'
 import type { ParseOptions, SpecParser } from './types'
 
-export type { ParseOptions, SpecParser } from './types'
+export type { ParseOptions, ScalarMapping, ScalarType, SpecParser } from './types'
 
 // ---------------------------------------------------------------------------
 // Parse error
@@ -146,6 +147,9 @@ export async function parseSpec(
   // Try each parser in order
   for (const parser of parsers) {
     if (parser.canParse(resolved)) {
+      if (parser !== graphqlParser && resolvedOptions.documents?.length) {
+        logger.warn('GraphQL documents only apply to GraphQL schemas; ignoring them for this spec.')
+      }
       const spec = await parser.parse(resolved, resolvedOptions)
       return applyPaginationDetection(spec)
     }
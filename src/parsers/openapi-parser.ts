@@ -12,11 +12,14 @@ import type {
   ApiPrimitiveType,
   ApiEnumType,
   ApiUnionType,
+  ApiDiscriminator,
   ApiProperty,
+  ApiSecurityScheme,
   HttpMethod,
   PaginationInfo,
   PaginationStrategy,
 } from '../ir/types'
+import { getResponseDecoding, parseXInvalidates } from '../ir/helpers'
 import type { SpecParser, ParseOptions } from './types'
 
 // ---------------------------------------------------------------------------
@@ -34,6 +37,103 @@ function isRef(obj: unknown): obj is ReferenceObject {
   return typeof obj === 'object' && obj !== null && '$ref' in obj
 }
 
+// ---------------------------------------------------------------------------
+// $ref resolution (bundle mode)
+// ---------------------------------------------------------------------------
+
+const SCHEMA_REF_PREFIX = '#/components/schemas/'
+
+/**
+ * State of a single parse, passed to every converter that resolves `$ref`s.
+ */
+interface ParseContext {
+  /**
+   * The bundled document of a `preserveRefs` parse. When set, `$ref`s to
+   * `components.schemas` become `ApiRefType`s and every other internal `$ref`
+   * is resolved against this document.
+   */
+  bundled?: OpenAPIV3.Document
+  /** `$ref` pointers currently being resolved, used to break cycles. */
+  resolving: Set<string>
+  /**
+   * Component schema objects mapped to their names. Dereferencing inlines the
+   * same object instance everywhere it is referenced, so this recovers the name
+   * of a `oneOf` member for discriminator mapping.
+   */
+  schemaNames: Map<object, string>
+}
+
+/**
+ * Resolves a local JSON pointer (`#/a/b~1c`) against the bundled document.
+ */
+function resolvePointer(ctx: ParseContext, ref: string): unknown {
+  if (!ctx.bundled || !ref.startsWith('#/')) return undefined
+  let current: unknown = ctx.bundled
+  for (const segment of ref.slice(2).split('/')) {
+    if (typeof current !== 'object' || current === null) return undefined
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~')
+    current = (current as Record<string, unknown>)[key]
+  }
+  return current
+}
+
+/**
+ * Follows `$ref` pointers until a concrete object is reached. Returns
+ * `undefined` for refs that cannot be resolved — which is always the case for
+ * the circular refs left behind by a dereferenced (non-bundle) parse.
+ */
+function deref<T extends object>(ctx: ParseContext, obj: T | ReferenceObject | undefined): T | undefined {
+  const seen = new Set<string>()
+  let current: unknown = obj
+  while (isRef(current)) {
+    if (seen.has(current.$ref)) return undefined
+    seen.add(current.$ref)
+    current = resolvePointer(ctx, current.$ref)
+  }
+  return current as T | undefined
+}
+
+/**
+ * Extracts the schema name from a `#/components/schemas/<name>` pointer.
+ */
+function schemaRefName(ref: string): string | undefined {
+  if (!ref.startsWith(SCHEMA_REF_PREFIX)) return undefined
+  const name = ref.slice(SCHEMA_REF_PREFIX.length)
+  if (name.includes('/')) return undefined
+  return decodeURIComponent(name).replace(/~1/g, '/').replace(/~0/g, '~')
+}
+
+/**
+ * Whether a schema entry can be converted. Refs to `components.schemas` always
+ * can; other refs only in bundle mode — otherwise they are unresolved circular
+ * refs and are skipped.
+ */
+function isConvertible(ctx: ParseContext, schema: SchemaObject | ReferenceObject): boolean {
+  return !isRef(schema) || ctx.bundled !== undefined || schemaRefName(schema.$ref) !== undefined
+}
+
+/**
+ * Converts a `$ref` schema. Named component schemas become `ApiRefType`
+ * (in a dereferenced spec these are the refs that close a cycle); in bundle
+ * mode any other pointer (e.g. a bundled external file) is resolved and inlined.
+ */
+function convertRefSchema(ctx: ParseContext, schema: ReferenceObject): ApiType {
+  const name = schemaRefName(schema.$ref)
+  if (name !== undefined) {
+    return { kind: 'ref', name }
+  }
+
+  if (!ctx.bundled || ctx.resolving.has(schema.$ref)) {
+    return { kind: 'primitive', type: 'unknown' }
+  }
+  ctx.resolving.add(schema.$ref)
+  try {
+    return convertSchema(ctx, resolvePointer(ctx, schema.$ref) as SchemaObject | ReferenceObject | undefined)
+  } finally {
+    ctx.resolving.delete(schema.$ref)
+  }
+}
+
 // ---------------------------------------------------------------------------
 // HTTP method mapping
 // ---------------------------------------------------------------------------
@@ -48,31 +148,42 @@ const HTTP_METHODS: ReadonlySet<string> = new Set([
 
 /**
  * Recursively converts a JSON Schema (OpenAPI 3.x) object into the IR `ApiType`.
- * After dereferencing, `$ref` values are inlined as objects.
+ * After dereferencing, `$ref` values are inlined as objects. In bundle mode,
+ * refs to `components.schemas` are kept as `ApiRefType`.
  */
-function convertSchema(schema: SchemaObject | undefined): ApiType {
+function convertSchema(ctx: ParseContext, schema: SchemaObject | ReferenceObject | undefined): ApiType {
   if (!schema) {
     return { kind: 'primitive', type: 'unknown' }
   }
 
-  // Handle oneOf / anyOf -> union
-  if (schema.oneOf && schema.oneOf.length > 0) {
-    const variants = schema.oneOf
-      .filter((s): s is SchemaObject => !isRef(s))
-      .map((s) => convertSchema(s))
-    return { kind: 'union', variants, description: schema.description } satisfies ApiUnionType
+  if (isRef(schema)) {
+    return convertRefSchema(ctx, schema)
   }
-  if (schema.anyOf && schema.anyOf.length > 0) {
-    const variants = schema.anyOf
-      .filter((s): s is SchemaObject => !isRef(s))
-      .map((s) => convertSchema(s))
-    return { kind: 'union', variants, description: schema.description } satisfies ApiUnionType
+
+  // Handle oneOf / anyOf -> union
+  const unionSchemas = schema.oneOf && schema.oneOf.length > 0 ? schema.oneOf : schema.anyOf
+  if (unionSchemas && unionSchemas.length > 0) {
+    const members = unionSchemas.filter((s) => isConvertible(ctx, s))
+    const result: ApiUnionType = {
+      kind: 'union',
+      variants: members.map((s) => convertSchema(ctx, s)),
+      description: schema.description,
+    }
+    const discriminator = convertDiscriminator(ctx, schema.discriminator, members)
+    if (discriminator) {
+      result.discriminator = discriminator
+    }
+    return result
   }
 
   // Handle allOf -> merge into single object
   if (schema.allOf && schema.allOf.length > 0) {
-    const merged = mergeAllOf(schema.allOf.filter((s): s is SchemaObject => !isRef(s)))
-    const result = convertSchema(merged)
+    const merged = mergeAllOf(
+      schema.allOf
+        .map((s) => deref<SchemaObject>(ctx, s))
+        .filter((s): s is SchemaObject => s !== undefined),
+    )
+    const result = convertSchema(ctx, merged)
     if (schema.description && result.kind === 'object') {
       return { ...result, description: schema.description }
     }
@@ -92,15 +203,13 @@ function convertSchema(schema: SchemaObject | undefined): ApiType {
   // Handle array
   if (schema.type === 'array') {
     const arraySchema = schema as OpenAPIV3.ArraySchemaObject
-    const items = isRef(arraySchema.items)
-      ? ({ kind: 'primitive', type: 'unknown' } as ApiType)
-      : convertSchema(arraySchema.items as SchemaObject)
+    const items = convertSchema(ctx, arraySchema.items)
     return { kind: 'array', items, description: schema.description } satisfies ApiArrayType
   }
 
   // Handle object (explicit or has properties)
   if (schema.type === 'object' || schema.properties || (!schema.type && hasObjectShape(schema))) {
-    return convertObjectSchema(schema)
+    return convertObjectSchema(ctx, schema)
   }
 
   // Handle primitives
@@ -118,7 +227,7 @@ function convertSchema(schema: SchemaObject | undefined): ApiType {
 
   // Nullable shorthand in OpenAPI 3.0
   if ((schema as OpenAPIV3.SchemaObject).nullable && schema.type) {
-    const inner = convertSchema({ ...schema, nullable: undefined } as SchemaObject)
+    const inner = convertSchema(ctx, { ...schema, nullable: undefined } as SchemaObject)
     return {
       kind: 'union',
       variants: [inner, { kind: 'primitive', type: 'null' }],
@@ -129,6 +238,63 @@ function convertSchema(schema: SchemaObject | undefined): ApiType {
   return { kind: 'primitive', type: 'unknown', description: schema.description }
 }
 
+/**
+ * Builds the discriminator of a `oneOf` / `anyOf` union. Each variant's tag is
+ * taken from the explicit `mapping`, then from a single-value `enum` on the
+ * tag property, then from the variant's schema name (the implicit mapping).
+ * Returns `undefined` if any variant's tag cannot be determined.
+ */
+function convertDiscriminator(
+  ctx: ParseContext,
+  discriminator: OpenAPIV3.DiscriminatorObject | undefined,
+  members: (SchemaObject | ReferenceObject)[],
+): ApiDiscriminator | undefined {
+  if (!discriminator?.propertyName) return undefined
+  const { propertyName, mapping = {} } = discriminator
+
+  // Mapping values are either `#/components/schemas/<name>` pointers or bare names
+  const tagsBySchema = new Map<string, string>()
+  for (const [tag, target] of Object.entries(mapping)) {
+    const name = schemaRefName(target) ?? target
+    if (!tagsBySchema.has(name)) {
+      tagsBySchema.set(name, tag)
+    }
+  }
+
+  const values: string[] = []
+  for (const member of members) {
+    const name = isRef(member) ? schemaRefName(member.$ref) : ctx.schemaNames.get(member)
+    const mapped = name !== undefined ? tagsBySchema.get(name) : undefined
+    const tag = mapped ?? singleEnumValue(ctx, member, propertyName) ?? name
+    if (tag === undefined) return undefined
+    values.push(tag)
+  }
+
+  return { propertyName, values }
+}
+
+/**
+ * Returns the only allowed value of `propertyName` when the schema pins it
+ * with a single-value string `enum`.
+ */
+function singleEnumValue(
+  ctx: ParseContext,
+  member: SchemaObject | ReferenceObject,
+  propertyName: string,
+): string | undefined {
+  const schema = deref<SchemaObject>(ctx, member)
+  const schemas = schema?.allOf
+    ? schema.allOf.map((s) => deref<SchemaObject>(ctx, s))
+    : [schema]
+  for (const candidate of schemas) {
+    const prop = deref<SchemaObject>(ctx, candidate?.properties?.[propertyName])
+    if (prop?.enum?.length === 1 && typeof prop.enum[0] === 'string') {
+      return prop.enum[0]
+    }
+  }
+  return undefined
+}
+
 /**
  * Checks whether a schema object has properties that suggest it's an object type.
  */
@@ -139,18 +305,18 @@ function hasObjectShape(schema: SchemaObject): boolean {
 /**
  * Converts an object-type JSON Schema into an `ApiObjectType`.
  */
-function convertObjectSchema(schema: SchemaObject): ApiObjectType {
+function convertObjectSchema(ctx: ParseContext, schema: SchemaObject): ApiObjectType {
   const requiredSet = new Set<string>(schema.required ?? [])
   const properties: ApiProperty[] = []
 
   if (schema.properties) {
     for (const [name, propSchema] of Object.entries(schema.properties)) {
-      if (isRef(propSchema)) continue
+      if (!isConvertible(ctx, propSchema)) continue
       properties.push({
         name,
-        type: convertSchema(propSchema as SchemaObject),
+        type: convertSchema(ctx, propSchema),
         required: requiredSet.has(name),
-        description: (propSchema as SchemaObject).description,
+        description: isRef(propSchema) ? undefined : propSchema.description,
       })
     }
   }
@@ -168,8 +334,8 @@ function convertObjectSchema(schema: SchemaObject): ApiObjectType {
   if (schema.additionalProperties !== undefined) {
     if (typeof schema.additionalProperties === 'boolean') {
       result.additionalProperties = schema.additionalProperties
-    } else if (!isRef(schema.additionalProperties)) {
-      result.additionalProperties = convertSchema(schema.additionalProperties as SchemaObject)
+    } else if (isConvertible(ctx, schema.additionalProperties)) {
+      result.additionalProperties = convertSchema(ctx, schema.additionalProperties)
     }
   }
 
@@ -205,15 +371,15 @@ function mergeAllOf(schemas: SchemaObject[]): SchemaObject {
 // Parameter conversion
 // ---------------------------------------------------------------------------
 
-function convertParameter(param: ParameterObject): ApiParam {
-  const schema = param.schema && !isRef(param.schema)
-    ? (param.schema as SchemaObject)
+function convertParameter(ctx: ParseContext, param: ParameterObject): ApiParam {
+  const schema = param.schema && isConvertible(ctx, param.schema)
+    ? param.schema
     : undefined
 
   return {
     name: param.name,
     required: param.required ?? (param.in === 'path'),
-    type: convertSchema(schema),
+    type: convertSchema(ctx, schema),
     description: param.description,
     in: param.in as 'path' | 'query' | 'header',
   }
@@ -223,32 +389,33 @@ function convertParameter(param: ParameterObject): ApiParam {
 // Request body conversion
 // ---------------------------------------------------------------------------
 
-function convertRequestBody(body: RequestBodyObject): ApiRequestBody | undefined {
+function convertRequestBody(ctx: ParseContext, body: RequestBodyObject): ApiRequestBody | undefined {
   const jsonContent = body.content['application/json'] ?? body.content['*/*']
   if (!jsonContent) {
     // Try to find any content type
     const firstKey = Object.keys(body.content)[0]
     if (!firstKey) return undefined
     const mediaType = body.content[firstKey]
-    return convertMediaTypeToBody(mediaType, firstKey, body)
+    return convertMediaTypeToBody(ctx, mediaType, firstKey, body)
   }
 
-  return convertMediaTypeToBody(jsonContent, 'application/json', body)
+  return convertMediaTypeToBody(ctx, jsonContent, 'application/json', body)
 }
 
 function convertMediaTypeToBody(
+  ctx: ParseContext,
   media: MediaTypeObject,
   contentType: string,
   body: RequestBodyObject,
 ): ApiRequestBody {
-  const schema = media.schema && !isRef(media.schema)
-    ? (media.schema as SchemaObject)
+  const schema = media.schema && isConvertible(ctx, media.schema)
+    ? media.schema
     : undefined
 
   return {
     required: body.required ?? false,
     contentType,
-    type: convertSchema(schema),
+    type: convertSchema(ctx, schema),
     description: body.description,
   }
 }
@@ -261,6 +428,7 @@ function convertMediaTypeToBody(
  * Finds the success response (200, 201, or first 2xx) from the responses object.
  */
 function convertResponse(
+  ctx: ParseContext,
   responses: Record<string, ResponseObject | ReferenceObject>,
 ): ApiResponse {
   // Priority order: 200, 201, first 2xx, default
@@ -269,9 +437,9 @@ function convertResponse(
   let statusCode: number | 'default' = 200
 
   for (const code of successCodes) {
-    const candidate = responses[code]
-    if (candidate && !isRef(candidate)) {
-      responseObj = candidate as ResponseObject
+    const candidate = deref<ResponseObject>(ctx, responses[code])
+    if (candidate) {
+      responseObj = candidate
       statusCode = parseInt(code, 10)
       break
     }
@@ -280,8 +448,9 @@ function convertResponse(
   if (!responseObj) {
     // Look for first 2xx
     for (const [code, value] of Object.entries(responses)) {
-      if (code.startsWith('2') && !isRef(value)) {
-        responseObj = value as ResponseObject
+      const candidate = deref<ResponseObject>(ctx, value)
+      if (code.startsWith('2') && candidate) {
+        responseObj = candidate
         statusCode = parseInt(code, 10)
         break
       }
@@ -290,9 +459,9 @@ function convertResponse(
 
   if (!responseObj) {
     // Fallback to default
-    const defaultResp = responses['default']
-    if (defaultResp && !isRef(defaultResp)) {
-      responseObj = defaultResp as ResponseObject
+    const defaultResp = deref<ResponseObject>(ctx, responses['default'])
+    if (defaultResp) {
+      responseObj = defaultResp
       statusCode = 'default'
     }
   }
@@ -305,11 +474,52 @@ function convertResponse(
     }
   }
 
+  return convertResponseObject(ctx, responseObj, statusCode)
+}
+
+/**
+ * Collects the error responses (4xx, 5xx, the `4XX` / `5XX` ranges and `default`)
+ * from the responses object. A `default` response already used as the success
+ * response is skipped.
+ */
+function convertErrorResponses(
+  ctx: ParseContext,
+  responses: Record<string, ResponseObject | ReferenceObject>,
+  success: ApiResponse,
+): ApiResponse[] {
+  const errors: ApiResponse[] = []
+
+  for (const [code, value] of Object.entries(responses)) {
+    const responseObj = deref<ResponseObject>(ctx, value)
+    if (!responseObj) continue
+    if (code === 'default') {
+      if (success.statusCode === 'default') continue
+      errors.push(convertResponseObject(ctx, responseObj, 'default'))
+    } else if (/^[45]\d\d$/.test(code)) {
+      errors.push(convertResponseObject(ctx, responseObj, parseInt(code, 10)))
+    } else if (/^[45]XX$/i.test(code)) {
+      errors.push(convertResponseObject(ctx, responseObj, code.toUpperCase() as '4XX' | '5XX'))
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Converts a single response object into an `ApiResponse`, preferring JSON
+ * content and falling back to the first declared content type.
+ */
+function convertResponseObject(
+  ctx: ParseContext,
+  responseObj: ResponseObject,
+  statusCode: ApiResponse['statusCode'],
+): ApiResponse {
   const content = responseObj.content
   if (!content) {
+    // No body, e.g. 204 No Content
     return {
       statusCode,
-      contentType: 'application/json',
+      contentType: '',
       type: { kind: 'primitive', type: 'unknown' },
       description: responseObj.description,
     }
@@ -317,14 +527,14 @@ function convertResponse(
 
   const jsonMedia = content['application/json'] ?? content['*/*']
   if (jsonMedia) {
-    const schema = jsonMedia.schema && !isRef(jsonMedia.schema)
-      ? (jsonMedia.schema as SchemaObject)
+    const schema = jsonMedia.schema && isConvertible(ctx, jsonMedia.schema)
+      ? jsonMedia.schema
       : undefined
 
     return {
       statusCode,
       contentType: 'application/json',
-      type: convertSchema(schema),
+      type: convertSchema(ctx, schema),
       description: responseObj.description,
     }
   }
@@ -333,14 +543,14 @@ function convertResponse(
   const firstKey = Object.keys(content)[0]
   if (firstKey) {
     const media = content[firstKey]
-    const schema = media.schema && !isRef(media.schema)
-      ? (media.schema as SchemaObject)
+    const schema = media.schema && isConvertible(ctx, media.schema)
+      ? media.schema
       : undefined
 
     return {
       statusCode,
       contentType: firstKey,
-      type: convertSchema(schema),
+      type: convertSchema(ctx, schema),
       description: responseObj.description,
     }
   }
@@ -353,6 +563,66 @@ function convertResponse(
   }
 }
 
+// ---------------------------------------------------------------------------
+// Security conversion
+// ---------------------------------------------------------------------------
+
+/**
+ * Converts `components.securitySchemes` into IR security schemes. HTTP schemes
+ * other than bearer and basic (e.g. digest) and mutual TLS are skipped.
+ */
+function convertSecuritySchemes(
+  ctx: ParseContext,
+  schemes: Record<string, OpenAPIV3.SecuritySchemeObject | ReferenceObject> | undefined,
+): ApiSecurityScheme[] {
+  const result: ApiSecurityScheme[] = []
+
+  for (const [name, value] of Object.entries(schemes ?? {})) {
+    const scheme = deref<OpenAPIV3.SecuritySchemeObject>(ctx, value)
+    if (!scheme) continue
+
+    switch (scheme.type) {
+      case 'http': {
+        const httpScheme = scheme.scheme.toLowerCase()
+        if (httpScheme === 'bearer' || httpScheme === 'basic') {
+          result.push({ name, type: httpScheme, description: scheme.description })
+        }
+        break
+      }
+      case 'apiKey':
+        result.push({
+          name,
+          type: 'apiKey',
+          in: scheme.in as 'header' | 'query' | 'cookie',
+          paramName: scheme.name,
+          description: scheme.description,
+        })
+        break
+      case 'oauth2':
+      case 'openIdConnect':
+        result.push({ name, type: 'bearer', description: scheme.description })
+        break
+    }
+  }
+
+  return result
+}
+
+/**
+ * Converts security requirement objects into lists of scheme names.
+ * Requirements that use an unsupported scheme are dropped, since the client
+ * could never satisfy them.
+ */
+function convertSecurityRequirements(
+  requirements: OpenAPIV3.SecurityRequirementObject[] | undefined,
+  schemes: ApiSecurityScheme[],
+): string[][] {
+  const known = new Set(schemes.map((s) => s.name))
+  return (requirements ?? [])
+    .map((requirement) => Object.keys(requirement))
+    .filter((names) => names.every((name) => known.has(name)))
+}
+
 // ---------------------------------------------------------------------------
 // Operation ID generation
 // ---------------------------------------------------------------------------
@@ -390,6 +660,13 @@ function generateOperationId(method: string, path: string): string {
  *   pageParam: cursor          # query param name
  *   nextPagePath: meta.nextCursor  # dot-path to next page value in response
  *   itemsPath: data               # dot-path to items array in response
+ *   hasNextPagePath: meta.hasMore # optional: dot-path to a "more pages" flag
+ *   nodePath: node                # optional: dot-path from each item to its record
+ *   limitParam: limit             # optional: query param name for the page size
+ *   totalPagesPath: meta.pages    # optional: dot-path to the total number of pages
+ *   totalCountPath: meta.total    # optional: dot-path to the total number of items
+ *   nextPageHeader: Link          # optional: response header with the next page
+ *   totalCountHeader: X-Total-Count # optional: response header with the total number of items
  * ```
  */
 function parseXPagination(
@@ -414,12 +691,20 @@ function parseXPagination(
     ? ext.itemsPath.split('.')
     : []
 
-  return {
+  const pagination: PaginationInfo = {
     strategy: strategy as PaginationStrategy,
     pageParam,
     nextPagePath,
     itemsPath,
   }
+  if (typeof ext.hasNextPagePath === 'string') pagination.hasNextPagePath = ext.hasNextPagePath.split('.')
+  if (typeof ext.nodePath === 'string') pagination.nodePath = ext.nodePath.split('.')
+  if (typeof ext.limitParam === 'string') pagination.limitParam = ext.limitParam
+  if (typeof ext.totalPagesPath === 'string') pagination.totalPagesPath = ext.totalPagesPath.split('.')
+  if (typeof ext.totalCountPath === 'string') pagination.totalCountPath = ext.totalCountPath.split('.')
+  if (typeof ext.nextPageHeader === 'string') pagination.nextPageHeader = ext.nextPageHeader
+  if (typeof ext.totalCountHeader === 'string') pagination.totalCountHeader = ext.totalCountHeader
+  return pagination
 }
 
 // ---------------------------------------------------------------------------
@@ -432,6 +717,9 @@ function parseXPagination(
  * Uses `@apidevtools/swagger-parser` to dereference the spec, then walks
  * the `paths` object to build the IR `ApiOperation[]`. Named schemas from
  * `components.schemas` are extracted into `ApiSpec.types`.
+ *
+ * With `preserveRefs`, the spec is bundled instead of dereferenced and refs
+ * to `components.schemas` are kept as `ApiRefType` pointing at those types.
  */
 export const openApiParser: SpecParser = {
   canParse(input: unknown): boolean {
@@ -441,21 +729,31 @@ export const openApiParser: SpecParser = {
   },
 
   async parse(input: unknown, options?: ParseOptions): Promise<ApiSpec> {
-    // Dereference the spec to inline all $ref pointers
     // Use the original file path when available so relative $ref paths resolve correctly
-    const derefed = await SwaggerParser.dereference(
-      (options?.filePath ?? input) as OpenAPIV3.Document,
-      { dereference: { circular: 'ignore' } },
-    )
+    const source = (options?.filePath ?? input) as OpenAPIV3.Document
+
+    // Either bundle external files while keeping internal $ref pointers, or
+    // dereference the spec to inline all $ref pointers
+    const doc = (options?.preserveRefs
+      ? await SwaggerParser.bundle(source)
+      : await SwaggerParser.dereference(source, { dereference: { circular: 'ignore' } })
+    ) as OpenAPIV3.Document
+
+    const ctx: ParseContext = {
+      bundled: options?.preserveRefs ? doc : undefined,
+      resolving: new Set(),
+      schemaNames: new Map(
+        Object.entries(doc.components?.schemas ?? {}).map(([name, schema]) => [schema, name]),
+      ),
+    }
 
-    const doc = derefed as OpenAPIV3.Document
     const types = new Map<string, ApiType>()
 
     // Extract named schemas from components.schemas
     if (doc.components?.schemas) {
       for (const [name, schema] of Object.entries(doc.components.schemas)) {
-        if (!isRef(schema)) {
-          const converted = convertSchema(schema as SchemaObject)
+        if (isConvertible(ctx, schema)) {
+          const converted = convertSchema(ctx, schema)
           // Attach the schema name if it's an object or enum type
           if (converted.kind === 'object' && !converted.name) {
             ;(converted as ApiObjectType).name = name
@@ -467,6 +765,9 @@ export const openApiParser: SpecParser = {
       }
     }
 
+    // Security schemes and the document-wide default requirements
+    const securitySchemes = convertSecuritySchemes(ctx, doc.components?.securitySchemes)
+
     // Determine base URL
     const baseUrl = options?.baseUrl
       ?? (doc.servers && doc.servers.length > 0 ? doc.servers[0].url : '')
@@ -480,7 +781,8 @@ export const openApiParser: SpecParser = {
 
         // Gather path-level parameters
         const pathLevelParams: ParameterObject[] = (pathItem.parameters ?? [])
-          .filter((p): p is ParameterObject => !isRef(p))
+          .map((p) => deref<ParameterObject>(ctx, p))
+          .filter((p): p is ParameterObject => p !== undefined)
 
         for (const method of HTTP_METHODS) {
           const operationObj = (pathItem as Record<string, unknown>)[method] as
@@ -491,7 +793,8 @@ export const openApiParser: SpecParser = {
 
           // Merge path-level + operation-level parameters (operation overrides)
           const opParams: ParameterObject[] = (operationObj.parameters ?? [])
-            .filter((p): p is ParameterObject => !isRef(p))
+            .map((p) => deref<ParameterObject>(ctx, p))
+            .filter((p): p is ParameterObject => p !== undefined)
 
           const mergedParams = mergeParameters(pathLevelParams, opParams)
 
@@ -500,7 +803,7 @@ export const openApiParser: SpecParser = {
           const headerParams: ApiParam[] = []
 
           for (const param of mergedParams) {
-            const converted = convertParameter(param)
+            const converted = convertParameter(ctx, param)
             switch (param.in) {
               case 'path':
                 pathParams.push(converted)
@@ -516,14 +819,15 @@ export const openApiParser: SpecParser = {
 
           // Request body
           let requestBody: ApiRequestBody | undefined
-          if (operationObj.requestBody && !isRef(operationObj.requestBody)) {
-            requestBody = convertRequestBody(operationObj.requestBody as RequestBodyObject)
+          const requestBodyObj = deref<RequestBodyObject>(ctx, operationObj.requestBody)
+          if (requestBodyObj) {
+            requestBody = convertRequestBody(ctx, requestBodyObj)
           }
 
-          // Response
-          const response = convertResponse(
-            operationObj.responses as Record<string, ResponseObject | ReferenceObject>,
-          )
+          // Responses
+          const responses = operationObj.responses as Record<string, ResponseObject | ReferenceObject>
+          const response = convertResponse(ctx, responses)
+          const errors = convertErrorResponses(ctx, responses, response)
 
           // Tags
           const tags = operationObj.tags && operationObj.tags.length > 0
@@ -539,6 +843,17 @@ export const openApiParser: SpecParser = {
             operationObj as unknown as Record<string, unknown>,
           )
 
+          // x-invalidates vendor extension
+          const invalidates = parseXInvalidates(
+            operationObj as unknown as Record<string, unknown>,
+          )
+
+          // Operation-level security overrides the document default
+          const security = convertSecurityRequirements(
+            operationObj.security ?? doc.security,
+            securitySchemes,
+          )
+
           const operation: ApiOperation = {
             operationId,
             summary: operationObj.summary,
@@ -553,22 +868,44 @@ export const openApiParser: SpecParser = {
             deprecated: operationObj.deprecated ?? false,
           }
 
+          if (errors.length > 0) {
+            operation.errors = errors
+          }
+
+          if (security.length > 0) {
+            operation.security = security
+          }
+
           if (pagination) {
             operation.pagination = pagination
           }
 
+          if (invalidates) {
+            operation.invalidates = invalidates
+          }
+
+          if (getResponseDecoding(response) === 'stream') {
+            operation.streaming = true
+          }
+
           operations.push(operation)
         }
       }
     }
 
-    return {
+    const spec: ApiSpec = {
       title: doc.info?.title ?? 'Untitled API',
       baseUrl,
       version: doc.info?.version ?? '0.0.0',
       operations,
       types,
     }
+
+    if (securitySchemes.length > 0) {
+      spec.securitySchemes = securitySchemes
+    }
+
+    return spec
   },
 }
 
@@ -13,10 +13,12 @@ import type {
   ApiEnumType,
   ApiUnionType,
   ApiProperty,
+  ApiSecurityScheme,
   HttpMethod,
   PaginationInfo,
   PaginationStrategy,
 } from '../ir/types'
+import { getResponseDecoding, parseXInvalidates } from '../ir/helpers'
 import type { SpecParser, ParseOptions } from './types'
 
 // ---------------------------------------------------------------------------
@@ -41,6 +43,95 @@ function isBodyParam(param: OpenAPIV2.Parameter): param is InBodyParameterObject
   return param.in === 'body'
 }
 
+// ---------------------------------------------------------------------------
+// $ref resolution (bundle mode)
+// ---------------------------------------------------------------------------
+
+const DEFINITION_REF_PREFIX = '#/definitions/'
+
+/**
+ * State of a single parse, passed to every converter that resolves `$ref`s.
+ */
+interface ParseContext {
+  /**
+   * The bundled document of a `preserveRefs` parse. When set, `$ref`s to
+   * `definitions` become `ApiRefType`s and every other internal `$ref` is
+   * resolved against this document.
+   */
+  bundled?: OpenAPIV2.Document
+  /** `$ref` pointers currently being resolved, used to break cycles. */
+  resolving: Set<string>
+}
+
+/**
+ * Resolves a local JSON pointer (`#/a/b~1c`) against the bundled document.
+ */
+function resolvePointer(ctx: ParseContext, ref: string): unknown {
+  if (!ctx.bundled || !ref.startsWith('#/')) return undefined
+  let current: unknown = ctx.bundled
+  for (const segment of ref.slice(2).split('/')) {
+    if (typeof current !== 'object' || current === null) return undefined
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~')
+    current = (current as Record<string, unknown>)[key]
+  }
+  return current
+}
+
+/**
+ * Follows `$ref` pointers until a concrete object is reached. Returns
+ * `undefined` for refs that cannot be resolved — which is always the case for
+ * the circular refs left behind by a dereferenced (non-bundle) parse.
+ */
+function deref<T extends object>(ctx: ParseContext, obj: T | ReferenceObject | undefined): T | undefined {
+  const seen = new Set<string>()
+  let current: unknown = obj
+  while (isRef(current)) {
+    if (seen.has(current.$ref)) return undefined
+    seen.add(current.$ref)
+    current = resolvePointer(ctx, current.$ref)
+  }
+  return current as T | undefined
+}
+
+/**
+ * Extracts the definition name from a `#/definitions/<name>` pointer.
+ */
+function definitionRefName(ref: string): string | undefined {
+  if (!ref.startsWith(DEFINITION_REF_PREFIX)) return undefined
+  const name = ref.slice(DEFINITION_REF_PREFIX.length)
+  if (name.includes('/')) return undefined
+  return decodeURIComponent(name).replace(/~1/g, '/').replace(/~0/g, '~')
+}
+
+/**
+ * Whether a schema entry can be converted. Refs are only convertible in
+ * bundle mode; otherwise they are unresolved circular refs and are skipped.
+ */
+function isConvertible(ctx: ParseContext, schema: unknown): boolean {
+  return !isRef(schema) || ctx.bundled !== undefined
+}
+
+/**
+ * Converts a `$ref` schema. Named definitions become `ApiRefType`; any other
+ * pointer (e.g. a bundled external file) is resolved and inlined.
+ */
+function convertRefSchema(ctx: ParseContext, schema: ReferenceObject): ApiType {
+  const name = definitionRefName(schema.$ref)
+  if (name !== undefined) {
+    return { kind: 'ref', name }
+  }
+
+  if (ctx.resolving.has(schema.$ref)) {
+    return { kind: 'primitive', type: 'unknown' }
+  }
+  ctx.resolving.add(schema.$ref)
+  try {
+    return convertSchema(ctx, resolvePointer(ctx, schema.$ref) as SchemaObject | ReferenceObject | undefined)
+  } finally {
+    ctx.resolving.delete(schema.$ref)
+  }
+}
+
 // ---------------------------------------------------------------------------
 // HTTP method mapping
 // ---------------------------------------------------------------------------
@@ -55,32 +146,39 @@ const HTTP_METHODS: ReadonlySet<string> = new Set([
 
 /**
  * Recursively converts a Swagger 2.0 JSON Schema object into the IR `ApiType`.
+ * In bundle mode, refs to `definitions` are kept as `ApiRefType`.
  */
-function convertSchema(schema: SchemaObject | undefined): ApiType {
+function convertSchema(ctx: ParseContext, schema: SchemaObject | ReferenceObject | undefined): ApiType {
   if (!schema) {
     return { kind: 'primitive', type: 'unknown' }
   }
 
+  if (isRef(schema)) {
+    return ctx.bundled ? convertRefSchema(ctx, schema) : { kind: 'primitive', type: 'unknown' }
+  }
+
   // Handle oneOf / anyOf -> union
   if (schema.oneOf && schema.oneOf.length > 0) {
     const variants = schema.oneOf
-      .filter((s): s is SchemaObject => !isRef(s))
-      .map((s) => convertSchema(s as SchemaObject))
+      .filter((s) => isConvertible(ctx, s))
+      .map((s) => convertSchema(ctx, s as SchemaObject))
     return { kind: 'union', variants, description: schema.description } satisfies ApiUnionType
   }
   if (schema.anyOf && schema.anyOf.length > 0) {
     const variants = schema.anyOf
-      .filter((s): s is SchemaObject => !isRef(s))
-      .map((s) => convertSchema(s as SchemaObject))
+      .filter((s) => isConvertible(ctx, s))
+      .map((s) => convertSchema(ctx, s as SchemaObject))
     return { kind: 'union', variants, description: schema.description } satisfies ApiUnionType
   }
 
   // Handle allOf -> merge into object
   if (schema.allOf && schema.allOf.length > 0) {
     const merged = mergeAllOf(
-      schema.allOf.filter((s): s is SchemaObject => !isRef(s)),
+      schema.allOf
+        .map((s) => deref(ctx, s as SchemaObject))
+        .filter((s): s is SchemaObject => s !== undefined),
     )
-    const result = convertSchema(merged)
+    const result = convertSchema(ctx, merged)
     if (schema.description && result.kind === 'object') {
       return { ...result, description: schema.description }
     }
@@ -102,15 +200,15 @@ function convertSchema(schema: SchemaObject | undefined): ApiType {
   // Handle array
   if (schemaType === 'array') {
     let items: ApiType = { kind: 'primitive', type: 'unknown' }
-    if (schema.items && !isRef(schema.items)) {
-      items = convertSchema(schema.items as SchemaObject)
+    if (schema.items && !Array.isArray(schema.items) && isConvertible(ctx, schema.items)) {
+      items = convertSchema(ctx, schema.items)
     }
     return { kind: 'array', items, description: schema.description } satisfies ApiArrayType
   }
 
   // Handle object
   if (schemaType === 'object' || schema.properties || (!schemaType && hasObjectShape(schema))) {
-    return convertObjectSchema(schema)
+    return convertObjectSchema(ctx, schema)
   }
 
   // Handle primitives
@@ -133,18 +231,18 @@ function hasObjectShape(schema: SchemaObject): boolean {
   return !!(schema.properties || schema.additionalProperties)
 }
 
-function convertObjectSchema(schema: SchemaObject): ApiObjectType {
+function convertObjectSchema(ctx: ParseContext, schema: SchemaObject): ApiObjectType {
   const requiredSet = new Set<string>(schema.required ?? [])
   const properties: ApiProperty[] = []
 
   if (schema.properties) {
     for (const [name, propSchema] of Object.entries(schema.properties)) {
-      if (isRef(propSchema)) continue
+      if (!isConvertible(ctx, propSchema)) continue
       properties.push({
         name,
-        type: convertSchema(propSchema as SchemaObject),
+        type: convertSchema(ctx, propSchema),
         required: requiredSet.has(name),
-        description: (propSchema as SchemaObject).description,
+        description: isRef(propSchema) ? undefined : propSchema.description,
       })
     }
   }
@@ -162,8 +260,8 @@ function convertObjectSchema(schema: SchemaObject): ApiObjectType {
   if (schema.additionalProperties !== undefined) {
     if (typeof schema.additionalProperties === 'boolean') {
       result.additionalProperties = schema.additionalProperties
-    } else if (!isRef(schema.additionalProperties)) {
-      result.additionalProperties = convertSchema(schema.additionalProperties as SchemaObject)
+    } else if (isConvertible(ctx, schema.additionalProperties)) {
+      result.additionalProperties = convertSchema(ctx, schema.additionalProperties as SchemaObject)
     }
   }
 
@@ -207,6 +305,8 @@ function convertGeneralParam(param: GeneralParameterObject): ApiParam {
       kind: 'enum',
       values: param.enum as (string | number)[],
     }
+  } else if (paramType === 'file') {
+    type = { kind: 'primitive', type: 'string', format: 'binary' }
   } else if (paramType === 'array' && param.items) {
     const itemSchema = isRef(param.items)
       ? ({ kind: 'primitive', type: 'unknown' } as ApiType)
@@ -276,28 +376,56 @@ function mapSwagger2Type(
  * Converts a `in: "body"` parameter to `ApiRequestBody`.
  */
 function convertBodyParam(
+  ctx: ParseContext,
   param: InBodyParameterObject,
-  produces: string[],
+  consumes: string[],
 ): ApiRequestBody {
-  const schema = isRef(param.schema)
-    ? undefined
-    : (param.schema as SchemaObject | undefined)
+  const schema = param.schema && isConvertible(ctx, param.schema)
+    ? param.schema
+    : undefined
 
   return {
     required: param.required ?? false,
-    contentType: produces.includes('application/json')
+    contentType: consumes.includes('application/json')
       ? 'application/json'
-      : (produces[0] ?? 'application/json'),
-    type: convertSchema(schema),
+      : (consumes[0] ?? 'application/json'),
+    type: convertSchema(ctx, schema),
     description: param.description,
   }
 }
 
+/**
+ * Converts Swagger 2.0 `in: "formData"` parameters to an object request body
+ * with one property per parameter. Operations with a `file` parameter, or that
+ * only consume `multipart/form-data`, are sent as multipart; all others are
+ * URL-encoded.
+ */
+function convertFormDataParams(
+  params: GeneralParameterObject[],
+  consumes: string[],
+): ApiRequestBody {
+  const properties: ApiProperty[] = params.map((param) => {
+    const { name, required, type, description } = convertGeneralParam(param)
+    return { name, required, type, description }
+  })
+
+  const hasFile = params.some((p) => p.type === 'file')
+  const multipart = hasFile
+    || (consumes.includes('multipart/form-data') && !consumes.includes('application/x-www-form-urlencoded'))
+
+  return {
+    required: properties.some((p) => p.required),
+    contentType: multipart ? 'multipart/form-data' : 'application/x-www-form-urlencoded',
+    type: { kind: 'object', properties },
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Response conversion (Swagger 2.0)
 // ---------------------------------------------------------------------------
 
 function convertResponse(
+  ctx: ParseContext,
   responses: OpenAPIV2.ResponsesObject,
   produces: string[],
 ): ApiResponse {
@@ -306,9 +434,9 @@ function convertResponse(
   let statusCode: number | 'default' = 200
 
   for (const code of successCodes) {
-    const candidate = responses[code]
-    if (candidate && !isRef(candidate)) {
-      responseObj = candidate as ResponseObject
+    const candidate = deref<ResponseObject>(ctx, responses[code])
+    if (candidate) {
+      responseObj = candidate
       statusCode = parseInt(code, 10)
       break
     }
@@ -316,8 +444,9 @@ function convertResponse(
 
   if (!responseObj) {
     for (const [code, value] of Object.entries(responses)) {
-      if (code.startsWith('2') && value && !isRef(value)) {
-        responseObj = value as ResponseObject
+      const candidate = deref<ResponseObject>(ctx, value)
+      if (code.startsWith('2') && candidate) {
+        responseObj = candidate
         statusCode = parseInt(code, 10)
         break
       }
@@ -325,25 +454,64 @@ function convertResponse(
   }
 
   if (!responseObj) {
-    const defaultResp = responses['default']
-    if (defaultResp && !isRef(defaultResp)) {
-      responseObj = defaultResp as ResponseObject
+    const defaultResp = deref<ResponseObject>(ctx, responses['default'])
+    if (defaultResp) {
+      responseObj = defaultResp
       statusCode = 'default'
     }
   }
 
+  return convertResponseObject(ctx, responseObj, statusCode, produces)
+}
+
+/**
+ * Collects the error responses (4xx, 5xx, the `4XX` / `5XX` ranges and `default`)
+ * from the responses object. A `default` response already used as the success
+ * response is skipped.
+ */
+function convertErrorResponses(
+  ctx: ParseContext,
+  responses: OpenAPIV2.ResponsesObject,
+  produces: string[],
+  success: ApiResponse,
+): ApiResponse[] {
+  const errors: ApiResponse[] = []
+
+  for (const [code, value] of Object.entries(responses)) {
+    const responseObj = deref<ResponseObject>(ctx, value)
+    if (!responseObj) continue
+    if (code === 'default') {
+      if (success.statusCode === 'default') continue
+      errors.push(convertResponseObject(ctx, responseObj, 'default', produces))
+    } else if (/^[45]\d\d$/.test(code)) {
+      errors.push(convertResponseObject(ctx, responseObj, parseInt(code, 10), produces))
+    } else if (/^[45]XX$/i.test(code)) {
+      errors.push(convertResponseObject(ctx, responseObj, code.toUpperCase() as '4XX' | '5XX', produces))
+    }
+  }
+
+  return errors
+}
+
+function convertResponseObject(
+  ctx: ParseContext,
+  responseObj: ResponseObject | undefined,
+  statusCode: ApiResponse['statusCode'],
+  produces: string[],
+): ApiResponse {
   if (!responseObj || !responseObj.schema) {
     return {
       statusCode,
-      contentType: produces[0] ?? 'application/json',
+      // A declared response without a schema has no body, e.g. 204 No Content
+      contentType: responseObj ? '' : (produces[0] ?? 'application/json'),
       type: { kind: 'primitive', type: 'unknown' },
       description: responseObj?.description,
     }
   }
 
-  const schema = isRef(responseObj.schema)
-    ? undefined
-    : (responseObj.schema as SchemaObject)
+  const schema = isConvertible(ctx, responseObj.schema)
+    ? responseObj.schema
+    : undefined
 
   const contentType = produces.includes('application/json')
     ? 'application/json'
@@ -352,11 +520,61 @@ function convertResponse(
   return {
     statusCode,
     contentType,
-    type: convertSchema(schema),
+    type: convertSchema(ctx, schema),
     description: responseObj.description,
   }
 }
 
+// ---------------------------------------------------------------------------
+// Security conversion (Swagger 2.0)
+// ---------------------------------------------------------------------------
+
+/**
+ * Converts `securityDefinitions` into IR security schemes. OAuth2 schemes
+ * send their access token as a bearer token.
+ */
+function convertSecurityDefinitions(
+  definitions: OpenAPIV2.SecurityDefinitionsObject | undefined,
+): ApiSecurityScheme[] {
+  const result: ApiSecurityScheme[] = []
+
+  for (const [name, scheme] of Object.entries(definitions ?? {})) {
+    switch (scheme.type) {
+      case 'basic':
+        result.push({ name, type: 'basic', description: scheme.description })
+        break
+      case 'apiKey':
+        result.push({
+          name,
+          type: 'apiKey',
+          in: scheme.in as 'header' | 'query',
+          paramName: scheme.name,
+          description: scheme.description,
+        })
+        break
+      case 'oauth2':
+        result.push({ name, type: 'bearer', description: scheme.description })
+        break
+    }
+  }
+
+  return result
+}
+
+/**
+ * Converts security requirement objects into lists of scheme names.
+ * Requirements that use an unknown scheme are dropped.
+ */
+function convertSecurityRequirements(
+  requirements: OpenAPIV2.SecurityRequirementObject[] | undefined,
+  schemes: ApiSecurityScheme[],
+): string[][] {
+  const known = new Set(schemes.map((s) => s.name))
+  return (requirements ?? [])
+    .map((requirement) => Object.keys(requirement))
+    .filter((names) => names.every((name) => known.has(name)))
+}
+
 // ---------------------------------------------------------------------------
 // Operation ID generation
 // ---------------------------------------------------------------------------
@@ -398,12 +616,20 @@ function parseXPagination(
     ? ext.itemsPath.split('.')
     : []
 
-  return {
+  const pagination: PaginationInfo = {
     strategy: strategy as PaginationStrategy,
     pageParam,
     nextPagePath,
     itemsPath,
   }
+  if (typeof ext.hasNextPagePath === 'string') pagination.hasNextPagePath = ext.hasNextPagePath.split('.')
+  if (typeof ext.nodePath === 'string') pagination.nodePath = ext.nodePath.split('.')
+  if (typeof ext.limitParam === 'string') pagination.limitParam = ext.limitParam
+  if (typeof ext.totalPagesPath === 'string') pagination.totalPagesPath = ext.totalPagesPath.split('.')
+  if (typeof ext.totalCountPath === 'string') pagination.totalCountPath = ext.totalCountPath.split('.')
+  if (typeof ext.nextPageHeader === 'string') pagination.nextPageHeader = ext.nextPageHeader
+  if (typeof ext.totalCountHeader === 'string') pagination.totalCountHeader = ext.totalCountHeader
+  return pagination
 }
 
 // ---------------------------------------------------------------------------
@@ -416,6 +642,9 @@ function parseXPagination(
  * Uses `@apidevtools/swagger-parser` to dereference the spec. Schemas are
  * read from `definitions` (not `components.schemas`), body parameters become
  * `requestBody`, and `host` + `basePath` form the base URL.
+ *
+ * With `preserveRefs`, the spec is bundled instead of dereferenced and refs
+ * to `definitions` are kept as `ApiRefType` pointing at those types.
  */
 export const swaggerParser: SpecParser = {
   canParse(input: unknown): boolean {
@@ -426,19 +655,27 @@ export const swaggerParser: SpecParser = {
 
   async parse(input: unknown, options?: ParseOptions): Promise<ApiSpec> {
     // Use the original file path when available so relative $ref paths resolve correctly
-    const derefed = await SwaggerParser.dereference(
-      (options?.filePath ?? input) as OpenAPIV2.Document,
-      { dereference: { circular: 'ignore' } },
-    )
+    const source = (options?.filePath ?? input) as OpenAPIV2.Document
+
+    // Either bundle external files while keeping internal $ref pointers, or
+    // dereference the spec to inline all $ref pointers
+    const doc = (options?.preserveRefs
+      ? await SwaggerParser.bundle(source)
+      : await SwaggerParser.dereference(source, { dereference: { circular: 'ignore' } })
+    ) as OpenAPIV2.Document
+
+    const ctx: ParseContext = {
+      bundled: options?.preserveRefs ? doc : undefined,
+      resolving: new Set(),
+    }
 
-    const doc = derefed as OpenAPIV2.Document
     const types = new Map<string, ApiType>()
 
     // Extract named schemas from definitions
     if (doc.definitions) {
       for (const [name, schema] of Object.entries(doc.definitions)) {
-        if (!isRef(schema)) {
-          const converted = convertSchema(schema as SchemaObject)
+        if (isConvertible(ctx, schema)) {
+          const converted = convertSchema(ctx, schema)
           if (converted.kind === 'object' && !converted.name) {
             ;(converted as ApiObjectType).name = name
           } else if (converted.kind === 'enum' && !converted.name) {
@@ -464,8 +701,12 @@ export const swaggerParser: SpecParser = {
       }
     }
 
-    // Global produces
+    // Global produces / consumes
     const globalProduces = doc.produces ?? ['application/json']
+    const globalConsumes = doc.consumes ?? ['application/json']
+
+    // Security definitions and the document-wide default requirements
+    const securitySchemes = convertSecurityDefinitions(doc.securityDefinitions)
 
     // Build operations from paths
     const operations: ApiOperation[] = []
@@ -475,7 +716,8 @@ export const swaggerParser: SpecParser = {
 
       // Path-level parameters
       const pathLevelParams = (pathItem.parameters ?? [])
-        .filter((p): p is OpenAPIV2.Parameter => !isRef(p))
+        .map((p) => deref<OpenAPIV2.Parameter>(ctx, p))
+        .filter((p): p is OpenAPIV2.Parameter => p !== undefined)
 
       for (const method of HTTP_METHODS) {
         const operationObj = (pathItem as Record<string, unknown>)[method] as
@@ -486,21 +728,26 @@ export const swaggerParser: SpecParser = {
 
         // Merge path-level + operation-level parameters
         const opRawParams = (operationObj.parameters ?? [])
-          .filter((p): p is OpenAPIV2.Parameter => !isRef(p))
+          .map((p) => deref<OpenAPIV2.Parameter>(ctx, p))
+          .filter((p): p is OpenAPIV2.Parameter => p !== undefined)
 
         const mergedParams = mergeParameters(pathLevelParams, opRawParams)
 
-        // Determine content type for this operation
+        // Determine content types for this operation
         const produces = operationObj.produces ?? globalProduces
+        const consumes = operationObj.consumes ?? globalConsumes
 
         const pathParams: ApiParam[] = []
         const queryParams: ApiParam[] = []
         const headerParams: ApiParam[] = []
+        const formDataParams: GeneralParameterObject[] = []
         let requestBody: ApiRequestBody | undefined
 
         for (const param of mergedParams) {
           if (isBodyParam(param)) {
-            requestBody = convertBodyParam(param, produces)
+            requestBody = convertBodyParam(ctx, param, consumes)
+          } else if (param.in === 'formData') {
+            formDataParams.push(param as GeneralParameterObject)
           } else {
             const generalParam = param as GeneralParameterObject
             const converted = convertGeneralParam(generalParam)
@@ -514,12 +761,16 @@ export const swaggerParser: SpecParser = {
               case 'header':
                 headerParams.push(converted)
                 break
-              // 'formData' params are not mapped to path/query/header
             }
           }
         }
 
-        const response = convertResponse(operationObj.responses, produces)
+        if (!requestBody && formDataParams.length > 0) {
+          requestBody = convertFormDataParams(formDataParams, consumes)
+        }
+
+        const response = convertResponse(ctx, operationObj.responses, produces)
+        const errors = convertErrorResponses(ctx, operationObj.responses, produces, response)
 
         const tags = operationObj.tags && operationObj.tags.length > 0
           ? operationObj.tags
@@ -533,6 +784,17 @@ export const swaggerParser: SpecParser = {
           operationObj as unknown as Record<string, unknown>,
         )
 
+        // x-invalidates vendor extension
+        const invalidates = parseXInvalidates(
+          operationObj as unknown as Record<string, unknown>,
+        )
+
+        // Operation-level security overrides the document default
+        const security = convertSecurityRequirements(
+          operationObj.security ?? doc.security,
+          securitySchemes,
+        )
+
         const operation: ApiOperation = {
           operationId,
           summary: operationObj.summary,
@@ -547,21 +809,43 @@ export const swaggerParser: SpecParser = {
           deprecated: operationObj.deprecated ?? false,
         }
 
+        if (errors.length > 0) {
+          operation.errors = errors
+        }
+
+        if (security.length > 0) {
+          operation.security = security
+        }
+
         if (pagination) {
           operation.pagination = pagination
         }
 
+        if (invalidates) {
+          operation.invalidates = invalidates
+        }
+
+        if (getResponseDecoding(response) === 'stream') {
+          operation.streaming = true
+        }
+
         operations.push(operation)
       }
     }
 
-    return {
+    const spec: ApiSpec = {
       title: doc.info?.title ?? 'Untitled API',
       baseUrl,
       version: doc.info?.version ?? '0.0.0',
       operations,
       types,
     }
+
+    if (securitySchemes.length > 0) {
+      spec.securitySchemes = securitySchemes
+    }
+
+    return spec
   },
 }
 
@@ -1,7 +1,37 @@
-import type { ApiSpec } from '../ir/types'
+import type { ApiPrimitiveType, ApiSpec } from '../ir/types'
+
+/** IR primitive types a custom GraphQL scalar can map to. */
+export type ScalarType = Exclude<ApiPrimitiveType['type'], 'null'>
+
+/**
+ * How a custom GraphQL scalar is typed: a primitive type, or a primitive
+ * type with a `format` (e.g. `{ type: 'string', format: 'date-time' }`).
+ */
+export type ScalarMapping = ScalarType | { type: ScalarType; format?: string }
 
 export interface ParseOptions {
   baseUrl?: string
+  /**
+   * Keep `$ref`s to named schemas as `ApiRefType` instead of inlining them.
+   * The spec is bundled rather than dereferenced. OpenAPI and Swagger only.
+   */
+  preserveRefs?: boolean
+  /**
+   * Levels of nested selection sets the default document of each operation
+   * selects below its root field. Defaults to 3. GraphQL only.
+   */
+  selectionDepth?: number
+  /**
+   * Glob patterns of `.graphql` files with named operations and fragments.
+   * When set, hooks are generated per operation in these documents instead
+   * of per root field of the schema. GraphQL only.
+   */
+  documents?: string[]
+  /**
+   * Types of custom scalars by name, overriding the built-in mappings.
+   * Unmapped custom scalars are typed as `string`. GraphQL only.
+   */
+  scalars?: Record<string, ScalarMapping>
   /** @internal Original file path, used to resolve relative $ref pointers */
   filePath?: string
 }
@@ -0,0 +1,130 @@
+/**
+ * Plugin pipeline.
+ *
+ * Runs registered plugins at each stage of generation: spec and operation
+ * transforms after parsing, extra files and `beforeEmit` before writing,
+ * `afterWrite` once files are on disk.
+ */
+import type { ApiOperation, ApiSpec } from '../ir/types'
+import type { GeneratedFile } from '../utils/file-writer'
+import { FETCHER_STRATEGIES } from '../generators/types'
+import type { HookGenerator } from '../generators/types'
+import { GeneratorError, PluginError } from '../utils/errors'
+import type { Plugin, PluginContext } from './types'
+
+export type { Plugin, PluginContext } from './types'
+
+/**
+ * Type helper for plugins. Returns the plugin unchanged.
+ *
+ * @example
+ * ```ts
+ * export const telemetry = definePlugin({
+ *   name: 'telemetry',
+ *   transformOperation(op) {
+ *     return { ...op, tags: [...op.tags, 'tracked'] }
+ *   },
+ * })
+ * ```
+ */
+export function definePlugin(plugin: Plugin): Plugin {
+  return plugin
+}
+
+/**
+ * Collects the custom generators declared by plugins, by fetcher name, to pass
+ * to `createGenerator()`. Later plugins replace earlier ones of the same name;
+ * built-in strategies cannot be replaced.
+ */
+export function collectPluginGenerators(plugins: Plugin[]): Map<string, () => HookGenerator> {
+  const generators = new Map<string, () => HookGenerator>()
+  for (const plugin of plugins) {
+    for (const [name, factory] of Object.entries(plugin.generators ?? {})) {
+      if ((FETCHER_STRATEGIES as readonly string[]).includes(name)) {
+        throw new GeneratorError(`Plugin "${plugin.name}" cannot replace the built-in "${name}" generator`)
+      }
+      generators.set(name, factory)
+    }
+  }
+  return generators
+}
+
+/**
+ * Runs every plugin's `transformSpec`, then `transformOperation` on each
+ * operation. Operations a plugin maps to `null` are dropped.
+ */
+export async function applySpecPlugins(
+  spec: ApiSpec,
+  plugins: Plugin[],
+  context: PluginContext,
+): Promise<ApiSpec> {
+  let result = spec
+
+  for (const plugin of plugins) {
+    if (!plugin.transformSpec) continue
+    result = (await runHook(plugin, 'transformSpec', () => plugin.transformSpec!(result, context))) ?? result
+  }
+
+  for (const plugin of plugins) {
+    if (!plugin.transformOperation) continue
+    const operations: ApiOperation[] = []
+    for (const op of result.operations) {
+      const transformed = await runHook(plugin, 'transformOperation', () => plugin.transformOperation!(op, context))
+      if (transformed === null) continue
+      operations.push(transformed ?? op)
+    }
+    result = { ...result, operations }
+  }
+
+  return result
+}
+
+/**
+ * Adds the files from every plugin's `generateFiles`, then runs `beforeEmit`.
+ */
+export async function applyEmitPlugins(
+  files: GeneratedFile[],
+  spec: ApiSpec,
+  plugins: Plugin[],
+  context: PluginContext,
+): Promise<GeneratedFile[]> {
+  let result = files
+
+  for (const plugin of plugins) {
+    if (!plugin.generateFiles) continue
+    const extra = await runHook(plugin, 'generateFiles', () => plugin.generateFiles!(spec, context))
+    result = [...result, ...extra]
+  }
+
+  for (const plugin of plugins) {
+    if (!plugin.beforeEmit) continue
+    result = (await runHook(plugin, 'beforeEmit', () => plugin.beforeEmit!(result, context))) ?? result
+  }
+
+  return result
+}
+
+/**
+ * Runs every plugin's `afterWrite` once files are on disk.
+ */
+export async function runAfterWrite(
+  files: GeneratedFile[],
+  plugins: Plugin[],
+  context: PluginContext,
+): Promise<void> {
+  for (const plugin of plugins) {
+    if (!plugin.afterWrite) continue
+    await runHook(plugin, 'afterWrite', () => plugin.afterWrite!(files, context))
+  }
+}
+
+/** Run a plugin hook, naming the plugin and hook in any error it throws. */
+async function runHook<T>(plugin: Plugin, hook: string, fn: () => T | Promise<T>): Promise<T> {
+  try {
+    return await fn()
+  } catch (err) {
+    throw new PluginError(
+      `Plugin "${plugin.name}" failed in ${hook}: ${err instanceof Error ? err.message : String(err)}`,
+    )
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Plugin interfaces.
+ */
+import type { ApiOperation, ApiSpec } from '../ir/types'
+import type { FetcherName, GeneratorOptions, HookGenerator } from '../generators/types'
+import type { GeneratedFile } from '../utils/file-writer'
+
+/** What a plugin hook knows about the current generation run. */
+export interface PluginContext {
+  /** Fetcher strategy (or custom generator name) being generated. */
+  fetcher: FetcherName
+  /** Output directory, when files are written to disk. */
+  outputDir?: string
+  /** Options passed to the hook generator. */
+  options: GeneratorOptions
+}
+
+/**
+ * A plugin hooks into the parse → IR → emit pipeline. Every hook is optional
+ * and may be async; plugins run in the order they are registered.
+ */
+export interface Plugin {
+  /** Plugin name, used in error messages. */
+  name: string
+  /**
+   * Custom hook generators by fetcher name, e.g. `{ 'company-query': () => new CompanyQueryGenerator() }`.
+   * Select one with `fetcher: 'company-query'`.
+   */
+  generators?: Record<string, () => HookGenerator>
+  /** Transform the parsed spec before any operation is generated. */
+  transformSpec?(spec: ApiSpec, context: PluginContext): ApiSpec | void | Promise<ApiSpec | void>
+  /** Transform a single operation. Return `null` to drop it. */
+  transformOperation?(
+    operation: ApiOperation,
+    context: PluginContext,
+  ): ApiOperation | null | void | Promise<ApiOperation | null | void>
+  /** Add files to the output, generated from the final spec. */
+  generateFiles?(spec: ApiSpec, context: PluginContext): GeneratedFile[] | Promise<GeneratedFile[]>
+  /** Inspect or replace the full list of files before they are written. */
+  beforeEmit?(
+    files: GeneratedFile[],
+    context: PluginContext,
+  ): GeneratedFile[] | void | Promise<GeneratedFile[] | void>
+  /** Called once files have been written to `context.outputDir`. */
+  afterWrite?(files: GeneratedFile[], context: PluginContext): void | Promise<void>
+}
@@ -0,0 +1,64 @@
+/**
+ * Template overrides.
+ *
+ * Generators render every file by passing its view-model to the matching
+ * template, falling back to their own default templates.
+ */
+import { TemplateError } from '../utils/errors'
+import type { Template, Templates } from './types'
+
+export type {
+  BarrelView,
+  ClientView,
+  HookTemplateKind,
+  OperationView,
+  Template,
+  Templates,
+} from './types'
+
+/**
+ * Type helper for template overrides. Returns the templates unchanged.
+ *
+ * @example
+ * ```ts
+ * const defaults = getDefaultTemplates('react-query')
+ *
+ * export const templates = defineTemplates({
+ *   queryHook: (view) =>
+ *     defaults.queryHook({ ...view, hookName: `${view.hookName}Base` }) +
+ *     `\nexport function ${view.hookName}(...args: Parameters<typeof ${view.hookName}Base>) {\n` +
+ *     `  return withErrorToast(${view.hookName}Base(...args))\n}\n`,
+ * })
+ * ```
+ */
+export function defineTemplates(templates: Templates): Templates {
+  return templates
+}
+
+/**
+ * Renders a file through its template.
+ *
+ * @param name - Template name, used in error messages.
+ * @param template - The user template, or the generator's default.
+ * @param view - The file's view-model.
+ * @throws {TemplateError} If the template throws or does not return a string.
+ */
+export function renderTemplate<V>(
+  name: keyof Templates,
+  template: Template<V>,
+  view: V,
+): string {
+  let result: unknown
+  try {
+    result = template(view)
+  } catch (err) {
+    throw new TemplateError(
+      `Template "${name}" failed: ${err instanceof Error ? err.message : String(err)}`,
+    )
+  }
+
+  if (typeof result !== 'string') {
+    throw new TemplateError(`Template "${name}" must return a string, got ${typeof result}.`)
+  }
+  return result
+}
@@ -0,0 +1,103 @@
+/**
+ * Template types.
+ *
+ * A template is a plain function that renders one generated file from a
+ * view-model. The built-in output comes from each generator's default
+ * templates, which a template can call to build on the default rendering.
+ */
+import type { ApiOperation, ApiSecurityScheme, ApiSpec, OperationMethod } from '../ir/types'
+import type { FetcherName, GeneratorOptions } from '../generators/types'
+
+/** View-model for a single hook file, derived from an `ApiOperation`. */
+export interface OperationView {
+  /** The operation as parsed, for anything the view does not cover. */
+  operation: ApiOperation
+  operationId: string
+  /** Exported hook name, e.g. `useListPets` or `useListPetsInfinite`. */
+  hookName: string
+  /** Output path relative to the output directory, e.g. `pets/list-pets.ts`. */
+  filePath: string
+  /** Tag group the hook is generated in. */
+  tag: string
+  method: OperationMethod
+  path: string
+  summary?: string
+  deprecated: boolean
+  fetcher: FetcherName
+  /** Name of the params type in `types.ts`, or `null` when the operation has no path or query params. */
+  paramsType: string | null
+  /** Name of the request body type in `types.ts`, or `null` when there is no body. */
+  bodyType: string | null
+  /** Name of the response type in `types.ts`. */
+  responseType: string
+  /** Error union type name, or `Error` when the spec declares no error responses. */
+  errorType: string
+  /** Name of the response schema in `schemas.ts`, or `null` when Zod is disabled. */
+  responseSchema: string | null
+  /** Whether the hook sends credentials from the client's auth config. */
+  authenticated: boolean
+  /** Name of the SDK function the hook calls, or `null` for streaming and subscription hooks. */
+  sdkFunction: string | null
+  /** Import path of the `sdk/` barrel, relative to the hook file. */
+  sdkImport: string
+  /** Import path of the hook file's client, relative to the hook file. */
+  clientImport: string
+  /** Import path of `types.ts`, relative to the hook file. */
+  typesImport: string
+  /** The whole spec the hook is generated from. */
+  spec: ApiSpec
+  /** Options of the generation run. */
+  options: GeneratorOptions
+}
+
+/** View-model for `client.ts`. */
+export interface ClientView {
+  title: string
+  /** Base URL the client defaults to. */
+  baseUrl: string
+  fetcher: FetcherName
+  securitySchemes: ApiSecurityScheme[]
+  spec: ApiSpec
+  options: GeneratorOptions
+}
+
+/** View-model for the root `index.ts`. */
+export interface BarrelView {
+  fetcher: FetcherName
+  /** Tag group directories, in output order. */
+  groups: string[]
+  /** Whether `schemas.ts` is generated. */
+  zod: boolean
+  /** Whether the `sdk/` directory is generated. */
+  sdk: boolean
+  options: GeneratorOptions
+}
+
+/**
+ * Renders a file from its view-model.
+ *
+ * @param view - The view-model.
+ * @returns The file contents to write.
+ */
+export type Template<V> = (view: V) => string
+
+/** Template overrides. Files without a template are rendered by the generator's default templates. */
+export interface Templates {
+  /** Read hooks (`GET`, `QUERY`). */
+  queryHook?: Template<OperationView>
+  /** Write hooks (`POST`, `PUT`, `PATCH`, `DELETE`, `MUTATION`). */
+  mutationHook?: Template<OperationView>
+  /** Infinite query hooks for paginated operations. */
+  infiniteHook?: Template<OperationView>
+  /** GraphQL subscription hooks. */
+  subscriptionHook?: Template<OperationView>
+  /** Server-Sent Events stream hooks. */
+  streamHook?: Template<OperationView>
+  /** `client.ts`. */
+  client?: Template<ClientView>
+  /** The root `index.ts`. */
+  barrel?: Template<BarrelView>
+}
+
+/** The kinds of hook file a template can render. */
+export type HookTemplateKind = 'queryHook' | 'mutationHook' | 'infiniteHook' | 'subscriptionHook' | 'streamHook'
@@ -10,6 +10,7 @@ export {
   emitParamsInterface,
   emitRequestBodyType,
   emitResponseType,
+  emitErrorType,
 } from './typescript-emitter'
 
 export { emitZodSchemas, emitZodType } from './zod-emitter'
@@ -17,6 +17,7 @@ import type {
   ApiType,
   ApiUnionType,
 } from '../ir/types'
+import { getResponseDecoding, tagObjectVariant } from '../ir/helpers'
 import { toPascalCase } from '../utils/naming'
 
 // ---------------------------------------------------------------------------
@@ -28,16 +29,22 @@ import { toPascalCase } from '../utils/naming'
  *
  * The output includes:
  * - All named types from `spec.types` as interfaces / type aliases
- * - Per-operation params, request body, and response types
+ * - Per-operation params, request body, response and error types
  * - JSDoc comments where descriptions are available
  *
- * Every exported symbol is prefixed with `export`.
+ * Every exported symbol is prefixed with `export`. Error types reference the
+ * `ApiError` class from the generated `client.ts`.
  */
 export function emitTypeScriptTypes(spec: ApiSpec): string {
   const chunks: string[] = []
 
   chunks.push(fileHeader(spec))
 
+  if (spec.operations.some((op) => op.errors && op.errors.length > 0)) {
+    chunks.push(`import type { ApiError } from './client'`)
+    chunks.push('')
+  }
+
   // --- Named types ---------------------------------------------------------
   for (const [name, type] of spec.types) {
     chunks.push(emitNamedType(name, type))
@@ -56,6 +63,11 @@ export function emitTypeScriptTypes(spec: ApiSpec): string {
     }
 
     chunks.push(emitResponseType(op))
+
+    const errors = emitErrorType(op)
+    if (errors) {
+      chunks.push(errors)
+    }
   }
 
   return chunks.join('\n')
@@ -155,7 +167,9 @@ export function emitRequestBodyType(op: ApiOperation): string | null {
 /**
  * Emit a response type alias for an operation.
  *
- * The type is named `{PascalCase(operationId)}Response`.
+ * The type is named `{PascalCase(operationId)}Response`. It follows how the
+ * body is decoded: `void` without a body, `Blob` for binary media types and
+ * `string` for text.
  */
 export function emitResponseType(op: ApiOperation): string {
   const name = `${toPascalCase(op.operationId)}Response`
@@ -164,7 +178,51 @@ export function emitResponseType(op: ApiOperation): string {
   if (op.response.description) {
     lines.push(jsdoc(op.response.description))
   }
-  lines.push(`export type ${name} = ${emitTypeString(op.response.type)}`)
+  lines.push(`export type ${name} = ${emitDecodedResponseType(op)}`)
+  lines.push('')
+  return lines.join('\n')
+}
+
+/**
+ * The TypeScript type of an operation's decoded response body. For streaming
+ * operations this is the data of a single event.
+ */
+function emitDecodedResponseType(op: ApiOperation): string {
+  switch (getResponseDecoding(op.response)) {
+    case 'none':
+      return 'void'
+    case 'blob':
+      return 'Blob'
+    case 'text':
+      return 'string'
+    case 'json':
+    case 'stream':
+      return emitTypeString(op.response.type)
+  }
+}
+
+/**
+ * Emit an error union type for an operation, with one `ApiError<Status, Body>`
+ * member per declared error response. `4XX` / `5XX` ranges and `default`
+ * responses map to `ApiError<number, Body>`.
+ *
+ * Returns `null` if the operation declares no error responses.
+ *
+ * The type is named `{PascalCase(operationId)}Error`.
+ */
+export function emitErrorType(op: ApiOperation): string | null {
+  if (!op.errors || op.errors.length === 0) {
+    return null
+  }
+
+  const name = `${toPascalCase(op.operationId)}Error`
+  const lines: string[] = [`export type ${name} =`]
+
+  for (const error of op.errors) {
+    const status = typeof error.statusCode === 'number' ? String(error.statusCode) : 'number'
+    lines.push(indent(`| ApiError<${status}, ${emitTypeString(error.type)}>`))
+  }
+
   lines.push('')
   return lines.join('\n')
 }
@@ -191,7 +249,8 @@ function fileHeader(spec: ApiSpec): string {
 function emitPrimitive(type: ApiPrimitiveType): string {
   switch (type.type) {
     case 'string':
-      return 'string'
+      // File uploads and downloads
+      return type.format === 'binary' ? 'Blob | File' : 'string'
     case 'number':
     case 'integer':
       return 'number'
@@ -251,15 +310,30 @@ function emitEnum(type: ApiEnumType): string {
     .join(' | ')
 }
 
-/** Emit `A | B | C`. */
+/** Emit `A | B | C`, tagging each variant when the union has a discriminator. */
 function emitUnion(type: ApiUnionType): string {
   if (type.variants.length === 0) {
     return 'never'
   }
-  if (type.variants.length === 1) {
-    return emitTypeString(type.variants[0])
+  const variants = type.discriminator
+    ? type.variants.map((v, i) => emitTaggedVariant(v, type.discriminator!.propertyName, type.discriminator!.values[i]))
+    : type.variants.map((v) => emitTypeString(v))
+  return variants.join(' | ')
+}
+
+/**
+ * Emit a union variant with its discriminator property narrowed to the tag
+ * literal. Inline objects get the literal in place; anything else (e.g. a
+ * named type) is intersected with `{ tag: 'value' }`.
+ */
+function emitTaggedVariant(variant: ApiType, propertyName: string, tag: string): string {
+  if (variant.kind === 'object') {
+    return emitObjectInline(tagObjectVariant(variant, propertyName, tag))
   }
-  return type.variants.map((v) => emitTypeString(v)).join(' | ')
+
+  const inner = emitTypeString(variant)
+  const base = inner.includes('|') ? `(${inner})` : inner
+  return `${base} & { ${safePropName(propertyName)}: '${escapeString(tag)}' }`
 }
 
 /** Emit a reference to a named type. */
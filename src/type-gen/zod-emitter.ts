@@ -15,7 +15,9 @@ import type {
   ApiSpec,
   ApiType,
   ApiUnionType,
+  ApiDiscriminator,
 } from '../ir/types'
+import { getResponseDecoding, tagObjectVariant } from '../ir/helpers'
 import { toCamelCase } from '../utils/naming'
 
 // ---------------------------------------------------------------------------
@@ -25,6 +27,9 @@ import { toCamelCase } from '../utils/naming'
 /** Set of type names involved in cycles — their refs need z.lazy(). */
 let _circularTypes: Set<string> = new Set()
 
+/** Named types of the spec being emitted, used to inspect ref targets. */
+let _namedTypes: Map<string, ApiType> = new Map()
+
 /**
  * Build a dependency graph and detect which named types are part of cycles.
  * Any ref to a type in a cycle must use `z.lazy(() => schema)`.
@@ -75,6 +80,38 @@ function detectCircularTypes(types: Map<string, ApiType>): Set<string> {
   return circular
 }
 
+/**
+ * Order named types so that every type comes after the types it references.
+ * Schemas are `const` declarations, so a non-lazy reference to a schema
+ * declared further down would throw at module load. Cycles are broken
+ * arbitrarily — those refs are wrapped in `z.lazy()` anyway.
+ */
+function sortByDependencies(types: Map<string, ApiType>): string[] {
+  const sorted: string[] = []
+  const visited = new Set<string>()
+
+  function visit(name: string): void {
+    if (visited.has(name)) return
+    visited.add(name)
+
+    const refs = new Set<string>()
+    collectRefs(types.get(name)!, refs)
+    for (const dep of refs) {
+      if (types.has(dep)) {
+        visit(dep)
+      }
+    }
+
+    sorted.push(name)
+  }
+
+  for (const name of types.keys()) {
+    visit(name)
+  }
+
+  return sorted
+}
+
 /** Recursively collect all ref names from a type. */
 function collectRefs(type: ApiType, refs: Set<string>): void {
   switch (type.kind) {
@@ -110,7 +147,8 @@ function collectRefs(type: ApiType, refs: Set<string>): void {
  *
  * The output includes:
  * - `import { z } from 'zod'`
- * - A `const …Schema = z.…` for every named type in `spec.types`
+ * - A `const …Schema = z.…` for every named type in `spec.types`, ordered
+ *   so that referenced schemas are declared first
  * - A response schema for every operation
  * - Re-exports of all schemas
  *
@@ -121,14 +159,15 @@ export function emitZodSchemas(spec: ApiSpec): string {
 
   // Detect circular types before emitting
   _circularTypes = detectCircularTypes(spec.types)
+  _namedTypes = spec.types
 
   chunks.push(fileHeader(spec))
   chunks.push("import { z } from 'zod'")
   chunks.push('')
 
-  // --- Named type schemas -------------------------------------------------
-  for (const [name, type] of spec.types) {
-    chunks.push(emitNamedSchema(name, type))
+  // --- Named type schemas (dependencies first) ---------------------------
+  for (const name of sortByDependencies(spec.types)) {
+    chunks.push(emitNamedSchema(name, spec.types.get(name)!))
   }
 
   // --- Per-operation response schemas -------------------------------------
@@ -138,6 +177,7 @@ export function emitZodSchemas(spec: ApiSpec): string {
 
   // Reset module-level state
   _circularTypes = new Set()
+  _namedTypes = new Map()
 
   return chunks.join('\n')
 }
@@ -150,7 +190,7 @@ export function emitZodSchemas(spec: ApiSpec): string {
  * - `object`    -> `z.object({ ... })`
  * - `array`     -> `z.array(...)`
  * - `enum`      -> `z.enum([...])` for strings, `z.union([z.literal(...), ...])` for mixed
- * - `union`     -> `z.union([...])`
+ * - `union`     -> `z.union([...])`, or `z.discriminatedUnion(...)` with a discriminator
  * - `ref`       -> camelCase schema variable name
  */
 export function emitZodType(type: ApiType): string {
@@ -181,6 +221,7 @@ export function emitZodType(type: ApiType): string {
 function emitZodPrimitive(type: ApiPrimitiveType): string {
   switch (type.type) {
     case 'string':
+      if (type.format === 'binary') return 'z.instanceof(Blob)'
       return applyStringFormat('z.string()', type.format)
     case 'number':
       return 'z.number()'
@@ -288,6 +329,9 @@ function emitZodUnion(type: ApiUnionType): string {
   if (type.variants.length === 0) {
     return 'z.never()'
   }
+  if (type.discriminator) {
+    return emitZodDiscriminatedUnion(type, type.discriminator)
+  }
   if (type.variants.length === 1) {
     return emitZodType(type.variants[0])
   }
@@ -295,6 +339,40 @@ function emitZodUnion(type: ApiUnionType): string {
   return `z.union([${members}])`
 }
 
+/**
+ * Emit `z.discriminatedUnion('tag', [...])`.
+ *
+ * Every option must be a `z.object`: inline objects get the tag literal in
+ * place and refs to named object schemas are `.extend()`ed with it. When a
+ * variant is neither (e.g. a circular ref), falls back to a `z.union` of the
+ * variants intersected with their tag.
+ */
+function emitZodDiscriminatedUnion(type: ApiUnionType, discriminator: ApiDiscriminator): string {
+  const { propertyName, values } = discriminator
+  const key = safePropName(propertyName)
+  const options: string[] = []
+
+  for (const [i, variant] of type.variants.entries()) {
+    const literal = `z.literal('${escapeString(values[i])}')`
+    if (variant.kind === 'object') {
+      options.push(emitZodObject(tagObjectVariant(variant, propertyName, values[i])))
+    } else if (
+      variant.kind === 'ref' &&
+      !_circularTypes.has(variant.name) &&
+      _namedTypes.get(variant.name)?.kind === 'object'
+    ) {
+      options.push(`${schemaVarName(variant.name)}.extend({ ${key}: ${literal} })`)
+    } else {
+      const tagged = type.variants.map(
+        (v, j) => `${emitZodType(v)}.and(z.object({ ${key}: z.literal('${escapeString(values[j])}') }))`,
+      )
+      return `z.union([${tagged.join(', ')}])`
+    }
+  }
+
+  return `z.discriminatedUnion('${escapeString(propertyName)}', [${options.join(', ')}])`
+}
+
 /**
  * Emit a reference to a named schema variable.
  * Circular refs are wrapped with `z.lazy()` to avoid runtime errors.
@@ -344,11 +422,29 @@ function emitOperationResponseSchema(op: ApiOperation): string {
     lines.push(jsdoc(op.response.description))
   }
 
-  lines.push(`export const ${varName} = ${emitZodType(op.response.type)}`)
+  lines.push(`export const ${varName} = ${emitDecodedResponseSchema(op)}`)
   lines.push('')
   return lines.join('\n')
 }
 
+/**
+ * The Zod schema of an operation's decoded response body. For streaming
+ * operations this validates the data of a single event.
+ */
+function emitDecodedResponseSchema(op: ApiOperation): string {
+  switch (getResponseDecoding(op.response)) {
+    case 'none':
+      return 'z.void()'
+    case 'blob':
+      return 'z.instanceof(Blob)'
+    case 'text':
+      return 'z.string()'
+    case 'json':
+    case 'stream':
+      return emitZodType(op.response.type)
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Formatting utilities
 // ---------------------------------------------------------------------------
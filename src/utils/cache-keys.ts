@@ -1,8 +1,9 @@
 /**
- * Smart cache key derivation for React Query and SWR.
+ * Smart cache key derivation for React Query and SWR, the keys mutations
+ * invalidate, and cache tags for RTK Query.
  */
 import type { ApiOperation } from '../ir/types'
-import { extractResource, toCamelCase, isDetailEndpoint, toPascalCase } from './naming'
+import { extractResource, toCamelCase, isDetailEndpoint, toPascalCase, singularize } from './naming'
 
 /**
  * Represents a cache key factory for a resource group.
@@ -74,8 +75,12 @@ export function deriveCacheKeyFactories(
 /**
  * Get the cache key expression for a specific operation.
  * Returns the key factory call expression as a string.
+ *
+ * @param params - Expression holding the operation's params. Path params are
+ *   read from it, and list endpoints with path params key on it too.
+ *   Without it, path params are referenced by name.
  */
-export function getCacheKeyForOperation(op: ApiOperation): string {
+export function getCacheKeyForOperation(op: ApiOperation, params?: string): string {
   const resource = extractResource(op.path)
   const singular = toCamelCase(resource)
   const keysVar = `${singular}Keys`
@@ -84,32 +89,192 @@ export function getCacheKeyForOperation(op: ApiOperation): string {
     // Detail endpoint — extract path param
     const pathParam = op.pathParams[op.pathParams.length - 1]
     if (pathParam) {
-      return `${keysVar}.detail(${pathParam.name})`
+      return `${keysVar}.detail(${params ? `${params}.${pathParam.name}` : pathParam.name})`
     }
     return `${keysVar}.details()`
   }
 
   // List endpoint
-  if (op.queryParams.length > 0) {
-    return `${keysVar}.list(params)`
+  if (op.queryParams.length > 0 || (params && op.pathParams.length > 0)) {
+    return `${keysVar}.list(${params ?? 'params'})`
   }
   return `${keysVar}.lists()`
 }
 
+/**
+ * Emit the `query-keys.ts` module declaring the given key factories.
+ *
+ * @param library - Query library named in the file header, e.g. `TanStack React Query`.
+ */
+export function emitQueryKeyFactories(factories: CacheKeyFactory[], library: string): string {
+  const lines: string[] = [
+    `/**`,
+    ` * Query key factories for ${library}.`,
+    ` * Generated by auto-api-hooks — do not edit manually.`,
+    ` */`,
+    ``,
+  ]
+
+  for (const factory of factories) {
+    lines.push(
+      `export const ${factory.variableName} = {`,
+      `  all: [${factory.rootKey.map((k) => `'${k}'`).join(', ')}] as const,`,
+    )
+    if (factory.hasList) {
+      lines.push(
+        `  lists: () => [...${factory.variableName}.all, 'list'] as const,`,
+        `  list: (params?: object) => [...${factory.variableName}.lists(), params] as const,`,
+      )
+    }
+    if (factory.hasDetail) {
+      lines.push(
+        `  details: () => [...${factory.variableName}.all, 'detail'] as const,`,
+        `  detail: (id: string | number) => [...${factory.variableName}.details(), id] as const,`,
+      )
+    }
+    lines.push(`} as const`, ``)
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Get the RTK Query tag type for an operation's resource.
+ * `/pets/{petId}` → 'Pet'
+ */
+export function getTagType(op: ApiOperation): string {
+  return toPascalCase(singularize(extractResource(op.path)))
+}
+
+/**
+ * Derive the tag types of every resource the operations touch, for the
+ * `tagTypes` of an RTK Query API slice.
+ */
+export function deriveTagTypes(operations: ApiOperation[]): string[] {
+  return [...new Set(operations.map(getTagType))]
+}
+
+/**
+ * Get the tags an RTK Query endpoint provides (queries) or invalidates
+ * (mutations), as an array or a function of the endpoint's arg.
+ *
+ * Detail endpoints tag the entity by their last path param, read from
+ * `params`; other endpoints tag the resource's list. Mutations on a detail
+ * endpoint invalidate the list too.
+ *
+ * @param arg - Name of the endpoint's arg, e.g. `vars`.
+ * @param params - Expression holding the path params, e.g. `vars.params`.
+ */
+export function getTagsForOperation(op: ApiOperation, arg: string, params: string): string {
+  const type = getTagType(op)
+  const list = `{ type: '${type}', id: 'LIST' }`
+  const pathParam = op.pathParams[op.pathParams.length - 1]
+
+  if (!isDetailEndpoint(op.path) || !pathParam) return `[${list}]`
+
+  const tags = [`{ type: '${type}', id: ${params}.${pathParam.name} }`]
+  if (op.method !== 'GET' && op.method !== 'QUERY') tags.push(list)
+  return `(_result, _error, ${arg}) => [${tags.join(', ')}]`
+}
+
+/**
+ * Get the paths of the GET operations whose cached responses a mutation
+ * makes stale: its `x-invalidates` paths, or by default the list of its
+ * resource and, for detail endpoints, the entity itself. Reads and GraphQL
+ * operations invalidate nothing by default.
+ *
+ * `POST /users` → `['/users']`, `PUT /users/{id}` → `['/users/{id}', '/users']`
+ */
+export function getInvalidatedPaths(op: ApiOperation): string[] {
+  if (op.invalidates) return op.invalidates
+  if (op.graphql || op.method === 'GET') return []
+  if (!isDetailEndpoint(op.path)) return [op.path]
+  const listPath = op.path.slice(0, op.path.lastIndexOf('/'))
+  return listPath ? [op.path, listPath] : [op.path]
+}
+
+/**
+ * Get the query keys a mutation invalidates, as key factory calls: `lists()`
+ * for list paths, and `detail(id)` for detail paths keyed by one of the
+ * mutation's path params (`details()` otherwise). Paths whose resource has no
+ * matching factory are skipped.
+ *
+ * @param params - Expression holding the mutation's params, e.g. `vars.params`.
+ */
+export function getInvalidatedQueryKeys(
+  op: ApiOperation,
+  factories: CacheKeyFactory[],
+  params: string,
+): string[] {
+  const keys = new Set<string>()
+
+  for (const path of getInvalidatedPaths(op)) {
+    const factory = factories.find((f) => f.rootKey[0] === extractResource(path))
+    if (!factory) continue
+
+    if (!isDetailEndpoint(path)) {
+      if (factory.hasList) keys.add(`${factory.variableName}.lists()`)
+      continue
+    }
+    if (!factory.hasDetail) continue
+
+    // Detail keys hold a single id, so entities under several path params are covered by details()
+    const names = getPathParamNames(path)
+    keys.add(names.length === 1 && op.pathParams.some((p) => p.name === names[0])
+      ? `${factory.variableName}.detail(${params}.${names[0]})`
+      : `${factory.variableName}.details()`)
+  }
+
+  return [...keys]
+}
+
+/**
+ * Get the conditions matching the SWR keys a mutation invalidates, tested
+ * against `pathname`: the path of a key without its query string. Path params
+ * the mutation has are filled in from `params`; others match any segment.
+ *
+ * @param params - Expression holding the mutation's params, e.g. `arg.params`.
+ */
+export function getInvalidatedSwrPaths(op: ApiOperation, params: string): string[] {
+  const conditions = getInvalidatedPaths(op).map((path) => {
+    const names = getPathParamNames(path)
+    if (names.length === 0) return `pathname === '${path}'`
+
+    if (names.every((name) => op.pathParams.some((p) => p.name === name))) {
+      return `pathname === \`${path.replace(/\{([^}]+)\}/g, (_match, name: string) => `\${${params}.${name}}`)}\``
+    }
+    const pattern = path
+      .split(/\{[^}]+\}/)
+      .map((part) => part.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&'))
+      .join('[^/]+')
+    return `/^${pattern}$/.test(pathname)`
+  })
+  return [...new Set(conditions)]
+}
+
+/** Names of the path params in a path template, e.g. `['userId', 'postId']`. */
+function getPathParamNames(path: string): string[] {
+  return [...path.matchAll(/\{([^}]+)\}/g)].map((match) => match[1])
+}
+
 /**
  * Generate a SWR-style string cache key from an operation.
+ *
+ * @param params - Expression holding the operation's params, which path
+ *   params and the query string are read from. Without it, path params are
+ *   referenced by name and the query string is read from `params`.
  */
-export function getSwrKey(op: ApiOperation): string {
+export function getSwrKey(op: ApiOperation, params?: string): string {
   const pathParams = op.pathParams.map((p) => p.name)
   let key = op.path
 
   // Replace {param} with template literal expressions
   for (const param of pathParams) {
-    key = key.replace(`{${param}}`, `\${${param}}`)
+    key = key.replace(`{${param}}`, `\${${params ? `${params}.${param}` : param}}`)
   }
 
   if (op.queryParams.length > 0) {
-    return `\`${key}?\${new URLSearchParams(params as Record<string, string>).toString()}\``
+    return `\`${key}?\${new URLSearchParams(${params ?? 'params'} as Record<string, string>).toString()}\``
   }
 
   if (pathParams.length > 0) {
@@ -121,20 +286,24 @@ export function getSwrKey(op: ApiOperation): string {
 
 /**
  * Get the React Query query key for an operation (as code string).
+ *
+ * @param params - Expression holding the operation's params, which path
+ *   params are read from and list keys hold. Without it, path params are
+ *   referenced by name and list keys hold `params`.
  */
-export function getQueryKey(op: ApiOperation): string {
+export function getQueryKey(op: ApiOperation, params?: string): string {
   const resource = extractResource(op.path)
   const parts: string[] = [`'${resource}'`]
 
   if (isDetailEndpoint(op.path)) {
     parts.push(`'detail'`)
     for (const p of op.pathParams) {
-      parts.push(p.name)
+      parts.push(params ? `${params}.${p.name}` : p.name)
     }
   } else {
     parts.push(`'list'`)
     if (op.queryParams.length > 0) {
-      parts.push('params')
+      parts.push(params ?? 'params')
     }
   }
 
@@ -36,3 +36,24 @@ export class ValidationError extends AutoApiHooksError {
     this.name = 'ValidationError'
   }
 }
+
+export class ConfigError extends AutoApiHooksError {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ConfigError'
+  }
+}
+
+export class PluginError extends AutoApiHooksError {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PluginError'
+  }
+}
+
+export class TemplateError extends AutoApiHooksError {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TemplateError'
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Glob expansion for locating input files.
+ *
+ * Matching is done by `tinyglobby`. Directories named `node_modules` are
+ * never searched.
+ */
+import { resolve } from 'node:path'
+import { glob, isDynamicPattern } from 'tinyglobby'
+
+/**
+ * Expands glob patterns into the files they match.
+ *
+ * Patterns without glob characters are returned as-is, whether the file
+ * exists or not, so a missing file is reported by whoever reads it.
+ *
+ * @param patterns - Glob patterns or file paths.
+ * @param cwd - Directory relative patterns are resolved against.
+ * @returns Absolute file paths, sorted and without duplicates.
+ */
+export async function expandGlobs(patterns: string[], cwd: string = process.cwd()): Promise<string[]> {
+  const files = new Set<string>()
+
+  for (const pattern of patterns) {
+    if (!isDynamicPattern(pattern)) {
+      files.add(resolve(cwd, pattern))
+      continue
+    }
+
+    const matches = await glob(pattern, {
+      cwd,
+      absolute: true,
+      onlyFiles: true,
+      ignore: ['**/node_modules/**'],
+      expandDirectories: false,
+    })
+    for (const file of matches) files.add(resolve(file))
+  }
+
+  return [...files].sort()
+}